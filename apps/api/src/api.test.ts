@@ -3,18 +3,46 @@
  *
  * Tests cover:
  *   - GET  /health
- *   - POST /simulate         (valid, invalid, determinism)
- *   - POST /simulate/branch  (valid, invalid)
- *   - POST /simulate/compare (valid, delta structure)
+ *   - POST /simulate         (valid, invalid, determinism, life events, conversion audit)
+ *   - POST /simulate/branch  (valid, invalid, patches)
+ *   - POST /simulate/compare (valid, delta structure, timeline, patches)
+ *   - POST /simulate/scenarios (matrix of deltas, duplicate names)
+ *   - /jobs                  (worker threads, progress, timeout, cancellation, queueing)
+ *   - /trees                 (nested branches, node identity, evaluation)
+ *   - /scenarios             (CRUD, stored re-runs, file persistence, versions and diffs)
+ *   - POST /import/transactions (CSV mappings, OFX, recurring proposals)
+ *   - POST /export           (CSV, NDJSON and XLSX tables, columns, aggregation)
+ *   - Result cache           (hits, ETag revalidation, size and TTL limits)
  *   - Error handling          (validation, payload limits, engine errors)
  */
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inflateRawSync } from 'node:zlib';
 import { describe, expect, it, beforeAll, afterAll } from 'vitest';
 import type { FastifyInstance } from 'fastify';
 import { buildApp } from './app.js';
+import { FileScenarioStorage } from './scenarios.js';
 import {
   ApiErrorSchema,
   SimulationOutputSchema,
+  SimulationJobSchema,
+  SimulationSummarySchema,
+  SolveResultSchema,
+  SensitivityReportSchema,
   BranchComparisonResultSchema,
+  ScenarioComparisonResultSchema,
+  BranchTreeSchema,
+  BranchNodeSchema,
+  BranchTreeEvaluationSchema,
+  SavedScenarioSchema,
+  SavedScenarioRunSchema,
+  ScenarioVersionDiffSchema,
+  ImportResultSchema,
+  type BranchNode,
+  type BranchTree,
+  type SavedScenario,
+  type SimulationJob,
 } from '@future-wallet/shared-types';
 import type { SimulationInput } from '@future-wallet/shared-types';
 
@@ -60,6 +88,20 @@ const VALID_INPUT: SimulationInput = {
   exchangeRates: [],
 };
 
+const FX_INPUT: SimulationInput = {
+  ...VALID_INPUT,
+  monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+  incomeStreams: [{ ...VALID_INPUT.incomeStreams[0], currency: 'EUR' }],
+  expenses: [
+    { ...VALID_INPUT.expenses[0], currency: 'GBP' },
+    { ...VALID_INPUT.expenses[1], currency: 'EUR' },
+  ],
+  exchangeRates: [
+    { from: 'EUR', to: 'USD', rate: 1.1, date: '2026-01-01', volatility: 0 },
+    { from: 'GBP', to: 'USD', rate: 1.25, date: '2026-01-01', volatility: 0 },
+  ],
+};
+
 const VALID_BRANCH_REQUEST = {
   baseInput: VALID_INPUT,
   branchAtDay: 10,
@@ -68,6 +110,12 @@ const VALID_BRANCH_REQUEST = {
   },
 };
 
+const CHEAPER_FOOD_REQUEST = {
+  baseInput: VALID_INPUT,
+  branchAtDay: 10,
+  patch: { expenses: { update: [{ id: '33333333-3333-3333-3333-333333333333', amount: 10 }] } },
+};
+
 // ─── App lifecycle ──────────────────────────────────────────────────────────────
 
 let app: FastifyInstance;
@@ -235,6 +283,168 @@ describe('POST /simulate', () => {
     expect(body.details).toBeDefined();
     expect(body.details.fieldErrors).toBeDefined();
   });
+
+  it('reports applied life events', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate',
+      payload: {
+        ...VALID_INPUT,
+        events: [
+          {
+            id: '44444444-4444-4444-4444-444444444444',
+            name: 'Medical bill',
+            day: 10,
+            type: 'cash_shock',
+            amount: -8000,
+            currency: 'USD',
+          },
+        ],
+      },
+    });
+    expect(res.statusCode).toBe(200);
+    const body = SimulationOutputSchema.parse(res.json());
+    expect(body.appliedEvents).toEqual([
+      expect.objectContaining({ name: 'Medical bill', day: 10, balanceImpact: -8000 }),
+    ]);
+  });
+
+  it('returns 400 VALIDATION_ERROR for events targeting unknown items', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate',
+      payload: {
+        ...VALID_INPUT,
+        events: [
+          {
+            id: '44444444-4444-4444-4444-444444444444',
+            name: 'Layoff',
+            day: 5,
+            type: 'income_suspension',
+            incomeStreamId: '99999999-9999-9999-9999-999999999999',
+          },
+        ],
+      },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: {
+        fieldErrors: {
+          events: [
+            'events.0.incomeStreamId names unknown income stream "99999999-9999-9999-9999-999999999999"',
+          ],
+        },
+      },
+    });
+  });
+
+  it('returns 400 VALIDATION_ERROR for a job loss hazard on an unknown income stream', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate',
+      payload: {
+        ...VALID_INPUT,
+        shockConfig: {
+          hazards: [
+            {
+              kind: 'job_loss',
+              annualRate: 1,
+              severity: { distribution: 'fixed', value: 30 },
+              incomeStreamId: '99999999-9999-9999-9999-999999999999',
+            },
+          ],
+        },
+      },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: {
+        fieldErrors: {
+          shockConfig: [
+            'shockConfig.hazards.0.incomeStreamId names unknown income stream "99999999-9999-9999-9999-999999999999"',
+          ],
+        },
+      },
+    });
+  });
+});
+
+// ─── POST /simulate conversion audit ────────────────────────────────────────────
+
+describe('POST /simulate?conversionLog', () => {
+  it('omits the conversion audit unless requested', async () => {
+    const res = await app.inject({ method: 'POST', url: '/simulate', payload: FX_INPUT });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().conversionAudit).toBeUndefined();
+  });
+
+  it('attaches every conversion of the primary run with totals', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate?conversionLog=true',
+      payload: FX_INPUT,
+    });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(SimulationOutputSchema.safeParse(body).success).toBe(true);
+
+    // Salary + rent on Jan 1, food daily for 30 days
+    const { entries, totals } = body.conversionAudit;
+    expect(entries).toHaveLength(32);
+    expect(entries[0]).toMatchObject({
+      day: 0,
+      from: 'EUR',
+      to: 'USD',
+      originalAmount: 3000,
+      context: 'income:Salary',
+      path: ['EUR', 'USD'],
+    });
+
+    const eur = totals.find((t: { currency: string }) => t.currency === 'EUR');
+    expect(eur).toEqual({ currency: 'EUR', conversions: 31, sent: 3000 + 30 * 30, received: 0 });
+    const usd = totals.find((t: { currency: string }) => t.currency === 'USD');
+    expect(usd.received).toBeCloseTo(3900 * 1.1 + 1500 * 1.25, 8);
+  });
+
+  it('filters by day range and context prefix', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate?conversionLog=true&fromDay=5&toDay=9&contextPrefix=expense:',
+      payload: FX_INPUT,
+    });
+    expect(res.statusCode).toBe(200);
+    const { entries, totals } = res.json().conversionAudit;
+
+    expect(entries).toHaveLength(5);
+    for (const entry of entries) {
+      expect(entry.day).toBeGreaterThanOrEqual(5);
+      expect(entry.day).toBeLessThanOrEqual(9);
+      expect(entry.context).toBe('expense:Food');
+    }
+    expect(totals.map((t: { currency: string }) => t.currency)).toEqual(['EUR', 'USD']);
+  });
+
+  it('rejects an inverted day range', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate?conversionLog=true&fromDay=10&toDay=2',
+      payload: FX_INPUT,
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().code).toBe('VALIDATION_ERROR');
+  });
+
+  it('rejects non-numeric day bounds', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate?conversionLog=true&fromDay=soon',
+      payload: FX_INPUT,
+    });
+    expect(res.statusCode).toBe(400);
+    expect(ApiErrorSchema.safeParse(res.json()).success).toBe(true);
+  });
 });
 
 // ─── POST /simulate/branch ──────────────────────────────────────────────────────
@@ -305,6 +515,61 @@ describe('POST /simulate/branch', () => {
     expect(body1.baseline.finalBalance.expected).toBe(body2.baseline.finalBalance.expected);
     expect(body1.branch.finalBalance.expected).toBe(body2.branch.finalBalance.expected);
   });
+
+  it('applies a patch on top of the baseline collections', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/branch',
+      payload: CHEAPER_FOOD_REQUEST,
+    });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+
+    // Rent and salary are untouched; only the daily food bill shrinks
+    const lastDay = body.branch.snapshots.at(-1);
+    expect(lastDay.totalExpenses).toBeLessThan(body.baseline.snapshots.at(-1).totalExpenses);
+    expect(body.branch.finalBalance.expected).toBeGreaterThan(body.baseline.finalBalance.expected);
+  });
+
+  it('returns 400 when a patch names an unknown id', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/branch',
+      payload: {
+        ...CHEAPER_FOOD_REQUEST,
+        patch: { incomeStreams: { remove: ['99999999-9999-4999-8999-999999999999'] } },
+      },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({ code: 'VALIDATION_ERROR', error: /not found/ });
+  });
+
+  it('returns 400 when the branch input names items it does not have', async () => {
+    const salary = VALID_INPUT.incomeStreams[0].id;
+    const layoff = {
+      id: '44444444-4444-4444-8444-444444444444',
+      name: 'Layoff',
+      type: 'income_suspension',
+      day: 20,
+      incomeStreamId: salary,
+    };
+    const baseInput = { ...VALID_INPUT, events: [layoff] };
+    const unknownExpense = {
+      ...layoff,
+      type: 'expense_change',
+      expenseId: '99999999-9999-4999-8999-999999999999',
+      amount: 0,
+    };
+    for (const payload of [
+      { baseInput, branchAtDay: 10, patch: { incomeStreams: { remove: [salary] } } },
+      { baseInput, branchAtDay: 10, modifiedInput: { incomeStreams: [] } },
+      { baseInput: VALID_INPUT, branchAtDay: 10, modifiedInput: { events: [unknownExpense] } },
+    ]) {
+      const res = await app.inject({ method: 'POST', url: '/simulate/branch', payload });
+      expect(res.statusCode).toBe(400);
+      expect(res.json()).toMatchObject({ code: 'VALIDATION_ERROR', error: /names unknown/ });
+    }
+  });
 });
 
 // ─── POST /simulate/compare ─────────────────────────────────────────────────────
@@ -399,6 +664,1250 @@ describe('POST /simulate/compare', () => {
       body.branch.collapseProbability - body.baseline.collapseProbability;
     expect(body.deltas.collapseProbabilityDiff).toBeCloseTo(expectedCollapseDiff, 10);
   });
+
+  it('returns a day-by-day timeline of deltas from the branch day', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/compare',
+      payload: CHEAPER_FOOD_REQUEST,
+    });
+    const { timeline, baseline, branch } = res.json();
+
+    expect(timeline.series).toHaveLength(20);
+    expect(timeline.series[0].day).toBe(10);
+    // Cheaper food saves $20 a day from the branch day, so the branch is ahead at once
+    expect(timeline.series[0].cumulativeCashDiff).toBeCloseTo(20, 6);
+    expect(timeline.cumulativeCashDiff).toBeCloseTo(400, 6);
+    expect(timeline.breakEvenDay).toBe(10);
+    expect(timeline.crossoverDay).toBeNull();
+    expect(timeline.series.at(-1).balanceDiff).toBeCloseTo(
+      branch.snapshots.at(-1).balance - baseline.snapshots.at(-1).balance,
+      6,
+    );
+  });
+
+  it('compares a patched branch the same way as /simulate/branch runs it', async () => {
+    const [compare, branch] = await Promise.all(
+      ['/simulate/compare', '/simulate/branch'].map((url) =>
+        app.inject({ method: 'POST', url, payload: CHEAPER_FOOD_REQUEST }),
+      ),
+    );
+    expect(compare.statusCode).toBe(200);
+    const body = compare.json();
+
+    expect(body.branch.finalBalance).toEqual(branch.json().branch.finalBalance);
+    expect(body.deltas.finalBalanceDiff).toBeGreaterThan(0);
+  });
+});
+
+// ─── POST /simulate/scenarios ───────────────────────────────────────────────────
+
+describe('POST /simulate/scenarios', () => {
+  const SCENARIOS = {
+    baseInput: VALID_INPUT,
+    scenarios: [
+      { name: 'No food', branchAtDay: 5, modifiedInput: { expenses: [VALID_INPUT.expenses[0]] } },
+      { name: 'Unchanged', branchAtDay: 10, modifiedInput: {} },
+    ],
+  };
+
+  it('returns one delta row per scenario against a shared baseline', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/scenarios',
+      payload: SCENARIOS,
+    });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+
+    expect(ScenarioComparisonResultSchema.safeParse(body).success).toBe(true);
+    expect(body.scenarios.map((s: { name: string }) => s.name)).toEqual(['No food', 'Unchanged']);
+    expect(body.scenarios[0].deltas.finalBalanceDiff).toBeGreaterThan(0);
+    expect(body.scenarios[1].deltas.finalBalanceDiff).toBe(0);
+  });
+
+  it('matches the single-branch comparison for each scenario', async () => {
+    const [scenarios, compare] = await Promise.all([
+      app.inject({ method: 'POST', url: '/simulate/scenarios', payload: SCENARIOS }),
+      app.inject({
+        method: 'POST',
+        url: '/simulate/compare',
+        payload: {
+          baseInput: VALID_INPUT,
+          branchAtDay: 5,
+          modifiedInput: SCENARIOS.scenarios[0].modifiedInput,
+        },
+      }),
+    ]);
+
+    expect(scenarios.json().scenarios[0].deltas).toEqual(compare.json().deltas);
+  });
+
+  it('returns 400 for duplicate scenario names', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/scenarios',
+      payload: { ...SCENARIOS, scenarios: [SCENARIOS.scenarios[0], SCENARIOS.scenarios[0]] },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 when the baseline and branches would exceed the run budget', async () => {
+    const baseInput = {
+      ...VALID_INPUT,
+      horizonDays: 365,
+      monteCarloConfig: { runs: 1000, perturbationFactor: 0 },
+    };
+    const scenarios = [5, 10, 15, 20, 25].map((day) => ({
+      name: `Day ${day}`,
+      branchAtDay: day,
+      modifiedInput: {},
+    }));
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/scenarios',
+      payload: { baseInput, scenarios },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { simulatedDays: 365 * 1000 * 6, maxSimulatedDays: 2_000_000 },
+    });
+  });
+
+  it('returns 500 when a scenario branches past the horizon', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/scenarios',
+      payload: { ...SCENARIOS, scenarios: [{ name: 'Late', branchAtDay: 31, modifiedInput: {} }] },
+    });
+    expect(res.statusCode).toBe(500);
+    expect(ApiErrorSchema.safeParse(res.json()).success).toBe(true);
+  });
+});
+
+// ─── Goal seek ──────────────────────────────────────────────────────────────────
+
+describe('POST /simulate/solve', () => {
+  const RENT = `expenses.${VALID_INPUT.expenses[0].id}.amount`;
+  const SOLVE = {
+    input: { ...VALID_INPUT, monteCarloConfig: { runs: 1, perturbationFactor: 0 } },
+    parameter: 'initialBalance',
+    metric: 'expectedFinalBalance',
+    target: 20000,
+    bounds: { min: 0, max: 50000 },
+  };
+
+  it('returns the parameter value that reaches the target', async () => {
+    const res = await app.inject({ method: 'POST', url: '/simulate/solve', payload: SOLVE });
+    expect(res.statusCode).toBe(200);
+
+    const body = SolveResultSchema.parse(res.json());
+    expect(body.converged).toBe(true);
+    expect(body.achieved).toBeCloseTo(20000, 4);
+    expect(body.iterations.slice(0, 2).map((i) => i.value)).toEqual([0, 50000]);
+
+    const check = await app.inject({
+      method: 'POST',
+      url: '/simulate',
+      payload: { ...SOLVE.input, initialBalance: body.value },
+    });
+    expect(check.json().finalBalance.expected).toBe(body.achieved);
+  });
+
+  it('returns 400 when the search would exceed the run budget', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/solve',
+      payload: {
+        ...SOLVE,
+        input: {
+          ...VALID_INPUT,
+          horizonDays: 365,
+          monteCarloConfig: { runs: 1000, perturbationFactor: 0 },
+        },
+      },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { simulatedDays: 365 * 1000 * 42, maxSimulatedDays: 2_000_000 },
+    });
+
+    const runs = await app.inject({
+      method: 'POST',
+      url: '/simulate/solve',
+      payload: {
+        ...SOLVE,
+        parameter: 'monteCarloConfig.runs',
+        bounds: { min: 1, max: 1000 },
+        maxIterations: 200,
+      },
+    });
+    expect(runs.statusCode).toBe(400);
+    expect(runs.json().details.simulatedDays).toBe(30 * 1000 * 202);
+  });
+
+  it('returns 400 for an unknown parameter', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/solve',
+      payload: { ...SOLVE, parameter: 'expenses.nope.amount' },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(res.json().error).toMatch(/Unknown parameter/);
+  });
+
+  it('returns 400 when a bound makes the input invalid', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/solve',
+      payload: { ...SOLVE, parameter: RENT, bounds: { min: -100, max: 5000 } },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().error).toMatch(/Bound -100/);
+  });
+
+  it('returns 400 for inverted bounds', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/solve',
+      payload: { ...SOLVE, bounds: { min: 10, max: 5 } },
+    });
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+// ─── Sensitivity ────────────────────────────────────────────────────────────────
+
+describe('POST /simulate/sensitivity', () => {
+  const input = { ...VALID_INPUT, monteCarloConfig: { runs: 1, perturbationFactor: 0 } };
+
+  it('returns entries for every amount, ranked by impact', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/sensitivity',
+      payload: { input, variation: 0.2 },
+    });
+    expect(res.statusCode).toBe(200);
+
+    const report = SensitivityReportSchema.parse(res.json());
+    expect(report.rankBy).toBe('finalBalance');
+    expect(report.entries.map((e) => e.label)).toEqual([
+      'Salary amount',
+      'Rent amount',
+      'Food amount',
+    ]);
+    expect(report.entries[0].high.finalBalance).toBeGreaterThan(0);
+    expect(report.entries[1].high.finalBalance).toBeLessThan(0);
+  });
+
+  it('returns 400 for an out-of-range variation', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/sensitivity',
+      payload: { input, variation: 1.5 },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json().code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 when the report would exceed the run budget', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/sensitivity',
+      payload: {
+        input: {
+          ...VALID_INPUT,
+          horizonDays: 365,
+          monteCarloConfig: { runs: 1000, perturbationFactor: 0 },
+        },
+      },
+    });
+    expect(res.statusCode).toBe(400);
+    expect(res.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { simulatedDays: 365 * 1000 * 7, maxSimulatedDays: 2_000_000 },
+    });
+  });
+});
+
+// ─── Simulation jobs ────────────────────────────────────────────────────────────
+
+/** Ten years, 200 runs: long enough to still be running when inspected */
+const SLOW_INPUT: SimulationInput = {
+  ...VALID_INPUT,
+  horizonDays: 3650,
+  monteCarloConfig: { runs: 200, perturbationFactor: 0.05 },
+};
+
+async function pollJob(server: FastifyInstance, id: string): Promise<SimulationJob> {
+  for (;;) {
+    const job = SimulationJobSchema.parse((await server.inject(`/jobs/${id}`)).json());
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+describe('/jobs', () => {
+  it('runs a simulation in a worker and reports the result', async () => {
+    const input = { ...VALID_INPUT, monteCarloConfig: { runs: 5, perturbationFactor: 0.05 } };
+    const res = await app.inject({ method: 'POST', url: '/jobs', payload: input });
+    expect(res.statusCode).toBe(202);
+    const job = SimulationJobSchema.parse(res.json());
+    expect(res.headers.location).toBe(`/jobs/${job.id}`);
+    expect(job.progress).toEqual({ completedRuns: 0, totalRuns: 5 });
+
+    const done = await pollJob(app, job.id);
+    expect(done.status).toBe('succeeded');
+    expect(done.progress.completedRuns).toBe(5);
+
+    const direct = (await app.inject({ method: 'POST', url: '/simulate', payload: input })).json();
+    expect({ ...done.result, computedAt: '' }).toEqual({ ...direct, computedAt: '' });
+  }, 20_000);
+
+  it('spreads Monte Carlo runs over runWorkers threads with the same result', async () => {
+    const server = await buildApp({ jobs: { runWorkers: 2 } });
+    try {
+      const input = { ...VALID_INPUT, monteCarloConfig: { runs: 9, perturbationFactor: 0.05 } };
+      const res = await server.inject({ method: 'POST', url: '/jobs', payload: input });
+      const done = await pollJob(server, res.json().id);
+      expect(done.status).toBe('succeeded');
+      expect(done.progress).toEqual({ completedRuns: 9, totalRuns: 9 });
+
+      const direct = (
+        await app.inject({ method: 'POST', url: '/simulate', payload: input })
+      ).json();
+      expect({ ...done.result, computedAt: '' }).toEqual({ ...direct, computedAt: '' });
+    } finally {
+      await server.close();
+    }
+  }, 30_000);
+
+  it('returns 400 for invalid input or timeout', async () => {
+    const invalid = await app.inject({ method: 'POST', url: '/jobs', payload: { seed: 1 } });
+    expect(invalid.statusCode).toBe(400);
+
+    const badTimeout = await app.inject({
+      method: 'POST',
+      url: '/jobs?timeoutMs=-5',
+      payload: VALID_INPUT,
+    });
+    expect(badTimeout.statusCode).toBe(400);
+    expect(badTimeout.json().code).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 404 NOT_FOUND for unknown jobs', async () => {
+    const id = '00000000-0000-0000-0000-000000000000';
+    for (const method of ['GET', 'DELETE'] as const) {
+      const res = await app.inject({ method, url: `/jobs/${id}` });
+      expect(res.statusCode).toBe(404);
+      expect(res.json().code).toBe('NOT_FOUND');
+    }
+  });
+
+  it('fails jobs that exceed their time limit with TIMEOUT_ERROR', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/jobs?timeoutMs=50',
+      payload: SLOW_INPUT,
+    });
+    const done = await pollJob(app, res.json().id);
+
+    expect(done.status).toBe('failed');
+    expect(done.error).toMatchObject({ code: 'TIMEOUT_ERROR', details: { timeoutMs: 50 } });
+    expect(done.result).toBeUndefined();
+  }, 20_000);
+
+  it('queues jobs beyond the concurrency limit and cancels them', async () => {
+    const server = await buildApp({ jobs: { maxConcurrent: 1 } });
+    try {
+      const first = (
+        await server.inject({ method: 'POST', url: '/jobs', payload: SLOW_INPUT })
+      ).json();
+      const second = (
+        await server.inject({ method: 'POST', url: '/jobs', payload: SLOW_INPUT })
+      ).json();
+      expect(first.status).toBe('running');
+      expect(second.status).toBe('queued');
+
+      const cancelled = await server.inject({ method: 'DELETE', url: `/jobs/${first.id}` });
+      expect(cancelled.statusCode).toBe(200);
+      expect(cancelled.json().status).toBe('cancelled');
+      expect((await server.inject(`/jobs/${first.id}`)).statusCode).toBe(404);
+
+      // The freed slot goes to the queued job
+      expect((await server.inject(`/jobs/${second.id}`)).json().status).toBe('running');
+      expect(
+        (await server.inject({ method: 'DELETE', url: `/jobs/${second.id}` })).json(),
+      ).toMatchObject({
+        status: 'cancelled',
+      });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('returns 503 QUEUE_FULL once the queue is full', async () => {
+    const server = await buildApp({ jobs: { maxConcurrent: 1, maxQueued: 1 } });
+    try {
+      const submit = () => server.inject({ method: 'POST', url: '/jobs', payload: SLOW_INPUT });
+      expect((await submit()).json().status).toBe('running');
+      expect((await submit()).json().status).toBe('queued');
+
+      const refused = await submit();
+      expect(refused.statusCode).toBe(503);
+      expect(refused.json()).toMatchObject({ code: 'QUEUE_FULL', details: { maxQueued: 1 } });
+
+      const stream = await server.inject({
+        method: 'POST',
+        url: '/simulate/stream',
+        payload: SLOW_INPUT,
+      });
+      expect(stream.statusCode).toBe(503);
+      expect(stream.json().code).toBe('QUEUE_FULL');
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('forgets finished jobs beyond maxRetained and after retainMs', async () => {
+    const server = await buildApp({ jobs: { maxRetained: 1, retainMs: 500 } });
+    try {
+      const submit = async () =>
+        (await server.inject({ method: 'POST', url: '/jobs', payload: VALID_INPUT })).json().id;
+      const first = await submit();
+      expect((await pollJob(server, first)).status).toBe('succeeded');
+      const second = await submit();
+      expect((await pollJob(server, second)).status).toBe('succeeded');
+
+      expect((await server.inject(`/jobs/${first}`)).statusCode).toBe(404);
+      expect((await server.inject(`/jobs/${second}`)).statusCode).toBe(200);
+
+      await new Promise((resolve) => setTimeout(resolve, 600));
+      expect((await server.inject(`/jobs/${second}`)).statusCode).toBe(404);
+    } finally {
+      await server.close();
+    }
+  }, 20_000);
+});
+
+// ─── Streaming ──────────────────────────────────────────────────────────────────
+
+/** Parses a Server-Sent Events body into its events */
+function parseSse(body: string): { event: string; data: unknown }[] {
+  return body
+    .split('\n\n')
+    .filter((message) => message.trim() !== '')
+    .map((message) => {
+      const [eventLine, dataLine] = message.split('\n');
+      return {
+        event: eventLine.replace('event: ', ''),
+        data: JSON.parse(dataLine.replace('data: ', '')),
+      };
+    });
+}
+
+describe('POST /simulate/stream', () => {
+  it('streams snapshots in chunks, then progress and the summary', async () => {
+    const input = { ...VALID_INPUT, monteCarloConfig: { runs: 3, perturbationFactor: 0.05 } };
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/stream?chunkSize=7',
+      payload: input,
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('text/event-stream');
+
+    const events = parseSse(res.body);
+    const chunks = events.filter((e) => e.event === 'snapshots').map((e) => e.data as unknown[]);
+    expect(chunks.map((chunk) => chunk.length)).toEqual([7, 7, 7, 7, 2]);
+    expect(events.map((e) => e.event).slice(5)).toEqual([
+      'progress',
+      'progress',
+      'progress',
+      'summary',
+    ]);
+
+    const summary = SimulationSummarySchema.parse(events.at(-1)!.data);
+    const direct = (await app.inject({ method: 'POST', url: '/simulate', payload: input })).json();
+    expect(chunks.flat()).toEqual(direct.snapshots);
+    expect(summary.finalBalance).toEqual(direct.finalBalance);
+    expect(summary.bands).toEqual(direct.bands);
+    expect(summary).not.toHaveProperty('snapshots');
+  }, 20_000);
+
+  it('ends with an error event when the engine fails', async () => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/simulate/stream',
+      payload: {
+        ...VALID_INPUT,
+        // No JPY rate to convert the expense with
+        expenses: [{ ...VALID_INPUT.expenses[0], currency: 'JPY' }],
+      },
+    });
+    const events = parseSse(res.body);
+    expect(events.at(-1)).toMatchObject({ event: 'error', data: { code: 'ENGINE_ERROR' } });
+  }, 20_000);
+
+  it('returns 400 before streaming for invalid input or query', async () => {
+    const invalid = await app.inject({
+      method: 'POST',
+      url: '/simulate/stream',
+      payload: { seed: 1 },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    const badChunk = await app.inject({
+      method: 'POST',
+      url: '/simulate/stream?chunkSize=0',
+      payload: VALID_INPUT,
+    });
+    expect(badChunk.statusCode).toBe(400);
+    expect(badChunk.json().code).toBe('VALIDATION_ERROR');
+  });
+});
+
+// ─── Branch trees ───────────────────────────────────────────────────────────────
+
+describe('/trees', () => {
+  const createTree = async (): Promise<BranchTree> => {
+    const res = await app.inject({
+      method: 'POST',
+      url: '/trees',
+      payload: { name: 'Plans', baseInput: VALID_INPUT },
+    });
+    expect(res.statusCode).toBe(201);
+    return res.json();
+  };
+  const addNode = (treeId: string, payload: object) =>
+    app.inject({ method: 'POST', url: `/trees/${treeId}/nodes`, payload });
+
+  it('creates, lists and fetches a tree', async () => {
+    const tree = await createTree();
+    expect(BranchTreeSchema.safeParse(tree).success).toBe(true);
+    expect(tree.nodes).toEqual([]);
+
+    const list = await app.inject({ method: 'GET', url: '/trees' });
+    expect(list.json().map((t: BranchTree) => t.id)).toContain(tree.id);
+    const fetched = await app.inject({ method: 'GET', url: `/trees/${tree.id}` });
+    expect(fetched.json()).toEqual(tree);
+  });
+
+  it('adds nested nodes that keep their ids', async () => {
+    const tree = await createTree();
+    const root = await addNode(tree.id, { branchAtDay: 5, modifiedInput: { expenses: [] } });
+    expect(root.statusCode).toBe(201);
+    const rootNode: BranchNode = root.json();
+    expect(BranchNodeSchema.safeParse(rootNode).success).toBe(true);
+    expect(rootNode).toMatchObject({ parentId: null, name: 'Day 5' });
+
+    const child = await addNode(tree.id, {
+      parentId: rootNode.id,
+      name: 'No salary',
+      branchAtDay: 20,
+      modifiedInput: { incomeStreams: [] },
+    });
+    const childNode: BranchNode = child.json();
+
+    const fetched: BranchTree = (
+      await app.inject({ method: 'GET', url: `/trees/${tree.id}` })
+    ).json();
+    expect(fetched.nodes.map((n) => n.id)).toEqual([rootNode.id, childNode.id]);
+    expect(fetched.nodes[1].parentId).toBe(rootNode.id);
+  });
+
+  it('evaluates every node against its parent and the baseline', async () => {
+    const tree = await createTree();
+    const root: BranchNode = (
+      await addNode(tree.id, { branchAtDay: 5, modifiedInput: { expenses: [] } })
+    ).json();
+    await addNode(tree.id, { parentId: root.id, branchAtDay: 20, modifiedInput: {} });
+
+    const res = await app.inject({ method: 'POST', url: `/trees/${tree.id}/evaluate` });
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(BranchTreeEvaluationSchema.safeParse(body).success).toBe(true);
+    expect(body.nodes.map((n: { depth: number }) => n.depth)).toEqual([1, 2]);
+    expect(body.nodes[0].baselineDeltas.finalBalanceDiff).toBeGreaterThan(0);
+    // The unmodified child matches its parent
+    expect(body.nodes[1].deltas.finalBalanceDiff).toBe(0);
+  });
+
+  it('rejects nodes that would push the tree evaluation over the run budget', async () => {
+    const baseInput = {
+      ...VALID_INPUT,
+      horizonDays: 3650,
+      monteCarloConfig: { runs: 100, perturbationFactor: 0.05 },
+    };
+    const tree: BranchTree = (
+      await app.inject({ method: 'POST', url: '/trees', payload: { baseInput } })
+    ).json();
+    expect((await addNode(tree.id, { branchAtDay: 5, modifiedInput: {} })).statusCode).toBe(201);
+
+    // The node's own run count is what its evaluation costs
+    const costly = await addNode(tree.id, {
+      branchAtDay: 5,
+      modifiedInput: { monteCarloConfig: { runs: 1000, perturbationFactor: 0.05 } },
+    });
+    expect(costly.statusCode).toBe(400);
+    expect(costly.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      error:
+        'Evaluating the tree with this node would simulate 4380000 days, over the budget of 2000000',
+    });
+  });
+
+  it('rejects nodes with a missing parent or branching before their parent', async () => {
+    const tree = await createTree();
+    const root: BranchNode = (
+      await addNode(tree.id, { branchAtDay: 10, modifiedInput: {} })
+    ).json();
+
+    const orphan = await addNode(tree.id, {
+      parentId: '99999999-9999-4999-8999-999999999999',
+      branchAtDay: 12,
+      modifiedInput: {},
+    });
+    expect(orphan.statusCode).toBe(400);
+    expect(orphan.json().error).toMatch(/not found/);
+
+    const early = await addNode(tree.id, { parentId: root.id, branchAtDay: 5, modifiedInput: {} });
+    expect(early.statusCode).toBe(400);
+    const late = await addNode(tree.id, { branchAtDay: 30, modifiedInput: {} });
+    expect(late.statusCode).toBe(400);
+  });
+
+  it('checks node patches against the input they inherit', async () => {
+    const tree = await createTree();
+    const bonus = {
+      ...VALID_INPUT.incomeStreams[0],
+      id: '44444444-4444-4444-8444-444444444444',
+      name: 'Bonus',
+    };
+    const root: BranchNode = (
+      await addNode(tree.id, { branchAtDay: 5, patch: { incomeStreams: { add: [bonus] } } })
+    ).json();
+    expect(root.patch).toEqual({ incomeStreams: { add: [bonus] } });
+
+    const raise = { incomeStreams: { update: [{ id: bonus.id, amount: 4000 }] } };
+    const child = await addNode(tree.id, { parentId: root.id, branchAtDay: 10, patch: raise });
+    expect(child.statusCode).toBe(201);
+    const sibling = await addNode(tree.id, { branchAtDay: 10, patch: raise });
+    expect(sibling.statusCode).toBe(400);
+    expect(sibling.json().error).toMatch(/Cannot update income stream/);
+
+    const layoff = {
+      id: '55555555-5555-4555-8555-555555555555',
+      name: 'Layoff',
+      type: 'income_suspension',
+      day: 20,
+      incomeStreamId: bonus.id,
+    };
+    const orphaned = await addNode(tree.id, {
+      parentId: root.id,
+      branchAtDay: 10,
+      patch: { incomeStreams: { remove: [bonus.id] }, events: { add: [layoff] } },
+    });
+    expect(orphaned.statusCode).toBe(400);
+    expect(orphaned.json().error).toMatch(/names unknown income stream/);
+  });
+
+  it('removes a node together with its descendants', async () => {
+    const tree = await createTree();
+    const root: BranchNode = (await addNode(tree.id, { branchAtDay: 5, modifiedInput: {} })).json();
+    await addNode(tree.id, { parentId: root.id, branchAtDay: 10, modifiedInput: {} });
+    const other: BranchNode = (
+      await addNode(tree.id, { branchAtDay: 8, modifiedInput: {} })
+    ).json();
+
+    const res = await app.inject({ method: 'DELETE', url: `/trees/${tree.id}/nodes/${root.id}` });
+    expect(res.statusCode).toBe(200);
+    expect(res.json().nodes.map((n: BranchNode) => n.id)).toEqual([other.id]);
+
+    const again = await app.inject({ method: 'DELETE', url: `/trees/${tree.id}/nodes/${root.id}` });
+    expect(again.statusCode).toBe(404);
+  });
+
+  it('returns 404 for an unknown tree', async () => {
+    const id = '99999999-9999-4999-8999-999999999999';
+    for (const [method, url] of [
+      ['GET', `/trees/${id}`],
+      ['DELETE', `/trees/${id}`],
+      ['POST', `/trees/${id}/evaluate`],
+    ] as const) {
+      const res = await app.inject({ method, url });
+      expect(res.statusCode).toBe(404);
+      expect(res.json().code).toBe('NOT_FOUND');
+    }
+  });
+});
+
+// ─── /scenarios ─────────────────────────────────────────────────────────────────
+
+describe('/scenarios', () => {
+  const save = async (body: object = { name: 'Baseline', input: VALID_INPUT }) => {
+    const res = await app.inject({ method: 'POST', url: '/scenarios', payload: body });
+    expect(res.statusCode).toBe(201);
+    return res.json() as SavedScenario;
+  };
+
+  it('saves, lists and fetches a scenario', async () => {
+    const scenario = await save();
+    expect(SavedScenarioSchema.safeParse(scenario).success).toBe(true);
+    expect(scenario.inputHash).toMatch(/^[0-9a-f]{64}$/);
+
+    const list = await app.inject({ method: 'GET', url: '/scenarios' });
+    expect(list.json().map((s: SavedScenario) => s.id)).toContain(scenario.id);
+    const fetched = await app.inject({ method: 'GET', url: `/scenarios/${scenario.id}` });
+    expect(fetched.json()).toEqual(scenario);
+  });
+
+  it('hashes inputs independently of field order and seed', async () => {
+    const scenario = await save();
+    const reordered = Object.fromEntries(Object.entries(VALID_INPUT).reverse());
+    const same = await save({ name: 'Reordered', input: { ...reordered, seed: 7 } });
+    expect(same.inputHash).toBe(scenario.inputHash);
+
+    const other = await save({ name: 'Richer', input: { ...VALID_INPUT, initialBalance: 1 } });
+    expect(other.inputHash).not.toBe(scenario.inputHash);
+  });
+
+  it('updates only the given fields and re-hashes a new input', async () => {
+    const scenario = await save();
+    const renamed = await app.inject({
+      method: 'PATCH',
+      url: `/scenarios/${scenario.id}`,
+      payload: { name: 'Renamed' },
+    });
+    expect(renamed.statusCode).toBe(200);
+    expect(renamed.json()).toMatchObject({ name: 'Renamed', inputHash: scenario.inputHash });
+
+    const edited = await app.inject({
+      method: 'PATCH',
+      url: `/scenarios/${scenario.id}`,
+      payload: { input: { ...VALID_INPUT, horizonDays: 60 } },
+    });
+    expect(edited.json().name).toBe('Renamed');
+    expect(edited.json().input.horizonDays).toBe(60);
+    expect(edited.json().inputHash).not.toBe(scenario.inputHash);
+
+    const empty = await app.inject({
+      method: 'PATCH',
+      url: `/scenarios/${scenario.id}`,
+      payload: {},
+    });
+    expect(empty.statusCode).toBe(400);
+  });
+
+  it('re-runs a scenario, reusing the output stored for its hash and seed', async () => {
+    const scenario = await save();
+    const run = (query = '') =>
+      app.inject({ method: 'POST', url: `/scenarios/${scenario.id}/run${query}` });
+
+    const first = await run();
+    expect(first.statusCode).toBe(200);
+    expect(SavedScenarioRunSchema.safeParse(first.json()).success).toBe(true);
+    const again = (await run()).json();
+    expect(again.stored).toBe(true);
+    expect(again.output).toEqual(first.json().output);
+
+    const reseeded = (await run('?seed=7')).json();
+    expect(reseeded).toMatchObject({ seed: 7, stored: false });
+    expect(reseeded.output.seed).toBe(7);
+    expect((await run('?seed=x')).statusCode).toBe(400);
+  });
+
+  it('adds a version for every change of input', async () => {
+    const scenario = await save();
+    expect(scenario.version).toBe(1);
+    const patch = (payload: object) =>
+      app.inject({ method: 'PATCH', url: `/scenarios/${scenario.id}`, payload });
+
+    expect((await patch({ name: 'Renamed' })).json().version).toBe(1);
+    expect((await patch({ input: { ...VALID_INPUT, horizonDays: 60 } })).json().version).toBe(2);
+    expect((await patch({ input: { ...VALID_INPUT, horizonDays: 60 } })).json().version).toBe(2);
+    expect((await patch({ input: { ...VALID_INPUT, seed: 7 } })).json().version).toBe(3);
+
+    const versions = await app.inject({ method: 'GET', url: `/scenarios/${scenario.id}/versions` });
+    expect(versions.json().map((v: { version: number }) => v.version)).toEqual([1, 2, 3]);
+    const first = await app.inject({ method: 'GET', url: `/scenarios/${scenario.id}/versions/1` });
+    expect(first.json()).toMatchObject({ scenarioId: scenario.id, inputHash: scenario.inputHash });
+    const missing = await app.inject({
+      method: 'GET',
+      url: `/scenarios/${scenario.id}/versions/4`,
+    });
+    expect(missing.statusCode).toBe(404);
+    const invalid = await app.inject({
+      method: 'GET',
+      url: `/scenarios/${scenario.id}/versions/latest`,
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().code).toBe('VALIDATION_ERROR');
+  });
+
+  it('diffs two versions by input items and by outcome', async () => {
+    const scenario = await save();
+    const cheaperFood = VALID_INPUT.expenses.map((e) =>
+      e.name === 'Food' ? { ...e, amount: 10 } : e,
+    );
+    await app.inject({
+      method: 'PATCH',
+      url: `/scenarios/${scenario.id}`,
+      payload: { input: { ...VALID_INPUT, initialBalance: 12000, expenses: cheaperFood } },
+    });
+
+    const res = await app.inject({ method: 'GET', url: `/scenarios/${scenario.id}/diff` });
+    expect(res.statusCode).toBe(200);
+    const diff = res.json();
+    expect(ScenarioVersionDiffSchema.safeParse(diff).success).toBe(true);
+    expect(diff).toMatchObject({ from: 1, to: 2 });
+    expect(diff.input.expenses.changed).toEqual([
+      {
+        id: '33333333-3333-3333-3333-333333333333',
+        name: 'Food',
+        changes: [{ field: 'amount', from: 30, to: 10 }],
+      },
+    ]);
+    expect(diff.input.fields).toEqual([{ field: 'initialBalance', from: 10000, to: 12000 }]);
+    expect(diff.outcome.finalBalanceDiff).toBeGreaterThan(2000);
+
+    const same = await app.inject({
+      method: 'GET',
+      url: `/scenarios/${scenario.id}/diff?from=2&to=2`,
+    });
+    expect(same.json().input.fields).toEqual([]);
+    expect(same.json().outcome.finalBalanceDiff).toBe(0);
+
+    for (const query of ['from=3', 'to=3']) {
+      const missing = await app.inject({
+        method: 'GET',
+        url: `/scenarios/${scenario.id}/diff?${query}`,
+      });
+      expect(missing.statusCode).toBe(404);
+    }
+    const invalid = await app.inject({ method: 'GET', url: `/scenarios/${scenario.id}/diff?to=x` });
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it('deletes a scenario', async () => {
+    const scenario = await save();
+    const res = await app.inject({ method: 'DELETE', url: `/scenarios/${scenario.id}` });
+    expect(res.json().id).toBe(scenario.id);
+
+    for (const [method, url] of [
+      ['GET', `/scenarios/${scenario.id}`],
+      ['PATCH', `/scenarios/${scenario.id}`],
+      ['DELETE', `/scenarios/${scenario.id}`],
+      ['POST', `/scenarios/${scenario.id}/run`],
+      ['GET', `/scenarios/${scenario.id}/versions`],
+      ['GET', `/scenarios/${scenario.id}/diff`],
+    ] as const) {
+      const missing = await app.inject({ method, url, payload: { name: 'x' } });
+      expect(missing.statusCode).toBe(404);
+      expect(missing.json().code).toBe('NOT_FOUND');
+    }
+  });
+
+  it('keeps scenarios and stored outputs in a file across restarts', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'future-wallet-'));
+    const path = join(dir, 'scenarios.json');
+    try {
+      const first = await buildApp({ scenarios: new FileScenarioStorage(path) });
+      const created = await first.inject({
+        method: 'POST',
+        url: '/scenarios',
+        payload: { name: 'Kept', input: VALID_INPUT },
+      });
+      const { id } = created.json();
+      await first.inject({ method: 'POST', url: `/scenarios/${id}/run` });
+      await first.close();
+
+      const second = await buildApp({ scenarios: new FileScenarioStorage(path) });
+      const fetched = await second.inject({ method: 'GET', url: `/scenarios/${id}` });
+      expect(fetched.json().name).toBe('Kept');
+      const rerun = await second.inject({ method: 'POST', url: `/scenarios/${id}/run` });
+      expect(rerun.json().stored).toBe(true);
+      const versions = await second.inject({ method: 'GET', url: `/scenarios/${id}/versions` });
+      expect(versions.json()).toHaveLength(1);
+      await second.close();
+
+      // Outputs are files of their own, apart from the scenario metadata
+      expect(JSON.parse(await readFile(path, 'utf8'))).not.toHaveProperty('results');
+      expect(await readdir(`${path}.results`)).toHaveLength(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('drops the oldest stored output files beyond maxResults', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'future-wallet-'));
+    const path = join(dir, 'scenarios.json');
+    try {
+      const server = await buildApp({
+        scenarios: new FileScenarioStorage(path, { maxResults: 2 }),
+      });
+      const { id } = (
+        await server.inject({
+          method: 'POST',
+          url: '/scenarios',
+          payload: { name: 'Seeds', input: VALID_INPUT },
+        })
+      ).json();
+      for (const seed of [1, 2, 3]) {
+        await server.inject({ method: 'POST', url: `/scenarios/${id}/run?seed=${seed}` });
+      }
+      await server.close();
+
+      const files = await readdir(`${path}.results`);
+      expect(files.map((file) => file.split('.')[1]).sort()).toEqual(['2', '3']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+// ─── Transaction import ─────────────────────────────────────────────────────────
+
+describe('POST /import/transactions', () => {
+  const months = ['01', '02', '03', '04'];
+  const CSV = [
+    'Posted,Details,Debit,Credit',
+    ...months.flatMap((m) => [
+      `${m}/01/2026,"RENT, UNIT 4B",1500.00,`,
+      `${m}/27/2026,ACME PAYROLL ${m}27,,"3,000.00"`,
+    ]),
+    '02/14/2026,Florist,85.20,',
+  ].join('\n');
+  const MAPPING = {
+    date: 'posted',
+    description: 'Details',
+    debit: 'Debit',
+    credit: 'Credit',
+    dateFormat: 'MM/DD/YYYY',
+  };
+
+  const importStatement = (payload: object) =>
+    app.inject({ method: 'POST', url: '/import/transactions', payload });
+
+  it('proposes recurring entries from a mapped CSV statement', async () => {
+    const res = await importStatement({ format: 'csv', content: CSV, mapping: MAPPING });
+    expect(res.statusCode).toBe(200);
+    const result = res.json();
+    expect(ImportResultSchema.safeParse(result).success).toBe(true);
+    expect(result).toMatchObject({
+      currency: 'USD',
+      startDate: '2026-04-28',
+      transactions: 9,
+      unmatched: 1,
+    });
+
+    const entries = result.proposals.map((p: { kind: string; entry: object }) => ({
+      kind: p.kind,
+      ...p.entry,
+    }));
+    expect(entries).toContainEqual(
+      expect.objectContaining({ kind: 'income', name: 'Acme Payroll', amount: 3000, startDay: 29 }),
+    );
+    expect(entries).toContainEqual(
+      expect.objectContaining({ kind: 'expense', name: 'Rent Unit', amount: 1500, startDay: 3 }),
+    );
+
+    // The proposals drop straight into a simulation input
+    const simulated = await app.inject({
+      method: 'POST',
+      url: '/simulate',
+      payload: {
+        ...VALID_INPUT,
+        startDate: result.startDate,
+        incomeStreams: result.proposals
+          .filter((p: { kind: string }) => p.kind === 'income')
+          .map((p: { entry: object }) => p.entry),
+      },
+    });
+    expect(simulated.statusCode).toBe(200);
+  });
+
+  it('reads OFX statements and their currency', async () => {
+    const ofx = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>EUR<BANKTRANLIST>',
+      ...['20260105', '20260112', '20260119', '20260126'].map(
+        (day) =>
+          `<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>${day}120000[0:GMT]<TRNAMT>-12.50<NAME>Swim &amp; Gym</STMTTRN>`,
+      ),
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+    ].join('\n');
+
+    const result = (await importStatement({ format: 'qfx', content: ofx })).json();
+    expect(result.currency).toBe('EUR');
+    expect(result.proposals).toHaveLength(1);
+    expect(result.proposals[0]).toMatchObject({
+      kind: 'expense',
+      recurrence: 'weekly',
+      occurrences: 4,
+      entry: { name: 'Swim Gym', amount: 12.5, currency: 'EUR', recurrence: 'weekly' },
+    });
+  });
+
+  it('rejects statements it cannot read', async () => {
+    for (const [payload, message] of [
+      [{ format: 'csv', content: CSV }, 'Column "Date" (date) not found'],
+      [
+        { format: 'csv', content: CSV.replace('04/01/2026', '13/01/2026'), mapping: MAPPING },
+        'Line 8: invalid date "13/01/2026"',
+      ],
+      [{ format: 'ofx', content: '<OFX></OFX>' }, 'No <STMTTRN> transactions found'],
+    ] as const) {
+      const res = await importStatement(payload);
+      expect(res.statusCode).toBe(400);
+      expect(res.json()).toMatchObject({ code: 'VALIDATION_ERROR', error: message });
+    }
+    expect((await importStatement({ format: 'pdf', content: 'x' })).statusCode).toBe(400);
+  });
+});
+
+// ─── Result export ──────────────────────────────────────────────────────────────
+
+/** Files of a ZIP archive by path, read from its local file headers */
+function unzip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  for (let at = 0; archive.readUInt32LE(at) === 0x04034b50; ) {
+    const size = archive.readUInt32LE(at + 18);
+    const nameLength = archive.readUInt16LE(at + 26);
+    const start = at + 30 + nameLength + archive.readUInt16LE(at + 28);
+    const name = archive.toString('utf8', at + 30, at + 30 + nameLength);
+    files.set(name, inflateRawSync(archive.subarray(start, start + size)).toString('utf8'));
+    at = start + size;
+  }
+  return files;
+}
+
+describe('POST /export', () => {
+  const input = { ...VALID_INPUT, startDate: '2026-01-01', horizonDays: 60 };
+  const comparison = {
+    baseInput: input,
+    branchAtDay: 20,
+    modifiedInput: { expenses: VALID_INPUT.expenses.filter((e) => e.name !== 'Rent') },
+  };
+
+  const exportResults = (payload: object) =>
+    app.inject({ method: 'POST', url: '/export', payload });
+
+  it('exports the chosen snapshot columns as CSV, one row per month', async () => {
+    const res = await exportResults({
+      kind: 'simulation',
+      format: 'csv',
+      input,
+      columns: ['balance', 'totalExpenses'],
+      aggregate: 'month',
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('text/csv; charset=utf-8');
+    expect(res.headers['content-disposition']).toMatch(
+      /^attachment; filename="future-wallet-[0-9a-f]{12}\.csv"$/,
+    );
+
+    const daily = SimulationOutputSchema.parse(
+      (await app.inject({ method: 'POST', url: '/simulate', payload: input })).json(),
+    ).snapshots;
+    const january = daily.filter((s) => s.date.startsWith('2026-01'));
+    const [header, first, ...rest] = res.body.trimEnd().split('\r\n');
+    expect(header).toBe('day,date,balance,totalExpenses');
+    expect(first).toBe(
+      `0,2026-01-01,${january[january.length - 1].balance},${1500 + 30 * january.length}`,
+    );
+    expect(rest.map((row) => row.split(',')[1])).toEqual(['2026-02-01', '2026-03-01']);
+  });
+
+  it('exports a comparison as an XLSX workbook with three sheets', async () => {
+    const res = await exportResults({
+      kind: 'comparison',
+      format: 'xlsx',
+      comparison,
+      aggregate: 'week',
+    });
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe(
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+
+    const files = unzip(res.rawPayload);
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Branch Deltas" sheetId="3"');
+    const snapshots = files.get('xl/worksheets/sheet1.xml')!;
+    expect(snapshots).toContain('<t xml:space="preserve">run</t>');
+    expect(snapshots.match(/<row /g)).toHaveLength(1 + 9 + 7); // header, baseline weeks, branch weeks from day 20
+    const deltas = files.get('xl/worksheets/sheet3.xml')!;
+    expect(deltas).toContain('<t xml:space="preserve">cumulativeCashDiff</t>');
+    // Weeks count from day 0: the fork's first week holds only day 20, and the one from day 28
+    // is the first to pass a rent day
+    expect(deltas).toContain('<c r="A4"><v>28</v></c><c r="B4" t="inlineStr">');
+    expect(deltas).toContain('<c r="C4"><v>1500</v></c>');
+
+    // The same request gives the same bytes
+    const again = await exportResults({
+      kind: 'comparison',
+      format: 'xlsx',
+      comparison,
+      aggregate: 'week',
+    });
+    expect(again.rawPayload.equals(res.rawPayload)).toBe(true);
+  });
+
+  it('exports one table as NDJSON', async () => {
+    const summary = await exportResults({
+      kind: 'comparison',
+      format: 'ndjson',
+      comparison,
+      table: 'summary',
+    });
+    expect(summary.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+    const rows = summary.body
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(rows.map((r) => r.run)).toEqual(['baseline', 'branch']);
+    expect(rows[1].finalBalanceExpected).toBeGreaterThan(rows[0].finalBalanceExpected);
+    expect(rows[0].finalBalanceP5).toBeLessThanOrEqual(rows[0].finalBalanceP50);
+    expect(rows[0].finalBalanceP50).toBeLessThanOrEqual(rows[0].finalBalanceP95);
+
+    const deltas = await exportResults({
+      kind: 'comparison',
+      format: 'ndjson',
+      comparison,
+      table: 'deltas',
+    });
+    const first = JSON.parse(deltas.body.split('\n')[0]);
+    expect(first).toEqual({
+      day: 20,
+      date: '2026-01-21',
+      balanceDiff: 0,
+      navDiff: 0,
+      debtDiff: 0,
+      creditScoreDiff: 0,
+      cumulativeCashDiff: 0,
+    });
+  });
+
+  it('rejects requests it cannot export', async () => {
+    for (const payload of [
+      { kind: 'simulation', format: 'csv' },
+      { format: 'csv', input },
+      { kind: 'comparison', format: 'csv', input },
+      { kind: 'simulation', format: 'csv', input, table: 'deltas' },
+      { kind: 'simulation', format: 'pdf', input },
+      { kind: 'simulation', format: 'csv', input, columns: ['wealth'] },
+      { kind: 'simulation', format: 'csv', input, aggregate: 'year' },
+    ]) {
+      const res = await exportResults(payload);
+      expect(res.statusCode).toBe(400);
+      expect(res.json().code).toBe('VALIDATION_ERROR');
+    }
+  });
+});
+
+// ─── Result cache ───────────────────────────────────────────────────────────────
+
+describe('Result cache', () => {
+  const post = (target: FastifyInstance, url: string, payload: object, etag?: string) =>
+    target.inject({
+      method: 'POST',
+      url,
+      payload,
+      headers: etag ? { 'if-none-match': etag } : {},
+    });
+
+  it('serves repeated simulations from the cache under one ETag', async () => {
+    const fresh = await buildApp();
+    try {
+      const first = await post(fresh, '/simulate', VALID_INPUT);
+      const reordered = Object.fromEntries(Object.entries(VALID_INPUT).reverse());
+      const second = await post(fresh, '/simulate', reordered);
+
+      expect(first.headers['x-cache']).toBe('MISS');
+      expect(second.headers['x-cache']).toBe('HIT');
+      expect(second.headers.etag).toBe(first.headers.etag);
+      expect(second.json()).toEqual(first.json());
+
+      const reseeded = await post(fresh, '/simulate', { ...VALID_INPUT, seed: 7 });
+      expect(reseeded.headers['x-cache']).toBe('MISS');
+      expect(reseeded.headers.etag).not.toBe(first.headers.etag);
+      const audited = await post(fresh, '/simulate?conversionLog=true', VALID_INPUT);
+      expect(audited.headers.etag).not.toBe(first.headers.etag);
+    } finally {
+      await fresh.close();
+    }
+  });
+
+  it('answers a matching If-None-Match with 304 and no body', async () => {
+    for (const url of ['/simulate/branch', '/simulate/compare']) {
+      const first = await post(app, url, CHEAPER_FOOD_REQUEST);
+      const etag = first.headers.etag as string;
+      expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+
+      const unchanged = await post(app, url, CHEAPER_FOOD_REQUEST, `"other", W/${etag}`);
+      expect(unchanged.statusCode).toBe(304);
+      expect(unchanged.body).toBe('');
+      expect(unchanged.headers.etag).toBe(etag);
+
+      const changed = await post(app, url, { ...CHEAPER_FOOD_REQUEST, branchAtDay: 20 }, etag);
+      expect(changed.statusCode).toBe(200);
+    }
+  });
+
+  it('drops the least recently used and expired results', async () => {
+    const small = await buildApp({ cache: { maxEntries: 1 } });
+    const expiring = await buildApp({ cache: { ttlMs: 0 } });
+    try {
+      await post(small, '/simulate', VALID_INPUT);
+      await post(small, '/simulate', { ...VALID_INPUT, seed: 7 });
+      expect((await post(small, '/simulate', VALID_INPUT)).headers['x-cache']).toBe('MISS');
+
+      await post(expiring, '/simulate', VALID_INPUT);
+      expect((await post(expiring, '/simulate', VALID_INPUT)).headers['x-cache']).toBe('MISS');
+    } finally {
+      await small.close();
+      await expiring.close();
+    }
+  });
+
+  it('keeps cached results within the byte budget', async () => {
+    const probe = await post(app, '/simulate', VALID_INPUT);
+    const bytes = probe.body.length;
+    const oneResult = await buildApp({ cache: { maxBytes: Math.ceil(bytes * 1.5) } });
+    const tooSmall = await buildApp({ cache: { maxBytes: bytes - 1 } });
+    try {
+      await post(oneResult, '/simulate', VALID_INPUT);
+      expect((await post(oneResult, '/simulate', VALID_INPUT)).headers['x-cache']).toBe('HIT');
+      await post(oneResult, '/simulate', { ...VALID_INPUT, seed: 7 });
+      expect((await post(oneResult, '/simulate', VALID_INPUT)).headers['x-cache']).toBe('MISS');
+
+      await post(tooSmall, '/simulate', VALID_INPUT);
+      expect((await post(tooSmall, '/simulate', VALID_INPUT)).headers['x-cache']).toBe('MISS');
+    } finally {
+      await oneResult.close();
+      await tooSmall.close();
+    }
+  });
+
+  it('does not cache failures', async () => {
+    const fresh = await buildApp();
+    try {
+      const request = {
+        ...CHEAPER_FOOD_REQUEST,
+        patch: { expenses: { remove: ['99999999-9999-4999-8999-999999999999'] } },
+      };
+      const first = await post(fresh, '/simulate/compare', request);
+      expect(first.statusCode).toBe(400);
+      expect(first.headers.etag).toBeUndefined();
+      expect((await post(fresh, '/simulate/compare', request)).statusCode).toBe(400);
+    } finally {
+      await fresh.close();
+    }
+  });
 });
 
 // ─── Error handling ─────────────────────────────────────────────────────────────
@@ -5,27 +5,118 @@
  * instance with all routes, validation, error handling, and plugins.
  * Separated from server startup to enable testing via `app.inject()`.
  */
-import Fastify, { type FastifyInstance } from 'fastify';
+import { randomUUID } from 'node:crypto';
+import type { OutgoingHttpHeaders } from 'node:http';
+import Fastify, { type FastifyInstance, type FastifyReply, type FastifyRequest } from 'fastify';
 import cors from '@fastify/cors';
 import {
   SimulationInputSchema,
+  SimulateQuerySchema,
   BranchRequestSchema,
+  ScenariosRequestSchema,
+  CreateBranchTreeSchema,
+  CreateBranchNodeSchema,
+  CreateSavedScenarioSchema,
+  UpdateSavedScenarioSchema,
+  ScenarioRunQuerySchema,
+  ScenarioDiffQuerySchema,
+  ScenarioVersionParamsSchema,
+  ImportTransactionsRequestSchema,
+  ExportRequestSchema,
+  SolveRequestSchema,
+  SensitivityRequestSchema,
+  JobQuerySchema,
+  StreamQuerySchema,
   type ApiError,
-  type ApiErrorCode,
+  type ImportResult,
+  type SavedScenarioRun,
+  type ScenarioVersion,
+  type ScenarioVersionDiff,
+  type SimulationOutput,
+  type SimulationInput,
+  type SimulationJob,
+  type SimulationStreamEvent,
 } from '@future-wallet/shared-types';
-import { simulate, simulateBranch, compareBranches } from '@future-wallet/simulation-engine';
+import {
+  simulate,
+  simulateBranch,
+  compareBranches,
+  simulateScenarios,
+  branchInputFor,
+  compareScenarios,
+  simulateBranchTree,
+  compareBranchTree,
+  goalSeek,
+  sensitivityReport,
+  sensitivityParameters,
+  withParameter,
+  BranchPatchError,
+  computeBranchDeltas,
+  diffInputs,
+  detectRecurring,
+} from '@future-wallet/simulation-engine';
+import { inputsOverBudget, overBudget } from './budget.js';
+import { etagFor, matchesEtag, ResultCache, type ResultCacheOptions } from './cache.js';
+import { apiError, engineError } from './errors.js';
+import { contentHash } from './hash.js';
+import { JobManager, JobQueueFullError, type JobManagerOptions } from './jobs.js';
+import { BranchTreeStore, invalidNode, type BranchTreeStoreOptions } from './trees.js';
+import { ScenarioStore, type ScenarioStorage } from './scenarios.js';
+import {
+  parseCsvStatement,
+  parseOfxStatement,
+  StatementError,
+  type ParsedStatement,
+} from './statements.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  comparisonSheets,
+  simulationSheets,
+  toCsv,
+  toNdjson,
+} from './export.js';
+import { writeWorkbook, type Sheet } from './xlsx.js';
 
-// ─── Helpers ────────────────────────────────────────────────────────────────────
+/** One Server-Sent Events message */
+function sseMessage({ event, data }: SimulationStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
 
 /**
- * Build a structured ApiError response body.
+ * The VALIDATION_ERROR for a solve whose parameter does not exist or whose
+ * bound makes the input invalid (e.g. a negative expense amount), if any.
  */
-function apiError(code: ApiErrorCode, error: string, details?: unknown): ApiError {
-  const body: ApiError = { code, error };
-  if (details !== undefined) {
-    body.details = details;
+function invalidBound(input: SimulationInput, parameter: string, bound: number): ApiError | null {
+  let bounded: SimulationInput;
+  try {
+    bounded = withParameter(input, parameter, bound);
+  } catch (err) {
+    return apiError('VALIDATION_ERROR', err instanceof Error ? err.message : String(err));
   }
-  return body;
+  const parsed = SimulationInputSchema.safeParse(bounded);
+  return parsed.success
+    ? null
+    : apiError(
+        'VALIDATION_ERROR',
+        `Bound ${bound} gives an invalid simulation input`,
+        parsed.error.flatten(),
+      );
+}
+
+/**
+ * Status and body for an error thrown while running branches: a patch that
+ * does not fit its input is the client's mistake, anything else the engine's.
+ */
+function branchFailure(err: unknown): [number, ApiError] {
+  return err instanceof BranchPatchError
+    ? [400, apiError('VALIDATION_ERROR', err.message)]
+    : [500, engineError(err)];
+}
+
+/** Status and body for a job that could not be queued: the queue is full, or rethrows */
+function submitFailure(err: unknown): [number, ApiError] {
+  if (!(err instanceof JobQueueFullError)) throw err;
+  return [503, apiError('QUEUE_FULL', err.message, { maxQueued: err.maxQueued })];
 }
 
 // ─── App Factory ────────────────────────────────────────────────────────────────
@@ -33,6 +124,14 @@ function apiError(code: ApiErrorCode, error: string, details?: unknown): ApiErro
 export interface BuildAppOptions {
   /** Enable Fastify logger (default: false for tests, true for production) */
   logger?: boolean;
+  /** Worker pool limits for `/jobs` */
+  jobs?: JobManagerOptions;
+  /** Capacity of the `/trees` store */
+  trees?: BranchTreeStoreOptions;
+  /** Where `/scenarios` keeps saved inputs and their outputs (default: in memory) */
+  scenarios?: ScenarioStorage;
+  /** Size and lifetime of the result cache behind `/simulate`, `/simulate/branch` and `/simulate/compare` */
+  cache?: ResultCacheOptions;
 }
 
 export async function buildApp(opts: BuildAppOptions = {}): Promise<FastifyInstance> {
@@ -71,13 +170,56 @@ export async function buildApp(opts: BuildAppOptions = {}): Promise<FastifyInsta
     },
   );
 
+  // ── Result cache ────────────────────────────────────────────────────────────
+  const cache = new ResultCache(opts.cache);
+
+  /**
+   * Replies to a deterministic request identified by `key` (the route and
+   * its validated request): 304 if the client's If-None-Match already names
+   * the result, the cached result if there is one, or else `compute()`'s
+   * result, which is cached. A cached result keeps the `computedAt` of the
+   * run that produced it. Errors thrown by `compute` propagate.
+   */
+  const sendDeterministic = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    key: unknown,
+    compute: () => unknown,
+  ) => {
+    const hash = contentHash(key);
+    const etag = etagFor(hash);
+    if (matchesEtag(request.headers['if-none-match'], etag)) {
+      return reply.status(304).header('etag', etag).send();
+    }
+
+    let result = cache.get(hash);
+    const hit = result !== undefined;
+    if (!hit) {
+      result = compute();
+      cache.set(hash, result);
+    }
+    return reply
+      .status(200)
+      .header('etag', etag)
+      .header('x-cache', hit ? 'HIT' : 'MISS')
+      .send(result);
+  };
+
   // ── GET /health ─────────────────────────────────────────────────────────────
   app.get('/health', async () => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   });
 
   // ── POST /simulate ──────────────────────────────────────────────────────────
+  // Opt-in FX audit: ?conversionLog=true[&fromDay=&toDay=&contextPrefix=]
   app.post('/simulate', async (request, reply) => {
+    const query = SimulateQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid query parameters', query.error.flatten()));
+    }
+
     const parsed = SimulationInputSchema.safeParse(request.body);
     if (!parsed.success) {
       return reply
@@ -86,11 +228,19 @@ export async function buildApp(opts: BuildAppOptions = {}): Promise<FastifyInsta
     }
 
     try {
-      const result = simulate(parsed.data);
-      return reply.status(200).send(result);
+      const { conversionLog, fromDay, toDay, contextPrefix } = query.data;
+      return sendDeterministic(
+        request,
+        reply,
+        { route: '/simulate', input: parsed.data, query: query.data },
+        () =>
+          simulate(
+            parsed.data,
+            conversionLog === 'true' ? { conversionAudit: { fromDay, toDay, contextPrefix } } : {},
+          ),
+      );
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown engine error';
-      return reply.status(500).send(apiError('ENGINE_ERROR', message));
+      return reply.status(500).send(engineError(err));
     }
   });
 
@@ -104,15 +254,19 @@ export async function buildApp(opts: BuildAppOptions = {}): Promise<FastifyInsta
     }
 
     try {
-      const { baseInput, branchAtDay, modifiedInput } = parsed.data;
-      const result = simulateBranch(baseInput, branchAtDay, modifiedInput);
-      return reply.status(200).send({
-        ...result,
-        branchAtDay,
-      });
+      const { baseInput, branchAtDay, modifiedInput, patch } = parsed.data;
+      return sendDeterministic(
+        request,
+        reply,
+        { route: '/simulate/branch', request: parsed.data },
+        () => ({
+          ...simulateBranch(baseInput, branchAtDay, modifiedInput, { patch }),
+          branchAtDay,
+        }),
+      );
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown engine error';
-      return reply.status(500).send(apiError('ENGINE_ERROR', message));
+      const [status, body] = branchFailure(err);
+      return reply.status(status).send(body);
     }
   });
 
@@ -126,14 +280,530 @@ export async function buildApp(opts: BuildAppOptions = {}): Promise<FastifyInsta
     }
 
     try {
-      const { baseInput, branchAtDay, modifiedInput } = parsed.data;
-      const { baseline, branch } = simulateBranch(baseInput, branchAtDay, modifiedInput);
-      const comparison = compareBranches(baseline, branch, branchAtDay);
-      return reply.status(200).send(comparison);
+      const { baseInput, branchAtDay, modifiedInput, patch } = parsed.data;
+      return sendDeterministic(
+        request,
+        reply,
+        { route: '/simulate/compare', request: parsed.data },
+        () => {
+          const { baseline, branch } = simulateBranch(baseInput, branchAtDay, modifiedInput, {
+            patch,
+          });
+          return compareBranches(baseline, branch, branchAtDay);
+        },
+      );
+    } catch (err) {
+      const [status, body] = branchFailure(err);
+      return reply.status(status).send(body);
+    }
+  });
+
+  // ── POST /simulate/scenarios ────────────────────────────────────────────────
+  // Several named branches compared against one shared baseline
+  app.post('/simulate/scenarios', async (request, reply) => {
+    const parsed = ScenariosRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid scenarios request', parsed.error.flatten()));
+    }
+
+    const { baseInput, scenarios } = parsed.data;
+    try {
+      // The baseline plus every scenario's branch, each replayed over the full horizon
+      const tooLarge = inputsOverBudget([
+        baseInput,
+        ...scenarios.map((scenario) => branchInputFor(baseInput, [scenario])),
+      ]);
+      if (tooLarge) {
+        return reply.status(400).send(tooLarge);
+      }
+      const { baseline, branches } = simulateScenarios(baseInput, scenarios);
+      return reply.status(200).send(compareScenarios(baseline, scenarios, branches));
+    } catch (err) {
+      const [status, body] = branchFailure(err);
+      return reply.status(status).send(body);
+    }
+  });
+
+  // ── POST /simulate/solve ────────────────────────────────────────────────────
+  // Goal seek: the parameter value at which a metric crosses the target
+  app.post('/simulate/solve', async (request, reply) => {
+    const parsed = SolveRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid solve request', parsed.error.flatten()));
+    }
+
+    const { input, parameter, bounds, maxIterations } = parsed.data;
+    const invalid =
+      invalidBound(input, parameter, bounds.min) ?? invalidBound(input, parameter, bounds.max);
+    if (invalid) {
+      return reply.status(400).send(invalid);
+    }
+    // The parameter may be the horizon or the run count, so both bounds are costed
+    const tooLarge =
+      overBudget(withParameter(input, parameter, bounds.min), maxIterations + 2) ??
+      overBudget(withParameter(input, parameter, bounds.max), maxIterations + 2);
+    if (tooLarge) {
+      return reply.status(400).send(tooLarge);
+    }
+
+    try {
+      return reply.status(200).send(goalSeek(parsed.data));
+    } catch (err) {
+      return reply.status(500).send(engineError(err));
+    }
+  });
+
+  // ── POST /simulate/sensitivity ──────────────────────────────────────────────
+  // Tornado report: each parameter moved ±variation, ranked by outcome swing
+  app.post('/simulate/sensitivity', async (request, reply) => {
+    const parsed = SensitivityRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid sensitivity request', parsed.error.flatten()));
+    }
+
+    // The baseline plus a low and a high run per parameter
+    const { input } = parsed.data;
+    const tooLarge = overBudget(input, 1 + 2 * sensitivityParameters(input).length);
+    if (tooLarge) {
+      return reply.status(400).send(tooLarge);
+    }
+
+    try {
+      return reply.status(200).send(sensitivityReport(parsed.data));
+    } catch (err) {
+      return reply.status(500).send(engineError(err));
+    }
+  });
+
+  // ── Simulation jobs ─────────────────────────────────────────────────────────
+  // Long simulations run in worker threads; clients poll GET /jobs/:id.
+  const jobs = new JobManager(opts.jobs);
+  app.addHook('onClose', () => jobs.close());
+
+  app.post('/jobs', async (request, reply) => {
+    const query = JobQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid query parameters', query.error.flatten()));
+    }
+
+    const parsed = SimulationInputSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid simulation input', parsed.error.flatten()));
+    }
+
+    let job: SimulationJob;
+    try {
+      job = jobs.submit(parsed.data, { timeoutMs: query.data.timeoutMs });
+    } catch (err) {
+      const [status, body] = submitFailure(err);
+      return reply.status(status).send(body);
+    }
+    return reply.status(202).header('location', `/jobs/${job.id}`).send(job);
+  });
+
+  // ── POST /simulate/stream ───────────────────────────────────────────────────
+  // Runs as a job and streams it as Server-Sent Events: the primary run's
+  // snapshots in chunks of ?chunkSize days, progress per Monte Carlo run,
+  // then the summary (output without snapshots) or an error.
+  app.post('/simulate/stream', async (request, reply) => {
+    const query = StreamQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid query parameters', query.error.flatten()));
+    }
+
+    const parsed = SimulationInputSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid simulation input', parsed.error.flatten()));
+    }
+
+    const stream = reply.raw;
+    const send = (event: SimulationStreamEvent) => stream.write(sseMessage(event));
+
+    // The worker reports nothing before this handler returns, so a full
+    // queue can still be answered with a plain 503
+    let job: SimulationJob;
+    try {
+      job = jobs.submit(parsed.data, {
+        timeoutMs: query.data.timeoutMs,
+        snapshotChunkSize: query.data.chunkSize,
+        onSnapshots: (snapshots) => send({ event: 'snapshots', data: snapshots }),
+        onProgress: (progress) => send({ event: 'progress', data: progress }),
+        onSettled: (settled) => {
+          if (settled.result) {
+            const { snapshots: _streamed, ...summary } = settled.result;
+            send({ event: 'summary', data: summary });
+          } else if (settled.error) {
+            send({ event: 'error', data: settled.error });
+          }
+          stream.end();
+        },
+      });
+    } catch (err) {
+      const [status, body] = submitFailure(err);
+      return reply.status(status).send(body);
+    }
+
+    // Fastify's serializer is bypassed from here on, but headers set so far
+    // (CORS) still apply
+    reply
+      .header('content-type', 'text/event-stream')
+      .header('cache-control', 'no-cache')
+      .header('connection', 'keep-alive')
+      .hijack();
+    stream.writeHead(200, reply.getHeaders() as OutgoingHttpHeaders);
+
+    // A client that disconnects cancels the run; a finished run is forgotten
+    stream.on('close', () => jobs.cancel(job.id));
+  });
+
+  app.get<{ Params: { id: string } }>('/jobs/:id', async (request, reply) => {
+    const job = jobs.get(request.params.id);
+    if (!job) {
+      return reply.status(404).send(apiError('NOT_FOUND', `Job ${request.params.id} not found`));
+    }
+    return reply.status(200).send(job);
+  });
+
+  // Cancels a queued or running job and forgets it
+  app.delete<{ Params: { id: string } }>('/jobs/:id', async (request, reply) => {
+    const job = jobs.cancel(request.params.id);
+    if (!job) {
+      return reply.status(404).send(apiError('NOT_FOUND', `Job ${request.params.id} not found`));
+    }
+    return reply.status(200).send(job);
+  });
+
+  // ── Branch trees ────────────────────────────────────────────────────────────
+  // Nested what-if branches, built one node at a time and evaluated on demand.
+  const trees = new BranchTreeStore(opts.trees);
+  const treeNotFound = (id: string) => apiError('NOT_FOUND', `Branch tree ${id} not found`);
+
+  app.post('/trees', async (request, reply) => {
+    const parsed = CreateBranchTreeSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid branch tree', parsed.error.flatten()));
+    }
+
+    const tree = trees.create(parsed.data);
+    return reply.status(201).header('location', `/trees/${tree.id}`).send(tree);
+  });
+
+  app.get('/trees', async (_request, reply) => {
+    return reply.status(200).send(trees.list());
+  });
+
+  app.get<{ Params: { id: string } }>('/trees/:id', async (request, reply) => {
+    const tree = trees.get(request.params.id);
+    if (!tree) return reply.status(404).send(treeNotFound(request.params.id));
+    return reply.status(200).send(tree);
+  });
+
+  app.delete<{ Params: { id: string } }>('/trees/:id', async (request, reply) => {
+    const tree = trees.delete(request.params.id);
+    if (!tree) return reply.status(404).send(treeNotFound(request.params.id));
+    return reply.status(200).send(tree);
+  });
+
+  // Branches the baseline or an existing node; returns the new node
+  app.post<{ Params: { id: string } }>('/trees/:id/nodes', async (request, reply) => {
+    const tree = trees.get(request.params.id);
+    if (!tree) return reply.status(404).send(treeNotFound(request.params.id));
+
+    const parsed = CreateBranchNodeSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid branch node', parsed.error.flatten()));
+    }
+    const invalid = invalidNode(tree, parsed.data);
+    if (invalid) {
+      return reply.status(400).send(apiError('VALIDATION_ERROR', invalid));
+    }
+
+    const node = trees.addNode(tree, parsed.data);
+    return reply.status(201).send(node);
+  });
+
+  // Removes a node and its descendants; returns the remaining tree
+  app.delete<{ Params: { id: string; nodeId: string } }>(
+    '/trees/:id/nodes/:nodeId',
+    async (request, reply) => {
+      const tree = trees.get(request.params.id);
+      if (!tree) return reply.status(404).send(treeNotFound(request.params.id));
+      if (!trees.removeNode(tree, request.params.nodeId)) {
+        return reply
+          .status(404)
+          .send(apiError('NOT_FOUND', `Branch node ${request.params.nodeId} not found`));
+      }
+      return reply.status(200).send(tree);
+    },
+  );
+
+  app.post<{ Params: { id: string } }>('/trees/:id/evaluate', async (request, reply) => {
+    const tree = trees.get(request.params.id);
+    if (!tree) return reply.status(404).send(treeNotFound(request.params.id));
+
+    try {
+      const { baseline, branches } = simulateBranchTree(tree.baseInput, tree.nodes);
+      return reply.status(200).send(compareBranchTree(baseline, tree.nodes, branches));
+    } catch (err) {
+      const [status, body] = branchFailure(err);
+      return reply.status(status).send(body);
+    }
+  });
+
+  // ── Saved scenarios ─────────────────────────────────────────────────────────
+  // Named inputs that can be reopened, edited and re-run across sessions.
+  const scenarios = new ScenarioStore(opts.scenarios);
+  const scenarioNotFound = (id: string) => apiError('NOT_FOUND', `Scenario ${id} not found`);
+  const versionNotFound = (id: string, version: number) =>
+    apiError('NOT_FOUND', `Scenario ${id} has no version ${version}`);
+
+  /**
+   * The output of a scenario's (or version's) input run with `seed`: the
+   * stored one if any, else simulated and stored. Engine errors propagate.
+   */
+  const scenarioOutput = async (
+    source: Pick<ScenarioVersion, 'input' | 'inputHash'>,
+    seed: number,
+  ): Promise<{ output: SimulationOutput; stored: boolean }> => {
+    const stored = await scenarios.storedResult(source, seed);
+    if (stored) return { output: stored, stored: true };
+
+    const output = simulate({ ...source.input, seed });
+    await scenarios.storeResult(source, seed, output);
+    return { output, stored: false };
+  };
+
+  app.post('/scenarios', async (request, reply) => {
+    const parsed = CreateSavedScenarioSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid scenario', parsed.error.flatten()));
+    }
+
+    const scenario = await scenarios.create(parsed.data);
+    return reply.status(201).header('location', `/scenarios/${scenario.id}`).send(scenario);
+  });
+
+  app.get('/scenarios', async (_request, reply) => {
+    return reply.status(200).send(await scenarios.list());
+  });
+
+  app.get<{ Params: { id: string } }>('/scenarios/:id', async (request, reply) => {
+    const scenario = await scenarios.get(request.params.id);
+    if (!scenario) return reply.status(404).send(scenarioNotFound(request.params.id));
+    return reply.status(200).send(scenario);
+  });
+
+  app.patch<{ Params: { id: string } }>('/scenarios/:id', async (request, reply) => {
+    const parsed = UpdateSavedScenarioSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid scenario update', parsed.error.flatten()));
+    }
+
+    const scenario = await scenarios.update(request.params.id, parsed.data);
+    if (!scenario) return reply.status(404).send(scenarioNotFound(request.params.id));
+    return reply.status(200).send(scenario);
+  });
+
+  app.delete<{ Params: { id: string } }>('/scenarios/:id', async (request, reply) => {
+    const scenario = await scenarios.delete(request.params.id);
+    if (!scenario) return reply.status(404).send(scenarioNotFound(request.params.id));
+    return reply.status(200).send(scenario);
+  });
+
+  // Runs the saved input (?seed= overrides its seed); a stored output is reused
+  app.post<{ Params: { id: string } }>('/scenarios/:id/run', async (request, reply) => {
+    const query = ScenarioRunQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid query parameters', query.error.flatten()));
+    }
+    const scenario = await scenarios.get(request.params.id);
+    if (!scenario) return reply.status(404).send(scenarioNotFound(request.params.id));
+
+    const seed = query.data.seed ?? scenario.input.seed;
+    let result: { output: SimulationOutput; stored: boolean };
+    try {
+      result = await scenarioOutput(scenario, seed);
+    } catch (err) {
+      return reply.status(500).send(engineError(err));
+    }
+
+    const run: SavedScenarioRun = {
+      scenarioId: scenario.id,
+      inputHash: scenario.inputHash,
+      seed,
+      ...result,
+    };
+    return reply.status(200).send(run);
+  });
+
+  app.get<{ Params: { id: string } }>('/scenarios/:id/versions', async (request, reply) => {
+    const scenario = await scenarios.get(request.params.id);
+    if (!scenario) return reply.status(404).send(scenarioNotFound(request.params.id));
+    return reply.status(200).send(await scenarios.versions(scenario.id));
+  });
+
+  app.get('/scenarios/:id/versions/:version', async (request, reply) => {
+    const params = ScenarioVersionParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid path parameters', params.error.flatten()));
+    }
+    const { id, version: number } = params.data;
+    if (!(await scenarios.get(id))) return reply.status(404).send(scenarioNotFound(id));
+    const version = await scenarios.version(id, number);
+    if (!version) return reply.status(404).send(versionNotFound(id, number));
+    return reply.status(200).send(version);
+  });
+
+  // What changed between two versions: their inputs, and their outcomes when run
+  app.get<{ Params: { id: string } }>('/scenarios/:id/diff', async (request, reply) => {
+    const query = ScenarioDiffQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid query parameters', query.error.flatten()));
+    }
+    const scenario = await scenarios.get(request.params.id);
+    if (!scenario) return reply.status(404).send(scenarioNotFound(request.params.id));
+
+    const to = query.data.to ?? scenario.version;
+    const from = query.data.from ?? Math.max(1, to - 1);
+    const [before, after] = await Promise.all([
+      scenarios.version(scenario.id, from),
+      scenarios.version(scenario.id, to),
+    ]);
+    if (!before) return reply.status(404).send(versionNotFound(scenario.id, from));
+    if (!after) return reply.status(404).send(versionNotFound(scenario.id, to));
+
+    const { seed } = query.data;
+    let outputs: [SimulationOutput, SimulationOutput];
+    try {
+      outputs = [
+        (await scenarioOutput(before, seed ?? before.input.seed)).output,
+        (await scenarioOutput(after, seed ?? after.input.seed)).output,
+      ];
+    } catch (err) {
+      return reply.status(500).send(engineError(err));
+    }
+
+    const diff: ScenarioVersionDiff = {
+      scenarioId: scenario.id,
+      from,
+      to,
+      input: diffInputs(before.input, after.input),
+      outcome: computeBranchDeltas(...outputs),
+    };
+    return reply.status(200).send(diff);
+  });
+
+  // ── POST /import/transactions ───────────────────────────────────────────────
+  // Reads a CSV or OFX/QFX statement and proposes its recurring transactions
+  // as income streams and expenses
+  app.post('/import/transactions', async (request, reply) => {
+    const parsed = ImportTransactionsRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid import request', parsed.error.flatten()));
+    }
+
+    const { format, content, mapping, startDate, minOccurrences } = parsed.data;
+    let statement: ParsedStatement;
+    try {
+      statement =
+        format === 'csv' ? parseCsvStatement(content, mapping) : parseOfxStatement(content);
+    } catch (err) {
+      if (err instanceof StatementError) {
+        return reply.status(400).send(apiError('VALIDATION_ERROR', err.message));
+      }
+      throw err;
+    }
+
+    const currency = parsed.data.currency ?? statement.currency ?? 'USD';
+    const detection = detectRecurring(statement.transactions, {
+      currency,
+      startDate,
+      minOccurrences,
+      newId: randomUUID,
+    });
+    const result: ImportResult = {
+      format,
+      currency,
+      transactions: statement.transactions.length,
+      ...detection,
+    };
+    return reply.status(200).send(result);
+  });
+
+  // ── POST /export ────────────────────────────────────────────────────────────
+  // Runs a simulation or comparison and returns its tables as a download
+  app.post('/export', async (request, reply) => {
+    const parsed = ExportRequestSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply
+        .status(400)
+        .send(apiError('VALIDATION_ERROR', 'Invalid export request', parsed.error.flatten()));
+    }
+
+    const exported = parsed.data;
+    const options = { columns: exported.columns, aggregate: exported.aggregate };
+    // Every table in sheet order, and the one CSV and NDJSON hold
+    let sheets: Sheet[];
+    let sheet: Sheet;
+    try {
+      if (exported.kind === 'comparison') {
+        const { baseInput, branchAtDay, modifiedInput, patch } = exported.comparison;
+        const { baseline, branch } = simulateBranch(baseInput, branchAtDay, modifiedInput, {
+          patch,
+        });
+        const { timeline } = compareBranches(baseline, branch, branchAtDay);
+        const tables = comparisonSheets(baseline, branch, timeline, options);
+        sheets = Object.values(tables);
+        sheet = tables[exported.table];
+      } else {
+        const tables = simulationSheets(simulate(exported.input), options);
+        sheets = Object.values(tables);
+        sheet = tables[exported.table];
+      }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown engine error';
-      return reply.status(500).send(apiError('ENGINE_ERROR', message));
+      const [status, body] = branchFailure(err);
+      return reply.status(status).send(body);
     }
+
+    const { format } = exported;
+    const body =
+      format === 'xlsx' ? writeWorkbook(sheets) : format === 'csv' ? toCsv(sheet) : toNdjson(sheet);
+    const fileName = `future-wallet-${contentHash(parsed.data).slice(0, 12)}.${format}`;
+    return reply
+      .status(200)
+      .header('content-type', EXPORT_CONTENT_TYPES[format])
+      .header('content-disposition', `attachment; filename="${fileName}"`)
+      .send(body);
   });
 
   return app;
@@ -0,0 +1,50 @@
+/**
+ * @future-wallet/api — Run budget
+ *
+ * Some routes run many simulations inline on the event loop, so their work
+ * is capped before they start. It is counted in simulated days: horizon ×
+ * Monte Carlo runs, summed over the request's simulations.
+ */
+import type { ApiError, SimulationInput } from '@future-wallet/shared-types';
+import { monteCarloConfigFor } from '@future-wallet/simulation-engine';
+import { apiError } from './errors.js';
+
+/** Simulated days one inline request may cost (roughly tens of seconds of engine time) */
+export const MAX_SIMULATED_DAYS = 2_000_000;
+
+/** Simulated days of `simulations` full runs of `input` */
+export function simulatedDays(input: SimulationInput, simulations: number): number {
+  return input.horizonDays * monteCarloConfigFor(input).runs * simulations;
+}
+
+function budgetError(days: number, cost: string): ApiError {
+  return apiError(
+    'VALIDATION_ERROR',
+    `${cost} exceed the budget of ${MAX_SIMULATED_DAYS} simulated days; ` +
+      'use a shorter horizon or fewer Monte Carlo runs',
+    { simulatedDays: days, maxSimulatedDays: MAX_SIMULATED_DAYS },
+  );
+}
+
+/**
+ * The VALIDATION_ERROR for a request that would simulate `input`
+ * `simulations` times over the budget, or null if it fits.
+ */
+export function overBudget(input: SimulationInput, simulations: number): ApiError | null {
+  const days = simulatedDays(input, simulations);
+  if (days <= MAX_SIMULATED_DAYS) return null;
+  return budgetError(
+    days,
+    `${simulations} simulations of ${input.horizonDays} days × ${monteCarloConfigFor(input).runs} runs`,
+  );
+}
+
+/**
+ * The VALIDATION_ERROR for a request that would simulate each of `inputs`
+ * once, together over the budget, or null if they fit.
+ */
+export function inputsOverBudget(inputs: readonly SimulationInput[]): ApiError | null {
+  const days = inputs.reduce((sum, input) => sum + simulatedDays(input, 1), 0);
+  if (days <= MAX_SIMULATED_DAYS) return null;
+  return budgetError(days, `${inputs.length} simulations totalling ${days} days`);
+}
@@ -0,0 +1,105 @@
+/**
+ * @future-wallet/api — Result cache
+ *
+ * simulate() is deterministic: a validated request, seed included, always
+ * gives the same result. Results are cached under the request's content
+ * hash in a least-recently-used cache, and the same hash serves as the
+ * response's ETag so clients can revalidate without re-downloading.
+ *
+ * A cached result is served as it was stored, so a hit keeps the
+ * `computedAt` of the run that produced it. The cache is capped by entry
+ * count and by approximate size, estimated from each result's JSON length.
+ */
+
+export interface ResultCacheOptions {
+  /** Results kept at once; storing another drops the least recently used (default: 128, 0 disables caching) */
+  maxEntries?: number;
+  /** How long a result stays cached after it is stored (default: 10 minutes) */
+  ttlMs?: number;
+  /** Approximate bytes of results kept at once, as JSON; a larger result is not cached (default: 64 MiB) */
+  maxBytes?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  bytes: number;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 128;
+const DEFAULT_TTL_MS = 10 * 60_000;
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+
+/** Strong ETag for a content hash */
+export function etagFor(hash: string): string {
+  return `"${hash}"`;
+}
+
+/** Whether an If-None-Match header lists `etag`, weak or strong */
+export function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+}
+
+export class ResultCache {
+  readonly maxEntries: number;
+  readonly ttlMs: number;
+  readonly maxBytes: number;
+  private readonly entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+
+  constructor(options: ResultCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Approximate bytes of the results kept */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /** The result stored under `key`, unless it has expired; marks it recently used */
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this.insert(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: unknown): void {
+    if (this.maxEntries <= 0) return;
+
+    this.delete(key);
+    const bytes = JSON.stringify(value)?.length ?? 0;
+    if (bytes > this.maxBytes) return;
+    while (
+      this.entries.size > 0 &&
+      (this.entries.size >= this.maxEntries || this.totalBytes + bytes > this.maxBytes)
+    ) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.delete(oldest);
+    }
+    this.insert(key, { value, bytes, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  private insert(key: string, entry: CacheEntry): void {
+    this.entries.set(key, entry);
+    this.totalBytes += entry.bytes;
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @future-wallet/api — Structured error bodies
+ *
+ * Shared by the route handlers and the simulation job workers, so an
+ * engine failure looks the same whether it ran inline or in a job.
+ */
+import type { ApiError, ApiErrorCode } from '@future-wallet/shared-types';
+import { DAGCycleError } from '@future-wallet/simulation-engine';
+
+/**
+ * Build a structured ApiError response body.
+ */
+export function apiError(code: ApiErrorCode, error: string, details?: unknown): ApiError {
+  const body: ApiError = { code, error };
+  if (details !== undefined) {
+    body.details = details;
+  }
+  return body;
+}
+
+/**
+ * Build the ENGINE_ERROR body for an error thrown by the engine.
+ * Component dependency cycles carry the offending chain in `details.cycle`.
+ */
+export function engineError(err: unknown): ApiError {
+  const message = err instanceof Error ? err.message : 'Unknown engine error';
+  return apiError(
+    'ENGINE_ERROR',
+    message,
+    err instanceof DAGCycleError ? { cycle: err.cycle } : undefined,
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * @future-wallet/api — Result export
+ *
+ * Lays simulation outputs out as tables (daily snapshots, summary figures
+ * and branch deltas), optionally rolled up into weekly or monthly rows,
+ * and writes them as CSV, NDJSON or an XLSX workbook.
+ */
+import type {
+  BranchDeltaPoint,
+  BranchTimeline,
+  DailySnapshot,
+  ExportAggregation,
+  ExportFormat,
+  ExportTable,
+  SimulationExportTable,
+  SimulationOutput,
+  SnapshotColumn,
+} from '@future-wallet/shared-types';
+import type { Cell, Sheet } from './xlsx.js';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+/** An exported output and its run name: `baseline` or `branch` in a comparison */
+type ExportRun = [name: string, output: SimulationOutput];
+
+export interface ExportOptions {
+  /** Snapshot columns after `day` and `date` (default: all) */
+  columns?: SnapshotColumn[];
+  aggregate: ExportAggregation;
+}
+
+/** Snapshot columns summed over a period; the others keep the period's last value */
+const FLOW_COLUMNS: SnapshotColumn[] = [
+  'totalIncome',
+  'totalExpenses',
+  'netCashFlow',
+  'taxPaid',
+  'capitalGainsTax',
+  'realizedGain',
+];
+
+const SNAPSHOT_COLUMNS: SnapshotColumn[] = [
+  'day',
+  'date',
+  'balance',
+  'totalIncome',
+  'totalExpenses',
+  'netCashFlow',
+  'assetNAV',
+  'totalDebt',
+  'creditScore',
+  'liquidityRatio',
+  'shockResilienceIndex',
+  'taxPaid',
+  'capitalGainsTax',
+  'realizedGain',
+];
+
+const DELTA_COLUMNS: (keyof BranchDeltaPoint)[] = [
+  'day',
+  'date',
+  'balanceDiff',
+  'navDiff',
+  'debtDiff',
+  'creditScoreDiff',
+  'cumulativeCashDiff',
+];
+
+const SHEET_NAMES: Record<ExportTable, string> = {
+  snapshots: 'Snapshots',
+  summary: 'Summary',
+  deltas: 'Branch Deltas',
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Rows rolled up into one per week (7 days counted from day 0) or per
+ * calendar month. Each keeps its period's first `day` and `date`, sums
+ * the `flows` and takes every other field from the period's last row.
+ */
+function aggregateRows<T extends { day: number; date: string }>(
+  rows: T[],
+  aggregate: ExportAggregation,
+  flows: readonly (keyof T)[] = [],
+): T[] {
+  if (aggregate === 'day') return rows;
+
+  const periods = new Map<string, T[]>();
+  for (const row of rows) {
+    const period = aggregate === 'week' ? String(Math.floor(row.day / 7)) : row.date.slice(0, 7);
+    periods.set(period, [...(periods.get(period) ?? []), row]);
+  }
+  return [...periods.values()].map((period) => {
+    const rolled: T = { ...period[period.length - 1], day: period[0].day, date: period[0].date };
+    for (const flow of flows) {
+      const total = period.reduce((sum, row) => sum + Number(row[flow]), 0);
+      rolled[flow] = round2(total) as T[keyof T];
+    }
+    return rolled;
+  });
+}
+
+function snapshotSheet(runs: ExportRun[], options: ExportOptions): Sheet {
+  const selected = options.columns ?? SNAPSHOT_COLUMNS;
+  const columns: SnapshotColumn[] = [
+    'day',
+    'date',
+    ...selected.filter((c) => c !== 'day' && c !== 'date'),
+  ];
+  const named = runs.length > 1;
+  return {
+    name: SHEET_NAMES.snapshots,
+    columns: named ? ['run', ...columns] : columns,
+    rows: runs.flatMap(([run, output]) =>
+      aggregateRows<DailySnapshot>(output.snapshots, options.aggregate, FLOW_COLUMNS).map(
+        (snapshot) => {
+          const cells: Cell[] = columns.map((c) => snapshot[c]);
+          return named ? [run, ...cells] : cells;
+        },
+      ),
+    ),
+  };
+}
+
+/** Final figures and the Monte Carlo spread of the final balance, one row per run */
+function summarySheet(runs: ExportRun[]): Sheet {
+  const named = runs.length > 1;
+  const columns = [
+    'seed',
+    'horizonDays',
+    'baseCurrency',
+    'finalBalanceExpected',
+    'finalBalanceP5',
+    'finalBalanceP25',
+    'finalBalanceP50',
+    'finalBalanceP75',
+    'finalBalanceP95',
+    'collapseProbability',
+    'collapseDay',
+    'finalCreditScore',
+    'finalNAV',
+    'finalLiquidityRatio',
+    'shockResilienceIndex',
+    'vibeState',
+    'petState',
+  ];
+  return {
+    name: SHEET_NAMES.summary,
+    columns: named ? ['run', ...columns] : columns,
+    rows: runs.map(([run, output]) => {
+      // Quartiles come from the last day's fan band; single runs have none
+      const band = output.bands?.[output.bands.length - 1]?.balance;
+      const cells: Cell[] = [
+        output.seed,
+        output.horizonDays,
+        output.baseCurrency,
+        output.finalBalance.expected,
+        output.finalBalance.p5,
+        band?.p25 ?? null,
+        band?.p50 ?? null,
+        band?.p75 ?? null,
+        output.finalBalance.p95,
+        output.collapseProbability,
+        output.collapseDay,
+        output.finalCreditScore,
+        output.finalNAV,
+        output.finalLiquidityRatio,
+        output.shockResilienceIndex,
+        output.vibeState,
+        output.petState,
+      ];
+      return named ? [run, ...cells] : cells;
+    }),
+  };
+}
+
+function deltaSheet(timeline: BranchTimeline, options: ExportOptions): Sheet {
+  return {
+    name: SHEET_NAMES.deltas,
+    columns: DELTA_COLUMNS,
+    rows: aggregateRows(timeline.series, options.aggregate).map((point) =>
+      DELTA_COLUMNS.map((c) => point[c]),
+    ),
+  };
+}
+
+/** The tables of a simulation, in sheet order */
+export function simulationSheets(
+  output: SimulationOutput,
+  options: ExportOptions,
+): Record<SimulationExportTable, Sheet> {
+  const runs: ExportRun[] = [['simulation', output]];
+  return { snapshots: snapshotSheet(runs, options), summary: summarySheet(runs) };
+}
+
+/** The tables of a branch comparison, in sheet order: both runs, then the deltas */
+export function comparisonSheets(
+  baseline: SimulationOutput,
+  branch: SimulationOutput,
+  timeline: BranchTimeline,
+  options: ExportOptions,
+): Record<ExportTable, Sheet> {
+  const runs: ExportRun[] = [
+    ['baseline', baseline],
+    ['branch', branch],
+  ];
+  return {
+    snapshots: snapshotSheet(runs, options),
+    summary: summarySheet(runs),
+    deltas: deltaSheet(timeline, options),
+  };
+}
+
+function csvField(value: Cell): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row and CRLF line breaks */
+export function toCsv(sheet: Sheet): string {
+  return [sheet.columns, ...sheet.rows]
+    .map((row) => row.map(csvField).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+}
+
+/** One JSON object per row, keyed by column */
+export function toNdjson(sheet: Sheet): string {
+  return sheet.rows
+    .map((row) => JSON.stringify(Object.fromEntries(sheet.columns.map((c, i) => [c, row[i]]))))
+    .join('\n')
+    .concat('\n');
+}
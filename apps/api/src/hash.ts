@@ -0,0 +1,35 @@
+/**
+ * @future-wallet/api — Input hashing
+ *
+ * The engine is deterministic, so a validated input and a seed fully
+ * determine an output. Hashing the input's canonical JSON (keys sorted,
+ * undefined fields dropped) gives a key that does not depend on how the
+ * client ordered its fields.
+ */
+import { createHash } from 'node:crypto';
+import type { SimulationInput } from '@future-wallet/shared-types';
+
+/** JSON with object keys sorted at every level */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** SHA-256 (hex) of a value's canonical JSON */
+export function contentHash(value: unknown): string {
+  return createHash('sha256').update(canonicalJson(value)).digest('hex');
+}
+
+/** SHA-256 (hex) of the input's canonical JSON, leaving out its seed */
+export function inputHash(input: SimulationInput): string {
+  const { seed: _seed, ...rest } = input;
+  return contentHash(rest);
+}
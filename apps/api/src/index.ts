@@ -6,12 +6,29 @@
  * live in buildApp() for testability.
  */
 import { buildApp } from './app.js';
+import { FileScenarioStorage } from './scenarios.js';
 
 const PORT = parseInt(process.env.PORT ?? '3001', 10);
 const HOST = process.env.HOST ?? '0.0.0.0';
+const SCENARIO_STORE_FILE = process.env.SCENARIO_STORE_FILE;
+const RESULT_CACHE_SIZE = process.env.RESULT_CACHE_SIZE;
+const RESULT_CACHE_TTL_MS = process.env.RESULT_CACHE_TTL_MS;
+const RESULT_CACHE_MAX_BYTES = process.env.RESULT_CACHE_MAX_BYTES;
+const JOB_RUN_WORKERS = process.env.JOB_RUN_WORKERS;
 
 try {
-  const app = await buildApp({ logger: true });
+  const app = await buildApp({
+    logger: true,
+    jobs: {
+      runWorkers: JOB_RUN_WORKERS ? parseInt(JOB_RUN_WORKERS, 10) : undefined,
+    },
+    scenarios: SCENARIO_STORE_FILE ? new FileScenarioStorage(SCENARIO_STORE_FILE) : undefined,
+    cache: {
+      maxEntries: RESULT_CACHE_SIZE ? parseInt(RESULT_CACHE_SIZE, 10) : undefined,
+      ttlMs: RESULT_CACHE_TTL_MS ? parseInt(RESULT_CACHE_TTL_MS, 10) : undefined,
+      maxBytes: RESULT_CACHE_MAX_BYTES ? parseInt(RESULT_CACHE_MAX_BYTES, 10) : undefined,
+    },
+  });
   await app.listen({ port: PORT, host: HOST });
   console.log(`Future Wallet API running on http://${HOST}:${PORT}`);
 } catch (err) {
@@ -0,0 +1,52 @@
+/**
+ * @future-wallet/api — Simulation job worker
+ *
+ * Runs one simulate() call off the main thread for JobManager (jobs.ts),
+ * or simulateParallel() when the manager's `runWorkers` is above 1,
+ * posting progress after each Monte Carlo run, then the result or error.
+ * With a `snapshotChunkSize`, the primary run's snapshots are posted in
+ * chunks as they are computed, and the last chunk before the result.
+ */
+import { parentPort, workerData } from 'node:worker_threads';
+import type { DailySnapshot } from '@future-wallet/shared-types';
+import { simulate } from '@future-wallet/simulation-engine';
+import { engineError } from './errors.js';
+import type { JobWorkerData, JobWorkerMessage } from './jobs.js';
+import { simulateParallel, type ParallelSimulateOptions } from './parallel.js';
+
+const { input, runWorkers, snapshotChunkSize } = workerData as JobWorkerData;
+let pending: DailySnapshot[] = [];
+
+function post(message: JobWorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+function flushSnapshots(): void {
+  if (pending.length === 0) return;
+  post({ type: 'snapshots', snapshots: pending });
+  pending = [];
+}
+
+const options: ParallelSimulateOptions = {
+  onProgress: (progress) => {
+    flushSnapshots();
+    post({ type: 'progress', progress });
+  },
+  ...(snapshotChunkSize && {
+    onSnapshot: (snapshot) => {
+      pending.push(snapshot);
+      if (pending.length >= snapshotChunkSize) flushSnapshots();
+    },
+  }),
+};
+
+try {
+  const result =
+    runWorkers > 1
+      ? await simulateParallel(input, { ...options, workers: runWorkers })
+      : simulate(input, options);
+  flushSnapshots();
+  post({ type: 'result', result });
+} catch (err) {
+  post({ type: 'error', error: engineError(err) });
+}
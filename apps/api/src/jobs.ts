@@ -0,0 +1,307 @@
+/**
+ * @future-wallet/api — Asynchronous simulation jobs
+ *
+ * Runs simulate() in worker threads so long simulations do not block the
+ * event loop. At most `maxConcurrent` jobs run at once and the rest wait in
+ * a FIFO queue. Running jobs report progress after each Monte Carlo run and
+ * are terminated with a TIMEOUT_ERROR once they exceed their time limit.
+ * A full queue turns new jobs away, and finished jobs are forgotten after
+ * `retainMs` or once more than `maxRetained` of them have piled up.
+ * Submitters may also listen to a job — its snapshots in chunks as they are
+ * computed, its progress, and its outcome — as POST /simulate/stream does.
+ */
+import { randomUUID } from 'node:crypto';
+import { createRequire } from 'node:module';
+import { availableParallelism } from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type {
+  ApiError,
+  DailySnapshot,
+  JobProgress,
+  SimulationInput,
+  SimulationJob,
+  SimulationOutput,
+} from '@future-wallet/shared-types';
+import { DEFAULT_MONTE_CARLO_RUNS } from '@future-wallet/simulation-engine';
+import { apiError } from './errors.js';
+
+export interface JobManagerOptions {
+  /** Jobs running at once (default: one less than the available CPUs, at least 1) */
+  maxConcurrent?: number;
+  /**
+   * Worker threads each job spreads its Monte Carlo runs over (parallel.ts).
+   * The default, 1, runs them all in the job's own thread: parallel runs are
+   * opt-in, since each job starts its own run workers and stops them when
+   * it ends, and `maxConcurrent` jobs already keep the CPUs busy.
+   */
+  runWorkers?: number;
+  /** Default and maximum time limit of a running job (default: 60 s) */
+  timeoutMs?: number;
+  /** Jobs waiting for a free worker before submit() refuses more (default: 64) */
+  maxQueued?: number;
+  /** How long a finished job stays available to GET /jobs/:id (default: 10 minutes) */
+  retainMs?: number;
+  /** Finished jobs kept at once; the oldest are forgotten first (default: 256) */
+  maxRetained?: number;
+}
+
+export interface SubmitOptions {
+  /** Lowers, but cannot raise, the manager's time limit for this job */
+  timeoutMs?: number;
+  /** Receives the primary run's snapshots, `snapshotChunkSize` days at a time */
+  onSnapshots?: (snapshots: DailySnapshot[]) => void;
+  /** Days per `onSnapshots` call (default: 30) */
+  snapshotChunkSize?: number;
+  onProgress?: (progress: JobProgress) => void;
+  /** Called once when the job succeeds, fails or is cancelled */
+  onSettled?: (job: SimulationJob) => void;
+}
+
+/** Data handed to job-worker.ts */
+export interface JobWorkerData {
+  input: SimulationInput;
+  /** Threads for the Monte Carlo runs; above 1, the job runs simulateParallel() */
+  runWorkers: number;
+  /** Post snapshots in chunks of this many days; omitted when nobody listens */
+  snapshotChunkSize?: number;
+}
+
+/** Messages posted by job-worker.ts */
+export type JobWorkerMessage =
+  | { type: 'snapshots'; snapshots: DailySnapshot[] }
+  | { type: 'progress'; progress: JobProgress }
+  | { type: 'result'; result: SimulationOutput }
+  | { type: 'error'; error: ApiError };
+
+interface JobEntry {
+  job: SimulationJob;
+  input: SimulationInput;
+  timeoutMs: number;
+  listeners: Omit<SubmitOptions, 'timeoutMs'>;
+  worker?: Worker;
+  timer?: NodeJS.Timeout;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_SNAPSHOT_CHUNK_SIZE = 30;
+const DEFAULT_MAX_QUEUED = 64;
+const DEFAULT_RETAIN_MS = 10 * 60_000;
+const DEFAULT_MAX_RETAINED = 256;
+
+/** Thrown by submit() when every worker is busy and the queue is full */
+export class JobQueueFullError extends Error {
+  constructor(readonly maxQueued: number) {
+    super(`The job queue is full (${maxQueued} waiting); try again later`);
+    this.name = 'JobQueueFullError';
+  }
+}
+
+/**
+ * Spawns a job worker. Compiled builds run job-worker.js directly. Under tsx
+ * (dev server, tests) this module and the worker are TypeScript, and since
+ * Node 20 does not pass loader hooks on to workers, the worker registers
+ * tsx itself before importing job-worker.ts.
+ */
+function spawnWorker(workerData: JobWorkerData): Worker {
+  if (!import.meta.url.endsWith('.ts')) {
+    return new Worker(new URL('./job-worker.js', import.meta.url), { workerData });
+  }
+
+  const tsxApi = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const entry = new URL('./job-worker.ts', import.meta.url).href;
+  const bootstrap =
+    `import(${JSON.stringify(tsxApi)})` +
+    `.then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+function isActive(job: SimulationJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export class JobManager {
+  readonly maxConcurrent: number;
+  readonly runWorkers: number;
+  readonly timeoutMs: number;
+  readonly maxQueued: number;
+  readonly retainMs: number;
+  readonly maxRetained: number;
+  private readonly jobs = new Map<string, JobEntry>();
+  private readonly queue: JobEntry[] = [];
+  /** When each finished job settled, oldest first */
+  private readonly finishedAt = new Map<string, number>();
+  private running = 0;
+
+  constructor(options: JobManagerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? Math.max(1, availableParallelism() - 1);
+    this.runWorkers = options.runWorkers ?? 1;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxQueued = options.maxQueued ?? DEFAULT_MAX_QUEUED;
+    this.retainMs = options.retainMs ?? DEFAULT_RETAIN_MS;
+    this.maxRetained = options.maxRetained ?? DEFAULT_MAX_RETAINED;
+  }
+
+  /**
+   * Queues a simulation; `options` may shorten its time limit and listen to it.
+   *
+   * @throws JobQueueFullError when no worker is free and `maxQueued` jobs already wait
+   */
+  submit(input: SimulationInput, options: SubmitOptions = {}): SimulationJob {
+    if (this.running >= this.maxConcurrent && this.queue.length >= this.maxQueued) {
+      throw new JobQueueFullError(this.maxQueued);
+    }
+
+    const { timeoutMs, ...listeners } = options;
+    const job: SimulationJob = {
+      id: randomUUID(),
+      status: 'queued',
+      progress: {
+        completedRuns: 0,
+        totalRuns: input.monteCarloConfig?.runs ?? DEFAULT_MONTE_CARLO_RUNS,
+      },
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    const entry: JobEntry = {
+      job,
+      input,
+      timeoutMs: Math.min(timeoutMs ?? this.timeoutMs, this.timeoutMs),
+      listeners,
+    };
+
+    this.jobs.set(job.id, entry);
+    this.queue.push(entry);
+    this.drain();
+    return job;
+  }
+
+  get(id: string): SimulationJob | undefined {
+    this.forgetFinished();
+    return this.jobs.get(id)?.job;
+  }
+
+  /**
+   * Cancels the job if it is still queued or running, then forgets it.
+   *
+   * @returns The job's final state, or undefined for an unknown id
+   */
+  cancel(id: string): SimulationJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) return undefined;
+
+    if (entry.job.status === 'queued') {
+      this.queue.splice(this.queue.indexOf(entry), 1);
+    }
+    this.finish(entry, 'cancelled', {});
+    this.jobs.delete(id);
+    this.finishedAt.delete(id);
+    return entry.job;
+  }
+
+  /** Terminates every worker and drops all jobs. */
+  async close(): Promise<void> {
+    this.queue.length = 0;
+    const workers = [...this.jobs.values()].flatMap((entry) => entry.worker ?? []);
+    this.jobs.clear();
+    this.finishedAt.clear();
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  /** Drops finished jobs older than `retainMs`, and the oldest beyond `maxRetained`. */
+  private forgetFinished(): void {
+    const expiredBefore = Date.now() - this.retainMs;
+    for (const [id, finishedAt] of this.finishedAt) {
+      if (finishedAt >= expiredBefore && this.finishedAt.size <= this.maxRetained) break;
+      this.finishedAt.delete(id);
+      this.jobs.delete(id);
+    }
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      this.start(this.queue.shift()!);
+    }
+  }
+
+  private start(entry: JobEntry): void {
+    this.running++;
+    entry.job.status = 'running';
+    entry.job.startedAt = new Date().toISOString();
+
+    const { listeners } = entry;
+    const worker = spawnWorker({
+      input: entry.input,
+      runWorkers: this.runWorkers,
+      ...(listeners.onSnapshots && {
+        snapshotChunkSize: listeners.snapshotChunkSize ?? DEFAULT_SNAPSHOT_CHUNK_SIZE,
+      }),
+    });
+    entry.worker = worker;
+
+    worker.on('message', (message: JobWorkerMessage) => {
+      if (!isActive(entry.job)) return;
+      switch (message.type) {
+        case 'snapshots':
+          listeners.onSnapshots?.(message.snapshots);
+          break;
+        case 'progress':
+          entry.job.progress = message.progress;
+          listeners.onProgress?.(message.progress);
+          break;
+        case 'result':
+          this.finish(entry, 'succeeded', { result: message.result });
+          break;
+        case 'error':
+          this.finish(entry, 'failed', { error: message.error });
+          break;
+      }
+    });
+    worker.on('error', (err: Error) => {
+      this.finish(entry, 'failed', { error: apiError('INTERNAL_ERROR', err.message) });
+    });
+    worker.on('exit', (code) => {
+      this.finish(entry, 'failed', {
+        error: apiError('INTERNAL_ERROR', `Simulation worker exited with code ${code}`),
+      });
+    });
+
+    entry.timer = setTimeout(() => {
+      this.finish(entry, 'failed', {
+        error: apiError(
+          'TIMEOUT_ERROR',
+          `Simulation exceeded the time limit of ${entry.timeoutMs} ms`,
+          { timeoutMs: entry.timeoutMs },
+        ),
+      });
+    }, entry.timeoutMs);
+  }
+
+  /** Settles an active job once; later outcomes (e.g. the worker's exit) are ignored. */
+  private finish(
+    entry: JobEntry,
+    status: 'succeeded' | 'failed' | 'cancelled',
+    outcome: { result?: SimulationOutput; error?: ApiError },
+  ): void {
+    if (!isActive(entry.job)) return;
+
+    const wasRunning = entry.job.status === 'running';
+    clearTimeout(entry.timer);
+    void entry.worker?.terminate();
+    entry.worker = undefined;
+
+    entry.job.status = status;
+    entry.job.finishedAt = new Date().toISOString();
+    if (outcome.result) entry.job.result = outcome.result;
+    if (outcome.error) entry.job.error = outcome.error;
+    this.finishedAt.set(entry.job.id, Date.now());
+    this.forgetFinished();
+
+    if (wasRunning) {
+      this.running--;
+      this.drain();
+    }
+    entry.listeners.onSettled?.(entry.job);
+  }
+}
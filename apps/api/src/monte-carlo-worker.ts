@@ -0,0 +1,31 @@
+/**
+ * @future-wallet/api — Monte Carlo worker
+ *
+ * Runs one contiguous range of Monte Carlo runs for simulateParallel()
+ * (parallel.ts) and posts each run's summary.
+ */
+import { parentPort, workerData } from 'node:worker_threads';
+import {
+  bandAccumulatorFor,
+  perturbInput,
+  simulateSingleRun,
+  summarizeRun,
+} from '@future-wallet/simulation-engine';
+import type { MonteCarloWorkerData, MonteCarloWorkerMessage } from './parallel.js';
+
+const { input, fromRun, toRun } = workerData as MonteCarloWorkerData;
+
+function post(message: MonteCarloWorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+try {
+  // Sampled at the same indices as the caller's accumulator: every run has the same length
+  const bands = bandAccumulatorFor(input);
+  for (let runIndex = fromRun; runIndex < toRun; runIndex++) {
+    const run = simulateSingleRun(perturbInput(input, runIndex), input.seed + runIndex);
+    post({ type: 'run', runIndex, summary: summarizeRun(run, bands) });
+  }
+} catch (err) {
+  post({ type: 'error', message: err instanceof Error ? err.message : 'Unknown engine error' });
+}
@@ -0,0 +1,100 @@
+/**
+ * simulateParallel() tests — the worker pool must not change the output.
+ */
+import { describe, expect, it } from 'vitest';
+import type { SimulationInput } from '@future-wallet/shared-types';
+import { simulate } from '@future-wallet/simulation-engine';
+import { partitionRuns, simulateParallel } from './parallel.js';
+
+const BASE_INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 30,
+  baseCurrency: 'USD',
+  initialBalance: 10000,
+  incomeStreams: [
+    {
+      id: '11111111-1111-1111-1111-111111111111',
+      name: 'Salary',
+      amount: 3000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: '22222222-2222-2222-2222-222222222222',
+      name: 'Rent',
+      amount: 1500,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [],
+  liabilities: [],
+  exchangeRates: [],
+};
+
+describe('simulateParallel()', () => {
+  const MC_INPUT: SimulationInput = {
+    ...BASE_INPUT,
+    horizonDays: 365,
+    assets: [
+      {
+        id: '44444444-4444-4444-4444-444444444444',
+        name: 'Index Fund',
+        type: 'volatile',
+        value: 20000,
+        currency: 'USD',
+        volatility: 0.25,
+        yieldRate: 0.06,
+        liquidationPenalty: 0.01,
+        locked: false,
+      },
+    ],
+    monteCarloConfig: { runs: 48, perturbationFactor: 0.1, maxBandPoints: 60 },
+  };
+
+  it('partitions non-primary runs into contiguous seed ranges', () => {
+    expect(partitionRuns(10, 3)).toEqual([
+      [1, 4],
+      [4, 7],
+      [7, 10],
+    ]);
+    expect(partitionRuns(3, 8)).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+  });
+
+  it('matches the serial path bit for bit', async () => {
+    const serial = simulate(MC_INPUT);
+    const parallel = await simulateParallel(MC_INPUT, { workers: 3 });
+    expect({ ...parallel, computedAt: '' }).toEqual({ ...serial, computedAt: '' });
+  }, 30_000);
+
+  it('reports every run once and keeps primary-run options', async () => {
+    const progress: number[] = [];
+    const streamed: number[] = [];
+    const result = await simulateParallel(
+      { ...MC_INPUT, monteCarloConfig: { runs: 6, perturbationFactor: 0.1 } },
+      {
+        workers: 2,
+        onProgress: ({ completedRuns }) => progress.push(completedRuns),
+        onSnapshot: (snapshot) => streamed.push(snapshot.day),
+      },
+    );
+
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(streamed).toHaveLength(365);
+    expect(result.snapshots).toHaveLength(365);
+  }, 30_000);
+
+  it('runs a single-run input without workers', async () => {
+    const input = { ...BASE_INPUT, monteCarloConfig: { runs: 1, perturbationFactor: 0 } };
+    const result = await simulateParallel(input, { workers: 4 });
+    expect({ ...result, computedAt: '' }).toEqual({ ...simulate(input), computedAt: '' });
+  });
+});
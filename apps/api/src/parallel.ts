@@ -0,0 +1,163 @@
+/**
+ * @future-wallet/api — Parallel Monte Carlo
+ *
+ * simulate() with the runs spread over worker threads, for job workers
+ * configured with `runWorkers` above 1 (jobs.ts; off by default). Each
+ * call starts its workers and terminates them when it returns.
+ *
+ * The primary run executes on the calling thread, since it carries the
+ * snapshot trajectory, the FX audit and the callbacks. Runs 1 … n−1 are
+ * split into contiguous seed ranges, one per worker (monte-carlo-worker.ts).
+ * Workers return compact run summaries, which are merged in run order with
+ * the same code as the serial path, so the output is bit-identical to
+ * simulate() for the same input.
+ */
+import { createRequire } from 'node:module';
+import { availableParallelism } from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import type { SimulationInput, SimulationOutput } from '@future-wallet/shared-types';
+import {
+  bandAccumulatorFor,
+  mergeMonteCarlo,
+  monteCarloConfigFor,
+  perturbInput,
+  simulateSingleRun,
+  type MonteCarloRunSummary,
+  type SimulateOptions,
+} from '@future-wallet/simulation-engine';
+
+/**
+ * Options of simulateParallel(). Custom `components` cannot be sent to
+ * worker threads, so the workers always run the built-in pipeline.
+ */
+export interface ParallelSimulateOptions extends Omit<SimulateOptions, 'components'> {
+  /** Worker threads (default: one less than the available CPUs, at least 1) */
+  workers?: number;
+}
+
+/** Data handed to monte-carlo-worker.ts: run indices [fromRun, toRun) */
+export interface MonteCarloWorkerData {
+  input: SimulationInput;
+  fromRun: number;
+  toRun: number;
+}
+
+/** Messages posted by monte-carlo-worker.ts */
+export type MonteCarloWorkerMessage =
+  | { type: 'run'; runIndex: number; summary: MonteCarloRunSummary }
+  | { type: 'error'; message: string };
+
+/**
+ * Splits runs 1 … numRuns−1 (run 0 is the primary) into at most `workers`
+ * contiguous [from, to) ranges of near-equal size, in run order.
+ */
+export function partitionRuns(numRuns: number, workers: number): Array<[number, number]> {
+  const runs = numRuns - 1;
+  const parts = Math.min(Math.max(1, workers), runs);
+  const ranges: Array<[number, number]> = [];
+  let from = 1;
+  for (let part = 0; part < parts; part++) {
+    const size = Math.floor(runs / parts) + (part < runs % parts ? 1 : 0);
+    ranges.push([from, from + size]);
+    from += size;
+  }
+  return ranges;
+}
+
+/**
+ * Spawns a Monte Carlo worker. Compiled builds run monte-carlo-worker.js
+ * directly; under tsx or vitest the worker registers tsx itself first, as
+ * in jobs.ts.
+ */
+function spawnWorker(workerData: MonteCarloWorkerData): Worker {
+  if (!import.meta.url.endsWith('.ts')) {
+    return new Worker(new URL('./monte-carlo-worker.js', import.meta.url), { workerData });
+  }
+
+  const tsxApi = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const entry = new URL('./monte-carlo-worker.ts', import.meta.url).href;
+  const bootstrap =
+    `import(${JSON.stringify(tsxApi)})` +
+    `.then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/** Resolves once the worker has reported every run of its range */
+function awaitRuns(
+  worker: Worker,
+  { fromRun, toRun }: MonteCarloWorkerData,
+  onRun: (runIndex: number, summary: MonteCarloRunSummary) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let remaining = toRun - fromRun;
+    worker.on('message', (message: MonteCarloWorkerMessage) => {
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      onRun(message.runIndex, message.summary);
+      if (--remaining === 0) resolve();
+    });
+    worker.on('error', reject);
+    worker.on('exit', (code) => {
+      reject(new Error(`Monte Carlo worker exited with code ${code} before finishing`));
+    });
+  });
+}
+
+/**
+ * Runs the full simulation like simulate(), with the Monte Carlo runs other
+ * than the primary spread over `options.workers` worker threads.
+ * `options.onProgress` counts runs as they complete, in any order.
+ *
+ * Guarantees: output is bit-identical to simulate() (apart from `computedAt`).
+ *
+ * @throws Error if the primary run or any worker's run fails
+ */
+export async function simulateParallel(
+  input: SimulationInput,
+  options: ParallelSimulateOptions = {},
+): Promise<SimulationOutput> {
+  const {
+    workers = Math.max(1, availableParallelism() - 1),
+    onProgress,
+    ...primaryOptions
+  } = options;
+  const numRuns = monteCarloConfigFor(input).runs;
+  const summaries: MonteCarloRunSummary[] = new Array(Math.max(0, numRuns - 1));
+  let completedRuns = 0;
+  const report = () => onProgress?.({ completedRuns: ++completedRuns, totalRuns: numRuns });
+
+  // Workers start before the primary run so both proceed at once
+  const pool = numRuns > 1 ? partitionRuns(numRuns, workers) : [];
+  const spawned = pool.map(([fromRun, toRun]) => {
+    const data = { input, fromRun, toRun };
+    const worker = spawnWorker(data);
+    const done = awaitRuns(worker, data, (runIndex, summary) => {
+      summaries[runIndex - 1] = summary;
+      report();
+    });
+    // Failures surface through Promise.all below, or not at all once the pool is torn down
+    done.catch(() => undefined);
+    return { worker, done };
+  });
+
+  try {
+    const primaryResult = simulateSingleRun(
+      perturbInput(input, 0),
+      input.seed,
+      undefined,
+      primaryOptions,
+    );
+    report();
+    if (numRuns <= 1) return primaryResult;
+
+    await Promise.all(spawned.map(({ done }) => done));
+    const bands = bandAccumulatorFor(input);
+    bands.add(primaryResult.snapshots);
+    return mergeMonteCarlo(primaryResult, summaries, bands);
+  } finally {
+    await Promise.all(spawned.map(({ worker }) => worker.terminate()));
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * ScenarioStore tests — concurrent changes must not overwrite each other.
+ */
+import { describe, expect, it } from 'vitest';
+import type { SimulationInput } from '@future-wallet/shared-types';
+import { ScenarioStore } from './scenarios.js';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 30,
+  baseCurrency: 'USD',
+  initialBalance: 10000,
+  incomeStreams: [],
+  expenses: [],
+  assets: [],
+  liabilities: [],
+  exchangeRates: [],
+};
+
+describe('ScenarioStore', () => {
+  it('applies concurrent updates one after another', async () => {
+    const store = new ScenarioStore();
+    const { id } = await store.create({ name: 'Raced', input: INPUT });
+
+    const balances = [1000, 2000, 3000, 4000];
+    const updates = await Promise.all(
+      balances.map((initialBalance) => store.update(id, { input: { ...INPUT, initialBalance } })),
+    );
+    expect(updates.map((scenario) => scenario?.version)).toEqual([2, 3, 4, 5]);
+
+    const versions = await store.versions(id);
+    expect(versions.map((v) => v.input.initialBalance)).toEqual([10000, ...balances]);
+    expect((await store.get(id))?.input.initialBalance).toBe(4000);
+  });
+
+  it('deletes a scenario only after the updates queued before it', async () => {
+    const store = new ScenarioStore();
+    const { id } = await store.create({ name: 'Gone', input: INPUT });
+
+    const [updated, deleted] = await Promise.all([
+      store.update(id, { name: 'Renamed' }),
+      store.delete(id),
+    ]);
+    expect(updated?.name).toBe('Renamed');
+    expect(deleted?.name).toBe('Renamed');
+    expect(await store.get(id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * @future-wallet/api — Saved scenario store
+ *
+ * Saves simulation inputs under a name so they can be listed, reopened,
+ * edited and re-run. Storage is pluggable: scenarios live in memory by
+ * default, or in a JSON file that survives restarts. Outputs are stored
+ * by input hash and seed; the engine is deterministic, so re-running a
+ * scenario whose input has not changed reads the stored output. Every
+ * change of a scenario's input adds a version, so earlier inputs can be
+ * reopened and compared. Changes to a scenario run one at a time.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  CreateSavedScenario,
+  SavedScenario,
+  ScenarioVersion,
+  SimulationOutput,
+  UpdateSavedScenario,
+} from '@future-wallet/shared-types';
+import { canonicalJson, inputHash } from './hash.js';
+
+/** What a stored output was computed from */
+export interface StoredResultKey {
+  inputHash: string;
+  seed: number;
+}
+
+/** Where saved scenarios and their outputs are kept */
+export interface ScenarioStorage {
+  /** Every scenario, oldest first */
+  list(): Promise<SavedScenario[]>;
+  get(id: string): Promise<SavedScenario | undefined>;
+  /** Inserts or replaces the scenario with the same id */
+  put(scenario: SavedScenario): Promise<void>;
+  /** Deletes the scenario with its versions; returns false if it does not exist */
+  delete(id: string): Promise<boolean>;
+  /** Every version of a scenario, oldest first */
+  versions(id: string): Promise<ScenarioVersion[]>;
+  putVersion(version: ScenarioVersion): Promise<void>;
+  getResult(key: StoredResultKey): Promise<SimulationOutput | undefined>;
+  putResult(key: StoredResultKey, output: SimulationOutput): Promise<void>;
+}
+
+export interface ScenarioStorageOptions {
+  /** Outputs kept at once; storing another drops the oldest (default: 64) */
+  maxResults?: number;
+}
+
+const DEFAULT_MAX_RESULTS = 64;
+
+/** Scenarios and their versions, as written by FileScenarioStorage */
+interface StoredScenarios {
+  scenarios: SavedScenario[];
+  versions: ScenarioVersion[];
+}
+
+function resultKey({ inputHash, seed }: StoredResultKey): string {
+  return `${inputHash}:${seed}`;
+}
+
+/** File name of a stored output (no colon, which some file systems reject) */
+function resultFile({ inputHash, seed }: StoredResultKey): string {
+  return `${inputHash}.${seed}.json`;
+}
+
+export class MemoryScenarioStorage implements ScenarioStorage {
+  private readonly scenarios: Map<string, SavedScenario>;
+  private readonly scenarioVersions = new Map<string, ScenarioVersion[]>();
+  private readonly results = new Map<string, SimulationOutput>();
+  private readonly maxResults: number;
+
+  constructor(options: ScenarioStorageOptions = {}, contents?: StoredScenarios) {
+    this.maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    this.scenarios = new Map(contents?.scenarios.map((s) => [s.id, s]));
+    for (const version of contents?.versions ?? []) {
+      const versions = this.scenarioVersions.get(version.scenarioId) ?? [];
+      this.scenarioVersions.set(version.scenarioId, [...versions, version]);
+    }
+  }
+
+  async list(): Promise<SavedScenario[]> {
+    return [...this.scenarios.values()];
+  }
+
+  async get(id: string): Promise<SavedScenario | undefined> {
+    return this.scenarios.get(id);
+  }
+
+  async put(scenario: SavedScenario): Promise<void> {
+    this.scenarios.set(scenario.id, scenario);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.scenarioVersions.delete(id);
+    return this.scenarios.delete(id);
+  }
+
+  async versions(id: string): Promise<ScenarioVersion[]> {
+    return this.scenarioVersions.get(id) ?? [];
+  }
+
+  async putVersion(version: ScenarioVersion): Promise<void> {
+    const versions = this.scenarioVersions.get(version.scenarioId) ?? [];
+    this.scenarioVersions.set(version.scenarioId, [...versions, version]);
+  }
+
+  async getResult(key: StoredResultKey): Promise<SimulationOutput | undefined> {
+    return this.results.get(resultKey(key));
+  }
+
+  async putResult(key: StoredResultKey, output: SimulationOutput): Promise<void> {
+    this.results.delete(resultKey(key));
+    if (this.results.size >= this.maxResults) {
+      const oldest = this.results.keys().next().value;
+      if (oldest !== undefined) this.results.delete(oldest);
+    }
+    this.results.set(resultKey(key), output);
+  }
+
+  /** Scenarios and versions, for writing to disk */
+  contents(): StoredScenarios {
+    return {
+      scenarios: [...this.scenarios.values()],
+      versions: [...this.scenarioVersions.values()].flat(),
+    };
+  }
+}
+
+/**
+ * Keeps scenarios and versions in memory and rewrites `path` after every
+ * change to them; the file is read on first use, and a missing file starts
+ * empty. Outputs are not held in memory: each is a file of its own in the
+ * `<path>.results` directory, so storing one writes only that file. Writes
+ * go to a temporary file renamed into place, one at a time.
+ */
+export class FileScenarioStorage implements ScenarioStorage {
+  private loaded?: Promise<MemoryScenarioStorage>;
+  /** Stored output file names, oldest first */
+  private resultFiles?: Promise<string[]>;
+  private writes: Promise<void> = Promise.resolve();
+  private readonly resultsDir: string;
+  private readonly maxResults: number;
+
+  constructor(
+    private readonly path: string,
+    private readonly options: ScenarioStorageOptions = {},
+  ) {
+    this.resultsDir = `${path}.results`;
+    this.maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+  }
+
+  private memory(): Promise<MemoryScenarioStorage> {
+    this.loaded ??= readFile(this.path, 'utf8').then(
+      (text) => new MemoryScenarioStorage(this.options, JSON.parse(text) as StoredScenarios),
+      (err: NodeJS.ErrnoException) => {
+        if (err.code === 'ENOENT') return new MemoryScenarioStorage(this.options);
+        throw err;
+      },
+    );
+    return this.loaded;
+  }
+
+  /** Output files found on first use, ordered by when they were written */
+  private storedResultFiles(): Promise<string[]> {
+    this.resultFiles ??= readdir(this.resultsDir).then(
+      async (names) => {
+        const files = await Promise.all(
+          names
+            .filter((name) => name.endsWith('.json'))
+            .map(async (name) => ({
+              name,
+              writtenAt: (await stat(join(this.resultsDir, name))).mtimeMs,
+            })),
+        );
+        return files.sort((a, b) => a.writtenAt - b.writtenAt).map((file) => file.name);
+      },
+      (err: NodeJS.ErrnoException) => {
+        if (err.code === 'ENOENT') return [];
+        throw err;
+      },
+    );
+    return this.resultFiles;
+  }
+
+  /** Queues a write after the ones before it, whether or not they failed */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.catch(() => undefined).then(write);
+    return this.writes;
+  }
+
+  private save(memory: MemoryScenarioStorage): Promise<void> {
+    const text = JSON.stringify(memory.contents());
+    const temporary = `${this.path}.tmp`;
+    return this.enqueue(async () => {
+      await writeFile(temporary, text);
+      await rename(temporary, this.path);
+    });
+  }
+
+  async list(): Promise<SavedScenario[]> {
+    return (await this.memory()).list();
+  }
+
+  async get(id: string): Promise<SavedScenario | undefined> {
+    return (await this.memory()).get(id);
+  }
+
+  async put(scenario: SavedScenario): Promise<void> {
+    const memory = await this.memory();
+    await memory.put(scenario);
+    await this.save(memory);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const memory = await this.memory();
+    const deleted = await memory.delete(id);
+    if (deleted) await this.save(memory);
+    return deleted;
+  }
+
+  async versions(id: string): Promise<ScenarioVersion[]> {
+    return (await this.memory()).versions(id);
+  }
+
+  async putVersion(version: ScenarioVersion): Promise<void> {
+    const memory = await this.memory();
+    await memory.putVersion(version);
+    await this.save(memory);
+  }
+
+  async getResult(key: StoredResultKey): Promise<SimulationOutput | undefined> {
+    try {
+      const text = await readFile(join(this.resultsDir, resultFile(key)), 'utf8');
+      return JSON.parse(text) as SimulationOutput;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  async putResult(key: StoredResultKey, output: SimulationOutput): Promise<void> {
+    const files = await this.storedResultFiles();
+    const name = resultFile(key);
+    const text = JSON.stringify(output);
+    return this.enqueue(async () => {
+      const temporary = join(this.resultsDir, `${name}.tmp`);
+      await mkdir(this.resultsDir, { recursive: true });
+      await writeFile(temporary, text);
+      await rename(temporary, join(this.resultsDir, name));
+
+      if (files.includes(name)) files.splice(files.indexOf(name), 1);
+      files.push(name);
+      for (const oldest of files.splice(0, Math.max(0, files.length - this.maxResults))) {
+        await rm(join(this.resultsDir, oldest), { force: true });
+      }
+    });
+  }
+}
+
+/** Saved scenarios over a pluggable storage; ids, hashes and versions are assigned here */
+export class ScenarioStore {
+  /** Settles once every change made so far has */
+  private changes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly storage: ScenarioStorage = new MemoryScenarioStorage()) {}
+
+  /** Runs `change` after every earlier one, so read-modify-writes never interleave */
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.changes.then(change);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+
+  create(request: CreateSavedScenario): Promise<SavedScenario> {
+    return this.serialize(async () => {
+      const now = new Date().toISOString();
+      const scenario: SavedScenario = {
+        id: randomUUID(),
+        name: request.name,
+        ...(request.description !== undefined && { description: request.description }),
+        input: request.input,
+        inputHash: inputHash(request.input),
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.storage.put(scenario);
+      await this.addVersion(scenario);
+      return scenario;
+    });
+  }
+
+  /** Every scenario, oldest first */
+  list(): Promise<SavedScenario[]> {
+    return this.storage.list();
+  }
+
+  get(id: string): Promise<SavedScenario | undefined> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * Replaces the given fields, adding a version if the input changes;
+   * returns undefined if the scenario does not exist.
+   */
+  update(id: string, request: UpdateSavedScenario): Promise<SavedScenario | undefined> {
+    return this.serialize(async () => {
+      const scenario = await this.storage.get(id);
+      if (!scenario) return undefined;
+
+      const input = request.input ?? scenario.input;
+      const changed = canonicalJson(input) !== canonicalJson(scenario.input);
+      const updated: SavedScenario = {
+        ...scenario,
+        ...(request.name !== undefined && { name: request.name }),
+        ...(request.description !== undefined && { description: request.description }),
+        input,
+        inputHash: inputHash(input),
+        version: changed ? scenario.version + 1 : scenario.version,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.storage.put(updated);
+      if (changed) await this.addVersion(updated);
+      return updated;
+    });
+  }
+
+  private addVersion(scenario: SavedScenario): Promise<void> {
+    return this.storage.putVersion({
+      scenarioId: scenario.id,
+      version: scenario.version,
+      input: scenario.input,
+      inputHash: scenario.inputHash,
+      createdAt: scenario.updatedAt,
+    });
+  }
+
+  /** Every version of a scenario, oldest first */
+  versions(id: string): Promise<ScenarioVersion[]> {
+    return this.storage.versions(id);
+  }
+
+  async version(id: string, version: number): Promise<ScenarioVersion | undefined> {
+    return (await this.storage.versions(id)).find((v) => v.version === version);
+  }
+
+  delete(id: string): Promise<SavedScenario | undefined> {
+    return this.serialize(async () => {
+      const scenario = await this.storage.get(id);
+      if (!scenario || !(await this.storage.delete(id))) return undefined;
+      return scenario;
+    });
+  }
+
+  /** The stored output of a scenario or version run with `seed`, if any */
+  storedResult(
+    { inputHash }: Pick<SavedScenario, 'inputHash'>,
+    seed: number,
+  ): Promise<SimulationOutput | undefined> {
+    return this.storage.getResult({ inputHash, seed });
+  }
+
+  storeResult(
+    { inputHash }: Pick<SavedScenario, 'inputHash'>,
+    seed: number,
+    output: SimulationOutput,
+  ): Promise<void> {
+    return this.storage.putResult({ inputHash, seed }, output);
+  }
+}
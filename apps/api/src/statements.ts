@@ -0,0 +1,178 @@
+/**
+ * @future-wallet/api — Bank statement parsing
+ *
+ * Reads the transactions of a CSV statement, through a column mapping, or
+ * of an OFX/QFX statement (SGML 1.x or XML 2.x). Dates come out as
+ * YYYY-MM-DD; amounts are signed, deposits positive.
+ */
+import type { CsvColumnMapping, Transaction } from '@future-wallet/shared-types';
+
+/** Thrown when a statement cannot be read; the message names the line or field */
+export class StatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementError';
+  }
+}
+
+export interface ParsedStatement {
+  transactions: Transaction[];
+  /** The statement's currency, when it names one (OFX CURDEF) */
+  currency?: string;
+}
+
+// ─── CSV ────────────────────────────────────────────────────────────────────────
+
+/** Rows of delimited text; quoted fields may hold delimiters, newlines and "" */
+function csvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+/** YYYY-MM-DD of a date written in `format`, or null if it is not a real date */
+function parseDate(text: string, format: CsvColumnMapping['dateFormat']): string | null {
+  const parts = text.trim().split(/\D+/).map(Number);
+  if (parts.length < 3 || parts.slice(0, 3).some((n) => !Number.isInteger(n))) return null;
+
+  const [year, month, day] =
+    format === 'YYYY-MM-DD'
+      ? parts
+      : format === 'MM/DD/YYYY'
+        ? [parts[2], parts[0], parts[1]]
+        : [parts[2], parts[1], parts[0]];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A signed amount: currency symbols and thousands separators are dropped,
+ * and a minus sign or parentheses make it negative. Blank cells give
+ * null, unreadable ones NaN.
+ */
+function parseAmount(text: string, decimalSeparator: '.' | ','): number | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.includes('-');
+  const digits = trimmed
+    .replace(decimalSeparator === '.' ? /,/g : /\./g, '')
+    .replace(',', '.')
+    .replace(/[^\d.]/g, '');
+  const value = Number(digits);
+  if (digits === '' || !Number.isFinite(value)) return NaN;
+  return negative ? -value : value;
+}
+
+export function parseCsvStatement(text: string, mapping: CsvColumnMapping): ParsedStatement {
+  const rows = csvRows(text, mapping.delimiter);
+  const header = mapping.hasHeader ? (rows.shift() ?? []) : [];
+  const names = header.map((name) => name.trim().toLowerCase());
+
+  const columnIndex = (column: string | number | undefined, role: string) => {
+    if (column === undefined || typeof column === 'number') return column;
+    if (!mapping.hasHeader) {
+      throw new StatementError(`Column "${column}" (${role}) needs a header row; use an index`);
+    }
+    const index = names.indexOf(column.trim().toLowerCase());
+    if (index < 0) throw new StatementError(`Column "${column}" (${role}) not found`);
+    return index;
+  };
+  const split = mapping.debit !== undefined || mapping.credit !== undefined;
+  const date = columnIndex(mapping.date, 'date') as number;
+  const description = columnIndex(mapping.description, 'description') as number;
+  const amount = columnIndex(mapping.amount ?? (split ? undefined : 'Amount'), 'amount');
+  const debit = columnIndex(mapping.debit, 'debit');
+  const credit = columnIndex(mapping.credit, 'credit');
+
+  const transactions: Transaction[] = [];
+  rows.forEach((row, i) => {
+    const line = i + (mapping.hasHeader ? 2 : 1);
+    const cell = (index: number | undefined) => (index === undefined ? '' : (row[index] ?? ''));
+    const amountOf = (index: number | undefined) => {
+      const value = parseAmount(cell(index), mapping.decimalSeparator);
+      if (Number.isNaN(value)) {
+        throw new StatementError(`Line ${line}: invalid amount "${cell(index)}"`);
+      }
+      return value ?? 0;
+    };
+
+    const day = parseDate(cell(date), mapping.dateFormat);
+    if (!day) throw new StatementError(`Line ${line}: invalid date "${cell(date)}"`);
+    const value =
+      amount !== undefined
+        ? amountOf(amount)
+        : Math.abs(amountOf(credit)) - Math.abs(amountOf(debit));
+    if (value !== 0) {
+      transactions.push({ date: day, amount: value, description: cell(description).trim() });
+    }
+  });
+  return { transactions };
+}
+
+// ─── OFX / QFX ──────────────────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Value of the first `<TAG>` in an OFX block; SGML leaves leaf tags unclosed */
+function ofxField(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match?.[1].trim().replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => ENTITIES[name]);
+}
+
+export function parseOfxStatement(text: string): ParsedStatement {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) throw new StatementError('No <STMTTRN> transactions found');
+
+  const transactions = blocks.map((raw, i): Transaction => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const posted = ofxField(block, 'DTPOSTED') ?? '';
+    const date = /^\d{8}/.test(posted)
+      ? parseDate(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`, 'YYYY-MM-DD')
+      : null;
+    if (!date) throw new StatementError(`Transaction ${i + 1}: invalid DTPOSTED "${posted}"`);
+
+    const amountText = ofxField(block, 'TRNAMT') ?? '';
+    const amount = Number(amountText.replace(',', '.'));
+    if (amountText === '' || !Number.isFinite(amount)) {
+      throw new StatementError(`Transaction ${i + 1}: invalid TRNAMT "${amountText}"`);
+    }
+    const description = ofxField(block, 'NAME') || ofxField(block, 'MEMO') || '';
+    return { date, amount, description };
+  });
+
+  return {
+    transactions: transactions.filter((t) => t.amount !== 0),
+    currency: ofxField(text, 'CURDEF')?.toUpperCase(),
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * @future-wallet/api — Branch tree store
+ *
+ * Keeps branch trees in memory so clients can grow a tree one node at a
+ * time and evaluate it whenever they like. Node ids are assigned here and
+ * never change. Once `maxTrees` trees exist, creating another evicts the
+ * oldest. Evaluation runs every node inline, so a tree may grow only while
+ * its evaluation fits the run budget (budget.ts).
+ */
+import { randomUUID } from 'node:crypto';
+import {
+  MAX_BRANCH_TREE_NODES,
+  type BranchNode,
+  type BranchTree,
+  type CreateBranchNode,
+  type CreateBranchTree,
+  type SimulationInput,
+} from '@future-wallet/shared-types';
+import {
+  BranchPatchError,
+  branchInputFor,
+  type BranchFork,
+} from '@future-wallet/simulation-engine';
+import { MAX_SIMULATED_DAYS, simulatedDays } from './budget.js';
+
+export interface BranchTreeStoreOptions {
+  /** Trees kept at once (default: 128) */
+  maxTrees?: number;
+}
+
+const DEFAULT_MAX_TREES = 128;
+
+/** The forks from the baseline down to `fork`, which branches its `parentId` */
+function chainTo(
+  nodes: ReadonlyMap<string, BranchNode>,
+  fork: BranchFork & { parentId: string | null },
+): BranchFork[] {
+  const forks: BranchFork[] = [fork];
+  for (let at = nodes.get(fork.parentId ?? ''); at; at = nodes.get(at.parentId ?? '')) {
+    forks.unshift(at);
+  }
+  return forks;
+}
+
+/** Simulated days of evaluating `tree`: the baseline and every node over the full horizon */
+export function evaluationDays(tree: BranchTree): number {
+  const byId = new Map(tree.nodes.map((n) => [n.id, n]));
+  return tree.nodes.reduce(
+    (days, node) => days + simulatedDays(branchInputFor(tree.baseInput, chainTo(byId, node)), 1),
+    simulatedDays(tree.baseInput, 1),
+  );
+}
+
+/**
+ * Why `request` cannot be added to `tree`, or null if it can. Children
+ * branch inside the horizon and no earlier than their parent, patch only
+ * items their parent's input has, and keep the tree's evaluation within
+ * the run budget.
+ */
+export function invalidNode(tree: BranchTree, request: CreateBranchNode): string | null {
+  if (tree.nodes.length >= MAX_BRANCH_TREE_NODES) {
+    return `Branch trees hold at most ${MAX_BRANCH_TREE_NODES} nodes`;
+  }
+  if (request.branchAtDay >= tree.baseInput.horizonDays) {
+    return `Branch day ${request.branchAtDay} is outside the simulation horizon of ${tree.baseInput.horizonDays} days`;
+  }
+  const byId = new Map(tree.nodes.map((n) => [n.id, n]));
+  if (request.parentId !== null) {
+    const parent = byId.get(request.parentId);
+    if (!parent) return `Parent node ${request.parentId} not found`;
+    if (request.branchAtDay < parent.branchAtDay) {
+      return `Branch day ${request.branchAtDay} is before the parent's branch day ${parent.branchAtDay}`;
+    }
+  }
+
+  let input: SimulationInput;
+  try {
+    input = branchInputFor(tree.baseInput, chainTo(byId, request));
+  } catch (err) {
+    if (err instanceof BranchPatchError) return err.message;
+    throw err;
+  }
+
+  const days = evaluationDays(tree) + simulatedDays(input, 1);
+  if (days > MAX_SIMULATED_DAYS) {
+    return `Evaluating the tree with this node would simulate ${days} days, over the budget of ${MAX_SIMULATED_DAYS}`;
+  }
+  return null;
+}
+
+export class BranchTreeStore {
+  private readonly trees = new Map<string, BranchTree>();
+  private readonly maxTrees: number;
+
+  constructor(options: BranchTreeStoreOptions = {}) {
+    this.maxTrees = options.maxTrees ?? DEFAULT_MAX_TREES;
+  }
+
+  create(request: CreateBranchTree): BranchTree {
+    if (this.trees.size >= this.maxTrees) {
+      const oldest = this.trees.keys().next().value;
+      if (oldest !== undefined) this.trees.delete(oldest);
+    }
+
+    const tree: BranchTree = {
+      id: randomUUID(),
+      name: request.name,
+      baseInput: request.baseInput,
+      nodes: [],
+      createdAt: new Date().toISOString(),
+    };
+    this.trees.set(tree.id, tree);
+    return tree;
+  }
+
+  /** Every tree, oldest first */
+  list(): BranchTree[] {
+    return [...this.trees.values()];
+  }
+
+  get(id: string): BranchTree | undefined {
+    return this.trees.get(id);
+  }
+
+  delete(id: string): BranchTree | undefined {
+    const tree = this.trees.get(id);
+    this.trees.delete(id);
+    return tree;
+  }
+
+  /** Appends a node; check it with invalidNode() first */
+  addNode(tree: BranchTree, request: CreateBranchNode): BranchNode {
+    const node: BranchNode = {
+      id: randomUUID(),
+      parentId: request.parentId,
+      name: request.name ?? `Day ${request.branchAtDay}`,
+      branchAtDay: request.branchAtDay,
+      modifiedInput: request.modifiedInput,
+      ...(request.patch && { patch: request.patch }),
+    };
+    tree.nodes.push(node);
+    return node;
+  }
+
+  /**
+   * Removes a node together with everything branched from it. Returns
+   * false if the node does not exist.
+   */
+  removeNode(tree: BranchTree, nodeId: string): boolean {
+    if (!tree.nodes.some((n) => n.id === nodeId)) return false;
+
+    // Parents precede children, so one pass collects the whole subtree
+    const removed = new Set([nodeId]);
+    for (const node of tree.nodes) {
+      if (node.parentId !== null && removed.has(node.parentId)) removed.add(node.id);
+    }
+    tree.nodes = tree.nodes.filter((n) => !removed.has(n.id));
+    return true;
+  }
+}
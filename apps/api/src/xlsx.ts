@@ -0,0 +1,192 @@
+/**
+ * @future-wallet/api — XLSX workbook writer
+ *
+ * Writes plain tables as an Office Open XML workbook: one worksheet per
+ * table, a frozen header row, numbers as numbers and text as inline
+ * strings. The parts are deflated into a ZIP archive with fixed
+ * timestamps, so the same tables always give the same bytes.
+ */
+import { deflateRawSync } from 'node:zlib';
+
+export type Cell = string | number | null;
+
+export interface Sheet {
+  /** Worksheet name (at most 31 characters, none of `[]:*?/\`) */
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+// ─── ZIP ────────────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** 1980-01-01 00:00, the earliest DOS date, for every entry */
+const DOS_DATE = 0x0021;
+const DOS_TIME = 0;
+
+/** A ZIP archive of deflated files, in order */
+function zip(files: [path: string, content: string][]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of files) {
+    const name = Buffer.from(path, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// ─── SpreadsheetML ──────────────────────────────────────────────────────────────
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/** Whether XML 1.0 allows `char`: tab, line feed, carriage return, and nothing else below a space */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x9 || code === 0xa || code === 0xd;
+}
+
+/** Text escaped for XML, without the control characters XML 1.0 forbids */
+function escapeXml(text: string): string {
+  return [...text]
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Spreadsheet column letters of a zero-based index: 0 → A, 26 → AA */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(value: Cell, ref: string): string {
+  if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+  return typeof value === 'number'
+    ? `<c r="${ref}"><v>${value}</v></c>`
+    : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheetXml(sheet: Sheet): string {
+  const rows = [sheet.columns, ...sheet.rows].map((cells, r) => {
+    const xml = cells.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`)).join('');
+    return `<row r="${r + 1}">${xml}</row>`;
+  });
+  return (
+    `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    `<sheetData>${rows.join('')}</sheetData></worksheet>`
+  );
+}
+
+/** An XLSX workbook holding each sheet in order */
+export function writeWorkbook(sheets: Sheet[]): Buffer {
+  const numbered = sheets.map((sheet, i) => ({ sheet, n: i + 1 }));
+  const contentTypes =
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    numbered
+      .map(
+        ({ n }) =>
+          `<Override PartName="/xl/worksheets/sheet${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+      )
+      .join('') +
+    '</Types>';
+  const rootRels =
+    `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+  const workbook =
+    `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    numbered
+      .map(
+        ({ sheet, n }) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${n}" r:id="rId${n}"/>`,
+      )
+      .join('') +
+    '</sheets></workbook>';
+  const workbookRels =
+    `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    numbered
+      .map(
+        ({ n }) =>
+          `<Relationship Id="rId${n}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${n}.xml"/>`,
+      )
+      .join('') +
+    '</Relationships>';
+
+  return zip([
+    ['[Content_Types].xml', contentTypes],
+    ['_rels/.rels', rootRels],
+    ['xl/workbook.xml', workbook],
+    ['xl/_rels/workbook.xml.rels', workbookRels],
+    ...numbered.map(({ sheet, n }): [string, string] => [
+      `xl/worksheets/sheet${n}.xml`,
+      worksheetXml(sheet),
+    ]),
+  ]);
+}
@@ -10,34 +10,109 @@ import type {
   SimulationOutput,
   BranchResult,
   BranchComparisonResult,
+  BranchNode,
+  BranchPatch,
+  BranchTree,
+  BranchTreeEvaluation,
+  CreateBranchNode,
+  Scenario,
+  ScenarioComparisonResult,
+  SavedScenario,
+  SavedScenarioRun,
+  ImportResult,
+  ImportTransactionsRequest,
+  ExportRequest,
+  DailySnapshot,
+  JobProgress,
+  SimulationStreamEvent,
+  SensitivityReport,
 } from '@future-wallet/shared-types';
 
 const API_BASE = '/api';
 
-export async function runSimulation(input: SimulationInput): Promise<SimulationOutput> {
-  const res = await fetch(`${API_BASE}/simulate`, {
+/** Results kept for revalidation, most recent last */
+const MAX_REVALIDATED = 16;
+const revalidated = new Map<string, { etag: string; result: unknown }>();
+
+/**
+ * POST a deterministic request. The API tags each result with an ETag; when
+ * the same request was sent before, its ETag goes out as If-None-Match and a
+ * 304 reuses the result kept from last time instead of downloading it again.
+ */
+async function postRevalidated<T>(path: string, body: unknown): Promise<T> {
+  const payload = JSON.stringify(body);
+  const key = `${path} ${payload}`;
+  const previous = revalidated.get(key);
+  const res = await fetch(`${API_BASE}${path}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(input),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(previous && { 'If-None-Match': previous.etag }),
+    },
+    body: payload,
   });
 
+  if (res.status === 304 && previous) return previous.result as T;
+
   if (!res.ok) {
     const err = await res.json().catch(() => ({ error: 'Network error' }));
     throw new Error(err.error ?? `HTTP ${res.status}`);
   }
 
-  return res.json();
+  const result = (await res.json()) as T;
+  const etag = res.headers.get('etag');
+  if (etag) {
+    revalidated.delete(key);
+    if (revalidated.size >= MAX_REVALIDATED) {
+      const oldest = revalidated.keys().next().value;
+      if (oldest !== undefined) revalidated.delete(oldest);
+    }
+    revalidated.set(key, { etag, result });
+  }
+  return result;
+}
+
+export async function runSimulation(input: SimulationInput): Promise<SimulationOutput> {
+  return postRevalidated('/simulate', input);
 }
 
 export async function runBranch(
   baseInput: SimulationInput,
   branchAtDay: number,
   modifiedInput: Partial<SimulationInput>,
+  patch?: BranchPatch,
 ): Promise<BranchResult> {
-  const res = await fetch(`${API_BASE}/simulate/branch`, {
+  return postRevalidated('/simulate/branch', { baseInput, branchAtDay, modifiedInput, patch });
+}
+
+/**
+ * Run a branch comparison via POST /simulate/compare.
+ * `modifiedInput` replaces whole collections; `patch` then edits items by id.
+ * Returns baseline, branch, branchAtDay, and a `deltas` object with
+ * structured differences between the two scenarios.
+ */
+export async function runComparison(
+  baseInput: SimulationInput,
+  branchAtDay: number,
+  modifiedInput: Partial<SimulationInput>,
+  patch?: BranchPatch,
+): Promise<BranchComparisonResult> {
+  return postRevalidated('/simulate/compare', { baseInput, branchAtDay, modifiedInput, patch });
+}
+
+/**
+ * Compare several named scenarios against one baseline via
+ * POST /simulate/scenarios. Returns the baseline and, per scenario, its
+ * branch output and deltas.
+ */
+export async function runScenarios(
+  baseInput: SimulationInput,
+  scenarios: Scenario[],
+): Promise<ScenarioComparisonResult> {
+  const res = await fetch(`${API_BASE}/simulate/scenarios`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ baseInput, branchAtDay, modifiedInput }),
+    body: JSON.stringify({ baseInput, scenarios }),
   });
 
   if (!res.ok) {
@@ -49,19 +124,55 @@ export async function runBranch(
 }
 
 /**
- * Run a branch comparison via POST /simulate/compare.
- * Returns baseline, branch, branchAtDay, and a `deltas` object with
- * structured differences between the two scenarios.
+ * Run a sensitivity analysis via POST /simulate/sensitivity: every amount,
+ * yield, volatility and rate moved by ±`variation`, ranked by impact.
  */
-export async function runComparison(
+export async function runSensitivity(
+  input: SimulationInput,
+  variation: number,
+): Promise<SensitivityReport> {
+  const res = await fetch(`${API_BASE}/simulate/sensitivity`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ input, variation }),
+  });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/** Start a branch tree over `baseInput` via POST /trees */
+export async function createBranchTree(
+  name: string,
   baseInput: SimulationInput,
-  branchAtDay: number,
-  modifiedInput: Partial<SimulationInput>,
-): Promise<BranchComparisonResult> {
-  const res = await fetch(`${API_BASE}/simulate/compare`, {
+): Promise<BranchTree> {
+  const res = await fetch(`${API_BASE}/trees`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, baseInput }),
+  });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/**
+ * Branch the baseline (`parentId` null) or an existing node of a tree via
+ * POST /trees/:id/nodes. Returns the new node with its server-assigned id.
+ */
+export async function addBranchNode(treeId: string, node: CreateBranchNode): Promise<BranchNode> {
+  const res = await fetch(`${API_BASE}/trees/${treeId}/nodes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ baseInput, branchAtDay, modifiedInput }),
+    body: JSON.stringify(node),
   });
 
   if (!res.ok) {
@@ -71,3 +182,202 @@ export async function runComparison(
 
   return res.json();
 }
+
+/** Remove a node and everything branched from it; returns the remaining tree */
+export async function removeBranchNode(treeId: string, nodeId: string): Promise<BranchTree> {
+  const res = await fetch(`${API_BASE}/trees/${treeId}/nodes/${nodeId}`, { method: 'DELETE' });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/** Simulate every node of a tree via POST /trees/:id/evaluate */
+export async function evaluateBranchTree(treeId: string): Promise<BranchTreeEvaluation> {
+  const res = await fetch(`${API_BASE}/trees/${treeId}/evaluate`, { method: 'POST' });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/** Save an input under a name via POST /scenarios */
+export async function saveScenario(name: string, input: SimulationInput): Promise<SavedScenario> {
+  const res = await fetch(`${API_BASE}/scenarios`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, input }),
+  });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/** Every saved scenario, oldest first */
+export async function listSavedScenarios(): Promise<SavedScenario[]> {
+  const res = await fetch(`${API_BASE}/scenarios`);
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+export async function deleteSavedScenario(id: string): Promise<SavedScenario> {
+  const res = await fetch(`${API_BASE}/scenarios/${id}`, { method: 'DELETE' });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/**
+ * Run a saved scenario via POST /scenarios/:id/run. The server reuses the
+ * output stored for the same input and seed (`stored: true`).
+ */
+export async function runSavedScenario(id: string): Promise<SavedScenarioRun> {
+  const res = await fetch(`${API_BASE}/scenarios/${id}/run`, { method: 'POST' });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+/**
+ * Read a CSV or OFX/QFX statement via POST /import/transactions. Returns
+ * its recurring deposits and payments as proposed income streams and
+ * expenses, most confident first.
+ */
+export async function importTransactions(
+  request: ImportTransactionsRequest,
+): Promise<ImportResult> {
+  const res = await fetch(`${API_BASE}/import/transactions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  return res.json();
+}
+
+export interface ExportFile {
+  blob: Blob;
+  /** Name from the response's Content-Disposition */
+  fileName: string;
+}
+
+/**
+ * Export a simulation or comparison via POST /export as CSV, XLSX or
+ * NDJSON, ready to be saved as a download.
+ */
+export async function exportResults(request: ExportRequest): Promise<ExportFile> {
+  const res = await fetch(`${API_BASE}/export`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  const disposition = res.headers.get('content-disposition') ?? '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `future-wallet.${request.format}`;
+  return { blob: await res.blob(), fileName };
+}
+
+export interface StreamHandlers {
+  /** Called with each chunk of days as the server computes them */
+  onSnapshots?: (snapshots: DailySnapshot[]) => void;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+/**
+ * Run a simulation via POST /simulate/stream, reading its Server-Sent
+ * Events as they arrive. Resolves with the full output (streamed snapshots
+ * plus the closing summary) and rejects on an `error` event.
+ */
+export async function streamSimulation(
+  input: SimulationInput,
+  handlers: StreamHandlers = {},
+  signal?: AbortSignal,
+): Promise<SimulationOutput> {
+  const res = await fetch(`${API_BASE}/simulate/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const err = await res.json().catch(() => ({ error: 'Network error' }));
+    throw new Error(err.error ?? `HTTP ${res.status}`);
+  }
+
+  const snapshots: DailySnapshot[] = [];
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+
+    // Messages end with a blank line; keep a trailing partial one for later
+    const messages = buffered.split('\n\n');
+    buffered = messages.pop()!;
+
+    for (const message of messages) {
+      const event = parseStreamEvent(message);
+      switch (event.event) {
+        case 'snapshots':
+          snapshots.push(...event.data);
+          handlers.onSnapshots?.(event.data);
+          break;
+        case 'progress':
+          handlers.onProgress?.(event.data);
+          break;
+        case 'summary':
+          return { ...event.data, snapshots };
+        case 'error':
+          throw new Error(event.data.error);
+      }
+    }
+  }
+
+  throw new Error('Stream ended before the simulation finished');
+}
+
+function parseStreamEvent(message: string): SimulationStreamEvent {
+  let event = '';
+  let data = '';
+  for (const line of message.split('\n')) {
+    if (line.startsWith('event: ')) event = line.slice('event: '.length);
+    else if (line.startsWith('data: ')) data += line.slice('data: '.length);
+  }
+  return { event, data: JSON.parse(data) } as SimulationStreamEvent;
+}
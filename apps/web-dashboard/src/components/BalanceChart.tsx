@@ -1,6 +1,8 @@
 import {
   LineChart,
   Line,
+  Area,
+  ComposedChart,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -8,13 +10,54 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from 'recharts';
-import type { DailySnapshot } from '@future-wallet/shared-types';
+import type { DailyBand, DailySnapshot } from '@future-wallet/shared-types';
+
+export type BalanceChartMode = 'lines' | 'fan' | 'scenarios';
+
+/** One named balance line of the scenarios mode */
+export interface BalanceSeries {
+  name: string;
+  /** May start after day 0, e.g. a branch starts at its fork day */
+  snapshots: DailySnapshot[];
+}
 
 interface BalanceChartProps {
   snapshots: DailySnapshot[];
+  /** Monte Carlo percentile bands; required for the fan mode */
+  bands?: DailyBand[];
+  /** Lines overlaid by the scenarios mode, the first drawn as the reference */
+  series?: BalanceSeries[];
+  mode?: BalanceChartMode;
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'var(--paper-solid)',
+  border: '1px solid var(--ink-soft)',
+  borderRadius: '10px',
+  color: 'var(--ink)',
+};
+
+const SERIES_COLORS = [
+  'var(--ink-soft)',
+  'var(--rust)',
+  'var(--terra-green)',
+  'var(--sun-gold)',
+  'var(--danger)',
+  'var(--warning)',
+];
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`;
 }
 
-export function BalanceChart({ snapshots }: BalanceChartProps) {
+export function BalanceChart({ snapshots, bands, series, mode = 'lines' }: BalanceChartProps) {
+  if (mode === 'fan' && bands && bands.length > 0) {
+    return <BalanceFanChart bands={bands} />;
+  }
+  if (mode === 'scenarios' && series && series.length > 0) {
+    return <ScenarioBalanceChart series={series} />;
+  }
+
   const data = snapshots.map((s) => ({
     day: s.day,
     date: s.date,
@@ -46,16 +89,8 @@ export function BalanceChart({ snapshots }: BalanceChartProps) {
           tickFormatter={(v: number) => `$${v.toLocaleString()}`}
         />
         <Tooltip
-          contentStyle={{
-            backgroundColor: 'var(--paper-solid)',
-            border: '1px solid var(--ink-soft)',
-            borderRadius: '10px',
-            color: 'var(--ink)',
-          }}
-          formatter={(value: number, name: string) => [
-            `$${value.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
-            name,
-          ]}
+          contentStyle={TOOLTIP_STYLE}
+          formatter={(value: number, name: string) => [formatMoney(value), name]}
           labelFormatter={(label: number) => `Day ${label}`}
         />
         <ReferenceLine y={0} stroke="var(--danger)" strokeDasharray="4 4" />
@@ -80,3 +115,152 @@ export function BalanceChart({ snapshots }: BalanceChartProps) {
     </ResponsiveContainer>
   );
 }
+
+/**
+ * Fan chart: P5–P95 and P25–P75 balance bands around the P50 median,
+ * with the median NAV for reference.
+ */
+function BalanceFanChart({ bands }: { bands: DailyBand[] }) {
+  const data = bands.map((b) => ({
+    day: b.day,
+    date: b.date,
+    outer: [Number(b.balance.p5.toFixed(2)), Number(b.balance.p95.toFixed(2))],
+    inner: [Number(b.balance.p25.toFixed(2)), Number(b.balance.p75.toFixed(2))],
+    median: Number(b.balance.p50.toFixed(2)),
+    nav: Number(b.nav.p50.toFixed(2)),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={360}>
+      <ComposedChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="4 4" stroke="var(--line-muted)" />
+        <XAxis
+          dataKey="day"
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          label={{
+            value: 'Day',
+            position: 'insideBottomRight',
+            offset: -5,
+            fill: 'var(--ink-muted)',
+          }}
+        />
+        <YAxis
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          tickFormatter={(v: number) => `$${v.toLocaleString()}`}
+        />
+        <Tooltip
+          contentStyle={TOOLTIP_STYLE}
+          formatter={(value: number | number[], name: string) => [
+            Array.isArray(value)
+              ? `${formatMoney(value[0])} – ${formatMoney(value[1])}`
+              : formatMoney(value),
+            name,
+          ]}
+          labelFormatter={(label: number) => `Day ${label}`}
+        />
+        <ReferenceLine y={0} stroke="var(--danger)" strokeDasharray="4 4" />
+        <Area
+          type="monotone"
+          dataKey="outer"
+          stroke="none"
+          fill="var(--rust)"
+          fillOpacity={0.14}
+          name="P5 – P95"
+        />
+        <Area
+          type="monotone"
+          dataKey="inner"
+          stroke="none"
+          fill="var(--rust)"
+          fillOpacity={0.28}
+          name="P25 – P75"
+        />
+        <Line
+          type="monotone"
+          dataKey="median"
+          stroke="var(--rust)"
+          strokeWidth={2.2}
+          dot={false}
+          name="Median Balance"
+        />
+        <Line
+          type="monotone"
+          dataKey="nav"
+          stroke="var(--terra-green)"
+          strokeWidth={1.8}
+          dot={false}
+          name="Median NAV"
+          strokeDasharray="5 5"
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
+
+/**
+ * Overlaid balance lines, one per series, merged by day. The first series
+ * is drawn solid as the reference; the others dashed, each from its first
+ * day, cycling through the palette.
+ */
+function ScenarioBalanceChart({ series }: { series: BalanceSeries[] }) {
+  const rows = new Map<number, Record<string, number>>();
+  series.forEach(({ snapshots }, i) => {
+    for (const s of snapshots) {
+      const row = rows.get(s.day) ?? { day: s.day };
+      row[`s${i}`] = Number(s.balance.toFixed(2));
+      rows.set(s.day, row);
+    }
+  });
+  const data = [...rows.values()].sort((a, b) => a.day - b.day);
+
+  return (
+    <ResponsiveContainer width="100%" height={360}>
+      <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="4 4" stroke="var(--line-muted)" />
+        <XAxis
+          dataKey="day"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          label={{
+            value: 'Day',
+            position: 'insideBottomRight',
+            offset: -5,
+            fill: 'var(--ink-muted)',
+          }}
+        />
+        <YAxis
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          tickFormatter={(v: number) => `$${v.toLocaleString()}`}
+        />
+        <Tooltip
+          contentStyle={TOOLTIP_STYLE}
+          formatter={(value: number, name: string) => [formatMoney(value), name]}
+          labelFormatter={(label: number) => `Day ${label}`}
+        />
+        <ReferenceLine y={0} stroke="var(--danger)" strokeDasharray="4 4" />
+        {series.map(({ name }, i) => (
+          <Line
+            key={name}
+            type="monotone"
+            dataKey={`s${i}`}
+            stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+            strokeWidth={i === 0 ? 2.2 : 1.8}
+            strokeDasharray={i === 0 ? undefined : '6 3'}
+            dot={false}
+            connectNulls={false}
+            name={name}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,112 @@
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { BranchTimeline } from '@future-wallet/shared-types';
+
+interface BranchTimelineChartProps {
+  timeline: BranchTimeline;
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'var(--paper-solid)',
+  border: '1px solid var(--ink-soft)',
+  borderRadius: '10px',
+  color: 'var(--ink)',
+};
+
+function formatDiff(value: number): string {
+  return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Branch minus baseline per day from the fork: balance, NAV and debt gaps
+ * plus the cumulative cash difference, with the crossover and break-even
+ * days marked.
+ */
+export function BranchTimelineChart({ timeline }: BranchTimelineChartProps) {
+  const data = timeline.series.map((p) => ({
+    day: p.day,
+    balance: Number(p.balanceDiff.toFixed(2)),
+    nav: Number(p.navDiff.toFixed(2)),
+    debt: Number(p.debtDiff.toFixed(2)),
+    cash: Number(p.cumulativeCashDiff.toFixed(2)),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="4 4" stroke="var(--line-muted)" />
+        <XAxis dataKey="day" stroke="var(--ink-muted)" fontSize={12} tickLine={false} />
+        <YAxis
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          tickFormatter={(v: number) => formatDiff(v)}
+        />
+        <Tooltip
+          contentStyle={TOOLTIP_STYLE}
+          formatter={(value: number, name: string) => [formatDiff(value), name]}
+          labelFormatter={(label: number) => `Day ${label}`}
+        />
+        <ReferenceLine y={0} stroke="var(--ink-soft)" />
+        {timeline.crossoverDay !== null && (
+          <ReferenceLine
+            x={timeline.crossoverDay}
+            stroke="var(--sun-gold)"
+            strokeDasharray="4 4"
+            label={{ value: 'Crossover', fill: 'var(--ink-muted)', fontSize: 11 }}
+          />
+        )}
+        {timeline.breakEvenDay !== null && (
+          <ReferenceLine
+            x={timeline.breakEvenDay}
+            stroke="var(--terra-green)"
+            strokeDasharray="4 4"
+            label={{ value: 'Break-even', fill: 'var(--ink-muted)', fontSize: 11 }}
+          />
+        )}
+        <Line
+          type="monotone"
+          dataKey="balance"
+          stroke="var(--rust)"
+          strokeWidth={2.2}
+          dot={false}
+          name="Balance"
+        />
+        <Line
+          type="monotone"
+          dataKey="cash"
+          stroke="var(--terra-green)"
+          strokeWidth={1.8}
+          dot={false}
+          name="Cumulative Cash"
+        />
+        <Line
+          type="monotone"
+          dataKey="nav"
+          stroke="var(--sun-gold)"
+          strokeWidth={1.4}
+          dot={false}
+          name="NAV"
+          strokeDasharray="5 5"
+        />
+        <Line
+          type="monotone"
+          dataKey="debt"
+          stroke="var(--danger)"
+          strokeWidth={1.4}
+          dot={false}
+          name="Debt"
+          strokeDasharray="2 4"
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import type {
+  BranchNode,
+  BranchNodeResult,
+  BranchTree,
+  BranchTreeEvaluation,
+  DailySnapshot,
+} from '@future-wallet/shared-types';
+import { BalanceChart } from './BalanceChart';
+import { MetricCard } from './MetricCard';
+
+interface BranchTreeNavigatorProps {
+  tree: BranchTree;
+  /** Latest evaluation of the tree; null while none has been run */
+  evaluation: BranchTreeEvaluation | null;
+  /** Selected node; null selects the baseline */
+  selectedId: string | null;
+  onSelect: (nodeId: string | null) => void;
+  /** Branch the selected node (or the baseline) with an extra monthly income */
+  onBranch: (parentId: string | null, branchAtDay: number, monthlyIncome: number) => void;
+  onRemove: (nodeId: string) => void;
+  loading: boolean;
+}
+
+interface TreeRow {
+  node: BranchNode;
+  depth: number;
+  isLeaf: boolean;
+}
+
+/** Nodes in depth-first order, each child under its parent */
+function treeRows(nodes: BranchNode[]): TreeRow[] {
+  const children = new Map<string | null, BranchNode[]>();
+  for (const node of nodes) {
+    children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]);
+  }
+
+  const rows: TreeRow[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const node of children.get(parentId) ?? []) {
+      rows.push({ node, depth, isLeaf: !children.has(node.id) });
+      visit(node.id, depth + 1);
+    }
+  };
+  visit(null, 1);
+  return rows;
+}
+
+/**
+ * The full trajectory of a node: the baseline up to the first fork, then
+ * each ancestor's days up to the next fork, then the node's own days.
+ */
+function pathSnapshots(evaluation: BranchTreeEvaluation, nodeId: string): DailySnapshot[] {
+  const byId = new Map(evaluation.nodes.map((n) => [n.id, n]));
+  const path: BranchNodeResult[] = [];
+  for (let at = byId.get(nodeId); at; at = at.parentId ? byId.get(at.parentId) : undefined) {
+    path.unshift(at);
+  }
+
+  let snapshots = evaluation.baseline.snapshots;
+  for (const node of path) {
+    snapshots = [...snapshots.filter((s) => s.day < node.branchAtDay), ...node.branch.snapshots];
+  }
+  return snapshots;
+}
+
+function formatDelta(value: number): string {
+  return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+/**
+ * Tree navigator: lists a branch tree's nodes indented under their parents,
+ * switches the chart between the baseline and any node's full trajectory,
+ * and branches the selected node.
+ */
+export function BranchTreeNavigator({
+  tree,
+  evaluation,
+  selectedId,
+  onSelect,
+  onBranch,
+  onRemove,
+  loading,
+}: BranchTreeNavigatorProps) {
+  const [branchDay, setBranchDay] = useState(30);
+  const [branchIncome, setBranchIncome] = useState(1500);
+
+  const rows = treeRows(tree.nodes);
+  const selected = tree.nodes.find((n) => n.id === selectedId) ?? null;
+  const selectedResult = evaluation?.nodes.find((n) => n.id === selectedId) ?? null;
+  const minDay = selected?.branchAtDay ?? 0;
+
+  return (
+    <div className="branch-tree">
+      <ul className="branch-tree-list">
+        <li>
+          <button
+            type="button"
+            className={`branch-tree-node ${selectedId === null ? 'active' : ''}`}
+            onClick={() => onSelect(null)}
+          >
+            <span>Baseline</span>
+            <span className="branch-tree-meta">day 0</span>
+          </button>
+        </li>
+        {rows.map(({ node, depth, isLeaf }) => {
+          const result = evaluation?.nodes.find((n) => n.id === node.id);
+          return (
+            <li key={node.id} style={{ paddingLeft: `${depth * 18}px` }}>
+              <button
+                type="button"
+                className={`branch-tree-node ${selectedId === node.id ? 'active' : ''}`}
+                onClick={() => onSelect(node.id)}
+              >
+                <span>
+                  {isLeaf ? '◆' : '◇'} {node.name}
+                </span>
+                <span className="branch-tree-meta">
+                  day {node.branchAtDay}
+                  {result && ` · ${formatDelta(result.baselineDeltas.finalBalanceDiff)}`}
+                </span>
+              </button>
+              <button
+                type="button"
+                className="remove-btn"
+                onClick={() => onRemove(node.id)}
+                disabled={loading}
+                aria-label={`Remove ${node.name}`}
+              >
+                ×
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="form-grid">
+        <div className="form-group">
+          <label>Branch {selected ? `"${selected.name}"` : 'Baseline'} at Day</label>
+          <input
+            type="number"
+            min={minDay}
+            max={tree.baseInput.horizonDays - 1}
+            value={branchDay}
+            onChange={(e) => setBranchDay(Number(e.target.value))}
+          />
+        </div>
+        <div className="form-group">
+          <label>Extra Monthly Income</label>
+          <input
+            type="number"
+            value={branchIncome}
+            onChange={(e) => setBranchIncome(Number(e.target.value))}
+          />
+        </div>
+      </div>
+      <button
+        type="button"
+        className="add-btn"
+        onClick={() => onBranch(selectedId, branchDay, branchIncome)}
+        disabled={loading || branchDay < minDay}
+      >
+        {loading ? 'Running...' : '+ Branch'}
+      </button>
+
+      {evaluation && (
+        <>
+          {selectedResult && (
+            <div className="card-grid">
+              <MetricCard
+                label="Final Balance"
+                value={`$${selectedResult.branch.finalBalance.expected.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}
+              />
+              <MetricCard
+                label="vs Parent"
+                value={formatDelta(selectedResult.deltas.finalBalanceDiff)}
+                variant={selectedResult.deltas.finalBalanceDiff >= 0 ? 'success' : 'danger'}
+              />
+              <MetricCard
+                label="vs Baseline"
+                value={formatDelta(selectedResult.baselineDeltas.finalBalanceDiff)}
+                variant={selectedResult.baselineDeltas.finalBalanceDiff >= 0 ? 'success' : 'danger'}
+              />
+            </div>
+          )}
+          <BalanceChart
+            snapshots={evaluation.baseline.snapshots}
+            mode="scenarios"
+            series={[
+              { name: 'Baseline', snapshots: evaluation.baseline.snapshots },
+              ...(selectedResult
+                ? [
+                    {
+                      name: selectedResult.name,
+                      snapshots: pathSnapshots(evaluation, selectedResult.id),
+                    },
+                  ]
+                : []),
+            ]}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import type {
+  BranchRequest,
+  ExportAggregation,
+  ExportFormat,
+  ExportRequest,
+  ExportTable,
+  SimulationInput,
+  SnapshotColumn,
+} from '@future-wallet/shared-types';
+import { exportResults } from '../api';
+
+interface ExportPanelProps {
+  /** What to export: the last simulation, or the last branch comparison */
+  source:
+    | { kind: 'simulation'; input: SimulationInput }
+    | { kind: 'comparison'; comparison: BranchRequest };
+}
+
+/** Snapshot columns offered for selection; `day` and `date` are always exported */
+const COLUMNS: { column: SnapshotColumn; label: string }[] = [
+  { column: 'balance', label: 'Balance' },
+  { column: 'totalIncome', label: 'Income' },
+  { column: 'totalExpenses', label: 'Expenses' },
+  { column: 'netCashFlow', label: 'Net Cash Flow' },
+  { column: 'assetNAV', label: 'NAV' },
+  { column: 'totalDebt', label: 'Debt' },
+  { column: 'creditScore', label: 'Credit Score' },
+  { column: 'liquidityRatio', label: 'Liquidity Ratio' },
+  { column: 'shockResilienceIndex', label: 'Shock Resilience' },
+  { column: 'taxPaid', label: 'Tax Paid' },
+  { column: 'capitalGainsTax', label: 'Capital Gains Tax' },
+  { column: 'realizedGain', label: 'Realized Gain' },
+];
+
+const AGGREGATIONS: { aggregate: ExportAggregation; label: string }[] = [
+  { aggregate: 'day', label: 'Daily' },
+  { aggregate: 'week', label: 'Weekly' },
+  { aggregate: 'month', label: 'Monthly' },
+];
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'XLSX' },
+  { format: 'ndjson', label: 'NDJSON' },
+];
+
+/** Hands a file to the browser as a download */
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export buttons: downloads the results as CSV, an XLSX workbook (one
+ * sheet per table) or NDJSON, with the chosen snapshot columns and daily,
+ * weekly or monthly rows.
+ */
+export function ExportPanel({ source }: ExportPanelProps) {
+  const [columns, setColumns] = useState<Set<SnapshotColumn>>(
+    new Set(COLUMNS.map((c) => c.column)),
+  );
+  const [aggregate, setAggregate] = useState<ExportAggregation>('day');
+  const [table, setTable] = useState<ExportTable>('snapshots');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isComparison = source.kind === 'comparison';
+  // Deltas exist only for a comparison
+  const exportedTable = table === 'deltas' && !isComparison ? 'snapshots' : table;
+
+  const toggleColumn = (column: SnapshotColumn) => {
+    const next = new Set(columns);
+    if (next.has(column)) next.delete(column);
+    else next.add(column);
+    setColumns(next);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    const layout = {
+      format,
+      // Keep the column order of the list
+      columns: COLUMNS.filter((c) => columns.has(c.column)).map((c) => c.column),
+      aggregate,
+    };
+    const request: ExportRequest =
+      source.kind === 'comparison'
+        ? { ...source, ...layout, table }
+        : { ...source, ...layout, table: table === 'deltas' ? 'snapshots' : table };
+    try {
+      const { blob, fileName } = await exportResults(request);
+      download(blob, fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="chart-mode-toggle">
+        {AGGREGATIONS.map(({ aggregate: a, label }) => (
+          <button
+            key={a}
+            type="button"
+            className={`toggle-pill ${aggregate === a ? 'active' : ''}`}
+            onClick={() => setAggregate(a)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="form-grid">
+        {COLUMNS.map(({ column, label }) => (
+          <label key={column} className="form-item-row">
+            <span>
+              <input
+                type="checkbox"
+                checked={columns.has(column)}
+                onChange={() => toggleColumn(column)}
+              />{' '}
+              {label}
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="form-grid">
+        <div className="form-group">
+          <label>CSV / NDJSON Table</label>
+          <select value={exportedTable} onChange={(e) => setTable(e.target.value as ExportTable)}>
+            <option value="snapshots">Daily Snapshots</option>
+            <option value="summary">Summary</option>
+            {isComparison && <option value="deltas">Branch Deltas</option>}
+          </select>
+        </div>
+      </div>
+      <p className="form-hint">
+        XLSX holds every table as a sheet. Weekly and monthly rows sum income, expenses, cash flow
+        and taxes, and keep each period&apos;s closing balances.
+      </p>
+      {error && <div className="error-banner">Export failed: {error}</div>}
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          className="add-btn"
+          onClick={() => void handleExport(format)}
+          disabled={exporting !== null || columns.size === 0}
+        >
+          {exporting === format ? 'Exporting...' : `↓ ${label}`}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import type {
+  CsvColumnMapping,
+  Expense,
+  ImportResult,
+  IncomeStream,
+  StatementFormat,
+} from '@future-wallet/shared-types';
+import { importTransactions } from '../api';
+
+interface ImportWizardProps {
+  /** Currency of the proposed entries */
+  currency: string;
+  /** Day 0 of the simulation, so proposed entries start on the right day */
+  startDate: string;
+  onApply: (incomeStreams: IncomeStream[], expenses: Expense[]) => void;
+}
+
+/** Proposals at least this confident start out selected */
+const PRESELECT_CONFIDENCE = 0.6;
+
+const DATE_FORMATS: CsvColumnMapping['dateFormat'][] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+function statementFormat(fileName: string): StatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'ofx' || extension === 'qfx' ? extension : 'csv';
+}
+
+/** A CSV column: a zero-based index if numeric, else a header name; blank is unset */
+function column(value: string): string | number | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+/**
+ * Statement import in two steps: pick a CSV or OFX/QFX file (with the CSV
+ * column mapping), then review the recurring deposits and payments found
+ * in it and keep the ones to use as income streams and expenses. Proposed
+ * expenses start out discretionary; each can be marked essential.
+ */
+export function ImportWizard({ currency, startDate, onApply }: ImportWizardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [dateColumn, setDateColumn] = useState('Date');
+  const [descriptionColumn, setDescriptionColumn] = useState('Description');
+  const [amountColumn, setAmountColumn] = useState('Amount');
+  const [debitColumn, setDebitColumn] = useState('');
+  const [creditColumn, setCreditColumn] = useState('');
+  const [dateFormat, setDateFormat] = useState<CsvColumnMapping['dateFormat']>('YYYY-MM-DD');
+  const [delimiter, setDelimiter] = useState(',');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [essential, setEssential] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const format = file ? statementFormat(file.name) : 'csv';
+
+  const handleAnalyze = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const imported = await importTransactions({
+        format,
+        content: await file.text(),
+        mapping: {
+          date: column(dateColumn) ?? 'Date',
+          description: column(descriptionColumn) ?? 'Description',
+          amount: column(amountColumn),
+          debit: column(debitColumn),
+          credit: column(creditColumn),
+          dateFormat,
+          delimiter,
+          decimalSeparator: '.',
+          hasHeader: true,
+        },
+        currency,
+        startDate,
+        minOccurrences: 3,
+      });
+      setResult(imported);
+      setEssential(new Set());
+      setSelected(
+        new Set(
+          imported.proposals
+            .filter((p) => p.confidence >= PRESELECT_CONFIDENCE)
+            .map((p) => p.entry.id),
+        ),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (ids: Set<string>, setIds: (ids: Set<string>) => void, id: string) => {
+    const next = new Set(ids);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setIds(next);
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    const chosen = result.proposals.filter((p) => selected.has(p.entry.id));
+    onApply(
+      chosen.flatMap((p) => (p.kind === 'income' ? [p.entry] : [])),
+      chosen.flatMap((p) =>
+        p.kind === 'expense' ? [{ ...p.entry, essential: essential.has(p.entry.id) }] : [],
+      ),
+    );
+    setResult(null);
+    setFile(null);
+  };
+
+  if (result) {
+    return (
+      <div>
+        <p className="form-hint">
+          {result.transactions} transactions · {result.proposals.length} recurring ·{' '}
+          {result.unmatched} one-off. Entries start from {result.startDate}.
+        </p>
+        {result.proposals.map((p) => (
+          <label key={p.entry.id} className="form-item-row">
+            <span>
+              <input
+                type="checkbox"
+                checked={selected.has(p.entry.id)}
+                onChange={() => toggle(selected, setSelected, p.entry.id)}
+              />{' '}
+              {p.kind === 'income' ? '+' : '−'}
+              {p.entry.amount.toLocaleString()} {p.entry.currency} · {p.entry.name} ·{' '}
+              {p.recurrence.replace(/_/g, ' ')}
+            </span>
+            <span className="branch-tree-meta">
+              {p.kind === 'expense' && (
+                <>
+                  <input
+                    type="checkbox"
+                    checked={essential.has(p.entry.id)}
+                    onChange={() => toggle(essential, setEssential, p.entry.id)}
+                  />{' '}
+                  essential ·{' '}
+                </>
+              )}
+              {Math.round(p.confidence * 100)}% · {p.occurrences}×
+            </span>
+          </label>
+        ))}
+        <button type="button" className="add-btn" onClick={() => setResult(null)}>
+          ← Back
+        </button>
+        <button
+          type="button"
+          className="add-btn"
+          onClick={handleApply}
+          disabled={selected.size === 0}
+        >
+          Use Selected ({selected.size})
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="form-grid">
+        <div className="form-group">
+          <label>Statement (CSV, OFX or QFX)</label>
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+      </div>
+      {format === 'csv' && (
+        <div className="form-grid">
+          <div className="form-group">
+            <label>Date Column</label>
+            <input type="text" value={dateColumn} onChange={(e) => setDateColumn(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>Description Column</label>
+            <input
+              type="text"
+              value={descriptionColumn}
+              onChange={(e) => setDescriptionColumn(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Amount Column</label>
+            <input
+              type="text"
+              value={amountColumn}
+              onChange={(e) => setAmountColumn(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Debit Column</label>
+            <input
+              type="text"
+              value={debitColumn}
+              onChange={(e) => setDebitColumn(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Credit Column</label>
+            <input
+              type="text"
+              value={creditColumn}
+              onChange={(e) => setCreditColumn(e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Date Format</label>
+            <select
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as CsvColumnMapping['dateFormat'])}
+            >
+              {DATE_FORMATS.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Delimiter</label>
+            <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)}>
+              <option value=",">Comma</option>
+              <option value=";">Semicolon</option>
+              <option value={'\t'}>Tab</option>
+            </select>
+          </div>
+        </div>
+      )}
+      <p className="form-hint">
+        Columns are header names or zero-based indices. Leave Amount blank to read separate Debit
+        and Credit columns.
+      </p>
+      {error && <div className="error-banner">Import failed: {error}</div>}
+      <button
+        type="button"
+        className="add-btn"
+        onClick={() => void handleAnalyze()}
+        disabled={!file || loading}
+      >
+        {loading ? 'Reading...' : 'Find Recurring Transactions'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { SavedScenario } from '@future-wallet/shared-types';
+
+interface SavedScenariosPanelProps {
+  scenarios: SavedScenario[];
+  /** Whether there is a submitted input to save */
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onRun: (scenario: SavedScenario) => void;
+  onDelete: (scenario: SavedScenario) => void;
+  loading: boolean;
+}
+
+/**
+ * Saved scenarios: saves the last submitted input under a name, and
+ * re-runs or deletes any scenario saved before.
+ */
+export function SavedScenariosPanel({
+  scenarios,
+  canSave,
+  onSave,
+  onRun,
+  onDelete,
+  loading,
+}: SavedScenariosPanelProps) {
+  const [name, setName] = useState('');
+
+  return (
+    <div className="branch-tree">
+      {scenarios.length > 0 && (
+        <ul className="branch-tree-list">
+          {scenarios.map((scenario) => (
+            <li key={scenario.id}>
+              <button
+                type="button"
+                className="branch-tree-node"
+                onClick={() => onRun(scenario)}
+                disabled={loading}
+              >
+                <span>{scenario.name}</span>
+                <span className="branch-tree-meta">
+                  v{scenario.version} · {scenario.input.horizonDays} days ·{' '}
+                  {scenario.inputHash.slice(0, 8)}
+                </span>
+              </button>
+              <button
+                type="button"
+                className="remove-btn"
+                onClick={() => onDelete(scenario)}
+                disabled={loading}
+                aria-label={`Delete ${scenario.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="form-grid">
+        <div className="form-group">
+          <label>Scenario Name</label>
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+      </div>
+      <button
+        type="button"
+        className="add-btn"
+        onClick={() => {
+          onSave(name.trim());
+          setName('');
+        }}
+        disabled={loading || !canSave || name.trim() === ''}
+      >
+        + Save Current Input
+      </button>
+    </div>
+  );
+}
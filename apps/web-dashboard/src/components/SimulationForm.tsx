@@ -3,25 +3,35 @@ import type {
   SimulationInput,
   Asset,
   Liability,
+  LiabilityType,
   TaxConfig,
   ExchangeRate,
+  Scenario,
+  BranchPatch,
+  IncomeStream,
+  Expense,
 } from '@future-wallet/shared-types';
 import { v4Fallback } from '../utils';
+import { ImportWizard } from './ImportWizard';
 
 interface SimulationFormProps {
   onSubmit: (input: SimulationInput) => void;
-  onBranch?: (
-    input: SimulationInput,
-    branchDay: number,
-    modified: Partial<SimulationInput>,
-  ) => void;
+  onBranch?: (input: SimulationInput, branchDay: number, patch: BranchPatch) => void;
+  onScenarios?: (input: SimulationInput, scenarios: Scenario[]) => void;
   loading: boolean;
   hasResult?: boolean;
 }
 
-export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: SimulationFormProps) {
+export function SimulationForm({
+  onSubmit,
+  onBranch,
+  onScenarios,
+  loading,
+  hasResult,
+}: SimulationFormProps) {
   const [initialBalance, setInitialBalance] = useState(10000);
   const [horizonDays, setHorizonDays] = useState(365);
+  const [startDate, setStartDate] = useState('2026-01-01');
   const [seed, setSeed] = useState(42);
   const [baseCurrency, setBaseCurrency] = useState('USD');
   const [monthlyIncome, setMonthlyIncome] = useState(5000);
@@ -47,6 +57,7 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
   const [liabilityRate, setLiabilityRate] = useState(0.05);
   const [liabilityMinPayment, setLiabilityMinPayment] = useState(300);
   const [liabilityTerm, setLiabilityTerm] = useState(365);
+  const [liabilityType, setLiabilityType] = useState<LiabilityType>('revolving');
   const [liabilities, setLiabilities] = useState<Liability[]>([]);
 
   // Tax state
@@ -63,7 +74,14 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
   // Branch state
   const [showBranch, setShowBranch] = useState(false);
   const [branchDay, setBranchDay] = useState(90);
-  const [branchIncome, setBranchIncome] = useState(7000);
+  const [branchIncome, setBranchIncome] = useState(1500);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+
+  // Statement import state
+  const [showImport, setShowImport] = useState(false);
+  const [importedIncome, setImportedIncome] = useState<IncomeStream[]>([]);
+  const [importedExpenses, setImportedExpenses] = useState<Expense[]>([]);
+  const hasImported = importedIncome.length + importedExpenses.length > 0;
 
   const addAsset = () => {
     setAssets([
@@ -95,6 +113,7 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
         currency: baseCurrency,
         minimumPayment: liabilityMinPayment,
         remainingTermDays: liabilityTerm,
+        type: liabilityType,
       },
     ]);
     setLiabilityName('Loan');
@@ -108,7 +127,7 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
         from: exchangeFrom,
         to: exchangeTo,
         rate: exchangeRateVal,
-        date: '2026-01-01',
+        date: startDate,
         volatility: 0,
       },
     ]);
@@ -133,39 +152,44 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
     return {
       seed,
       horizonDays,
+      startDate,
       baseCurrency,
       initialBalance,
       monteCarloConfig: { runs: monteCarloRuns, perturbationFactor: 0.05 },
-      incomeStreams: [
-        {
-          id: v4Fallback(),
-          name: 'Monthly Income',
-          amount: monthlyIncome,
-          currency: incomeCurrency,
-          recurrence: 'monthly',
-          startDay: 0,
-        },
-      ],
-      expenses: [
-        {
-          id: v4Fallback(),
-          name: 'Rent',
-          amount: monthlyRent,
-          currency: baseCurrency,
-          recurrence: 'monthly',
-          startDay: 0,
-          essential: true,
-        },
-        {
-          id: v4Fallback(),
-          name: 'Food',
-          amount: dailyFood,
-          currency: baseCurrency,
-          recurrence: 'daily',
-          startDay: 0,
-          essential: true,
-        },
-      ],
+      incomeStreams: hasImported
+        ? importedIncome
+        : [
+            {
+              id: v4Fallback(),
+              name: 'Monthly Income',
+              amount: monthlyIncome,
+              currency: incomeCurrency,
+              recurrence: 'monthly',
+              startDay: 0,
+            },
+          ],
+      expenses: hasImported
+        ? importedExpenses
+        : [
+            {
+              id: v4Fallback(),
+              name: 'Rent',
+              amount: monthlyRent,
+              currency: baseCurrency,
+              recurrence: 'monthly',
+              startDay: 0,
+              essential: true,
+            },
+            {
+              id: v4Fallback(),
+              name: 'Food',
+              amount: dailyFood,
+              currency: baseCurrency,
+              recurrence: 'daily',
+              startDay: 0,
+              essential: true,
+            },
+          ],
       assets,
       liabilities,
       exchangeRates,
@@ -178,21 +202,39 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
     onSubmit(buildInput());
   };
 
-  const handleBranch = () => {
-    if (!onBranch) return;
-    const input = buildInput();
-    onBranch(input, branchDay, {
-      incomeStreams: [
+  /** Adds the extra income next to the baseline's streams */
+  const branchPatch = (): BranchPatch => ({
+    incomeStreams: {
+      add: [
         {
           id: v4Fallback(),
-          name: 'Branch Income',
+          name: 'Extra Income',
           amount: branchIncome,
           currency: incomeCurrency,
           recurrence: 'monthly',
           startDay: 0,
         },
       ],
-    });
+    },
+  });
+
+  const handleBranch = () => {
+    if (!onBranch) return;
+    onBranch(buildInput(), branchDay, branchPatch());
+  };
+
+  const addScenario = () => {
+    const name = `Day ${branchDay} · +$${branchIncome.toLocaleString()}/mo`;
+    if (scenarios.some((s) => s.name === name)) return;
+    setScenarios([
+      ...scenarios,
+      { name, branchAtDay: branchDay, modifiedInput: {}, patch: branchPatch() },
+    ]);
+  };
+
+  const handleScenarios = () => {
+    if (!onScenarios || scenarios.length === 0) return;
+    onScenarios(buildInput(), scenarios);
   };
 
   return (
@@ -217,6 +259,10 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
             onChange={(e) => setHorizonDays(Number(e.target.value))}
           />
         </div>
+        <div className="form-group">
+          <label>Start Date</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </div>
         <div className="form-group">
           <label>Seed</label>
           <input type="number" value={seed} onChange={(e) => setSeed(Number(e.target.value))} />
@@ -312,6 +358,13 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
         >
           {showBranch ? '−' : '+'} What-If Branch
         </button>
+        <button
+          type="button"
+          className={`toggle-pill ${showImport ? 'active' : ''}`}
+          onClick={() => setShowImport(!showImport)}
+        >
+          {showImport ? '−' : '+'} Import Statement
+        </button>
       </div>
 
       {/* Tax Config */}
@@ -463,6 +516,18 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
                 onChange={(e) => setLiabilityRate(Number(e.target.value))}
               />
             </div>
+            <div className="form-group">
+              <label>Loan Type</label>
+              <select
+                value={liabilityType}
+                onChange={(e) => setLiabilityType(e.target.value as LiabilityType)}
+              >
+                <option value="revolving">Revolving</option>
+                <option value="amortizing">Amortizing</option>
+                <option value="interest_only">Interest Only</option>
+                <option value="balloon">Balloon</option>
+              </select>
+            </div>
             <div className="form-group">
               <label>Min. Payment (monthly)</label>
               <input
@@ -544,8 +609,8 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
         <div className="form-panel">
           <h3>What-If Branch Scenario</h3>
           <p className="form-hint">
-            Fork the simulation at a specific day with different income to see how the trajectory
-            changes.
+            Fork the simulation at a specific day with an extra monthly income on top of the current
+            one to see how the trajectory changes.
           </p>
           <div className="form-grid">
             <div className="form-group">
@@ -559,7 +624,7 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
               />
             </div>
             <div className="form-group">
-              <label>Branch Monthly Income</label>
+              <label>Extra Monthly Income</label>
               <input
                 type="number"
                 value={branchIncome}
@@ -570,6 +635,97 @@ export function SimulationForm({ onSubmit, onBranch, loading, hasResult }: Simul
           <button type="button" className="add-btn" onClick={handleBranch} disabled={loading}>
             {loading ? 'Running...' : 'Run What-If Branch'}
           </button>
+
+          {onScenarios && (
+            <>
+              <h3>Scenarios ({scenarios.length})</h3>
+              <p className="form-hint">
+                Collect several forks and compare them all against the same baseline.
+              </p>
+              {scenarios.map((s, i) => (
+                <div key={s.name} className="form-item-row">
+                  <span>{s.name}</span>
+                  <button
+                    type="button"
+                    className="remove-btn"
+                    onClick={() => setScenarios(scenarios.filter((_, j) => j !== i))}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button type="button" className="add-btn" onClick={addScenario}>
+                + Add Scenario
+              </button>
+              <button
+                type="button"
+                className="add-btn"
+                onClick={handleScenarios}
+                disabled={loading || scenarios.length === 0}
+              >
+                {loading ? 'Running...' : 'Compare Scenarios'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Statement Import */}
+      {showImport && (
+        <div className="form-panel">
+          <h3>Imported Entries ({importedIncome.length + importedExpenses.length})</h3>
+          <p className="form-hint">
+            Recurring deposits and payments found in a bank statement. Once any are imported they
+            replace the income, rent and food above.
+          </p>
+          {importedIncome.map((s) => (
+            <div key={s.id} className="form-item-row">
+              <span>
+                +{s.amount.toLocaleString()} {s.currency} · {s.name} ({s.recurrence})
+              </span>
+              <button
+                type="button"
+                className="remove-btn"
+                onClick={() => setImportedIncome(importedIncome.filter((x) => x.id !== s.id))}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {importedExpenses.map((e) => (
+            <div key={e.id} className="form-item-row">
+              <span>
+                −{e.amount.toLocaleString()} {e.currency} · {e.name} ({e.recurrence})
+              </span>
+              <button
+                type="button"
+                className="remove-btn"
+                onClick={() => setImportedExpenses(importedExpenses.filter((x) => x.id !== e.id))}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {hasImported && (
+            <button
+              type="button"
+              className="add-btn"
+              onClick={() => {
+                setImportedIncome([]);
+                setImportedExpenses([]);
+              }}
+            >
+              Clear Import
+            </button>
+          )}
+          <ImportWizard
+            currency={baseCurrency}
+            startDate={startDate}
+            onApply={(incomeStreams, expenses) => {
+              setImportedIncome([...importedIncome, ...incomeStreams]);
+              setImportedExpenses([...importedExpenses, ...expenses]);
+            }}
+          />
         </div>
       )}
 
@@ -0,0 +1,87 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { SensitivityMetric, SensitivityReport } from '@future-wallet/shared-types';
+
+interface TornadoChartProps {
+  report: SensitivityReport;
+  /** Outcome drawn and ranked by (default: the report's `rankBy`) */
+  metric?: SensitivityMetric;
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'var(--paper-solid)',
+  border: '1px solid var(--ink-soft)',
+  borderRadius: '10px',
+  color: 'var(--ink)',
+};
+
+function formatChange(value: number, metric: SensitivityMetric): string {
+  const sign = value >= 0 ? '+' : '-';
+  const abs = Math.abs(value);
+  switch (metric) {
+    case 'finalBalance':
+      return `${sign}$${abs.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+    case 'collapseProbability':
+      return `${sign}${(abs * 100).toFixed(1)} pts`;
+    case 'creditScore':
+      return `${sign}${abs.toFixed(0)}`;
+  }
+}
+
+/**
+ * Tornado chart: one horizontal bar per parameter, showing the outcome
+ * change with the parameter moved down and up, widest swing on top.
+ */
+export function TornadoChart({ report, metric = report.rankBy }: TornadoChartProps) {
+  const percent = `${Math.round(report.variation * 100)}%`;
+  const data = report.entries
+    .map((entry) => ({
+      label: entry.label,
+      low: entry.low[metric],
+      high: entry.high[metric],
+    }))
+    .sort((a, b) => Math.abs(b.high - b.low) - Math.abs(a.high - a.low));
+
+  return (
+    <ResponsiveContainer width="100%" height={Math.max(160, 44 * data.length + 60)}>
+      <BarChart
+        data={data}
+        layout="vertical"
+        stackOffset="sign"
+        margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+      >
+        <CartesianGrid strokeDasharray="4 4" stroke="var(--line-muted)" horizontal={false} />
+        <XAxis
+          type="number"
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          tickFormatter={(v: number) => formatChange(v, metric)}
+        />
+        <YAxis
+          type="category"
+          dataKey="label"
+          stroke="var(--ink-muted)"
+          fontSize={12}
+          tickLine={false}
+          width={150}
+        />
+        <Tooltip
+          contentStyle={TOOLTIP_STYLE}
+          formatter={(value: number, name: string) => [formatChange(value, metric), name]}
+        />
+        <ReferenceLine x={0} stroke="var(--ink-soft)" />
+        <Bar dataKey="low" stackId="swing" fill="var(--terra-green)" name={`−${percent}`} />
+        <Bar dataKey="high" stackId="swing" fill="var(--rust)" name={`+${percent}`} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -5,12 +5,47 @@ import type {
   SimulationInput,
   SimulationOutput,
   BranchComparisonResult,
+  BranchTree,
+  BranchTreeEvaluation,
+  DailySnapshot,
+  Scenario,
+  BranchPatch,
+  BranchRequest,
+  ScenarioComparisonResult,
+  SavedScenario,
+  JobProgress,
+  SensitivityMetric,
+  SensitivityReport,
 } from '@future-wallet/shared-types';
-import { runSimulation, runComparison } from '../api';
-import { BalanceChart } from '../components/BalanceChart';
+import {
+  addBranchNode,
+  createBranchTree,
+  deleteSavedScenario,
+  evaluateBranchTree,
+  listSavedScenarios,
+  removeBranchNode,
+  runSimulation,
+  runComparison,
+  runScenarios,
+  runSavedScenario,
+  runSensitivity,
+  saveScenario,
+  streamSimulation,
+} from '../api';
+import {
+  BalanceChart,
+  type BalanceChartMode,
+  type BalanceSeries,
+} from '../components/BalanceChart';
+import { BranchTimelineChart } from '../components/BranchTimelineChart';
+import { BranchTreeNavigator } from '../components/BranchTreeNavigator';
+import { ExportPanel } from '../components/ExportPanel';
 import { MetricCard } from '../components/MetricCard';
+import { SavedScenariosPanel } from '../components/SavedScenariosPanel';
 import { SimulationForm } from '../components/SimulationForm';
 import { StatusBadge } from '../components/StatusBadge';
+import { TornadoChart } from '../components/TornadoChart';
+import { v4Fallback } from '../utils';
 
 const ENGINE_SIGNALS = [
   { label: 'Branch Capacity', value: '128 Trees' },
@@ -25,30 +60,99 @@ const ENGINE_PROTOCOL = [
   'Validate liquidity ratio and shock resilience together.',
 ] as const;
 
+const SENSITIVITY_VARIATION = 0.1;
+
+const SENSITIVITY_METRICS: { metric: SensitivityMetric; label: string }[] = [
+  { metric: 'finalBalance', label: 'Final Balance' },
+  { metric: 'collapseProbability', label: 'Collapse Prob.' },
+  { metric: 'creditScore', label: 'Credit Score' },
+];
+
+const CHART_MODE_LABELS: Record<BalanceChartMode, string> = {
+  lines: 'Primary Run',
+  fan: 'Fan (P5 - P95)',
+  scenarios: 'Scenarios',
+};
+
+function signed(value: number, format: (abs: number) => string): string {
+  return `${value >= 0 ? '+' : '-'}${format(Math.abs(value))}`;
+}
+
+/** Whether POST /simulate answers at once or streams days as they are computed */
+type DeliveryMode = 'batch' | 'stream';
+
 export function EnginePage() {
   const navigate = useNavigate();
   const [result, setResult] = useState<SimulationOutput | null>(null);
   const [branchResult, setBranchResult] = useState<BranchComparisonResult | null>(null);
+  const [lastComparison, setLastComparison] = useState<BranchRequest | null>(null);
+  const [scenarioResult, setScenarioResult] = useState<ScenarioComparisonResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [chartMode, setChartMode] = useState<BalanceChartMode>('lines');
+  const [delivery, setDelivery] = useState<DeliveryMode>('batch');
+  const [streamed, setStreamed] = useState<DailySnapshot[]>([]);
+  const [streamProgress, setStreamProgress] = useState<JobProgress | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [lastInput, setLastInput] = useState<SimulationInput | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityReport | null>(null);
+  const [sensitivityMetric, setSensitivityMetric] = useState<SensitivityMetric>('finalBalance');
+  const [sensitivityLoading, setSensitivityLoading] = useState(false);
+  const [tree, setTree] = useState<BranchTree | null>(null);
+  const [treeEvaluation, setTreeEvaluation] = useState<BranchTreeEvaluation | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [treeLoading, setTreeLoading] = useState(false);
+  const [savedScenarios, setSavedScenarios] = useState<SavedScenario[]>([]);
   const [isLeaving, setIsLeaving] = useState(false);
   const leaveTimerRef = useRef<number | null>(null);
 
+  useEffect(() => {
+    listSavedScenarios()
+      .then(setSavedScenarios)
+      .catch(() => setSavedScenarios([]));
+  }, []);
+
   useEffect(() => {
     return () => {
       if (leaveTimerRef.current) {
         window.clearTimeout(leaveTimerRef.current);
       }
+      streamAbortRef.current?.abort();
     };
   }, []);
 
+  /** Drops every result derived from the previous input */
+  const resetDerivedResults = () => {
+    setBranchResult(null);
+    setScenarioResult(null);
+    setSensitivity(null);
+    setTree(null);
+    setTreeEvaluation(null);
+    setSelectedNodeId(null);
+  };
+
   const handleSimulate = async (input: SimulationInput) => {
     setLoading(true);
     setError(null);
-    setBranchResult(null);
+    resetDerivedResults();
+    setLastInput(input);
     try {
-      const output = await runSimulation(input);
-      setResult(output);
+      if (delivery === 'stream') {
+        setStreamed([]);
+        setStreamProgress(null);
+        streamAbortRef.current = new AbortController();
+        const output = await streamSimulation(
+          input,
+          {
+            onSnapshots: (chunk) => setStreamed((prev) => [...prev, ...chunk]),
+            onProgress: setStreamProgress,
+          },
+          streamAbortRef.current.signal,
+        );
+        setResult(output);
+      } else {
+        setResult(await runSimulation(input));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Simulation failed');
     } finally {
@@ -56,16 +160,27 @@ export function EnginePage() {
     }
   };
 
-  const handleBranch = async (
-    input: SimulationInput,
-    branchDay: number,
-    modified: Partial<SimulationInput>,
-  ) => {
+  const handleSensitivity = async () => {
+    if (!lastInput) return;
+    setSensitivityLoading(true);
+    setError(null);
+    try {
+      setSensitivity(await runSensitivity(lastInput, SENSITIVITY_VARIATION));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sensitivity analysis failed');
+    } finally {
+      setSensitivityLoading(false);
+    }
+  };
+
+  const handleBranch = async (input: SimulationInput, branchDay: number, patch: BranchPatch) => {
     setLoading(true);
     setError(null);
     try {
-      const comparisonOut = await runComparison(input, branchDay, modified);
+      const comparisonOut = await runComparison(input, branchDay, {}, patch);
+      setScenarioResult(null);
       setBranchResult(comparisonOut);
+      setLastComparison({ baseInput: input, branchAtDay: branchDay, modifiedInput: {}, patch });
       // Also set the baseline result so metrics stay visible
       setResult(comparisonOut.baseline);
     } catch (err) {
@@ -75,6 +190,127 @@ export function EnginePage() {
     }
   };
 
+  const handleScenarios = async (input: SimulationInput, scenarios: Scenario[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const comparison = await runScenarios(input, scenarios);
+      setBranchResult(null);
+      setScenarioResult(comparison);
+      setResult(comparison.baseline);
+      setChartMode('scenarios');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scenario comparison failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** Runs a branch tree step, then re-evaluates the tree */
+  const updateTree = async (step: () => Promise<BranchTree>) => {
+    setTreeLoading(true);
+    setError(null);
+    try {
+      const updated = await step();
+      setTree(updated);
+      setTreeEvaluation(updated.nodes.length > 0 ? await evaluateBranchTree(updated.id) : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Branch tree update failed');
+    } finally {
+      setTreeLoading(false);
+    }
+  };
+
+  const handleSaveScenario = async (name: string) => {
+    if (!lastInput) return;
+    setError(null);
+    try {
+      const saved = await saveScenario(name, lastInput);
+      setSavedScenarios((prev) => [...prev, saved]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Saving scenario failed');
+    }
+  };
+
+  const handleRunSaved = async (scenario: SavedScenario) => {
+    setLoading(true);
+    setError(null);
+    resetDerivedResults();
+    setLastInput(scenario.input);
+    try {
+      setResult((await runSavedScenario(scenario.id)).output);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulation failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSaved = async (scenario: SavedScenario) => {
+    setError(null);
+    try {
+      await deleteSavedScenario(scenario.id);
+      setSavedScenarios((prev) => prev.filter((s) => s.id !== scenario.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Deleting scenario failed');
+    }
+  };
+
+  const handleStartTree = () => {
+    if (!lastInput) return;
+    void updateTree(() => createBranchTree('Branch tree', lastInput));
+  };
+
+  const handleTreeBranch = (parentId: string | null, branchAtDay: number, income: number) => {
+    if (!tree || !lastInput) return;
+    void updateTree(async () => {
+      const node = await addBranchNode(tree.id, {
+        parentId,
+        name: `Day ${branchAtDay} · +$${income.toLocaleString()}/mo`,
+        branchAtDay,
+        modifiedInput: {},
+        patch: {
+          incomeStreams: {
+            add: [
+              {
+                id: v4Fallback(),
+                name: 'Extra Income',
+                amount: income,
+                currency: lastInput.baseCurrency,
+                recurrence: 'monthly',
+                startDay: 0,
+              },
+            ],
+          },
+        },
+      });
+      setSelectedNodeId(node.id);
+      return { ...tree, nodes: [...tree.nodes, node] };
+    });
+  };
+
+  const handleTreeRemove = (nodeId: string) => {
+    if (!tree) return;
+    void updateTree(async () => {
+      const updated = await removeBranchNode(tree.id, nodeId);
+      if (!updated.nodes.some((n) => n.id === selectedNodeId)) setSelectedNodeId(null);
+      return updated;
+    });
+  };
+
+  const chartModes: BalanceChartMode[] = [
+    'lines',
+    ...(result?.bands && result.bands.length > 0 ? (['fan'] as const) : []),
+    ...(scenarioResult ? (['scenarios'] as const) : []),
+  ];
+
+  const scenarioSeries: BalanceSeries[] | undefined = scenarioResult
+    ? [
+        { name: 'Baseline', snapshots: scenarioResult.baseline.snapshots },
+        ...scenarioResult.scenarios.map((s) => ({ name: s.name, snapshots: s.branch.snapshots })),
+      ]
+    : undefined;
+
   const handleBackToLanding = () => {
     if (isLeaving) {
       return;
@@ -135,12 +371,59 @@ export function EnginePage() {
             <SimulationForm
               onSubmit={handleSimulate}
               onBranch={handleBranch}
+              onScenarios={handleScenarios}
               loading={loading}
               hasResult={!!result}
             />
 
+            <div className="chart-mode-toggle">
+              {(['batch', 'stream'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  className={`toggle-pill ${delivery === mode ? 'active' : ''}`}
+                  onClick={() => setDelivery(mode)}
+                  disabled={loading}
+                >
+                  {mode === 'batch' ? 'Full Result' : 'Stream Days'}
+                </button>
+              ))}
+            </div>
+
+            {/* Saved scenarios: named inputs kept by the API */}
+            <div className="chart-container">
+              <div className="chart-header">
+                <h3>Saved Scenarios</h3>
+              </div>
+              <SavedScenariosPanel
+                scenarios={savedScenarios}
+                canSave={!!lastInput}
+                onSave={(name) => void handleSaveScenario(name)}
+                onRun={(scenario) => void handleRunSaved(scenario)}
+                onDelete={(scenario) => void handleDeleteSaved(scenario)}
+                loading={loading}
+              />
+            </div>
+
             {error && <div className="error-banner">Simulation failed: {error}</div>}
-            {loading && <div className="loading-spinner">Running simulation...</div>}
+            {loading && delivery === 'batch' && (
+              <div className="loading-spinner">Running simulation...</div>
+            )}
+
+            {/* Streaming: the chart grows as chunks of days arrive */}
+            {loading && delivery === 'stream' && (
+              <div className="chart-container">
+                <div className="chart-header">
+                  <h3>Balance Trajectory</h3>
+                  <span className="loading-spinner">
+                    {streamProgress
+                      ? `Monte Carlo run ${streamProgress.completedRuns} / ${streamProgress.totalRuns}`
+                      : `Streaming day ${streamed.length}...`}
+                  </span>
+                </div>
+                <BalanceChart snapshots={streamed} />
+              </div>
+            )}
 
             {result && !loading && (
               <>
@@ -187,6 +470,57 @@ export function EnginePage() {
                   })()}
                 </div>
 
+                {/* Sensitivity: which inputs move the outcome most */}
+                {lastInput && (
+                  <div className="chart-container">
+                    <div className="chart-header">
+                      <h3>Sensitivity (±{SENSITIVITY_VARIATION * 100}%)</h3>
+                      {sensitivity ? (
+                        <div className="chart-mode-toggle">
+                          {SENSITIVITY_METRICS.map(({ metric, label }) => (
+                            <button
+                              key={metric}
+                              type="button"
+                              className={`toggle-pill ${sensitivityMetric === metric ? 'active' : ''}`}
+                              onClick={() => setSensitivityMetric(metric)}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <button
+                          type="button"
+                          className="toggle-pill"
+                          onClick={handleSensitivity}
+                          disabled={sensitivityLoading}
+                        >
+                          {sensitivityLoading ? 'Analyzing...' : 'Analyze Sensitivity'}
+                        </button>
+                      )}
+                    </div>
+                    {sensitivity && (
+                      <TornadoChart report={sensitivity} metric={sensitivityMetric} />
+                    )}
+                  </div>
+                )}
+
+                {/* Export: the comparison when one is shown, else the last simulation */}
+                {lastInput && (
+                  <div className="chart-container">
+                    <div className="chart-header">
+                      <h3>Export</h3>
+                    </div>
+                    <ExportPanel
+                      source={
+                        branchResult && lastComparison
+                          ? { kind: 'comparison', comparison: lastComparison }
+                          : { kind: 'simulation', input: lastInput }
+                      }
+                    />
+                  </div>
+                )}
+
                 <div className="status-grid">
                   <article className="status-card">
                     <div className="card-label">Financial Vibe</div>
@@ -216,8 +550,29 @@ export function EnginePage() {
                 </div>
 
                 <div className="chart-container">
-                  <h3>Balance Trajectory</h3>
-                  <BalanceChart snapshots={result.snapshots} />
+                  <div className="chart-header">
+                    <h3>Balance Trajectory</h3>
+                    {chartModes.length > 1 && (
+                      <div className="chart-mode-toggle">
+                        {chartModes.map((mode) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            className={`toggle-pill ${chartMode === mode ? 'active' : ''}`}
+                            onClick={() => setChartMode(mode)}
+                          >
+                            {CHART_MODE_LABELS[mode]}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <BalanceChart
+                    snapshots={result.snapshots}
+                    bands={result.bands}
+                    series={scenarioSeries}
+                    mode={chartMode}
+                  />
                 </div>
 
                 {/* Behavioral Metrics from last snapshot */}
@@ -287,7 +642,121 @@ export function EnginePage() {
                             : 'warning'
                         }
                       />
+                      <MetricCard
+                        label="Cumulative Cash Delta"
+                        value={signed(
+                          branchResult.timeline.cumulativeCashDiff,
+                          (abs) =>
+                            `$${abs.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+                        )}
+                        variant={
+                          branchResult.timeline.cumulativeCashDiff >= 0 ? 'success' : 'danger'
+                        }
+                      />
+                      <MetricCard
+                        label="Break-even Day"
+                        value={branchResult.timeline.breakEvenDay?.toString() ?? 'Never'}
+                        variant={branchResult.timeline.breakEvenDay !== null ? 'success' : 'danger'}
+                      />
+                      <MetricCard
+                        label="Crossover Day"
+                        value={branchResult.timeline.crossoverDay?.toString() ?? 'None'}
+                      />
                     </div>
+                    <BranchTimelineChart timeline={branchResult.timeline} />
+                  </motion.div>
+                )}
+
+                {/* Branch tree: nested forks, one selected at a time */}
+                {lastInput && (
+                  <div className="chart-container">
+                    <div className="chart-header">
+                      <h3>Branch Tree</h3>
+                      {!tree && (
+                        <button
+                          type="button"
+                          className="toggle-pill"
+                          onClick={handleStartTree}
+                          disabled={treeLoading}
+                        >
+                          {treeLoading ? 'Creating...' : 'Start Branch Tree'}
+                        </button>
+                      )}
+                    </div>
+                    {tree && (
+                      <BranchTreeNavigator
+                        tree={tree}
+                        evaluation={treeEvaluation}
+                        selectedId={selectedNodeId}
+                        onSelect={setSelectedNodeId}
+                        onBranch={handleTreeBranch}
+                        onRemove={handleTreeRemove}
+                        loading={treeLoading}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* Scenario matrix: every scenario's deltas against the shared baseline */}
+                {scenarioResult && (
+                  <motion.div
+                    className="branch-comparison"
+                    initial={{ opacity: 0, y: 12 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.35 }}
+                  >
+                    <h3>Scenario Comparison</h3>
+                    <table className="scenario-matrix">
+                      <thead>
+                        <tr>
+                          <th>Scenario</th>
+                          <th>Fork Day</th>
+                          <th>Balance Δ</th>
+                          <th>Collapse Δ</th>
+                          <th>Credit Δ</th>
+                          <th>NAV Δ</th>
+                          <th>Vibe</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {scenarioResult.scenarios.map(({ name, branchAtDay, deltas }) => (
+                          <tr key={name}>
+                            <td>{name}</td>
+                            <td>{branchAtDay}</td>
+                            <td className={deltas.finalBalanceDiff >= 0 ? 'positive' : 'negative'}>
+                              {signed(
+                                deltas.finalBalanceDiff,
+                                (v) =>
+                                  `$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`,
+                              )}
+                            </td>
+                            <td
+                              className={
+                                deltas.collapseProbabilityDiff <= 0 ? 'positive' : 'negative'
+                              }
+                            >
+                              {signed(
+                                deltas.collapseProbabilityDiff,
+                                (v) => `${(v * 100).toFixed(1)}%`,
+                              )}
+                            </td>
+                            <td className={deltas.creditScoreDiff >= 0 ? 'positive' : 'negative'}>
+                              {signed(deltas.creditScoreDiff, (v) => v.toFixed(0))}
+                            </td>
+                            <td className={deltas.navDiff >= 0 ? 'positive' : 'negative'}>
+                              {signed(
+                                deltas.navDiff,
+                                (v) =>
+                                  `$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}`,
+                              )}
+                            </td>
+                            <td>
+                              {deltas.vibeStateChange.from} → {deltas.vibeStateChange.to}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </motion.div>
                 )}
               </>
@@ -12,6 +12,10 @@ import { z } from 'zod';
 export const CurrencyCodeSchema = z.string().length(3).toUpperCase();
 export type CurrencyCode = z.infer<typeof CurrencyCodeSchema>;
 
+/**
+ * A quoted rate effective from `date`. Several entries for the same pair
+ * form a time series, read per simulation day via `fxInterpolation`.
+ */
 export const ExchangeRateSchema = z.object({
   from: CurrencyCodeSchema,
   to: CurrencyCodeSchema,
@@ -22,6 +26,14 @@ export const ExchangeRateSchema = z.object({
 });
 export type ExchangeRate = z.infer<typeof ExchangeRateSchema>;
 
+/**
+ * How rates between dated entries are read: `step` holds the latest rate
+ * on or before the day; `linear` interpolates between neighbouring dates.
+ * Days outside the series use the nearest entry.
+ */
+export const FxInterpolationSchema = z.enum(['step', 'linear']);
+export type FxInterpolation = z.infer<typeof FxInterpolationSchema>;
+
 /** Tracks a single currency conversion for precision audit */
 export const CurrencyConversionLogSchema = z.object({
   day: z.number().int().nonnegative(),
@@ -31,14 +43,53 @@ export const CurrencyConversionLogSchema = z.object({
   convertedAmount: z.number(),
   rateUsed: z.number().positive(),
   context: z.string(), // e.g. 'income:Salary', 'expense:Rent', 'liquidation:Stock'
+  /** Currencies traversed: [from, to] for a quoted pair, [from, pivot, to] when triangulated */
+  path: z.array(CurrencyCodeSchema).min(2),
 });
 export type CurrencyConversionLog = z.infer<typeof CurrencyConversionLogSchema>;
 
+/** Narrows an audited conversion log to a day range and/or context prefix */
+export const ConversionAuditFilterSchema = z
+  .object({
+    fromDay: z.number().int().nonnegative().optional(), // inclusive
+    toDay: z.number().int().nonnegative().optional(), // inclusive
+    contextPrefix: z.string().min(1).optional(), // e.g. 'income:' or 'expense:Rent'
+  })
+  .refine((f) => f.fromDay === undefined || f.toDay === undefined || f.fromDay <= f.toDay, {
+    message: 'fromDay must not be after toDay',
+    path: ['fromDay'],
+  });
+export type ConversionAuditFilter = z.infer<typeof ConversionAuditFilterSchema>;
+
+/** Conversion volume through one currency across the audited entries */
+export const CurrencyConversionTotalSchema = z.object({
+  currency: CurrencyCodeSchema,
+  conversions: z.number().int().nonnegative(), // entries converting from or to this currency
+  sent: z.number(), // sum of originalAmount converted out of this currency
+  received: z.number(), // sum of convertedAmount converted into this currency
+});
+export type CurrencyConversionTotal = z.infer<typeof CurrencyConversionTotalSchema>;
+
+export const ConversionAuditSchema = z.object({
+  entries: z.array(CurrencyConversionLogSchema),
+  totals: z.array(CurrencyConversionTotalSchema),
+});
+export type ConversionAudit = z.infer<typeof ConversionAuditSchema>;
+
 // ─── Asset Definitions ──────────────────────────────────────────────────────────
 
 export const AssetTypeSchema = z.enum(['liquid', 'illiquid', 'yield_generating', 'volatile']);
 export type AssetType = z.infer<typeof AssetTypeSchema>;
 
+/** A purchase lot within an asset position, consumed first-in-first-out on sale */
+export const AssetLotSchema = z.object({
+  /** Market value of this lot at simulation start (weights the lot within the position) */
+  value: z.number().nonnegative(),
+  /** What was paid for this lot, in the asset's currency */
+  costBasis: z.number().nonnegative(),
+});
+export type AssetLot = z.infer<typeof AssetLotSchema>;
+
 export const AssetSchema = z.object({
   id: z.string().uuid(),
   name: z.string(),
@@ -50,16 +101,27 @@ export const AssetSchema = z.object({
   liquidationPenalty: z.number().min(0).max(1).default(0),
   locked: z.boolean().default(false),
   lockUntilDay: z.number().int().nonnegative().optional(),
+  /** Total cost basis of the position; defaults to `value` (no embedded gain) */
+  costBasis: z.number().nonnegative().optional(),
+  /** Purchase lots, oldest first; takes precedence over `costBasis` when present */
+  lots: z.array(AssetLotSchema).min(1).optional(),
 });
 export type Asset = z.infer<typeof AssetSchema>;
 
 // ─── Income & Expense ───────────────────────────────────────────────────────────
 
+/**
+ * How often an amount falls due. `monthly` and `yearly` follow the calendar
+ * (same day of month, clamped to shorter months); `semimonthly` is the 1st
+ * and 15th; `last_business_day` is the last weekday of each month.
+ */
 export const RecurrenceSchema = z.enum([
   'daily',
   'weekly',
   'biweekly',
+  'semimonthly',
   'monthly',
+  'last_business_day',
   'yearly',
   'once',
 ]);
@@ -90,14 +152,32 @@ export type Expense = z.infer<typeof ExpenseSchema>;
 
 // ─── Liability / Debt ───────────────────────────────────────────────────────────
 
+/**
+ * Repayment structure of a liability:
+ * - amortizing: level payments that retire the principal by maturity
+ * - interest_only: accrued interest each due date, principal at maturity
+ * - balloon: level payments over `amortizationTermDays`, remainder at maturity
+ * - revolving: `minimumPayment` each due date (interest beyond it is capitalized)
+ */
+export const LiabilityTypeSchema = z.enum(['amortizing', 'interest_only', 'balloon', 'revolving']);
+export type LiabilityType = z.infer<typeof LiabilityTypeSchema>;
+
 export const LiabilitySchema = z.object({
   id: z.string().uuid(),
   name: z.string(),
   principal: z.number().positive(),
   interestRate: z.number().min(0), // annual rate
   currency: CurrencyCodeSchema,
-  minimumPayment: z.number().nonnegative(),
-  remainingTermDays: z.number().int().positive(),
+  minimumPayment: z.number().nonnegative(), // per due date; a floor for every loan type
+  remainingTermDays: z.number().int().positive(), // maturity: outstanding balance is paid in full
+  /** Repayment structure (default 'revolving') */
+  type: LiabilityTypeSchema.optional(),
+  /** How often payments fall due (default 'monthly') */
+  paymentRecurrence: RecurrenceSchema.optional(),
+  /** Day of the first due date (default 0) */
+  firstPaymentDay: z.number().int().nonnegative().optional(),
+  /** Balloon loans: days from simulation start over which the level payment amortizes (default 30 years) */
+  amortizationTermDays: z.number().int().positive().optional(),
 });
 export type Liability = z.infer<typeof LiabilitySchema>;
 
@@ -123,14 +203,158 @@ export const MonteCarloConfigSchema = z.object({
   runs: z.number().int().positive().max(1000).default(100),
   /** Perturbation factor for parameter variation across runs (default 0.05 = 5%) */
   perturbationFactor: z.number().min(0).max(0.5).default(0.05),
+  /** Maximum points in the per-day percentile bands; longer horizons are downsampled (default 365) */
+  maxBandPoints: z.number().int().min(2).max(3650).optional(),
 });
 export type MonteCarloConfig = z.infer<typeof MonteCarloConfigSchema>;
 
+// ─── Life Events ────────────────────────────────────────────────────────────────
+
+const EventBaseSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  /** Day the event takes effect, before that day's cash flows */
+  day: z.number().int().nonnegative(),
+});
+
+/** One-off cash received (positive) or paid (negative), e.g. a medical bill */
+export const CashShockEventSchema = EventBaseSchema.extend({
+  type: z.literal('cash_shock'),
+  amount: z.number(),
+  currency: CurrencyCodeSchema,
+});
+
+/**
+ * Stops the income stream `incomeStreamId` (every stream when omitted) for
+ * `durationDays` days, or for good when omitted
+ */
+export const IncomeSuspensionEventSchema = EventBaseSchema.extend({
+  type: z.literal('income_suspension'),
+  incomeStreamId: z.string().uuid().optional(),
+  durationDays: z.number().int().positive().optional(),
+});
+
+/**
+ * Revalues assets by `change` (−0.3 = −30%): the asset `assetId`, every
+ * asset of `assetType`, or every asset when neither is given.
+ */
+export const AssetShockEventSchema = EventBaseSchema.extend({
+  type: z.literal('asset_shock'),
+  change: z.number().min(-1),
+  assetId: z.string().uuid().optional(),
+  assetType: AssetTypeSchema.optional(),
+});
+
+/** Sets the annual interest rate of `liabilityId`, or of every liability when omitted */
+export const RateChangeEventSchema = EventBaseSchema.extend({
+  type: z.literal('rate_change'),
+  interestRate: z.number().min(0),
+  liabilityId: z.string().uuid().optional(),
+});
+
+/** Sets a new amount for an expense from the event day on (0 stops it) */
+export const ExpenseChangeEventSchema = EventBaseSchema.extend({
+  type: z.literal('expense_change'),
+  expenseId: z.string().uuid(),
+  amount: z.number().nonnegative(),
+});
+
+export const LifeEventSchema = z.discriminatedUnion('type', [
+  CashShockEventSchema,
+  IncomeSuspensionEventSchema,
+  AssetShockEventSchema,
+  RateChangeEventSchema,
+  ExpenseChangeEventSchema,
+]);
+export type LifeEvent = z.infer<typeof LifeEventSchema>;
+
+export const LifeEventTypeSchema = z.enum([
+  'cash_shock',
+  'income_suspension',
+  'asset_shock',
+  'rate_change',
+  'expense_change',
+]);
+export type LifeEventType = z.infer<typeof LifeEventTypeSchema>;
+
+/** An event as applied during the primary run */
+export const AppliedEventSchema = z.object({
+  eventId: z.string(),
+  name: z.string(),
+  type: LifeEventTypeSchema,
+  /** 'scheduled' for input events, 'stochastic' for shocks drawn from `shockConfig` */
+  source: z.enum(['scheduled', 'stochastic']),
+  day: z.number().int().nonnegative(),
+  date: z.string(), // YYYY-MM-DD
+  /** Change in cash balance, in base currency (cash shocks; 0 otherwise) */
+  balanceImpact: z.number(),
+  /** Change in summed asset value (asset shocks; 0 otherwise) */
+  navImpact: z.number(),
+  /** Ids of the income streams, assets, liabilities or expenses changed */
+  targetIds: z.array(z.string()),
+});
+export type AppliedEvent = z.infer<typeof AppliedEventSchema>;
+
+// ─── Stochastic Shocks ──────────────────────────────────────────────────────────
+
+/**
+ * Randomly occurring shocks and the life event each one becomes:
+ * - job_loss: income suspension lasting `severity` days
+ * - car_repair, medical: cash shock costing `severity`
+ * - market_drawdown: asset shock dropping values by `severity` (0.3 = −30%)
+ */
+export const ShockKindSchema = z.enum(['job_loss', 'car_repair', 'medical', 'market_drawdown']);
+export type ShockKind = z.infer<typeof ShockKindSchema>;
+
+/** Distribution a shock's severity is drawn from each time it occurs */
+export const ShockSeveritySchema = z
+  .discriminatedUnion('distribution', [
+    z.object({ distribution: z.literal('fixed'), value: z.number().positive() }),
+    z.object({
+      distribution: z.literal('uniform'),
+      min: z.number().positive(),
+      max: z.number().positive(),
+    }),
+    /** Heavy-tailed: median · exp(sigma · N(0, 1)) */
+    z.object({
+      distribution: z.literal('lognormal'),
+      median: z.number().positive(),
+      sigma: z.number().min(0),
+    }),
+  ])
+  .refine((s) => s.distribution !== 'uniform' || s.min <= s.max, {
+    message: 'min must not exceed max',
+    path: ['max'],
+  });
+export type ShockSeverity = z.infer<typeof ShockSeveritySchema>;
+
+export const ShockHazardSchema = z.object({
+  kind: ShockKindSchema,
+  /** Expected occurrences per year; the daily probability is 1 − e^(−annualRate / 365) */
+  annualRate: z.number().min(0).max(365),
+  severity: ShockSeveritySchema,
+  /** car_repair, medical: currency of the cost (default base currency) */
+  currency: CurrencyCodeSchema.optional(),
+  /** job_loss: the income stream lost (default every stream) */
+  incomeStreamId: z.string().uuid().optional(),
+  /** market_drawdown: the asset type hit (default 'volatile') */
+  assetType: AssetTypeSchema.optional(),
+});
+export type ShockHazard = z.infer<typeof ShockHazardSchema>;
+
+export const ShockConfigSchema = z.object({
+  hazards: z.array(ShockHazardSchema).min(1),
+});
+export type ShockConfig = z.infer<typeof ShockConfigSchema>;
+
 // ─── Simulation Input ───────────────────────────────────────────────────────────
 
-export const SimulationInputSchema = z.object({
+/** Input fields without the cross-field checks, for partial inputs (branch overrides) */
+const SimulationInputFieldsSchema = z.object({
   seed: z.number().int().default(42),
   horizonDays: z.number().int().positive().max(3650), // up to 10 years
+  /** Calendar date of day 0 (YYYY-MM-DD, default 2026-01-01); drives recurrences and tax years */
+  startDate: z.string().date().optional(),
   baseCurrency: CurrencyCodeSchema,
   initialBalance: z.number().default(0),
   incomeStreams: z.array(IncomeStreamSchema).default([]),
@@ -138,10 +362,68 @@ export const SimulationInputSchema = z.object({
   assets: z.array(AssetSchema).default([]),
   liabilities: z.array(LiabilitySchema).default([]),
   exchangeRates: z.array(ExchangeRateSchema).default([]),
+  /** Reading of dated exchange-rate series between entries (default 'step') */
+  fxInterpolation: FxInterpolationSchema.optional(),
   taxConfig: TaxConfigSchema.optional(),
+  /** Scheduled life events and shocks, applied on their day */
+  events: z.array(LifeEventSchema).optional(),
+  /** Random shocks drawn per day from hazard rates (seeded, so reproducible) */
+  shockConfig: ShockConfigSchema.optional(),
   /** Monte Carlo configuration for statistical output (p5/p95). Omit to use defaults. */
   monteCarloConfig: MonteCarloConfigSchema.optional(),
 });
+
+type SimulationInputFields = z.infer<typeof SimulationInputFieldsSchema>;
+
+/** Flags events and shock hazards naming items the input does not have */
+function checkReferences(input: SimulationInputFields, ctx: z.RefinementCtx): void {
+  const ids = {
+    'income stream': new Set(input.incomeStreams.map((s) => s.id)),
+    asset: new Set(input.assets.map((a) => a.id)),
+    liability: new Set(input.liabilities.map((l) => l.id)),
+    expense: new Set(input.expenses.map((e) => e.id)),
+  };
+  const check = (kind: keyof typeof ids, id: string | undefined, path: (string | number)[]) => {
+    if (id !== undefined && !ids[kind].has(id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${path.join('.')} names unknown ${kind} "${id}"`,
+        path,
+      });
+    }
+  };
+
+  input.events?.forEach((event, i) => {
+    const path = ['events', i];
+    if (event.type === 'income_suspension') {
+      check('income stream', event.incomeStreamId, [...path, 'incomeStreamId']);
+    } else if (event.type === 'asset_shock') {
+      check('asset', event.assetId, [...path, 'assetId']);
+    } else if (event.type === 'rate_change') {
+      check('liability', event.liabilityId, [...path, 'liabilityId']);
+    } else if (event.type === 'expense_change') {
+      check('expense', event.expenseId, [...path, 'expenseId']);
+    }
+  });
+  input.shockConfig?.hazards.forEach((hazard, i) => {
+    check('income stream', hazard.incomeStreamId, ['shockConfig', 'hazards', i, 'incomeStreamId']);
+  });
+}
+
+/**
+ * A simulation input whose events and shock hazards only name income
+ * streams, assets, liabilities and expenses it has; an unknown id fails
+ * validation at its path instead of the run.
+ */
+export const SimulationInputSchema = SimulationInputFieldsSchema.superRefine(checkReferences);
+
+/**
+ * Only the id checks of SimulationInputSchema, for an input assembled from
+ * parts validated on their own (a branch's parent input and overrides)
+ */
+export const SimulationInputReferencesSchema = z
+  .custom<SimulationInputFields>()
+  .superRefine(checkReferences);
 export type SimulationInput = z.infer<typeof SimulationInputSchema>;
 
 // ─── Daily Snapshot (single day of simulation state) ────────────────────────────
@@ -160,8 +442,10 @@ export const DailySnapshotSchema = z.object({
   shockResilienceIndex: z.number().min(0).max(100),
   /** Income tax deducted this day (from progressive brackets) */
   taxPaid: z.number().default(0),
-  /** Capital gains tax on realized asset sales this day */
+  /** Capital gains tax on realized asset sales this day (negative for a same-year loss true-up) */
   capitalGainsTax: z.number().default(0),
+  /** Net realized gain from asset sales this day (proceeds − cost basis; negative for a loss) */
+  realizedGain: z.number().default(0),
 });
 export type DailySnapshot = z.infer<typeof DailySnapshotSchema>;
 
@@ -173,6 +457,51 @@ export type VibeState = z.infer<typeof VibeStateSchema>;
 export const PetStateSchema = z.enum(['happy', 'content', 'anxious', 'distressed', 'fainted']);
 export type PetState = z.infer<typeof PetStateSchema>;
 
+// ─── Monte Carlo Percentile Bands ───────────────────────────────────────────────
+
+export const PercentileBandSchema = z.object({
+  p5: z.number(),
+  p25: z.number(),
+  p50: z.number(),
+  p75: z.number(),
+  p95: z.number(),
+});
+export type PercentileBand = z.infer<typeof PercentileBandSchema>;
+
+/** Distribution of balance, NAV and debt across Monte Carlo runs on a single day */
+export const DailyBandSchema = z.object({
+  day: z.number().int().nonnegative(),
+  date: z.string(), // YYYY-MM-DD
+  balance: PercentileBandSchema,
+  nav: PercentileBandSchema,
+  debt: PercentileBandSchema,
+});
+export type DailyBand = z.infer<typeof DailyBandSchema>;
+
+// ─── Amortization Schedules ─────────────────────────────────────────────────────
+
+/** One payment applied to a liability, in the liability's currency */
+export const AmortizationRowSchema = z.object({
+  day: z.number().int().nonnegative(),
+  date: z.string(), // YYYY-MM-DD
+  payment: z.number(),
+  interest: z.number(), // interest accrued since the previous payment
+  principal: z.number(), // payment − interest (negative when unpaid interest is capitalized)
+  balance: z.number(), // principal outstanding after the payment
+});
+export type AmortizationRow = z.infer<typeof AmortizationRowSchema>;
+
+export const AmortizationScheduleSchema = z.object({
+  liabilityId: z.string(),
+  name: z.string(),
+  type: LiabilityTypeSchema,
+  currency: CurrencyCodeSchema,
+  /** Level payment for amortizing and balloon loans; 0 for the other types */
+  scheduledPayment: z.number(),
+  payments: z.array(AmortizationRowSchema),
+});
+export type AmortizationSchedule = z.infer<typeof AmortizationScheduleSchema>;
+
 // ─── Simulation Output ──────────────────────────────────────────────────────────
 
 export const SimulationOutputSchema = z.object({
@@ -192,6 +521,9 @@ export const SimulationOutputSchema = z.object({
     p95: z.number(), // 95th percentile
   }),
 
+  // Per-day fan bands across Monte Carlo runs (omitted for single-run simulations)
+  bands: z.array(DailyBandSchema).optional(),
+
   // Risk
   collapseProbability: z.number().min(0).max(1),
   collapseDay: z.number().int().nonnegative().nullable(), // day of first collapse, or null
@@ -207,9 +539,106 @@ export const SimulationOutputSchema = z.object({
   // Assets
   finalNAV: z.number(),
   finalLiquidityRatio: z.number(),
+
+  // Liabilities — payments applied in the primary run (omitted when there are no liabilities)
+  amortization: z.array(AmortizationScheduleSchema).optional(),
+
+  // FX audit — conversions of the primary run (only when requested)
+  conversionAudit: ConversionAuditSchema.optional(),
+
+  // Life events and shocks applied in the primary run, in order (omitted when the input has neither)
+  appliedEvents: z.array(AppliedEventSchema).optional(),
 });
 export type SimulationOutput = z.infer<typeof SimulationOutputSchema>;
 
+// ─── Branch Patches (edits layered over a branch's parent input) ────────────────
+
+/**
+ * Edits to one id-keyed collection: `remove` drops items, `update` changes
+ * only the fields it gives on the item with the same id, `add` appends new
+ * items. Applied in that order.
+ */
+function collectionPatchSchema<T extends z.ZodRawShape>(item: z.ZodObject<T>) {
+  return z.object({
+    add: z.array(item).optional(),
+    update: z.array(item.partial().extend({ id: z.string().uuid() })).optional(),
+    remove: z.array(z.string().uuid()).optional(),
+  });
+}
+
+/**
+ * Edits a branch makes to its parent's input. Unlike `modifiedInput`,
+ * which replaces whole collections, a patch leaves untouched items as they
+ * are, including what they evolved to by the branch day (asset values,
+ * paid-down principal). Life events are updated whole, by id.
+ */
+export const BranchPatchSchema = z.object({
+  incomeStreams: collectionPatchSchema(IncomeStreamSchema).optional(),
+  expenses: collectionPatchSchema(ExpenseSchema).optional(),
+  assets: collectionPatchSchema(AssetSchema).optional(),
+  liabilities: collectionPatchSchema(LiabilitySchema).optional(),
+  events: z
+    .object({
+      add: z.array(LifeEventSchema).optional(),
+      update: z.array(LifeEventSchema).optional(),
+      remove: z.array(z.string().uuid()).optional(),
+    })
+    .optional(),
+  /** Whole-field overrides; null removes the tax or shock configuration */
+  set: z
+    .object({
+      exchangeRates: z.array(ExchangeRateSchema).optional(),
+      fxInterpolation: FxInterpolationSchema.optional(),
+      taxConfig: TaxConfigSchema.nullable().optional(),
+      shockConfig: ShockConfigSchema.nullable().optional(),
+      monteCarloConfig: MonteCarloConfigSchema.optional(),
+    })
+    .optional(),
+});
+export type BranchPatch = z.infer<typeof BranchPatchSchema>;
+
+// ─── Input Diffs (what changed between two inputs) ─────────────────────────────
+
+/** One field whose value differs; `from` or `to` is absent when the field is */
+export const FieldChangeSchema = z.object({
+  field: z.string(),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+export type FieldChange = z.infer<typeof FieldChangeSchema>;
+
+/** An item present in both inputs whose fields differ */
+export const ItemChangeSchema = z.object({
+  id: z.string().uuid(),
+  /** The item's name in the later input */
+  name: z.string(),
+  changes: z.array(FieldChangeSchema),
+});
+export type ItemChange = z.infer<typeof ItemChangeSchema>;
+
+/** Items of one id-keyed collection added, removed or changed, matched by id */
+function collectionDiffSchema<T extends z.ZodRawShape>(item: z.ZodObject<T>) {
+  return z.object({
+    added: z.array(item),
+    removed: z.array(item),
+    changed: z.array(ItemChangeSchema),
+  });
+}
+
+/**
+ * Differences from one simulation input to another: income streams,
+ * expenses, assets and liabilities item by item, and every other top-level
+ * field (seed, balance, events, exchange rates, configurations) as a whole.
+ */
+export const InputDiffSchema = z.object({
+  incomeStreams: collectionDiffSchema(IncomeStreamSchema),
+  expenses: collectionDiffSchema(ExpenseSchema),
+  assets: collectionDiffSchema(AssetSchema),
+  liabilities: collectionDiffSchema(LiabilitySchema),
+  fields: z.array(FieldChangeSchema),
+});
+export type InputDiff = z.infer<typeof InputDiffSchema>;
+
 // ─── Branching (what-if scenarios) ──────────────────────────────────────────────
 
 export const BranchRequestSchema = z.object({
@@ -217,8 +646,10 @@ export const BranchRequestSchema = z.object({
   baseInput: SimulationInputSchema,
   /** Day to branch from */
   branchAtDay: z.number().int().nonnegative(),
-  /** Modified input to apply from the branch point */
-  modifiedInput: SimulationInputSchema.partial(),
+  /** Collections and fields replaced from the branch point */
+  modifiedInput: SimulationInputFieldsSchema.partial().default({}),
+  /** Edits applied after `modifiedInput` */
+  patch: BranchPatchSchema.optional(),
 });
 export type BranchRequest = z.infer<typeof BranchRequestSchema>;
 
@@ -250,14 +681,309 @@ export const BranchComparisonDeltasSchema = z.object({
 });
 export type BranchComparisonDeltas = z.infer<typeof BranchComparisonDeltasSchema>;
 
+/** Branch minus baseline on one day of the primary run */
+export const BranchDeltaPointSchema = z.object({
+  day: z.number().int().nonnegative(),
+  date: z.string(),
+  balanceDiff: z.number(),
+  navDiff: z.number(),
+  debtDiff: z.number(),
+  creditScoreDiff: z.number(),
+  /** Net cash flow (income minus expenses) difference summed from the branch day */
+  cumulativeCashDiff: z.number(),
+});
+export type BranchDeltaPoint = z.infer<typeof BranchDeltaPointSchema>;
+
+/** How the branch's lead over the baseline evolves from the branch day */
+export const BranchTimelineSchema = z.object({
+  /** One point per day from the branch day */
+  series: z.array(BranchDeltaPointSchema),
+  /** First day the balance difference changes sign; null if the trajectories never cross */
+  crossoverDay: z.number().int().nonnegative().nullable(),
+  /** First day from which the cumulative cash difference never drops below zero; null if it ends below */
+  breakEvenDay: z.number().int().nonnegative().nullable(),
+  /** Cumulative cash difference on the last day */
+  cumulativeCashDiff: z.number(),
+});
+export type BranchTimeline = z.infer<typeof BranchTimelineSchema>;
+
 export const BranchComparisonResultSchema = z.object({
   baseline: SimulationOutputSchema,
   branch: SimulationOutputSchema,
   branchAtDay: z.number().int().nonnegative(),
   deltas: BranchComparisonDeltasSchema,
+  timeline: BranchTimelineSchema,
 });
 export type BranchComparisonResult = z.infer<typeof BranchComparisonResultSchema>;
 
+// ─── Scenario Comparison (several branches vs one baseline) ─────────────────────
+
+/** One named what-if scenario: a branch with its own day and overrides */
+export const ScenarioSchema = z.object({
+  /** Labels the scenario's row and chart line; unique within a request */
+  name: z.string().min(1).max(100),
+  branchAtDay: z.number().int().nonnegative(),
+  modifiedInput: SimulationInputFieldsSchema.partial().default({}),
+  patch: BranchPatchSchema.optional(),
+});
+export type Scenario = z.infer<typeof ScenarioSchema>;
+
+export const ScenariosRequestSchema = z
+  .object({
+    baseInput: SimulationInputSchema,
+    scenarios: z.array(ScenarioSchema).min(1).max(16),
+  })
+  .refine((r) => new Set(r.scenarios.map((s) => s.name)).size === r.scenarios.length, {
+    message: 'Scenario names must be unique',
+    path: ['scenarios'],
+  });
+export type ScenariosRequest = z.infer<typeof ScenariosRequestSchema>;
+
+export const ScenarioResultSchema = z.object({
+  name: z.string(),
+  branchAtDay: z.number().int().nonnegative(),
+  /** Scenario output; snapshots start at `branchAtDay` */
+  branch: SimulationOutputSchema,
+  /** Scenario vs baseline */
+  deltas: BranchComparisonDeltasSchema,
+});
+export type ScenarioResult = z.infer<typeof ScenarioResultSchema>;
+
+/** The baseline plus one row of deltas per scenario, in request order */
+export const ScenarioComparisonResultSchema = z.object({
+  baseline: SimulationOutputSchema,
+  scenarios: z.array(ScenarioResultSchema),
+});
+export type ScenarioComparisonResult = z.infer<typeof ScenarioComparisonResultSchema>;
+
+// ─── Branch Trees (nested what-if branches) ─────────────────────────────────────
+
+/** Nodes a branch tree may hold */
+export const MAX_BRANCH_TREE_NODES = 128;
+
+/**
+ * One node of a branch tree. It forks its parent (the baseline when
+ * `parentId` is null) at `branchAtDay`, with `modifiedInput` layered over
+ * the parent's input. A node keeps its id for the life of the tree.
+ */
+export const BranchNodeSchema = z.object({
+  id: z.string().uuid(),
+  parentId: z.string().uuid().nullable(),
+  name: z.string().min(1).max(100),
+  /** No earlier than the parent's branch day */
+  branchAtDay: z.number().int().nonnegative(),
+  modifiedInput: SimulationInputFieldsSchema.partial(),
+  /** Edits applied after `modifiedInput` */
+  patch: BranchPatchSchema.optional(),
+});
+export type BranchNode = z.infer<typeof BranchNodeSchema>;
+
+export const BranchTreeSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  baseInput: SimulationInputSchema,
+  /** Every parent is listed before its children */
+  nodes: z.array(BranchNodeSchema).max(MAX_BRANCH_TREE_NODES),
+  createdAt: z.string().datetime(),
+});
+export type BranchTree = z.infer<typeof BranchTreeSchema>;
+
+/** Body of POST /trees */
+export const CreateBranchTreeSchema = z.object({
+  name: z.string().min(1).max(100).default('Branch tree'),
+  baseInput: SimulationInputSchema,
+});
+export type CreateBranchTree = z.infer<typeof CreateBranchTreeSchema>;
+
+/** Body of POST /trees/:id/nodes */
+export const CreateBranchNodeSchema = z.object({
+  /** Node to branch from; null or omitted branches the baseline */
+  parentId: z.string().uuid().nullable().default(null),
+  /** Defaults to "Day <branchAtDay>" */
+  name: z.string().min(1).max(100).optional(),
+  branchAtDay: z.number().int().nonnegative(),
+  modifiedInput: SimulationInputFieldsSchema.partial().default({}),
+  patch: BranchPatchSchema.optional(),
+});
+export type CreateBranchNode = z.infer<typeof CreateBranchNodeSchema>;
+
+export const BranchNodeResultSchema = z.object({
+  id: z.string().uuid(),
+  parentId: z.string().uuid().nullable(),
+  name: z.string(),
+  branchAtDay: z.number().int().nonnegative(),
+  /** Forks between the baseline and this node: 1 for a child of the baseline */
+  depth: z.number().int().positive(),
+  /** Node output; snapshots start at `branchAtDay` */
+  branch: SimulationOutputSchema,
+  /** Node vs its parent (the baseline for top-level nodes) */
+  deltas: BranchComparisonDeltasSchema,
+  /** Node vs the baseline */
+  baselineDeltas: BranchComparisonDeltasSchema,
+});
+export type BranchNodeResult = z.infer<typeof BranchNodeResultSchema>;
+
+/** Every node of a tree simulated, in tree order */
+export const BranchTreeEvaluationSchema = z.object({
+  baseline: SimulationOutputSchema,
+  nodes: z.array(BranchNodeResultSchema),
+});
+export type BranchTreeEvaluation = z.infer<typeof BranchTreeEvaluationSchema>;
+
+// ─── Goal Seek ──────────────────────────────────────────────────────────────────
+
+/**
+ * Output metrics the solver can target:
+ * - `expectedFinalBalance` — Monte Carlo expected final balance
+ * - `p5FinalBalance` — 5th-percentile final balance
+ * - `collapseProbability` — share of runs that collapse
+ * - `finalCreditScore` — primary run's final credit score
+ */
+export const SolveMetricSchema = z.enum([
+  'expectedFinalBalance',
+  'p5FinalBalance',
+  'collapseProbability',
+  'finalCreditScore',
+]);
+export type SolveMetric = z.infer<typeof SolveMetricSchema>;
+
+export const SolveRequestSchema = z
+  .object({
+    input: SimulationInputSchema,
+    /**
+     * Dot path to one numeric input field. Array items are addressed by id
+     * or index, e.g. `expenses.<expense-id>.amount` or `incomeStreams.0.amount`.
+     */
+    parameter: z.string().min(1),
+    metric: SolveMetricSchema,
+    target: z.number(),
+    /** Search range of the parameter */
+    bounds: z.object({ min: z.number(), max: z.number() }),
+    /** Stop once the bracket is this narrow (default: 1e-6 of the bounds' width) */
+    valueTolerance: z.number().positive().optional(),
+    /** Simulations to run at most, besides the two bounds (default 40) */
+    maxIterations: z.number().int().min(1).max(200).default(40),
+  })
+  .refine((r) => r.bounds.min < r.bounds.max, {
+    message: 'bounds.min must be below bounds.max',
+    path: ['bounds'],
+  });
+export type SolveRequest = z.infer<typeof SolveRequestSchema>;
+
+/** One simulation made by the solver */
+export const SolveIterationSchema = z.object({
+  value: z.number(),
+  metric: z.number(),
+});
+export type SolveIteration = z.infer<typeof SolveIterationSchema>;
+
+export const SolveResultSchema = z.object({
+  parameter: z.string(),
+  metric: SolveMetricSchema,
+  target: z.number(),
+  /** Parameter value where the metric crosses the target (closest evaluated value) */
+  value: z.number(),
+  /** Metric at `value` */
+  achieved: z.number(),
+  /** Whether the bounds straddle the target and the search narrowed to the tolerance */
+  converged: z.boolean(),
+  /** Every evaluation in order, starting with the two bounds */
+  iterations: z.array(SolveIterationSchema),
+  /** Simulation output at `value` */
+  result: SimulationOutputSchema,
+});
+export type SolveResult = z.infer<typeof SolveResultSchema>;
+
+// ─── Sensitivity Analysis ───────────────────────────────────────────────────────
+
+/** Outcome metrics compared by a sensitivity report */
+export const SensitivityMetricSchema = z.enum([
+  'finalBalance',
+  'collapseProbability',
+  'creditScore',
+]);
+export type SensitivityMetric = z.infer<typeof SensitivityMetricSchema>;
+
+/**
+ * Parameters a sensitivity report may vary: each income and expense amount,
+ * asset yield rate and volatility, and liability interest rate counts once.
+ */
+export const MAX_SENSITIVITY_PARAMETERS = 32;
+
+export const SensitivityRequestSchema = z
+  .object({
+    input: SimulationInputSchema,
+    /** Relative change applied down and up to each parameter (0.1 = ±10%) */
+    variation: z.number().positive().max(1).default(0.1),
+    /** Metric whose swing orders the report (default: finalBalance) */
+    rankBy: SensitivityMetricSchema.default('finalBalance'),
+  })
+  .refine(
+    ({ input }) =>
+      input.incomeStreams.length +
+        input.expenses.length +
+        2 * input.assets.length +
+        input.liabilities.length <=
+      MAX_SENSITIVITY_PARAMETERS,
+    {
+      message: `A sensitivity report varies at most ${MAX_SENSITIVITY_PARAMETERS} parameters`,
+      path: ['input'],
+    },
+  );
+export type SensitivityRequest = z.infer<typeof SensitivityRequestSchema>;
+
+/** Expected final balance, collapse probability and final credit score */
+export const SensitivityOutcomeSchema = z.object({
+  finalBalance: z.number(),
+  collapseProbability: z.number(),
+  creditScore: z.number(),
+});
+export type SensitivityOutcome = z.infer<typeof SensitivityOutcomeSchema>;
+
+/** One perturbed parameter, with outcome changes relative to the baseline */
+export const SensitivityEntrySchema = z.object({
+  /** Dot path of the parameter, as in SolveRequestSchema */
+  parameter: z.string(),
+  /** e.g. "Rent amount" */
+  label: z.string(),
+  field: z.enum(['amount', 'yieldRate', 'volatility', 'interestRate']),
+  baseValue: z.number(),
+  lowValue: z.number(),
+  highValue: z.number(),
+  /** Outcome change with the parameter at `lowValue` */
+  low: SensitivityOutcomeSchema,
+  /** Outcome change with the parameter at `highValue` */
+  high: SensitivityOutcomeSchema,
+  /** |high − low| of the `rankBy` metric: the width of the tornado bar */
+  impact: z.number().nonnegative(),
+});
+export type SensitivityEntry = z.infer<typeof SensitivityEntrySchema>;
+
+export const SensitivityReportSchema = z.object({
+  variation: z.number(),
+  rankBy: SensitivityMetricSchema,
+  baseline: SensitivityOutcomeSchema,
+  /** Ordered by `impact`, largest first */
+  entries: z.array(SensitivityEntrySchema),
+});
+export type SensitivityReport = z.infer<typeof SensitivityReportSchema>;
+
+// ─── Simulate Request Options ───────────────────────────────────────────────────
+
+/** Query string of POST /simulate: opt-in FX conversion audit and its filters */
+export const SimulateQuerySchema = z
+  .object({
+    conversionLog: z.enum(['true', 'false']).default('false'),
+    fromDay: z.coerce.number().int().nonnegative().optional(),
+    toDay: z.coerce.number().int().nonnegative().optional(),
+    contextPrefix: z.string().min(1).optional(),
+  })
+  .refine((q) => q.fromDay === undefined || q.toDay === undefined || q.fromDay <= q.toDay, {
+    message: 'fromDay must not be after toDay',
+    path: ['fromDay'],
+  });
+export type SimulateQuery = z.infer<typeof SimulateQuerySchema>;
+
 // ─── API Error Response ─────────────────────────────────────────────────────────
 
 export const ApiErrorSchema = z.object({
@@ -267,9 +993,293 @@ export const ApiErrorSchema = z.object({
     'ENGINE_ERROR',
     'TIMEOUT_ERROR',
     'PAYLOAD_TOO_LARGE',
+    'NOT_FOUND',
+    'QUEUE_FULL',
     'INTERNAL_ERROR',
   ]),
   details: z.unknown().optional(),
 });
 export type ApiError = z.infer<typeof ApiErrorSchema>;
 export type ApiErrorCode = ApiError['code'];
+
+// ─── Simulation Jobs ────────────────────────────────────────────────────────────
+
+/**
+ * Lifecycle of an asynchronous simulation job: `queued` until a worker is
+ * free, then `running`, ending as `succeeded`, `failed` (engine error or
+ * timeout, see `error`) or `cancelled`.
+ */
+export const JobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed', 'cancelled']);
+export type JobStatus = z.infer<typeof JobStatusSchema>;
+
+/** Monte Carlo runs completed so far */
+export const JobProgressSchema = z.object({
+  completedRuns: z.number().int().nonnegative(),
+  totalRuns: z.number().int().positive(),
+});
+export type JobProgress = z.infer<typeof JobProgressSchema>;
+
+export const SimulationJobSchema = z.object({
+  id: z.string().uuid(),
+  status: JobStatusSchema,
+  progress: JobProgressSchema,
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().nullable(),
+  finishedAt: z.string().datetime().nullable(),
+  /** Present once the job has succeeded */
+  result: SimulationOutputSchema.optional(),
+  /** Present once the job has failed (ENGINE_ERROR or TIMEOUT_ERROR) */
+  error: ApiErrorSchema.optional(),
+});
+export type SimulationJob = z.infer<typeof SimulationJobSchema>;
+
+/** A simulation's output without the per-day snapshots, e.g. after they were streamed */
+export const SimulationSummarySchema = SimulationOutputSchema.omit({ snapshots: true });
+export type SimulationSummary = z.infer<typeof SimulationSummarySchema>;
+
+/**
+ * Server-Sent Events of POST /simulate/stream, in order: `snapshots`
+ * (chunks of the primary run) interleaved with `progress`, then one
+ * `summary` or `error`.
+ */
+export type SimulationStreamEvent =
+  | { event: 'snapshots'; data: DailySnapshot[] }
+  | { event: 'progress'; data: JobProgress }
+  | { event: 'summary'; data: SimulationSummary }
+  | { event: 'error'; data: ApiError };
+
+export const StreamQuerySchema = z.object({
+  /** Snapshots per `snapshots` event (default 30) */
+  chunkSize: z.coerce.number().int().min(1).max(3650).default(30),
+  timeoutMs: z.coerce.number().int().positive().optional(),
+});
+export type StreamQuery = z.infer<typeof StreamQuerySchema>;
+
+export const JobQuerySchema = z.object({
+  /** Per-job time limit once running; capped by the server's limit */
+  timeoutMs: z.coerce.number().int().positive().optional(),
+});
+export type JobQuery = z.infer<typeof JobQuerySchema>;
+
+// ─── Saved Scenarios ────────────────────────────────────────────────────────────
+
+/**
+ * A simulation input saved under a name so it can be reopened and re-run.
+ * `inputHash` is the SHA-256 of the input's canonical JSON without its
+ * seed; stored results are keyed by it together with the seed they ran with.
+ * `version` counts the inputs the scenario has had, starting at 1.
+ */
+export const SavedScenarioSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  input: SimulationInputSchema,
+  inputHash: z.string().regex(/^[0-9a-f]{64}$/),
+  version: z.number().int().positive(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type SavedScenario = z.infer<typeof SavedScenarioSchema>;
+
+/** Body of POST /scenarios */
+export const CreateSavedScenarioSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  input: SimulationInputSchema,
+});
+export type CreateSavedScenario = z.infer<typeof CreateSavedScenarioSchema>;
+
+/** Body of PATCH /scenarios/:id: the fields to replace */
+export const UpdateSavedScenarioSchema = CreateSavedScenarioSchema.partial().refine(
+  (u) => u.name !== undefined || u.description !== undefined || u.input !== undefined,
+  { message: 'Nothing to update' },
+);
+export type UpdateSavedScenario = z.infer<typeof UpdateSavedScenarioSchema>;
+
+export const ScenarioRunQuerySchema = z.object({
+  /** Seed to run with instead of the saved input's */
+  seed: z.coerce.number().int().optional(),
+});
+export type ScenarioRunQuery = z.infer<typeof ScenarioRunQuerySchema>;
+
+/** Response of POST /scenarios/:id/run */
+export const SavedScenarioRunSchema = z.object({
+  scenarioId: z.string().uuid(),
+  inputHash: z.string().regex(/^[0-9a-f]{64}$/),
+  seed: z.number().int(),
+  /** Whether the output was read from the stored results instead of simulated */
+  stored: z.boolean(),
+  output: SimulationOutputSchema,
+});
+export type SavedScenarioRun = z.infer<typeof SavedScenarioRunSchema>;
+
+/** One input a saved scenario has had; every change of input adds a version */
+export const ScenarioVersionSchema = z.object({
+  scenarioId: z.string().uuid(),
+  version: z.number().int().positive(),
+  input: SimulationInputSchema,
+  inputHash: z.string().regex(/^[0-9a-f]{64}$/),
+  createdAt: z.string().datetime(),
+});
+export type ScenarioVersion = z.infer<typeof ScenarioVersionSchema>;
+
+/** Path parameters of GET /scenarios/:id/versions/:version */
+export const ScenarioVersionParamsSchema = z.object({
+  id: z.string(),
+  version: z.coerce.number().int().positive(),
+});
+export type ScenarioVersionParams = z.infer<typeof ScenarioVersionParamsSchema>;
+
+/**
+ * Query of GET /scenarios/:id/diff. `to` defaults to the latest version and
+ * `from` to the one before it; both versions run with `seed` if given, else
+ * with their own seeds.
+ */
+export const ScenarioDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive().optional(),
+  to: z.coerce.number().int().positive().optional(),
+  seed: z.coerce.number().int().optional(),
+});
+export type ScenarioDiffQuery = z.infer<typeof ScenarioDiffQuerySchema>;
+
+/** Response of GET /scenarios/:id/diff: what changed from one version to another */
+export const ScenarioVersionDiffSchema = z.object({
+  scenarioId: z.string().uuid(),
+  from: z.number().int().positive(),
+  to: z.number().int().positive(),
+  input: InputDiffSchema,
+  /** Outcome of version `to` minus outcome of version `from` */
+  outcome: BranchComparisonDeltasSchema,
+});
+export type ScenarioVersionDiff = z.infer<typeof ScenarioVersionDiffSchema>;
+
+// ─── Transaction Import ────────────────────────────────────────────────────────
+
+/** One bank-statement line; deposits are positive, payments negative */
+export const TransactionSchema = z.object({
+  date: z.string().date(),
+  amount: z.number(),
+  description: z.string(),
+});
+export type Transaction = z.infer<typeof TransactionSchema>;
+
+/** A CSV column, by header name (case-insensitive) or zero-based index */
+const CsvColumnSchema = z.union([z.string().min(1), z.number().int().nonnegative()]);
+
+/**
+ * Where a CSV statement keeps each field. Amounts come from `amount`
+ * (signed), or from separate `debit` and `credit` columns; with none of
+ * the three given, the `Amount` column is read.
+ */
+export const CsvColumnMappingSchema = z.object({
+  date: CsvColumnSchema.default('Date'),
+  description: CsvColumnSchema.default('Description'),
+  amount: CsvColumnSchema.optional(),
+  debit: CsvColumnSchema.optional(),
+  credit: CsvColumnSchema.optional(),
+  dateFormat: z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']).default('YYYY-MM-DD'),
+  delimiter: z.string().length(1).default(','),
+  decimalSeparator: z.enum(['.', ',']).default('.'),
+  /** Whether the first row names the columns; without one, columns are indices */
+  hasHeader: z.boolean().default(true),
+});
+export type CsvColumnMapping = z.infer<typeof CsvColumnMappingSchema>;
+
+export const StatementFormatSchema = z.enum(['csv', 'ofx', 'qfx']);
+export type StatementFormat = z.infer<typeof StatementFormatSchema>;
+
+/** Body of POST /import/transactions */
+export const ImportTransactionsRequestSchema = z.object({
+  format: StatementFormatSchema,
+  /** The statement file's text */
+  content: z.string().min(1),
+  /** CSV only */
+  mapping: CsvColumnMappingSchema.default({}),
+  /** Currency of the proposals (default: the OFX statement's, else USD) */
+  currency: CurrencyCodeSchema.optional(),
+  /** Day 0 of the input the proposals are for (default: the day after the last transaction) */
+  startDate: z.string().date().optional(),
+  /** Occurrences a series needs to be proposed (yearly series need only 2) */
+  minOccurrences: z.number().int().min(2).default(3),
+});
+export type ImportTransactionsRequest = z.infer<typeof ImportTransactionsRequestSchema>;
+
+const RecurringSeriesSchema = z.object({
+  recurrence: RecurrenceSchema,
+  occurrences: z.number().int().positive(),
+  firstDate: z.string().date(),
+  lastDate: z.string().date(),
+  /** 0-1: regularity of the dates × consistency of the amounts × number of occurrences */
+  confidence: z.number().min(0).max(1),
+});
+
+/** A recurring deposit or payment found in a statement, as an input entry */
+export const RecurringProposalSchema = z.discriminatedUnion('kind', [
+  RecurringSeriesSchema.extend({ kind: z.literal('income'), entry: IncomeStreamSchema }),
+  RecurringSeriesSchema.extend({ kind: z.literal('expense'), entry: ExpenseSchema }),
+]);
+export type RecurringProposal = z.infer<typeof RecurringProposalSchema>;
+
+/** Response of POST /import/transactions */
+export const ImportResultSchema = z.object({
+  format: StatementFormatSchema,
+  currency: CurrencyCodeSchema,
+  startDate: z.string().date(),
+  /** Transactions read from the statement */
+  transactions: z.number().int().nonnegative(),
+  /** Transactions in no proposal */
+  unmatched: z.number().int().nonnegative(),
+  /** Most confident first */
+  proposals: z.array(RecurringProposalSchema),
+});
+export type ImportResult = z.infer<typeof ImportResultSchema>;
+
+// ─── Result Export ──────────────────────────────────────────────────────────────
+
+export const ExportFormatSchema = z.enum(['csv', 'xlsx', 'ndjson']);
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+/**
+ * Tables of an export: `snapshots` (one row per day and run), `summary`
+ * (final and Monte Carlo figures per run) and `deltas` (branch minus
+ * baseline per day, comparisons only). XLSX holds each as a sheet; CSV
+ * and NDJSON hold one.
+ */
+export const ExportTableSchema = z.enum(['snapshots', 'summary', 'deltas']);
+export type ExportTable = z.infer<typeof ExportTableSchema>;
+
+/** `week` rows cover 7 days counted from day 0; `month` rows a calendar month */
+export const ExportAggregationSchema = z.enum(['day', 'week', 'month']);
+export type ExportAggregation = z.infer<typeof ExportAggregationSchema>;
+
+export const SnapshotColumnSchema = DailySnapshotSchema.keyof();
+export type SnapshotColumn = z.infer<typeof SnapshotColumnSchema>;
+
+/** Tables of a simulation export: a single run has no branch deltas */
+export const SimulationExportTableSchema = ExportTableSchema.exclude(['deltas']);
+export type SimulationExportTable = z.infer<typeof SimulationExportTableSchema>;
+
+/** How an export is laid out, whatever it exports */
+const ExportLayoutSchema = z.object({
+  format: ExportFormatSchema,
+  /** Snapshot columns, in order (default: all); `day` and `date` always lead */
+  columns: z.array(SnapshotColumnSchema).min(1).optional(),
+  aggregate: ExportAggregationSchema.default('day'),
+});
+
+/** Body of POST /export: a simulation, or a branch with its baseline and deltas */
+export const ExportRequestSchema = z.discriminatedUnion('kind', [
+  ExportLayoutSchema.extend({
+    kind: z.literal('simulation'),
+    input: SimulationInputSchema,
+    /** Table exported as CSV or NDJSON (XLSX has them all) */
+    table: SimulationExportTableSchema.default('snapshots'),
+  }),
+  ExportLayoutSchema.extend({
+    kind: z.literal('comparison'),
+    comparison: BranchRequestSchema,
+    /** Table exported as CSV or NDJSON (XLSX has them all) */
+    table: ExportTableSchema.default('snapshots'),
+  }),
+]);
+export type ExportRequest = z.infer<typeof ExportRequestSchema>;
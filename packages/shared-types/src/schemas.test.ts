@@ -18,15 +18,37 @@ import {
   TaxConfigSchema,
   MonteCarloConfigSchema,
   SimulationInputSchema,
+  SimulationInputReferencesSchema,
   DailySnapshotSchema,
   VibeStateSchema,
   PetStateSchema,
   SimulationOutputSchema,
   BranchRequestSchema,
+  BranchPatchSchema,
   BranchComparisonDeltasSchema,
   BranchComparisonResultSchema,
+  BranchTimelineSchema,
+  ScenariosRequestSchema,
+  CreateBranchNodeSchema,
+  CreateBranchTreeSchema,
   CurrencyConversionLogSchema,
+  ConversionAuditFilterSchema,
+  SimulateQuerySchema,
+  LifeEventSchema,
+  ShockConfigSchema,
+  SolveRequestSchema,
+  SensitivityRequestSchema,
+  SimulationJobSchema,
+  JobQuerySchema,
+  StreamQuerySchema,
   ApiErrorSchema,
+  UpdateSavedScenarioSchema,
+  ScenarioRunQuerySchema,
+  ScenarioDiffQuerySchema,
+  ScenarioVersionParamsSchema,
+  InputDiffSchema,
+  ExportRequestSchema,
+  MAX_SENSITIVITY_PARAMETERS,
 } from './index.js';
 
 // ─── Helpers ────────────────────────────────────────────────────────────────────
@@ -259,13 +281,44 @@ describe('AssetSchema', () => {
   it('rejects liquidation penalty outside [0, 1]', () => {
     expect(() => AssetSchema.parse(validAsset({ liquidationPenalty: 2 }))).toThrow();
   });
+
+  it('accepts cost basis and purchase lots', () => {
+    const result = AssetSchema.parse(
+      validAsset({
+        costBasis: 800,
+        lots: [
+          { value: 600, costBasis: 500 },
+          { value: 400, costBasis: 300 },
+        ],
+      }),
+    );
+    expect(result.costBasis).toBe(800);
+    expect(result.lots).toHaveLength(2);
+  });
+
+  it('rejects negative cost basis and empty lot lists', () => {
+    expect(() => AssetSchema.parse(validAsset({ costBasis: -1 }))).toThrow();
+    expect(() => AssetSchema.parse(validAsset({ lots: [] }))).toThrow();
+    expect(() =>
+      AssetSchema.parse(validAsset({ lots: [{ value: 100, costBasis: -5 }] })),
+    ).toThrow();
+  });
 });
 
 // ─── Recurrence ─────────────────────────────────────────────────────────────────
 
 describe('RecurrenceSchema', () => {
   it('accepts all valid recurrence values', () => {
-    const valid = ['daily', 'weekly', 'biweekly', 'monthly', 'yearly', 'once'];
+    const valid = [
+      'daily',
+      'weekly',
+      'biweekly',
+      'semimonthly',
+      'monthly',
+      'last_business_day',
+      'yearly',
+      'once',
+    ];
     for (const v of valid) {
       expect(RecurrenceSchema.parse(v)).toBe(v);
     }
@@ -345,6 +398,30 @@ describe('LiabilitySchema', () => {
     expect(() => LiabilitySchema.parse(validLiability({ remainingTermDays: 0 }))).toThrow();
     expect(() => LiabilitySchema.parse(validLiability({ remainingTermDays: -1 }))).toThrow();
   });
+
+  it('accepts loan types and payment schedules', () => {
+    const result = LiabilitySchema.parse(
+      validLiability({
+        type: 'balloon',
+        paymentRecurrence: 'biweekly',
+        firstPaymentDay: 14,
+        amortizationTermDays: 10950,
+      }),
+    );
+    expect(result.type).toBe('balloon');
+    expect(result.paymentRecurrence).toBe('biweekly');
+  });
+
+  it('leaves loan type and schedule unset by default', () => {
+    const result = LiabilitySchema.parse(validLiability());
+    expect(result.type).toBeUndefined();
+    expect(result.paymentRecurrence).toBeUndefined();
+    expect(result.firstPaymentDay).toBeUndefined();
+  });
+
+  it('rejects unknown loan types', () => {
+    expect(() => LiabilitySchema.parse(validLiability({ type: 'payday' }))).toThrow();
+  });
 });
 
 // ─── TaxConfig ──────────────────────────────────────────────────────────────────
@@ -419,6 +496,12 @@ describe('MonteCarloConfigSchema', () => {
     expect(() => MonteCarloConfigSchema.parse({ runs: -1 })).toThrow();
   });
 
+  it('accepts an optional maxBandPoints of at least 2', () => {
+    expect(MonteCarloConfigSchema.parse({ maxBandPoints: 120 }).maxBandPoints).toBe(120);
+    expect(MonteCarloConfigSchema.parse({}).maxBandPoints).toBeUndefined();
+    expect(() => MonteCarloConfigSchema.parse({ maxBandPoints: 1 })).toThrow();
+  });
+
   it('rejects perturbationFactor outside [0, 0.5]', () => {
     expect(() => MonteCarloConfigSchema.parse({ perturbationFactor: 0.6 })).toThrow();
     expect(() => MonteCarloConfigSchema.parse({ perturbationFactor: -0.01 })).toThrow();
@@ -437,6 +520,32 @@ describe('SimulationInputSchema', () => {
     expect(result.initialBalance).toBe(0); // default
     expect(result.incomeStreams).toEqual([]); // default
     expect(result.monteCarloConfig).toBeUndefined(); // optional
+    expect(result.startDate).toBeUndefined(); // optional, engine defaults to 2026-01-01
+  });
+
+  it('accepts a calendar start date', () => {
+    const result = SimulationInputSchema.parse({
+      horizonDays: 30,
+      baseCurrency: 'USD',
+      startDate: '2028-02-29',
+    });
+    expect(result.startDate).toBe('2028-02-29');
+  });
+
+  it('accepts an FX interpolation mode and rejects unknown ones', () => {
+    const base = { horizonDays: 30, baseCurrency: 'USD' };
+    expect(
+      SimulationInputSchema.parse({ ...base, fxInterpolation: 'linear' }).fxInterpolation,
+    ).toBe('linear');
+    expect(() => SimulationInputSchema.parse({ ...base, fxInterpolation: 'cubic' })).toThrow();
+  });
+
+  it('rejects malformed or impossible start dates', () => {
+    for (const startDate of ['2026-02-30', '2027-02-29', '01/01/2026', '2026-1-1']) {
+      expect(() =>
+        SimulationInputSchema.parse({ horizonDays: 30, baseCurrency: 'USD', startDate }),
+      ).toThrow();
+    }
   });
 
   it('accepts full input with all fields', () => {
@@ -488,6 +597,12 @@ describe('DailySnapshotSchema', () => {
     expect(result.capitalGainsTax).toBe(0);
   });
 
+  it('defaults realizedGain to 0 and accepts losses', () => {
+    expect(DailySnapshotSchema.parse(validDailySnapshot()).realizedGain).toBe(0);
+    const loss = DailySnapshotSchema.parse(validDailySnapshot({ realizedGain: -250 }));
+    expect(loss.realizedGain).toBe(-250);
+  });
+
   it('rejects credit score outside [0, 850]', () => {
     expect(() => DailySnapshotSchema.parse(validDailySnapshot({ creditScore: 851 }))).toThrow();
     expect(() => DailySnapshotSchema.parse(validDailySnapshot({ creditScore: -1 }))).toThrow();
@@ -563,6 +678,28 @@ describe('SimulationOutputSchema', () => {
     const result = SimulationOutputSchema.parse(validSimulationOutput({ collapseDay: 15 }));
     expect(result.collapseDay).toBe(15);
   });
+
+  it('accepts optional percentile bands', () => {
+    const band = { p5: 1, p25: 2, p50: 3, p75: 4, p95: 5 };
+    const result = SimulationOutputSchema.parse(
+      validSimulationOutput({
+        bands: [{ day: 0, date: '2026-01-01', balance: band, nav: band, debt: band }],
+      }),
+    );
+    expect(result.bands).toHaveLength(1);
+    expect(SimulationOutputSchema.parse(validSimulationOutput()).bands).toBeUndefined();
+  });
+
+  it('rejects bands missing a percentile', () => {
+    const partial = { p5: 1, p50: 3, p95: 5 };
+    expect(() =>
+      SimulationOutputSchema.parse(
+        validSimulationOutput({
+          bands: [{ day: 0, date: '2026-01-01', balance: partial, nav: partial, debt: partial }],
+        }),
+      ),
+    ).toThrow();
+  });
 });
 
 // ─── BranchRequest ──────────────────────────────────────────────────────────────
@@ -596,6 +733,44 @@ describe('BranchRequestSchema', () => {
       }),
     ).toThrow();
   });
+
+  it('defaults modifiedInput when only a patch is given', () => {
+    const result = BranchRequestSchema.parse({
+      baseInput: validSimulationInput(),
+      branchAtDay: 5,
+      patch: { incomeStreams: { add: [validIncomeStream()] } },
+    });
+    expect(result.modifiedInput).toEqual({});
+    expect(result.patch?.incomeStreams?.add).toHaveLength(1);
+  });
+});
+
+// ─── BranchPatch ────────────────────────────────────────────────────────────────
+
+describe('BranchPatchSchema', () => {
+  it('keeps only the fields an update names', () => {
+    const patch = BranchPatchSchema.parse({
+      expenses: { update: [{ id: VALID_UUID, amount: 900 }] },
+    });
+    expect(patch.expenses?.update).toEqual([{ id: VALID_UUID, amount: 900 }]);
+  });
+
+  it('requires an id on every update and removal', () => {
+    expect(BranchPatchSchema.safeParse({ assets: { update: [{ value: 5 }] } }).success).toBe(false);
+    expect(BranchPatchSchema.safeParse({ liabilities: { remove: ['loan'] } }).success).toBe(false);
+  });
+
+  it('validates updated fields like the full item', () => {
+    const result = BranchPatchSchema.safeParse({
+      assets: { update: [{ id: VALID_UUID, volatility: 2 }] },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('accepts null to clear tax and shock configs', () => {
+    const patch = BranchPatchSchema.parse({ set: { taxConfig: null, shockConfig: null } });
+    expect(patch.set).toEqual({ taxConfig: null, shockConfig: null });
+  });
 });
 
 // ─── BranchComparisonDeltas ─────────────────────────────────────────────────────
@@ -650,10 +825,20 @@ describe('BranchComparisonResultSchema', () => {
         vibeStateChange: { from: 'stable', to: 'stable' },
         petStateChange: { from: 'content', to: 'content' },
       },
+      timeline: { series: [], crossoverDay: null, breakEvenDay: 10, cumulativeCashDiff: 0 },
     });
     expect(result.branchAtDay).toBe(10);
     expect(result.deltas).toBeDefined();
   });
+
+  it('rejects a timeline without its cumulative cash difference', () => {
+    const result = BranchTimelineSchema.safeParse({
+      series: [],
+      crossoverDay: null,
+      breakEvenDay: null,
+    });
+    expect(result.success).toBe(false);
+  });
 });
 
 // ─── CurrencyConversionLog ──────────────────────────────────────────────────────
@@ -668,12 +853,42 @@ describe('CurrencyConversionLogSchema', () => {
       convertedAmount: 1176.47,
       rateUsed: 1.17647,
       context: 'income:Salary',
+      path: ['EUR', 'USD'],
     });
     expect(result.from).toBe('EUR');
     expect(result.to).toBe('USD');
     expect(result.context).toBe('income:Salary');
   });
 
+  it('accepts a triangulated path', () => {
+    const result = CurrencyConversionLogSchema.parse({
+      day: 0,
+      from: 'EUR',
+      to: 'JPY',
+      originalAmount: 100,
+      convertedAmount: 17000,
+      rateUsed: 170,
+      context: 'expense:Hotel',
+      path: ['EUR', 'USD', 'JPY'],
+    });
+    expect(result.path).toEqual(['EUR', 'USD', 'JPY']);
+  });
+
+  it('rejects a path shorter than two currencies', () => {
+    expect(() =>
+      CurrencyConversionLogSchema.parse({
+        day: 0,
+        from: 'USD',
+        to: 'EUR',
+        originalAmount: 100,
+        convertedAmount: 85,
+        rateUsed: 0.85,
+        context: 'test',
+        path: ['USD'],
+      }),
+    ).toThrow();
+  });
+
   it('rejects negative day', () => {
     expect(() =>
       CurrencyConversionLogSchema.parse({
@@ -703,6 +918,320 @@ describe('CurrencyConversionLogSchema', () => {
   });
 });
 
+// ─── Life events ────────────────────────────────────────────────────────────────
+
+describe('LifeEventSchema', () => {
+  const base = { id: '550e8400-e29b-41d4-a716-446655440000', name: 'Event', day: 90 };
+
+  it('accepts each event kind', () => {
+    const events = [
+      { ...base, type: 'cash_shock', amount: -8000, currency: 'usd' },
+      { ...base, type: 'income_suspension', incomeStreamId: base.id, durationDays: 30 },
+      { ...base, type: 'asset_shock', change: -0.3, assetType: 'volatile' },
+      { ...base, type: 'rate_change', interestRate: 0.07 },
+      { ...base, type: 'expense_change', expenseId: base.id, amount: 0 },
+    ];
+    for (const event of events) {
+      expect(LifeEventSchema.safeParse(event).success).toBe(true);
+    }
+    expect(LifeEventSchema.parse(events[0])).toMatchObject({ currency: 'USD' });
+  });
+
+  it('rejects unknown kinds and out-of-range values', () => {
+    expect(LifeEventSchema.safeParse({ ...base, type: 'lottery_win', amount: 1 }).success).toBe(
+      false,
+    );
+    expect(LifeEventSchema.safeParse({ ...base, type: 'asset_shock', change: -1.5 }).success).toBe(
+      false,
+    );
+    expect(
+      LifeEventSchema.safeParse({ ...base, day: -1, type: 'rate_change', interestRate: 0.05 })
+        .success,
+    ).toBe(false);
+  });
+
+  it('is optional on the simulation input', () => {
+    const result = SimulationInputSchema.parse({
+      horizonDays: 30,
+      baseCurrency: 'USD',
+      events: [{ ...base, type: 'cash_shock', amount: 100, currency: 'USD' }],
+    });
+    expect(result.events).toHaveLength(1);
+    expect(SimulationInputSchema.parse({ horizonDays: 30, baseCurrency: 'USD' }).events).toBe(
+      undefined,
+    );
+  });
+
+  it('must name income streams, assets, liabilities and expenses the input has', () => {
+    const events = [
+      { ...base, type: 'income_suspension', incomeStreamId: VALID_UUID },
+      { ...base, type: 'asset_shock', change: -0.3, assetId: VALID_UUID },
+      { ...base, type: 'rate_change', interestRate: 0.07, liabilityId: VALID_UUID },
+      { ...base, type: 'expense_change', expenseId: VALID_UUID, amount: 0 },
+    ];
+    const known = validSimulationInput({
+      assets: [validAsset()],
+      liabilities: [validLiability()],
+      events,
+    });
+    expect(SimulationInputSchema.safeParse(known).success).toBe(true);
+
+    const result = SimulationInputSchema.safeParse({ ...known, assets: [], expenses: [], events });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((i) => [i.path, i.message])).toEqual([
+      [['events', 1, 'assetId'], `events.1.assetId names unknown asset "${VALID_UUID}"`],
+      [['events', 3, 'expenseId'], `events.3.expenseId names unknown expense "${VALID_UUID}"`],
+    ]);
+  });
+});
+
+// ─── Stochastic shocks ──────────────────────────────────────────────────────────
+
+describe('ShockConfigSchema', () => {
+  it('accepts each severity distribution', () => {
+    const config = ShockConfigSchema.parse({
+      hazards: [
+        {
+          kind: 'job_loss',
+          annualRate: 0.1,
+          severity: { distribution: 'uniform', min: 30, max: 180 },
+        },
+        {
+          kind: 'medical',
+          annualRate: 0.5,
+          severity: { distribution: 'lognormal', median: 2000, sigma: 1 },
+        },
+        { kind: 'car_repair', annualRate: 1, severity: { distribution: 'fixed', value: 800 } },
+      ],
+    });
+    expect(config.hazards).toHaveLength(3);
+  });
+
+  it('rejects inverted uniform bounds, unknown kinds and negative rates', () => {
+    const severity = { distribution: 'fixed', value: 1 };
+    expect(
+      ShockConfigSchema.safeParse({
+        hazards: [
+          { kind: 'medical', annualRate: 1, severity: { distribution: 'uniform', min: 5, max: 1 } },
+        ],
+      }).success,
+    ).toBe(false);
+    expect(
+      ShockConfigSchema.safeParse({
+        hazards: [{ kind: 'alien_invasion', annualRate: 1, severity }],
+      }).success,
+    ).toBe(false);
+    expect(
+      ShockConfigSchema.safeParse({ hazards: [{ kind: 'medical', annualRate: -1, severity }] })
+        .success,
+    ).toBe(false);
+    expect(ShockConfigSchema.safeParse({ hazards: [] }).success).toBe(false);
+  });
+
+  it('must name an income stream the input has for a job loss', () => {
+    const severity = { distribution: 'fixed', value: 30 };
+    const hazards = [
+      { kind: 'medical', annualRate: 1, severity },
+      { kind: 'job_loss', annualRate: 1, severity, incomeStreamId: VALID_UUID },
+    ];
+    const input = validSimulationInput({ shockConfig: { hazards } });
+    expect(SimulationInputSchema.safeParse(input).success).toBe(true);
+
+    const result = SimulationInputSchema.safeParse({ ...input, incomeStreams: [] });
+    expect(result.error?.issues.map((i) => [i.path, i.message])).toEqual([
+      [
+        ['shockConfig', 'hazards', 1, 'incomeStreamId'],
+        `shockConfig.hazards.1.incomeStreamId names unknown income stream "${VALID_UUID}"`,
+      ],
+    ]);
+  });
+
+  it('runs only the id checks in SimulationInputReferencesSchema', () => {
+    // Field checks are left to the parts the input was built from
+    const cut = {
+      id: VALID_UUID,
+      name: 'Cut',
+      type: 'expense_change',
+      day: 5,
+      expenseId: VALID_UUID,
+    };
+    const known = {
+      incomeStreams: [],
+      expenses: [{ id: VALID_UUID }],
+      assets: [],
+      liabilities: [],
+      events: [cut],
+    };
+    expect(SimulationInputReferencesSchema.safeParse(known).success).toBe(true);
+    const unknown = { ...known, expenses: [] };
+    expect(SimulationInputReferencesSchema.safeParse(unknown).error?.issues[0].path).toEqual([
+      'events',
+      0,
+      'expenseId',
+    ]);
+  });
+});
+
+// ─── Conversion audit options ───────────────────────────────────────────────────
+
+describe('ConversionAuditFilterSchema', () => {
+  it('accepts an empty filter and partial bounds', () => {
+    expect(ConversionAuditFilterSchema.parse({})).toEqual({});
+    expect(ConversionAuditFilterSchema.parse({ fromDay: 3 }).fromDay).toBe(3);
+  });
+
+  it('rejects a day range that ends before it starts', () => {
+    expect(() => ConversionAuditFilterSchema.parse({ fromDay: 5, toDay: 4 })).toThrow();
+  });
+});
+
+describe('SimulateQuerySchema', () => {
+  it('defaults the conversion log to off', () => {
+    expect(SimulateQuerySchema.parse({}).conversionLog).toBe('false');
+  });
+
+  it('coerces query-string day bounds to integers', () => {
+    const result = SimulateQuerySchema.parse({ conversionLog: 'true', fromDay: '2', toDay: '9' });
+    expect(result).toMatchObject({ conversionLog: 'true', fromDay: 2, toDay: 9 });
+  });
+
+  it('rejects non-boolean flags and non-integer days', () => {
+    expect(() => SimulateQuerySchema.parse({ conversionLog: 'yes' })).toThrow();
+    expect(() => SimulateQuerySchema.parse({ fromDay: '1.5' })).toThrow();
+    expect(() => SimulateQuerySchema.parse({ fromDay: '9', toDay: '2' })).toThrow();
+  });
+});
+
+// ─── Scenario comparison ────────────────────────────────────────────────────────
+
+describe('ScenariosRequestSchema', () => {
+  const scenario = { name: 'Move out', branchAtDay: 5, modifiedInput: { initialBalance: 0 } };
+
+  it('accepts named scenarios', () => {
+    const request = { baseInput: validSimulationInput(), scenarios: [scenario] };
+    expect(ScenariosRequestSchema.safeParse(request).success).toBe(true);
+  });
+
+  it('rejects empty lists and duplicate names', () => {
+    const baseInput = validSimulationInput();
+    expect(ScenariosRequestSchema.safeParse({ baseInput, scenarios: [] }).success).toBe(false);
+    expect(
+      ScenariosRequestSchema.safeParse({ baseInput, scenarios: [scenario, scenario] }).success,
+    ).toBe(false);
+  });
+});
+
+// ─── Branch trees ───────────────────────────────────────────────────────────────
+
+describe('CreateBranchNodeSchema', () => {
+  it('branches the baseline unless a parent is given', () => {
+    const node = CreateBranchNodeSchema.parse({ branchAtDay: 3, modifiedInput: {} });
+    expect(node.parentId).toBeNull();
+    expect(node.name).toBeUndefined();
+  });
+
+  it('rejects a parent id that is not a uuid', () => {
+    expect(
+      CreateBranchNodeSchema.safeParse({ parentId: 'root', branchAtDay: 3, modifiedInput: {} })
+        .success,
+    ).toBe(false);
+  });
+
+  it('names trees by default', () => {
+    const tree = CreateBranchTreeSchema.parse({ baseInput: validSimulationInput() });
+    expect(tree.name).toBe('Branch tree');
+  });
+});
+
+// ─── Goal Seek ──────────────────────────────────────────────────────────────────
+
+describe('SolveRequestSchema', () => {
+  const solve = {
+    input: validSimulationInput(),
+    parameter: 'initialBalance',
+    metric: 'collapseProbability',
+    target: 0,
+    bounds: { min: 0, max: 1000 },
+  };
+
+  it('accepts a request and defaults the iteration budget', () => {
+    expect(SolveRequestSchema.parse(solve).maxIterations).toBe(40);
+  });
+
+  it('rejects inverted bounds and unknown metrics', () => {
+    expect(SolveRequestSchema.safeParse({ ...solve, bounds: { min: 5, max: 5 } }).success).toBe(
+      false,
+    );
+    expect(SolveRequestSchema.safeParse({ ...solve, metric: 'vibe' }).success).toBe(false);
+  });
+});
+
+// ─── Simulation jobs ────────────────────────────────────────────────────────────
+
+describe('SimulationJobSchema', () => {
+  const job = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    status: 'failed',
+    progress: { completedRuns: 12, totalRuns: 100 },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    startedAt: '2026-01-01T00:00:01.000Z',
+    finishedAt: '2026-01-01T00:01:01.000Z',
+    error: { code: 'TIMEOUT_ERROR', error: 'Simulation exceeded the time limit of 60000 ms' },
+  };
+
+  it('accepts a job with an error', () => {
+    expect(SimulationJobSchema.safeParse(job).success).toBe(true);
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(SimulationJobSchema.safeParse({ ...job, status: 'paused' }).success).toBe(false);
+  });
+
+  it('coerces the timeout query parameter', () => {
+    expect(JobQuerySchema.parse({ timeoutMs: '500' }).timeoutMs).toBe(500);
+    expect(JobQuerySchema.safeParse({ timeoutMs: '0' }).success).toBe(false);
+  });
+
+  it('defaults and bounds the stream chunk size', () => {
+    expect(StreamQuerySchema.parse({}).chunkSize).toBe(30);
+    expect(StreamQuerySchema.parse({ chunkSize: '7' }).chunkSize).toBe(7);
+    expect(StreamQuerySchema.safeParse({ chunkSize: '0' }).success).toBe(false);
+  });
+});
+
+// ─── Sensitivity Analysis ───────────────────────────────────────────────────────
+
+describe('SensitivityRequestSchema', () => {
+  it('defaults to ±10% ranked by final balance', () => {
+    const parsed = SensitivityRequestSchema.parse({ input: validSimulationInput() });
+    expect(parsed.variation).toBe(0.1);
+    expect(parsed.rankBy).toBe('finalBalance');
+  });
+
+  it('rejects variations outside (0, 1]', () => {
+    for (const variation of [0, -0.1, 1.01]) {
+      expect(
+        SensitivityRequestSchema.safeParse({ input: validSimulationInput(), variation }).success,
+      ).toBe(false);
+    }
+  });
+
+  it('caps the parameters varied', () => {
+    // An income and an expense amount, plus a yield rate and a volatility per asset
+    const input = (assets: number) =>
+      validSimulationInput({ assets: Array.from({ length: assets }, () => validAsset()) });
+    expect(SensitivityRequestSchema.safeParse({ input: input(15) }).success).toBe(true);
+
+    const result = SensitivityRequestSchema.safeParse({ input: input(16) });
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        path: ['input'],
+        message: `A sensitivity report varies at most ${MAX_SENSITIVITY_PARAMETERS} parameters`,
+      }),
+    ]);
+  });
+});
+
 // ─── ApiError ───────────────────────────────────────────────────────────────────
 
 describe('ApiErrorSchema', () => {
@@ -721,6 +1250,7 @@ describe('ApiErrorSchema', () => {
       'ENGINE_ERROR',
       'TIMEOUT_ERROR',
       'PAYLOAD_TOO_LARGE',
+      'QUEUE_FULL',
       'INTERNAL_ERROR',
     ] as const;
     for (const code of codes) {
@@ -746,3 +1276,109 @@ describe('ApiErrorSchema', () => {
     ).toThrow();
   });
 });
+
+// ─── Saved Scenarios ────────────────────────────────────────────────────────────
+
+describe('UpdateSavedScenarioSchema', () => {
+  it('accepts any subset of the saved fields', () => {
+    expect(UpdateSavedScenarioSchema.parse({ name: 'Renamed' })).toEqual({ name: 'Renamed' });
+  });
+
+  it('rejects an empty update', () => {
+    expect(UpdateSavedScenarioSchema.safeParse({}).success).toBe(false);
+  });
+});
+
+describe('ScenarioRunQuerySchema', () => {
+  it('coerces the seed from the query string', () => {
+    expect(ScenarioRunQuerySchema.parse({ seed: '7' }).seed).toBe(7);
+    expect(ScenarioRunQuerySchema.parse({}).seed).toBeUndefined();
+    expect(ScenarioRunQuerySchema.safeParse({ seed: '1.5' }).success).toBe(false);
+  });
+});
+
+describe('ScenarioVersionParamsSchema', () => {
+  it('coerces the version and rejects one that is not a positive integer', () => {
+    expect(ScenarioVersionParamsSchema.parse({ id: 'abc', version: '2' }).version).toBe(2);
+    for (const version of ['latest', '0', '1.5']) {
+      expect(ScenarioVersionParamsSchema.safeParse({ id: 'abc', version }).success).toBe(false);
+    }
+  });
+});
+
+describe('ScenarioDiffQuerySchema', () => {
+  it('coerces versions and leaves omitted ones to the server', () => {
+    expect(ScenarioDiffQuerySchema.parse({ from: '1', to: '3' })).toEqual({ from: 1, to: 3 });
+    expect(ScenarioDiffQuerySchema.parse({})).toEqual({});
+    expect(ScenarioDiffQuerySchema.safeParse({ from: '0' }).success).toBe(false);
+  });
+});
+
+describe('InputDiffSchema', () => {
+  it('holds added items and field changes of changed ones', () => {
+    const none = { added: [], removed: [], changed: [] };
+    const diff = {
+      incomeStreams: none,
+      expenses: none,
+      assets: {
+        ...none,
+        added: [validAsset()],
+        changed: [
+          {
+            id: VALID_UUID,
+            name: 'Test Asset',
+            changes: [{ field: 'value', from: 1000, to: 1200 }],
+          },
+        ],
+      },
+      liabilities: none,
+      fields: [{ field: 'taxConfig', from: { currency: 'USD' } }],
+    };
+
+    expect(InputDiffSchema.parse(diff)).toEqual(diff);
+    expect(InputDiffSchema.safeParse({ ...diff, expenses: undefined }).success).toBe(false);
+  });
+});
+
+describe('ExportRequestSchema', () => {
+  it('exports daily snapshots of every column by default', () => {
+    const request = ExportRequestSchema.parse({
+      kind: 'simulation',
+      format: 'csv',
+      input: validSimulationInput(),
+    });
+    expect(request).toMatchObject({ table: 'snapshots', aggregate: 'day' });
+    expect(request.columns).toBeUndefined();
+  });
+
+  it('needs the input or comparison of its kind, and a comparison for deltas', () => {
+    const comparison = { baseInput: validSimulationInput(), branchAtDay: 10 };
+    expect(ExportRequestSchema.safeParse({ format: 'xlsx' }).success).toBe(false);
+    expect(
+      ExportRequestSchema.safeParse({ kind: 'simulation', format: 'xlsx', comparison }).success,
+    ).toBe(false);
+    expect(
+      ExportRequestSchema.safeParse({
+        kind: 'simulation',
+        format: 'csv',
+        input: validSimulationInput(),
+        table: 'deltas',
+      }).success,
+    ).toBe(false);
+    expect(
+      ExportRequestSchema.safeParse({
+        kind: 'comparison',
+        format: 'csv',
+        comparison,
+        table: 'deltas',
+      }).success,
+    ).toBe(true);
+  });
+
+  it('rejects unknown snapshot columns', () => {
+    const request = { kind: 'simulation', format: 'ndjson', input: validSimulationInput() };
+    expect(ExportRequestSchema.safeParse({ ...request, columns: ['balance'] }).success).toBe(true);
+    expect(ExportRequestSchema.safeParse({ ...request, columns: ['wealth'] }).success).toBe(false);
+    expect(ExportRequestSchema.safeParse({ ...request, columns: [] }).success).toBe(false);
+  });
+});
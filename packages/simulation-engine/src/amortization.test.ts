@@ -0,0 +1,166 @@
+/**
+ * Amortization tests — level payments, loan types, maturity payoff, and engine output.
+ */
+import { describe, expect, it } from 'vitest';
+import Decimal from 'decimal.js';
+import { levelPayment, openLoan, stepLoan } from './amortization.js';
+import { simulate } from './engine.js';
+import type { Liability, SimulationInput } from '@future-wallet/shared-types';
+
+const LOAN: Liability = {
+  id: 'llllllll-llll-llll-llll-llllllllllll',
+  name: 'Car Loan',
+  principal: 12000,
+  interestRate: 0.06,
+  currency: 'USD',
+  minimumPayment: 0,
+  remainingTermDays: 365, // matures 2027-01-01
+  firstPaymentDay: 31, // 2026-02-01
+};
+
+function runLoan(liability: Liability, days: number) {
+  const loan = openLoan(liability, 0);
+  for (let day = 0; day < days; day++) {
+    stepLoan(liability, loan, day);
+  }
+  return loan;
+}
+
+function loanInput(liability: Liability, horizonDays: number): SimulationInput {
+  return {
+    seed: 42,
+    horizonDays,
+    baseCurrency: 'USD',
+    initialBalance: 100000,
+    incomeStreams: [],
+    expenses: [],
+    assets: [],
+    liabilities: [liability],
+    exchangeRates: [],
+    monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+  };
+}
+
+describe('levelPayment', () => {
+  it('splits principal evenly at a zero rate', () => {
+    expect(levelPayment(1200, 0, 30, 12).toNumber()).toBe(100);
+  });
+
+  it('retires the principal over exactly n periods', () => {
+    const r = new Decimal(0.05).times(30).div(365);
+    const payment = levelPayment(10000, 0.05, 30, 24);
+    let balance = new Decimal(10000);
+    for (let i = 0; i < 24; i++) balance = balance.times(r.plus(1)).minus(payment);
+    expect(balance.abs().toNumber()).toBeLessThan(1e-8);
+  });
+
+  it('demands the full principal when no periods remain', () => {
+    expect(levelPayment(500, 0.1, 30, 0).toNumber()).toBe(500);
+  });
+});
+
+describe('stepLoan', () => {
+  it('amortizing loans pay a level amount and reach zero at maturity', () => {
+    const liability = { ...LOAN, type: 'amortizing' as const };
+    const loan = runLoan(liability, 366);
+
+    expect(loan.payments).toHaveLength(12); // 1st of Feb 2026 … Jan 2027
+    for (const row of loan.payments.slice(0, -1)) {
+      expect(row.payment).toBeCloseTo(loan.scheduledPayment, 8);
+    }
+    expect(liability.principal).toBe(0);
+    // Interest falls and principal repaid rises as the balance amortizes
+    expect(loan.payments[1].interest).toBeLessThan(loan.payments[0].interest);
+    expect(loan.payments[1].principal).toBeGreaterThan(loan.payments[0].principal);
+  });
+
+  it('interest-only loans keep principal until maturity', () => {
+    const liability = { ...LOAN, type: 'interest_only' as const };
+    const loan = runLoan(liability, 365);
+
+    for (const row of loan.payments) {
+      expect(row.payment).toBeCloseTo(row.interest, 10);
+      expect(row.balance).toBeCloseTo(12000, 8);
+    }
+
+    // Maturity pays everything outstanding
+    const final = stepLoan(liability, loan, 365)!;
+    expect(final.balance).toBe(0);
+    expect(final.payment).toBeGreaterThan(12000);
+  });
+
+  it('balloon loans leave a large balance due at maturity', () => {
+    const liability = {
+      ...LOAN,
+      type: 'balloon' as const,
+      amortizationTermDays: 3650,
+    };
+    const loan = runLoan(liability, 366);
+
+    const beforeBalloon = loan.payments[loan.payments.length - 2];
+    const balloon = loan.payments[loan.payments.length - 1];
+    expect(beforeBalloon.payment).toBeCloseTo(loan.scheduledPayment, 8);
+    expect(balloon.payment).toBeGreaterThan(beforeBalloon.balance);
+    expect(balloon.balance).toBe(0);
+  });
+
+  it('revolving balances capitalize interest above the minimum payment', () => {
+    const liability: Liability = {
+      ...LOAN,
+      minimumPayment: 10, // below the monthly interest of ~$59
+      remainingTermDays: 3650,
+    };
+    const loan = runLoan(liability, 61);
+
+    expect(loan.payments.map((row) => row.payment)).toEqual([10, 10]);
+    expect(loan.payments[0].principal).toBeLessThan(0);
+    expect(liability.principal).toBeGreaterThan(12000);
+  });
+
+  it('treats minimumPayment as a floor on the level payment', () => {
+    const liability = { ...LOAN, type: 'amortizing' as const, minimumPayment: 3000 };
+    const loan = runLoan(liability, 366);
+
+    expect(loan.payments[0].payment).toBe(3000);
+    expect(loan.payments.length).toBeLessThan(12);
+    expect(liability.principal).toBe(0);
+  });
+
+  it('pays on the configured recurrence', () => {
+    const liability = {
+      ...LOAN,
+      type: 'amortizing' as const,
+      paymentRecurrence: 'biweekly' as const,
+      firstPaymentDay: 0,
+    };
+    const loan = runLoan(liability, 30);
+
+    expect(loan.payments.map((row) => row.day)).toEqual([0, 14, 28]);
+  });
+});
+
+describe('simulate() amortization output', () => {
+  it('reports a payment table per liability', () => {
+    const result = simulate(loanInput({ ...LOAN, type: 'amortizing' }, 400));
+
+    expect(result.amortization).toHaveLength(1);
+    const schedule = result.amortization![0];
+    expect(schedule.type).toBe('amortizing');
+    expect(schedule.payments).toHaveLength(12);
+    expect(schedule.payments[0].date).toBe('2026-02-01');
+    expect(result.snapshots[365].totalDebt).toBe(0);
+  });
+
+  it('deducts each payment from the balance on its due date', () => {
+    const result = simulate(loanInput({ ...LOAN, type: 'amortizing' }, 32));
+    const payment = result.amortization![0].payments[0].payment;
+
+    expect(result.snapshots[30].balance).toBe(100000);
+    expect(result.snapshots[31].balance).toBeCloseTo(100000 - payment, 8);
+  });
+
+  it('omits amortization when there are no liabilities', () => {
+    const result = simulate({ ...loanInput(LOAN, 10), liabilities: [] });
+    expect(result.amortization).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Liability amortization — due-date payment schedules.
+ *
+ * Interest accrues daily (simple, actual/365) on the outstanding principal
+ * and is settled on each due date with the payment for the liability's type
+ * (see LiabilityTypeSchema). `minimumPayment` is a floor for every type;
+ * whatever a payment covers beyond the accrued interest retires principal.
+ * On day `remainingTermDays` the loan matures and the outstanding balance,
+ * accrued interest included, is paid in full.
+ */
+import Decimal from 'decimal.js';
+import type { AmortizationRow, Liability, LiabilityType } from '@future-wallet/shared-types';
+import { DEFAULT_START_DATE, calendarDate, formatDate } from './calendar.js';
+import { countRecurrenceDays, isRecurrenceDay } from './recurrence.js';
+
+/** Balloon loans without `amortizationTermDays` amortize over 30 years */
+export const DEFAULT_BALLOON_AMORTIZATION_DAYS = 30 * 365;
+
+/** Running repayment state of one liability */
+export interface LoanState {
+  /** Level payment per due date for amortizing and balloon loans; 0 otherwise */
+  scheduledPayment: number;
+  /** Interest accrued since the last payment, in the liability's currency */
+  accruedInterest: number;
+  /** Payments applied so far */
+  payments: AmortizationRow[];
+}
+
+export function liabilityType(liability: Liability): LiabilityType {
+  return liability.type ?? 'revolving';
+}
+
+function firstPaymentDay(liability: Liability): number {
+  return liability.firstPaymentDay ?? 0;
+}
+
+function paymentRecurrence(liability: Liability) {
+  return liability.paymentRecurrence ?? 'monthly';
+}
+
+/** Average days between due dates, used to derive the per-period interest rate */
+function paymentPeriodDays(liability: Liability, fromDay: number): number {
+  switch (paymentRecurrence(liability)) {
+    case 'daily':
+      return 1;
+    case 'weekly':
+      return 7;
+    case 'biweekly':
+      return 14;
+    case 'semimonthly':
+      return 365 / 24;
+    case 'monthly':
+    case 'last_business_day':
+      return 365 / 12;
+    case 'yearly':
+      return 365;
+    case 'once':
+      return Math.max(1, liability.remainingTermDays - fromDay);
+  }
+}
+
+/**
+ * Level (annuity) payment that retires `principal` over `periods` payments
+ * at `annualRate`, with interest compounding once per `periodDays`.
+ */
+export function levelPayment(
+  principal: number,
+  annualRate: number,
+  periodDays: number,
+  periods: number,
+): Decimal {
+  const p = new Decimal(principal);
+  if (periods <= 0) return p;
+
+  const r = new Decimal(annualRate).times(periodDays).div(365);
+  if (r.isZero()) return p.div(periods);
+
+  // P · r / (1 − (1 + r)^−n)
+  return p.times(r).div(new Decimal(1).minus(r.plus(1).pow(-periods)));
+}
+
+/**
+ * Opens the repayment state for a liability as of `fromDay`, sizing the
+ * level payment over the due dates remaining from that day.
+ */
+export function openLoan(
+  liability: Liability,
+  fromDay: number,
+  startDate: string = DEFAULT_START_DATE,
+): LoanState {
+  const type = liabilityType(liability);
+  let scheduledPayment = new Decimal(0);
+
+  if (type === 'amortizing' || type === 'balloon') {
+    const lastDay =
+      type === 'balloon'
+        ? (liability.amortizationTermDays ?? DEFAULT_BALLOON_AMORTIZATION_DAYS)
+        : liability.remainingTermDays;
+    const periods = countRecurrenceDays(
+      paymentRecurrence(liability),
+      firstPaymentDay(liability),
+      fromDay,
+      lastDay,
+      startDate,
+    );
+    scheduledPayment = levelPayment(
+      liability.principal,
+      liability.interestRate,
+      paymentPeriodDays(liability, fromDay),
+      periods,
+    );
+  }
+
+  return { scheduledPayment: scheduledPayment.toNumber(), accruedInterest: 0, payments: [] };
+}
+
+export function openLoans(
+  liabilities: Liability[],
+  fromDay: number,
+  startDate: string = DEFAULT_START_DATE,
+): Record<string, LoanState> {
+  const loans: Record<string, LoanState> = {};
+  for (const liability of liabilities) {
+    loans[liability.id] = openLoan(liability, fromDay, startDate);
+  }
+  return loans;
+}
+
+/**
+ * Advances a liability by one day: accrues interest and, on a due date or
+ * at maturity, applies the payment. Mutates `liability.principal` and `loan`.
+ *
+ * @returns The payment applied (liability currency), or null if none was due
+ */
+export function stepLoan(
+  liability: Liability,
+  loan: LoanState,
+  day: number,
+  startDate: string = DEFAULT_START_DATE,
+): AmortizationRow | null {
+  if (liability.principal <= 0 && loan.accruedInterest <= 0) return null;
+
+  const principal = new Decimal(liability.principal);
+  const accrued = new Decimal(loan.accruedInterest).plus(
+    principal.times(liability.interestRate).div(365),
+  );
+  loan.accruedInterest = accrued.toNumber();
+
+  const matured = day >= liability.remainingTermDays;
+  const due = isRecurrenceDay(
+    day,
+    paymentRecurrence(liability),
+    firstPaymentDay(liability),
+    startDate,
+  );
+  if (!matured && !due) return null;
+
+  const outstanding = principal.plus(accrued);
+  let payment: Decimal;
+  if (matured) {
+    payment = outstanding;
+  } else {
+    let amountDue: Decimal;
+    switch (liabilityType(liability)) {
+      case 'amortizing':
+      case 'balloon':
+        amountDue = Decimal.max(loan.scheduledPayment, liability.minimumPayment);
+        break;
+      case 'interest_only':
+        amountDue = Decimal.max(accrued, liability.minimumPayment);
+        break;
+      case 'revolving':
+        amountDue = new Decimal(liability.minimumPayment);
+        break;
+    }
+    payment = Decimal.min(amountDue, outstanding);
+  }
+
+  const balance = outstanding.minus(payment);
+  liability.principal = balance.toNumber();
+  loan.accruedInterest = 0;
+
+  const row: AmortizationRow = {
+    day,
+    date: formatDate(calendarDate(startDate, day)),
+    payment: payment.toNumber(),
+    interest: accrued.toNumber(),
+    principal: payment.minus(accrued).toNumber(),
+    balance: balance.toNumber(),
+  };
+  loan.payments.push(row);
+  return row;
+}
@@ -0,0 +1,106 @@
+/**
+ * Percentile band tests — sampling, percentile ordering, and engine output.
+ */
+import { describe, expect, it } from 'vitest';
+import { BandAccumulator, bandSampleIndices } from './bands.js';
+import { simulate } from './engine.js';
+import type { DailySnapshot, SimulationInput } from '@future-wallet/shared-types';
+
+function trajectory(length: number, scale: number): DailySnapshot[] {
+  return Array.from({ length }, (_, day) => ({
+    day,
+    date: `2026-01-${String(day + 1).padStart(2, '0')}`,
+    balance: day * scale,
+    totalIncome: 0,
+    totalExpenses: 0,
+    netCashFlow: 0,
+    assetNAV: scale,
+    totalDebt: 100 - scale,
+    creditScore: 650,
+    liquidityRatio: 0,
+    shockResilienceIndex: 100,
+    taxPaid: 0,
+    capitalGainsTax: 0,
+    realizedGain: 0,
+  }));
+}
+
+describe('bandSampleIndices', () => {
+  it('keeps every index when the horizon fits', () => {
+    expect(bandSampleIndices(5, 10)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('downsamples long horizons and always keeps the last day', () => {
+    const indices = bandSampleIndices(3650, 365);
+    expect(indices.length).toBeLessThanOrEqual(365);
+    expect(indices[0]).toBe(0);
+    expect(indices[indices.length - 1]).toBe(3649);
+  });
+
+  it('returns no indices for an empty trajectory', () => {
+    expect(bandSampleIndices(0, 10)).toEqual([]);
+  });
+});
+
+describe('BandAccumulator', () => {
+  it('computes ordered percentiles per sampled day', () => {
+    const acc = new BandAccumulator(10);
+    for (let run = 1; run <= 20; run++) acc.add(trajectory(5, run));
+
+    const bands = acc.build();
+    expect(bands).toHaveLength(5);
+    expect(bands[4].day).toBe(4);
+    expect(bands[4].date).toBe('2026-01-05');
+
+    for (const band of bands) {
+      for (const series of [band.balance, band.nav, band.debt]) {
+        expect(series.p5).toBeLessThanOrEqual(series.p25);
+        expect(series.p25).toBeLessThanOrEqual(series.p50);
+        expect(series.p50).toBeLessThanOrEqual(series.p75);
+        expect(series.p75).toBeLessThanOrEqual(series.p95);
+      }
+    }
+    expect(bands[4].nav.p50).toBe(11);
+  });
+});
+
+describe('simulate() bands', () => {
+  const INPUT: SimulationInput = {
+    seed: 42,
+    horizonDays: 60,
+    baseCurrency: 'USD',
+    initialBalance: 5000,
+    incomeStreams: [],
+    expenses: [],
+    assets: [
+      {
+        id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+        name: 'Stocks',
+        type: 'volatile',
+        value: 10000,
+        currency: 'USD',
+        volatility: 0.4,
+        yieldRate: 0,
+        liquidationPenalty: 0,
+        locked: false,
+      },
+    ],
+    liabilities: [],
+    exchangeRates: [],
+    monteCarloConfig: { runs: 20, perturbationFactor: 0.05, maxBandPoints: 12 },
+  };
+
+  it('attaches downsampled bands for Monte Carlo runs', () => {
+    const result = simulate(INPUT);
+    expect(result.bands).toBeDefined();
+    expect(result.bands!.length).toBeLessThanOrEqual(12);
+    expect(result.bands![result.bands!.length - 1].day).toBe(59);
+    const last = result.bands![result.bands!.length - 1];
+    expect(last.nav.p5).toBeLessThan(last.nav.p95);
+  });
+
+  it('omits bands for a single run', () => {
+    const result = simulate({ ...INPUT, monteCarloConfig: { runs: 1, perturbationFactor: 0 } });
+    expect(result.bands).toBeUndefined();
+  });
+});
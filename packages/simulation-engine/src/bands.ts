@@ -0,0 +1,113 @@
+/**
+ * Per-day percentile fan bands across Monte Carlo runs.
+ *
+ * Every run's trajectory is sampled at the same snapshot indices; the
+ * sampled balance, NAV and debt values are pooled per index and reduced to
+ * p5/p25/p50/p75/p95. Horizons longer than `maxPoints` are downsampled to an
+ * even stride that always includes the first and last day, so memory stays
+ * bounded at runs × maxPoints.
+ */
+import type { DailyBand, DailySnapshot, PercentileBand } from '@future-wallet/shared-types';
+
+/** Default number of band points when no Monte Carlo config value is given */
+export const DEFAULT_MAX_BAND_POINTS = 365;
+
+/**
+ * Chooses which snapshot indices to sample for a trajectory of `length` days.
+ */
+export function bandSampleIndices(length: number, maxPoints: number): number[] {
+  if (length <= 0) return [];
+  if (length <= maxPoints) return Array.from({ length }, (_, i) => i);
+
+  const stride = Math.ceil((length - 1) / (maxPoints - 1));
+  const indices: number[] = [];
+  for (let i = 0; i < length - 1; i += stride) indices.push(i);
+  indices.push(length - 1);
+  return indices;
+}
+
+/**
+ * Reads a percentile from an ascending-sorted array using the same
+ * floor-index convention as the final-balance p5/p95.
+ */
+function percentile(sorted: number[], q: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(sorted.length * q)));
+  return sorted[index];
+}
+
+function toBand(values: number[]): PercentileBand {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+  };
+}
+
+/** One run's balance, NAV and debt at the sampled snapshot indices */
+export interface BandSample {
+  balances: number[];
+  navs: number[];
+  debts: number[];
+}
+
+/**
+ * Collects sampled trajectories run by run and builds the band series.
+ * The first trajectory added fixes the sampled days and dates.
+ */
+export class BandAccumulator {
+  private indices: number[] | null = null;
+  private points: Array<Pick<DailySnapshot, 'day' | 'date'>> = [];
+  private balances: number[][] = [];
+  private navs: number[][] = [];
+  private debts: number[][] = [];
+
+  constructor(private readonly maxPoints: number = DEFAULT_MAX_BAND_POINTS) {}
+
+  add(snapshots: DailySnapshot[]): void {
+    this.addSample(this.sample(snapshots));
+  }
+
+  /**
+   * Reads a trajectory at the sampled indices without adding it, e.g. in a
+   * worker whose samples are merged into another accumulator. Trajectories
+   * shorter than the first one yield shorter samples.
+   */
+  sample(snapshots: DailySnapshot[]): BandSample {
+    if (!this.indices) {
+      this.indices = bandSampleIndices(snapshots.length, this.maxPoints);
+      this.points = this.indices.map((i) => ({ day: snapshots[i].day, date: snapshots[i].date }));
+      this.balances = this.indices.map(() => []);
+      this.navs = this.indices.map(() => []);
+      this.debts = this.indices.map(() => []);
+    }
+
+    const sampled = this.indices.flatMap((i) => snapshots[i] ?? []);
+    return {
+      balances: sampled.map((s) => s.balance),
+      navs: sampled.map((s) => s.assetNAV),
+      debts: sampled.map((s) => s.totalDebt),
+    };
+  }
+
+  /** Adds a sample taken by an accumulator with the same `maxPoints` */
+  addSample(sample: BandSample): void {
+    sample.balances.forEach((balance, k) => {
+      this.balances[k].push(balance);
+      this.navs[k].push(sample.navs[k]);
+      this.debts[k].push(sample.debts[k]);
+    });
+  }
+
+  build(): DailyBand[] {
+    return this.points.map((point, k) => ({
+      day: point.day,
+      date: point.date,
+      balance: toBand(this.balances[k]),
+      nav: toBand(this.navs[k]),
+      debt: toBand(this.debts[k]),
+    }));
+  }
+}
@@ -2,8 +2,8 @@
  * Branch comparison tests — delta computation and structured comparison.
  */
 import { describe, expect, it } from 'vitest';
-import { computeBranchDeltas, compareBranches } from './branch.js';
-import type { SimulationOutput } from '@future-wallet/shared-types';
+import { computeBranchDeltas, computeBranchTimeline, compareBranches } from './branch.js';
+import type { DailySnapshot, SimulationOutput } from '@future-wallet/shared-types';
 
 function makeOutput(overrides: Partial<SimulationOutput> = {}): SimulationOutput {
   return {
@@ -120,3 +120,67 @@ describe('compareBranches', () => {
     expect(result2.branchAtDay).toBe(365);
   });
 });
+
+describe('computeBranchTimeline', () => {
+  /** Daily snapshots from `fromDay`, one balance and net cash flow per day */
+  function snapshots(fromDay: number, balances: number[], cashFlows: number[]): DailySnapshot[] {
+    return balances.map((balance, i) => ({
+      day: fromDay + i,
+      date: `2026-01-${String(fromDay + i + 1).padStart(2, '0')}`,
+      balance,
+      totalIncome: 0,
+      totalExpenses: 0,
+      netCashFlow: cashFlows[i],
+      assetNAV: 1000,
+      totalDebt: 500,
+      creditScore: 700,
+      liquidityRatio: 2,
+      shockResilienceIndex: 60,
+      taxPaid: 0,
+      capitalGainsTax: 0,
+      realizedGain: 0,
+    }));
+  }
+
+  it('diffs each day from the branch day onward', () => {
+    const baseline = makeOutput({
+      snapshots: snapshots(0, [100, 100, 100, 100], [0, 0, 0, 0]),
+    });
+    const branch = makeOutput({ snapshots: snapshots(2, [90, 120], [-10, 30]) });
+
+    const timeline = computeBranchTimeline(baseline, branch, 2);
+
+    expect(timeline.series.map((p) => [p.day, p.balanceDiff, p.cumulativeCashDiff])).toEqual([
+      [2, -10, -10],
+      [3, 20, 20],
+    ]);
+    expect(timeline.series[0]).toMatchObject({ navDiff: 0, debtDiff: 0, creditScoreDiff: 0 });
+    expect(timeline.cumulativeCashDiff).toBe(20);
+  });
+
+  it('finds the crossover and break-even days of a decision that pays off', () => {
+    // An upfront cost of 30, then 10 a day more than the baseline
+    const baseline = makeOutput({
+      snapshots: snapshots(0, [0, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 0]),
+    });
+    const branch = makeOutput({
+      snapshots: snapshots(1, [-30, -20, -10, 0, 10], [-30, 10, 10, 10, 10]),
+    });
+
+    const timeline = computeBranchTimeline(baseline, branch, 1);
+
+    expect(timeline.crossoverDay).toBe(5);
+    expect(timeline.breakEvenDay).toBe(4);
+  });
+
+  it('reports no crossover or break-even for a branch that never catches up', () => {
+    const baseline = makeOutput({ snapshots: snapshots(0, [50, 50, 50], [5, 5, 5]) });
+    const branch = makeOutput({ snapshots: snapshots(0, [40, 30, 20], [-5, -5, -5]) });
+
+    const timeline = computeBranchTimeline(baseline, branch, 0);
+
+    expect(timeline.crossoverDay).toBeNull();
+    expect(timeline.breakEvenDay).toBeNull();
+    expect(timeline.cumulativeCashDiff).toBe(-30);
+  });
+});
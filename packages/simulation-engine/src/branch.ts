@@ -7,6 +7,12 @@
 import type {
   BranchComparisonDeltas,
   BranchComparisonResult,
+  BranchDeltaPoint,
+  BranchNode,
+  BranchTimeline,
+  BranchTreeEvaluation,
+  Scenario,
+  ScenarioComparisonResult,
   SimulationOutput,
 } from '@future-wallet/shared-types';
 
@@ -38,8 +44,65 @@ export function computeBranchDeltas(
   };
 }
 
+/** Differences smaller than this (sub-cent float noise) count as zero */
+const DIFF_TOLERANCE = 1e-6;
+
+function signOf(value: number): number {
+  return Math.abs(value) < DIFF_TOLERANCE ? 0 : Math.sign(value);
+}
+
+/**
+ * Day-by-day differences between the branch and baseline primary runs from
+ * `branchAtDay`, with the day the balances cross (the balance difference
+ * flips sign) and the break-even day: the first day from which the summed
+ * net cash flow difference stays at or above zero to the horizon.
+ */
+export function computeBranchTimeline(
+  baseline: SimulationOutput,
+  branch: SimulationOutput,
+  branchAtDay: number,
+): BranchTimeline {
+  const baselineByDay = new Map(baseline.snapshots.map((s) => [s.day, s]));
+  const series: BranchDeltaPoint[] = [];
+  let cumulativeCashDiff = 0;
+
+  for (const snapshot of branch.snapshots) {
+    const base = baselineByDay.get(snapshot.day);
+    if (snapshot.day < branchAtDay || !base) continue;
+    cumulativeCashDiff += snapshot.netCashFlow - base.netCashFlow;
+    series.push({
+      day: snapshot.day,
+      date: snapshot.date,
+      balanceDiff: snapshot.balance - base.balance,
+      navDiff: snapshot.assetNAV - base.assetNAV,
+      debtDiff: snapshot.totalDebt - base.totalDebt,
+      creditScoreDiff: snapshot.creditScore - base.creditScore,
+      cumulativeCashDiff,
+    });
+  }
+
+  let crossoverDay: number | null = null;
+  let lead = 0;
+  for (const point of series) {
+    const sign = signOf(point.balanceDiff);
+    if (sign !== 0 && lead !== 0 && sign !== lead) {
+      crossoverDay = point.day;
+      break;
+    }
+    if (sign !== 0) lead = sign;
+  }
+
+  let breakEvenDay: number | null = null;
+  for (let i = series.length - 1; i >= 0 && signOf(series[i].cumulativeCashDiff) >= 0; i--) {
+    breakEvenDay = series[i].day;
+  }
+
+  return { series, crossoverDay, breakEvenDay, cumulativeCashDiff };
+}
+
 /**
- * Creates a full comparison result with both outputs and computed deltas.
+ * Creates a full comparison result with both outputs, computed deltas and
+ * the day-by-day timeline of differences.
  */
 export function compareBranches(
   baseline: SimulationOutput,
@@ -51,5 +114,61 @@ export function compareBranches(
     branch,
     branchAtDay,
     deltas: computeBranchDeltas(baseline, branch),
+    timeline: computeBranchTimeline(baseline, branch, branchAtDay),
+  };
+}
+
+/**
+ * Compares each scenario's output (see simulateScenarios) with the shared
+ * baseline: one row of deltas per scenario, in scenario order.
+ */
+export function compareScenarios(
+  baseline: SimulationOutput,
+  scenarios: readonly Scenario[],
+  branches: readonly SimulationOutput[],
+): ScenarioComparisonResult {
+  return {
+    baseline,
+    scenarios: scenarios.map((scenario, i) => ({
+      name: scenario.name,
+      branchAtDay: scenario.branchAtDay,
+      branch: branches[i],
+      deltas: computeBranchDeltas(baseline, branches[i]),
+    })),
+  };
+}
+
+/**
+ * Compares each branch tree node's output (see simulateBranchTree) with its
+ * parent's and with the baseline, in node order.
+ */
+export function compareBranchTree(
+  baseline: SimulationOutput,
+  nodes: readonly BranchNode[],
+  branches: readonly SimulationOutput[],
+): BranchTreeEvaluation {
+  const outputs = new Map<string, SimulationOutput>();
+  const depths = new Map<string, number>();
+
+  return {
+    baseline,
+    nodes: nodes.map((node, i) => {
+      const parent = node.parentId === null ? baseline : outputs.get(node.parentId);
+      if (!parent) throw new Error(`Parent ${node.parentId} of branch node ${node.id} not found`);
+      const depth = node.parentId === null ? 1 : (depths.get(node.parentId) ?? 0) + 1;
+      outputs.set(node.id, branches[i]);
+      depths.set(node.id, depth);
+
+      return {
+        id: node.id,
+        parentId: node.parentId,
+        name: node.name,
+        branchAtDay: node.branchAtDay,
+        depth,
+        branch: branches[i],
+        deltas: computeBranchDeltas(parent, branches[i]),
+        baselineDeltas: computeBranchDeltas(baseline, branches[i]),
+      };
+    }),
   };
 }
@@ -0,0 +1,53 @@
+/**
+ * Calendar helpers — maps simulation day offsets to real UTC dates.
+ *
+ * Day 0 is the input's `startDate`; every later day is that date plus the
+ * offset, so months, leap years and weekdays follow the real calendar.
+ */
+
+/** Simulation start when the input does not set `startDate` */
+export const DEFAULT_START_DATE = '2026-01-01';
+
+const MS_PER_DAY = 86_400_000;
+
+/** The UTC calendar date `day` days after `startDate` (YYYY-MM-DD). */
+export function calendarDate(startDate: string, day: number): Date {
+  return new Date(Date.parse(`${startDate}T00:00:00Z`) + day * MS_PER_DAY);
+}
+
+/** Formats a calendar date as YYYY-MM-DD. */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Number of days in `month` (0-based) of `year`. */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Whether `date` is the `dayOfMonth`-th of its month, clamped to the last
+ * day of shorter months (the 31st falls on Feb 28/29, Apr 30, …).
+ */
+export function isDayOfMonth(date: Date, dayOfMonth: number): boolean {
+  const lastDay = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return date.getUTCDate() === Math.min(dayOfMonth, lastDay);
+}
+
+/** Whether `date` is the last Monday–Friday of its month. */
+export function isLastBusinessDay(date: Date): boolean {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  let lastDay = daysInMonth(year, month);
+  let weekday = new Date(Date.UTC(year, month, lastDay)).getUTCDay();
+  while (weekday === 0 || weekday === 6) {
+    lastDay--;
+    weekday = (weekday + 6) % 7;
+  }
+  return date.getUTCDate() === lastDay;
+}
+
+/** Whether `date` is January 1st — the start of a tax year. */
+export function isYearStart(date: Date): boolean {
+  return date.getUTCMonth() === 0 && date.getUTCDate() === 1;
+}
@@ -0,0 +1,151 @@
+/**
+ * Component registry tests — resolution, caching, and custom day components.
+ */
+import { describe, expect, it, vi } from 'vitest';
+import Decimal from 'decimal.js';
+import { ComponentRegistry, type SimulationComponent } from './components.js';
+import { DAGCycleError } from './dag.js';
+import {
+  BUILT_IN_COMPONENTS,
+  createComponentRegistry,
+  simulate,
+  simulateBranch,
+} from './engine.js';
+import type { SimulationInput } from '@future-wallet/shared-types';
+
+const INPUT: SimulationInput = {
+  seed: 7,
+  horizonDays: 20,
+  baseCurrency: 'USD',
+  initialBalance: 1000,
+  incomeStreams: [
+    {
+      id: '11111111-1111-1111-1111-111111111111',
+      name: 'Salary',
+      amount: 100,
+      currency: 'USD',
+      recurrence: 'daily',
+      startDay: 0,
+    },
+  ],
+  expenses: [],
+  assets: [],
+  liabilities: [],
+  exchangeRates: [],
+  monteCarloConfig: { runs: 3, perturbationFactor: 0 },
+};
+
+function component(id: string, dependsOn: string[] = []): SimulationComponent {
+  return { id, dependsOn, step: () => {} };
+}
+
+/** Sweeps 10% of the day's income out of the balance after taxes */
+const SAVINGS_SWEEP: SimulationComponent = {
+  id: 'savings_sweep',
+  dependsOn: ['taxation'],
+  step: (state, ctx) => {
+    state.balance = state.balance.minus(ctx.totalIncome.times(0.1));
+  },
+};
+
+describe('ComponentRegistry', () => {
+  it('resolves dependencies regardless of registration order', () => {
+    const registry = new ComponentRegistry([component('c', ['b']), component('b', ['a'])]);
+    registry.register(component('a'));
+
+    expect(registry.resolve().map((c) => c.id)).toEqual(['a', 'b', 'c']);
+    expect(registry.list().map((c) => c.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('rejects duplicate ids', () => {
+    const registry = new ComponentRegistry([component('a')]);
+    expect(() => registry.register(component('a'))).toThrow('already registered');
+  });
+
+  it('reuses the resolved order until the components change', () => {
+    const registry = new ComponentRegistry([component('a'), component('b', ['a'])]);
+    const first = registry.resolve();
+
+    expect(registry.resolve()).toBe(first);
+    registry.register(component('c', ['b']));
+    expect(registry.resolve()).not.toBe(first);
+    expect(registry.unregister('c')).toBe(true);
+    expect(registry.unregister('c')).toBe(false);
+    expect(registry.resolve().map((c) => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('surfaces cycles with the offending chain', () => {
+    const registry = createComponentRegistry([
+      component('reserve', ['budget']),
+      component('budget', ['reserve']),
+    ]);
+
+    expect(() => registry.resolve()).toThrow(DAGCycleError);
+    expect(() => simulate(INPUT, { components: registry })).toThrow(
+      'DAG cycle detected: budget -> reserve -> budget',
+    );
+  });
+
+  it('reports dependencies on unregistered components', () => {
+    const registry = createComponentRegistry([component('sweep', ['missing'])]);
+    expect(() => registry.resolve()).toThrow('unknown node "missing"');
+  });
+});
+
+describe('simulate() with custom components', () => {
+  it('matches the default pipeline with only the built-ins', () => {
+    const { computedAt: _a, ...expected } = simulate(INPUT);
+    const { computedAt: _b, ...actual } = simulate(INPUT, {
+      components: createComponentRegistry(),
+    });
+    expect(actual).toEqual(expected);
+  });
+
+  it('runs a registered component every day in dependency order', () => {
+    const result = simulate(INPUT, { components: createComponentRegistry([SAVINGS_SWEEP]) });
+
+    // 20 days of $100 income, $10 swept each day
+    expect(result.snapshots[19].balance).toBe(1000 + 20 * 90);
+  });
+
+  it('sorts the pipeline once per simulation', () => {
+    const registry = createComponentRegistry([SAVINGS_SWEEP]);
+    const resolve = vi.spyOn(registry, 'resolve');
+    const step = vi.spyOn(SAVINGS_SWEEP, 'step');
+
+    simulate(INPUT, { components: registry });
+
+    expect(step).toHaveBeenCalledTimes(3 * 20);
+    // One up-front check plus one lookup per Monte Carlo run, all cached
+    expect(resolve.mock.results.every((r) => r.value === resolve.mock.results[0].value)).toBe(true);
+    step.mockRestore();
+  });
+
+  it('exposes the day totals to later components', () => {
+    const seen: Decimal[] = [];
+    const registry = createComponentRegistry([
+      {
+        id: 'observer',
+        dependsOn: BUILT_IN_COMPONENTS.map((c) => c.id),
+        step: (_state, ctx) => {
+          seen.push(ctx.totalIncome);
+        },
+      },
+    ]);
+
+    simulate(
+      { ...INPUT, monteCarloConfig: { runs: 1, perturbationFactor: 0 } },
+      { components: registry },
+    );
+    expect(seen).toHaveLength(20);
+    expect(seen.every((income) => income.eq(new Decimal(100)))).toBe(true);
+  });
+
+  it('applies the pipeline to both sides of a branch', () => {
+    const registry = createComponentRegistry([SAVINGS_SWEEP]);
+    const { baseline, branch } = simulateBranch(INPUT, 10, {}, { components: registry });
+
+    expect(branch.snapshots).toEqual(baseline.snapshots.slice(10));
+    expect(baseline.snapshots[19].balance).toBe(1000 + 20 * 90);
+  });
+});
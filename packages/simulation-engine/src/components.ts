@@ -0,0 +1,86 @@
+/**
+ * Component registry — the pluggable per-day pipeline.
+ *
+ * Each simulated day runs a set of components (income, expenses, taxes, …)
+ * in dependency order. A component declares its `id`, the ids it must run
+ * after (`dependsOn`) and a `step` that mutates the simulation state. The
+ * registry resolves the execution order with `topologicalSort` once and
+ * reuses it for every day and Monte Carlo run until a component is added
+ * or removed.
+ */
+import type Decimal from 'decimal.js';
+import type { DeterministicRNG } from './rng.js';
+import type { ExchangeRateEngine } from './fx.js';
+import type { SimulationState } from './state.js';
+import { topologicalSort, type DAGNode } from './dag.js';
+
+/**
+ * Per-day context shared by the components of one day. The totals start
+ * at zero each day and are reported in that day's snapshot.
+ */
+export interface DayContext {
+  /** Calendar date of `state.day` (YYYY-MM-DD) */
+  date: string;
+  rng: DeterministicRNG;
+  fxEngine: ExchangeRateEngine;
+  /** Income received today, in base currency */
+  totalIncome: Decimal;
+  /** Expenses paid today, in base currency */
+  totalExpenses: Decimal;
+  incomeTax: Decimal;
+  capitalGainsTax: Decimal;
+}
+
+export interface SimulationComponent extends DAGNode {
+  /** Applies the component for `state.day`; draws randomness only from `ctx.rng` */
+  step: (state: SimulationState, ctx: DayContext) => void;
+}
+
+export class ComponentRegistry {
+  private readonly components = new Map<string, SimulationComponent>();
+  private order: SimulationComponent[] | null = null;
+
+  constructor(components: readonly SimulationComponent[] = []) {
+    for (const component of components) this.register(component);
+  }
+
+  /**
+   * Adds a component. Dependencies are checked when the order is resolved,
+   * so components may be registered in any order.
+   */
+  register(component: SimulationComponent): this {
+    if (this.components.has(component.id)) {
+      throw new Error(`Component "${component.id}" is already registered`);
+    }
+    this.components.set(component.id, component);
+    this.order = null;
+    return this;
+  }
+
+  /** Removes a component; returns whether it was registered. */
+  unregister(id: string): boolean {
+    const removed = this.components.delete(id);
+    if (removed) this.order = null;
+    return removed;
+  }
+
+  has(id: string): boolean {
+    return this.components.has(id);
+  }
+
+  /** Registered components in registration order */
+  list(): SimulationComponent[] {
+    return [...this.components.values()];
+  }
+
+  /**
+   * Components in execution order. Sorted on first call after a change.
+   *
+   * @throws DAGCycleError if the dependencies form a cycle
+   * @throws Error if a component depends on an unregistered id
+   */
+  resolve(): readonly SimulationComponent[] {
+    this.order ??= topologicalSort(this.list()).map((id) => this.components.get(id)!);
+    return this.order;
+  }
+}
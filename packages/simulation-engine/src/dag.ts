@@ -11,9 +11,39 @@ export interface DAGNode {
   dependsOn: string[];
 }
 
+/**
+ * Thrown when the graph has a cycle. `cycle` is the offending dependency
+ * chain, starting and ending on the same node: `['a', 'b', 'a']` means
+ * "a depends on b, which depends on a".
+ */
+export class DAGCycleError extends Error {
+  constructor(readonly cycle: string[]) {
+    super(`DAG cycle detected: ${cycle.join(' -> ')}`);
+    this.name = 'DAGCycleError';
+  }
+}
+
+/**
+ * Walks dependencies among the nodes left unsorted by Kahn's algorithm.
+ * Each of them still has an unsorted dependency, so the walk must revisit
+ * a node; the path from its first visit is the cycle.
+ */
+function findCycle(nodes: DAGNode[], sorted: Set<string>): string[] {
+  const remaining = new Map(nodes.filter((n) => !sorted.has(n.id)).map((n) => [n.id, n]));
+  const path: string[] = [];
+  let current = [...remaining.keys()].sort()[0];
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = [...remaining.get(current)!.dependsOn].sort().find((dep) => remaining.has(dep))!;
+  }
+
+  return [...path.slice(path.indexOf(current)), current];
+}
+
 /**
  * Topologically sorts a set of DAG nodes using Kahn's algorithm.
- * Throws if a cycle is detected (non-compliant per spec).
+ * Throws a DAGCycleError if a cycle is detected (non-compliant per spec).
  *
  * @returns Ordered list of node IDs in safe execution order
  */
@@ -68,8 +98,7 @@ export function topologicalSort(nodes: DAGNode[]): string[] {
   }
 
   if (sorted.length !== nodes.length) {
-    const missing = nodes.filter((n) => !sorted.includes(n.id)).map((n) => n.id);
-    throw new Error(`DAG cycle detected involving nodes: ${missing.join(', ')}`);
+    throw new DAGCycleError(findCycle(nodes, new Set(sorted)));
   }
 
   return sorted;
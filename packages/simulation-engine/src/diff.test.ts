@@ -0,0 +1,119 @@
+/**
+ * Input diff tests — id-matched collection changes and whole-field changes.
+ */
+import { describe, expect, it } from 'vitest';
+import { diffInputs } from './diff.js';
+import { applyBranchPatch } from './patch.js';
+import type { SimulationInput } from '@future-wallet/shared-types';
+
+const SALARY = '11111111-1111-4111-8111-111111111111';
+const RENT = '22222222-2222-4222-8222-222222222222';
+const BONUS = '33333333-3333-4333-8333-333333333333';
+const LOAN = '55555555-5555-4555-8555-555555555555';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 60,
+  baseCurrency: 'USD',
+  initialBalance: 10000,
+  incomeStreams: [
+    {
+      id: SALARY,
+      name: 'Salary',
+      amount: 3000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: RENT,
+      name: 'Rent',
+      amount: 1500,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [],
+  liabilities: [
+    {
+      id: LOAN,
+      name: 'Car Loan',
+      type: 'amortizing',
+      principal: 8000,
+      interestRate: 0.07,
+      currency: 'USD',
+      minimumPayment: 250,
+      remainingTermDays: 1825,
+    },
+  ],
+  exchangeRates: [],
+};
+
+const BONUS_STREAM = {
+  id: BONUS,
+  name: 'Bonus',
+  amount: 500,
+  currency: 'USD',
+  recurrence: 'monthly' as const,
+  startDay: 0,
+};
+
+describe('diffInputs', () => {
+  it('finds nothing between equal inputs', () => {
+    const diff = diffInputs(INPUT, structuredClone(INPUT));
+    const none = { added: [], removed: [], changed: [] };
+
+    expect(diff).toEqual({
+      incomeStreams: none,
+      expenses: none,
+      assets: none,
+      liabilities: none,
+      fields: [],
+    });
+  });
+
+  it('matches collection items by id', () => {
+    const later = applyBranchPatch(INPUT, {
+      incomeStreams: { add: [BONUS_STREAM] },
+      expenses: { update: [{ id: RENT, name: 'New Rent', amount: 1800 }] },
+      liabilities: { remove: [LOAN] },
+    });
+    const diff = diffInputs(INPUT, later);
+
+    expect(diff.incomeStreams).toEqual({ added: [BONUS_STREAM], removed: [], changed: [] });
+    expect(diff.expenses.changed).toEqual([
+      {
+        id: RENT,
+        name: 'New Rent',
+        changes: [
+          { field: 'name', from: 'Rent', to: 'New Rent' },
+          { field: 'amount', from: 1500, to: 1800 },
+        ],
+      },
+    ]);
+    expect(diff.liabilities.removed).toEqual(INPUT.liabilities);
+    expect(diff.fields).toEqual([]);
+  });
+
+  it('compares other fields whole and omits the side a field is missing from', () => {
+    const later: SimulationInput = {
+      ...INPUT,
+      seed: 7,
+      taxConfig: { brackets: [], capitalGainsRate: 0.15, currency: 'USD' },
+      liabilities: [{ ...INPUT.liabilities[0], paymentRecurrence: 'weekly' }],
+    };
+    const diff = diffInputs(INPUT, later);
+
+    expect(diff.fields).toEqual([
+      { field: 'seed', from: 42, to: 7 },
+      { field: 'taxConfig', to: later.taxConfig },
+    ]);
+    expect(diff.liabilities.changed[0].changes).toEqual([
+      { field: 'paymentRecurrence', to: 'weekly' },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Input diffs — what changed from one simulation input to another.
+ *
+ * The id-keyed collections (income streams, expenses, assets, liabilities)
+ * are matched by id: items only in the later input are added, items only
+ * in the earlier one removed, and items in both with any field differing
+ * changed, with one entry per differing field. Every other top-level field
+ * is compared whole.
+ */
+import type {
+  FieldChange,
+  InputDiff,
+  ItemChange,
+  SimulationInput,
+} from '@future-wallet/shared-types';
+
+type Named = { id: string; name: string };
+
+const COLLECTIONS = ['incomeStreams', 'expenses', 'assets', 'liabilities'] as const;
+
+/** Structural equality of JSON-like values; absent and undefined fields are equal */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isEqual(item, b[i]))
+    );
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every((key) => isEqual(left[key], right[key]));
+}
+
+/** Fields of `from` and `to` whose values differ, in `from`'s order then new ones */
+function fieldChanges(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  skip: readonly string[] = [],
+): FieldChange[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return [...keys]
+    .filter((key) => !skip.includes(key) && !isEqual(from[key], to[key]))
+    .map((key) => ({
+      field: key,
+      ...(from[key] !== undefined && { from: from[key] }),
+      ...(to[key] !== undefined && { to: to[key] }),
+    }));
+}
+
+function diffCollection<T extends Named>(
+  from: readonly T[],
+  to: readonly T[],
+): { added: T[]; removed: T[]; changed: ItemChange[] } {
+  const before = new Map(from.map((item) => [item.id, item]));
+  const after = new Set(to.map((item) => item.id));
+
+  const changed: ItemChange[] = [];
+  for (const item of to) {
+    const previous = before.get(item.id);
+    if (!previous) continue;
+    const changes = fieldChanges(previous, item);
+    if (changes.length > 0) changed.push({ id: item.id, name: item.name, changes });
+  }
+
+  return {
+    added: to.filter((item) => !before.has(item.id)),
+    removed: from.filter((item) => !after.has(item.id)),
+    changed,
+  };
+}
+
+/** What changed from `from` to `to`; an empty diff means the inputs are equal */
+export function diffInputs(from: SimulationInput, to: SimulationInput): InputDiff {
+  return {
+    incomeStreams: diffCollection(from.incomeStreams, to.incomeStreams),
+    expenses: diffCollection(from.expenses, to.expenses),
+    assets: diffCollection(from.assets, to.assets),
+    liabilities: diffCollection(from.liabilities, to.liabilities),
+    fields: fieldChanges(from, to, COLLECTIONS),
+  };
+}
@@ -3,19 +3,36 @@
  * enhanced liquidation, snapshot/state, and determinism validation.
  */
 import { describe, expect, it } from 'vitest';
-import { simulate, simulateSingleRun, simulateBranch } from './engine.js';
+import {
+  simulate,
+  simulateSingleRun,
+  simulateBranch,
+  simulateScenarios,
+  simulateBranchTree,
+  checkpointAtDay,
+  bandAccumulatorFor,
+  mergeMonteCarlo,
+  summarizeRun,
+} from './engine.js';
+import { perturbInput } from './perturbation.js';
+import { compareBranchTree, compareScenarios } from './branch.js';
+import { BranchPatchError } from './patch.js';
 import {
   createInitialState,
   stateToSnapshot,
   snapshotState,
   deriveVibeState,
   derivePetState,
+  initialPositionLots,
+  consumeLots,
 } from './state.js';
-import type { SimulationInput, Asset } from '@future-wallet/shared-types';
+import type { SimulationInput, Asset, BranchNode } from '@future-wallet/shared-types';
 import Decimal from 'decimal.js';
 
 // ─── Test Fixtures ──────────────────────────────────────────────────────────────
 
+const BONUS_ID = '99999999-9999-4999-8999-999999999999';
+
 const SIMPLE_INPUT: SimulationInput = {
   seed: 42,
   horizonDays: 30,
@@ -219,6 +236,22 @@ describe('Monte Carlo simulation', () => {
     expect(result.snapshots).toEqual(primaryResult.snapshots);
   });
 
+  it('perturbationFactor spreads p5/p95 for an otherwise deterministic input', () => {
+    const flat = simulate({
+      ...SIMPLE_INPUT,
+      monteCarloConfig: { runs: 20, perturbationFactor: 0 },
+    });
+    const perturbed = simulate({
+      ...SIMPLE_INPUT,
+      monteCarloConfig: { runs: 20, perturbationFactor: 0.1 },
+    });
+
+    expect(flat.finalBalance.p5).toBe(flat.finalBalance.p95);
+    expect(perturbed.finalBalance.p5).toBeLessThan(perturbed.finalBalance.p95);
+    // Primary trajectory is never perturbed
+    expect(perturbed.snapshots).toEqual(flat.snapshots);
+  });
+
   it('computes collapse probability from all runs', () => {
     // Create an input that's likely to collapse in some runs
     const riskyInput: SimulationInput = {
@@ -283,6 +316,34 @@ describe('Monte Carlo simulation', () => {
     // and therefore different final balances across MC runs
     expect(result1.finalNAV).not.toBe(result2.finalNAV);
   });
+
+  it('merges runs summarized in separate seed ranges into the serial result', () => {
+    // How the API's worker pool splits the runs: each range samples its own bands
+    const input: SimulationInput = {
+      ...LIQUIDATION_INPUT,
+      horizonDays: 90,
+      monteCarloConfig: { runs: 12, perturbationFactor: 0.1, maxBandPoints: 30 },
+    };
+    const ranges = [
+      [1, 5],
+      [5, 9],
+      [9, 12],
+    ];
+    const summaries = ranges.flatMap(([fromRun, toRun]) => {
+      const rangeBands = bandAccumulatorFor(input);
+      return Array.from({ length: toRun - fromRun }, (_, i) => {
+        const runIndex = fromRun + i;
+        const run = simulateSingleRun(perturbInput(input, runIndex), input.seed + runIndex);
+        return summarizeRun(run, rangeBands);
+      });
+    });
+    const primary = simulateSingleRun(perturbInput(input, 0), input.seed);
+    const bands = bandAccumulatorFor(input);
+    bands.add(primary.snapshots);
+
+    const merged = mergeMonteCarlo(primary, summaries, bands);
+    expect({ ...merged, computedAt: '' }).toEqual({ ...simulate(input), computedAt: '' });
+  });
 });
 
 // ─── simulateSingleRun Tests ────────────────────────────────────────────────────
@@ -343,6 +404,46 @@ describe('Multi-currency simulation', () => {
     expect(result.snapshots).toHaveLength(30);
     expect(result.finalBalance.expected).toBeDefined();
   });
+
+  it('converts through the base currency when no direct pair is quoted', () => {
+    const result = simulate({
+      ...MULTI_CURRENCY_INPUT,
+      baseCurrency: 'GBP',
+      initialBalance: 0,
+      expenses: [],
+    });
+
+    // EUR -> USD -> GBP: 2500 * 1.18 / 1.37
+    expect(result.snapshots[0].totalIncome).toBeCloseTo((2500 * 1.18) / 1.37, 8);
+  });
+
+  it('attaches the conversion audit only when requested', () => {
+    expect(simulate(MULTI_CURRENCY_INPUT).conversionAudit).toBeUndefined();
+
+    const result = simulate(MULTI_CURRENCY_INPUT, {
+      conversionAudit: { contextPrefix: 'income:' },
+    });
+    const audit = result.conversionAudit!;
+    expect(audit.entries.length).toBeGreaterThan(0);
+    expect(audit.entries.every((e) => e.context.startsWith('income:'))).toBe(true);
+    expect(audit.totals.map((t) => t.currency)).toEqual(['EUR', 'USD']);
+  });
+
+  it('reads dated rate series on each day', () => {
+    const result = simulate({
+      ...MULTI_CURRENCY_INPUT,
+      horizonDays: 40,
+      expenses: [],
+      incomeStreams: [{ ...MULTI_CURRENCY_INPUT.incomeStreams[0], recurrence: 'daily' }],
+      exchangeRates: [
+        { from: 'EUR', to: 'USD', rate: 1.1, date: '2026-01-01', volatility: 0 },
+        { from: 'EUR', to: 'USD', rate: 1.2, date: '2026-02-01', volatility: 0 },
+      ],
+    });
+
+    expect(result.snapshots[30].totalIncome).toBeCloseTo(2500 * 1.1, 8); // Jan 31
+    expect(result.snapshots[31].totalIncome).toBeCloseTo(2500 * 1.2, 8); // Feb 1
+  });
 });
 
 // ─── Tax Integration Tests ──────────────────────────────────────────────────────
@@ -403,6 +504,7 @@ describe('Tax integration in engine', () => {
           yieldRate: 0,
           liquidationPenalty: 0,
           locked: false,
+          costBasis: 30000, // embedded gain, so sales realize taxable gains
         },
       ],
       liabilities: [],
@@ -431,6 +533,175 @@ describe('Tax integration in engine', () => {
   });
 });
 
+// ─── Calendar Start Date ────────────────────────────────────────────────────────
+
+describe('Calendar start date', () => {
+  const YEAR_END_INPUT: SimulationInput = {
+    ...TAX_INPUT,
+    horizonDays: 45,
+    startDate: '2026-12-01',
+    incomeStreams: [{ ...TAX_INPUT.incomeStreams[0], amount: 1000 }],
+  };
+
+  it('dates snapshots from startDate', () => {
+    const result = simulate({ ...SIMPLE_INPUT, startDate: '2028-02-28' });
+    expect(result.snapshots[0].date).toBe('2028-02-28');
+    expect(result.snapshots[1].date).toBe('2028-02-29');
+    expect(result.snapshots[2].date).toBe('2028-03-01');
+  });
+
+  it('defaults to 2026-01-01', () => {
+    expect(simulate(SIMPLE_INPUT).snapshots[0].date).toBe('2026-01-01');
+  });
+
+  it('resets income tax brackets on January 1st', () => {
+    const result = simulate(YEAR_END_INPUT);
+
+    // Dec 31: $30,000 earned so far this year -> taxed in the 20% bracket
+    expect(result.snapshots[30].date).toBe('2026-12-31');
+    expect(result.snapshots[30].taxPaid).toBeCloseTo(200, 8);
+    // Jan 1: new tax year -> back to the 10% bracket
+    expect(result.snapshots[31].date).toBe('2027-01-01');
+    expect(result.snapshots[31].taxPaid).toBeCloseTo(100, 8);
+  });
+
+  it('does not reset mid-year after 365 days', () => {
+    const result = simulate({
+      ...YEAR_END_INPUT,
+      startDate: '2026-06-01',
+      horizonDays: 366,
+      incomeStreams: [{ ...TAX_INPUT.incomeStreams[0], amount: 100 }],
+    });
+
+    // Day 365 is 2027-06-01; the tax year already reset on day 214 (2027-01-01)
+    expect(result.snapshots[214].date).toBe('2027-01-01');
+    expect(result.snapshots[214].taxPaid).toBeCloseTo(10, 8);
+    expect(result.snapshots[365].taxPaid).toBeCloseTo(10, 8);
+    expect(result.snapshots[213].taxPaid).toBeCloseTo(20, 8); // $21,300 earned in 2026
+  });
+
+  it('pays monthly income on the same day of each calendar month', () => {
+    const result = simulate({
+      ...SIMPLE_INPUT,
+      horizonDays: 90,
+      startDate: '2026-01-31',
+      incomeStreams: [{ ...SIMPLE_INPUT.incomeStreams[0], recurrence: 'monthly' }],
+      expenses: [],
+    });
+
+    const paydays = result.snapshots.filter((s) => s.totalIncome > 0).map((s) => s.date);
+    expect(paydays).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+});
+
+// ─── Cost Basis & Realized Gains ────────────────────────────────────────────────
+
+describe('Cost basis and realized gains', () => {
+  const GAINS_INPUT: SimulationInput = {
+    seed: 42,
+    horizonDays: 3,
+    baseCurrency: 'USD',
+    initialBalance: -1000,
+    incomeStreams: [],
+    expenses: [],
+    assets: [
+      {
+        id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+        name: 'Fund',
+        type: 'liquid',
+        value: 10000,
+        currency: 'USD',
+        volatility: 0,
+        yieldRate: 0,
+        liquidationPenalty: 0,
+        locked: false,
+        costBasis: 6000,
+      },
+    ],
+    liabilities: [],
+    exchangeRates: [],
+    taxConfig: {
+      brackets: [{ upperBound: 100000, rate: 0.1 }],
+      capitalGainsRate: 0.2,
+      currency: 'USD',
+    },
+    monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+  };
+
+  it('sells only the part of a position needed to cover the deficit', () => {
+    const result = simulate({ ...GAINS_INPUT, taxConfig: undefined });
+    expect(result.snapshots[0].balance).toBeCloseTo(0, 8);
+    expect(result.snapshots[0].assetNAV).toBeCloseTo(9000, 8);
+  });
+
+  it('taxes proceeds minus cost basis, not the whole sale', () => {
+    const result = simulate(GAINS_INPUT);
+    // Sold 10% of the position: proceeds 1000, basis 600 -> gain 400, tax 80
+    expect(result.snapshots[0].realizedGain).toBeCloseTo(400, 8);
+    expect(result.snapshots[0].capitalGainsTax).toBeCloseTo(80, 8);
+  });
+
+  it('defaults cost basis to the starting value (no gain, no tax)', () => {
+    const { costBasis: _basis, ...noBasis } = GAINS_INPUT.assets[0];
+    const result = simulate({ ...GAINS_INPUT, assets: [noBasis] });
+    expect(result.snapshots[0].realizedGain).toBeCloseTo(0, 8);
+    expect(result.snapshots[0].capitalGainsTax).toBe(0);
+  });
+
+  it('consumes purchase lots first-in-first-out', () => {
+    const result = simulate({
+      ...GAINS_INPUT,
+      taxConfig: undefined,
+      assets: [
+        {
+          ...GAINS_INPUT.assets[0],
+          costBasis: undefined,
+          lots: [
+            { value: 2000, costBasis: 500 }, // oldest lot: large gain
+            { value: 8000, costBasis: 9000 }, // newer lot: loss
+          ],
+        },
+      ],
+    });
+    // The 1000 sold comes entirely from the oldest lot: basis 250 -> gain 750
+    expect(result.snapshots[0].realizedGain).toBeCloseTo(750, 8);
+  });
+
+  it('offsets a realized loss against gains in the same tax year', () => {
+    const result = simulate({
+      ...GAINS_INPUT,
+      horizonDays: 2,
+      initialBalance: -1000,
+      expenses: [
+        {
+          id: '22222222-2222-2222-2222-222222222222',
+          name: 'Bill',
+          amount: 1000,
+          currency: 'USD',
+          recurrence: 'once',
+          startDay: 1,
+          essential: true,
+        },
+      ],
+      assets: [
+        { ...GAINS_INPUT.assets[0], value: 1000, costBasis: 600 }, // day 0: +400 gain
+        {
+          ...GAINS_INPUT.assets[0],
+          id: 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+          name: 'Loser',
+          value: 1000,
+          costBasis: 1300, // day 1: −300 loss
+        },
+      ],
+    });
+
+    expect(result.snapshots[0].capitalGainsTax).toBeCloseTo(80, 8);
+    expect(result.snapshots[1].realizedGain).toBeCloseTo(-300, 8);
+    // Net year gain 100 -> total tax 20, so day 1 trues up by −60
+    expect(result.snapshots[1].capitalGainsTax).toBeCloseTo(-60, 8);
+  });
+});
+
 // ─── Enhanced Liquidation Tests ─────────────────────────────────────────────────
 
 describe('Enhanced auto-liquidation', () => {
@@ -650,6 +921,50 @@ describe('Component activation (startDay/endDay)', () => {
 // ─── Snapshot & State Tests ─────────────────────────────────────────────────────
 
 describe('State management', () => {
+  it('initialPositionLots weights explicit lots by value', () => {
+    const base: Asset = {
+      id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+      name: 'Test',
+      type: 'liquid',
+      value: 100,
+      currency: 'USD',
+      volatility: 0,
+      yieldRate: 0,
+      liquidationPenalty: 0,
+      locked: false,
+    };
+    const lots = initialPositionLots([
+      {
+        ...base,
+        lots: [
+          { value: 25, costBasis: 10 },
+          { value: 75, costBasis: 90 },
+        ],
+      },
+      { ...base, id: 'other', costBasis: 40 },
+    ]);
+
+    expect(lots[base.id]).toEqual([
+      { fraction: 0.25, costBasis: 10 },
+      { fraction: 0.75, costBasis: 90 },
+    ]);
+    expect(lots['other']).toEqual([{ fraction: 1, costBasis: 40 }]);
+  });
+
+  it('consumeLots sells oldest lots first and re-weights the rest', () => {
+    const lots = [
+      { fraction: 0.25, costBasis: 10 },
+      { fraction: 0.75, costBasis: 90 },
+    ];
+
+    const basis = consumeLots(lots, 0.5);
+
+    expect(basis).toBeCloseTo(10 + 30, 10);
+    expect(lots).toHaveLength(1);
+    expect(lots[0].fraction).toBeCloseTo(1, 10);
+    expect(lots[0].costBasis).toBeCloseTo(60, 10);
+  });
+
   it('createInitialState initializes all fields correctly', () => {
     const state = createInitialState({
       baseCurrency: 'USD',
@@ -893,7 +1208,8 @@ describe('simulateBranch', () => {
   });
 
   it('branch reflects modified parameters', () => {
-    const { baseline, branch } = simulateBranch(SIMPLE_INPUT, 5, {
+    // 60-day horizon so the day-30 rent falls after the fork
+    const { baseline, branch } = simulateBranch({ ...SIMPLE_INPUT, horizonDays: 60 }, 5, {
       expenses: [], // remove all expenses in branch
     });
 
@@ -903,6 +1219,239 @@ describe('simulateBranch', () => {
 
     expect(branchFinal).toBeGreaterThan(baselineFinal);
   });
+
+  it('branch snapshots keep absolute day numbers and dates', () => {
+    const { baseline, branch } = simulateBranch(SIMPLE_INPUT, 10, {});
+
+    expect(branch.snapshots[0].day).toBe(10);
+    expect(branch.snapshots[0].date).toBe(baseline.snapshots[10].date);
+    expect(branch.snapshots[branch.snapshots.length - 1].day).toBe(29);
+  });
+
+  it('unmodified branch reproduces the baseline from the branch day onward', () => {
+    const input: SimulationInput = {
+      ...LIQUIDATION_INPUT,
+      initialBalance: 1000,
+      horizonDays: 60,
+      liabilities: [
+        {
+          id: 'llllllll-llll-llll-llll-llllllllllll',
+          name: 'Car Loan',
+          principal: 8000,
+          interestRate: 0.07,
+          currency: 'USD',
+          minimumPayment: 250,
+          remainingTermDays: 1825,
+        },
+      ],
+      monteCarloConfig: { runs: 5, perturbationFactor: 0.05 },
+    };
+
+    const { baseline, branch } = simulateBranch(input, 25, {});
+
+    expect(branch.snapshots).toEqual(baseline.snapshots.slice(25));
+    expect(branch.finalBalance).toEqual(baseline.finalBalance);
+    expect(branch.collapseProbability).toBe(baseline.collapseProbability);
+  });
+
+  it('branch carries debt, asset values and credit score from the fork point', () => {
+    const input: SimulationInput = {
+      ...LIQUIDATION_INPUT,
+      initialBalance: 20000,
+      horizonDays: 40,
+      liabilities: [
+        {
+          id: 'llllllll-llll-llll-llll-llllllllllll',
+          name: 'Car Loan',
+          principal: 8000,
+          interestRate: 0.07,
+          currency: 'USD',
+          minimumPayment: 250,
+          remainingTermDays: 1825,
+        },
+      ],
+      monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+    };
+
+    const checkpoint = checkpointAtDay(input, 20);
+    const { branch } = simulateBranch(input, 20, { expenses: [] });
+
+    // Day 20 is between due dates: the forked loan only accrues another day of interest
+    const day20 = branch.snapshots[0];
+    const loan = checkpoint.state.liabilities[0];
+    const accrued = checkpoint.state.loans[loan.id].accruedInterest;
+    const expectedDebt = loan.principal + accrued + (loan.principal * loan.interestRate) / 365;
+    expect(day20.totalDebt).toBeCloseTo(expectedDebt, 6);
+    expect(day20.totalExpenses).toBe(0);
+    expect(checkpoint.state.assets[1].value).not.toBe(input.assets[1].value);
+    expect(checkpoint.state.creditScore).not.toBe(650);
+  });
+
+  it('throws when branching at or beyond the horizon', () => {
+    expect(() => simulateBranch(SIMPLE_INPUT, 30, {})).toThrow('outside the simulation horizon');
+  });
+
+  it('throws when an event of the branch names an item it no longer has', () => {
+    const salary = SIMPLE_INPUT.incomeStreams[0].id;
+    const input: SimulationInput = {
+      ...SIMPLE_INPUT,
+      events: [
+        {
+          id: BONUS_ID,
+          name: 'Layoff',
+          type: 'income_suspension',
+          day: 25,
+          incomeStreamId: salary,
+        },
+      ],
+    };
+    expect(() =>
+      simulateBranch(input, 10, {}, { patch: { incomeStreams: { remove: [salary] } } }),
+    ).toThrow(BranchPatchError);
+    expect(() => simulateBranch(input, 10, { incomeStreams: [] })).toThrow(
+      `Branch from day 10: events.0.incomeStreamId names unknown income stream "${salary}"`,
+    );
+  });
+
+  it('patches add items alongside the forked ones', () => {
+    // Salary falls due on days 0, 31 and 59
+    const input = { ...SIMPLE_INPUT, horizonDays: 60 };
+    const bonus = { ...SIMPLE_INPUT.incomeStreams[0], id: BONUS_ID, name: 'Bonus', amount: 500 };
+    const patch = { incomeStreams: { add: [bonus] } };
+    const { baseline, branch } = simulateBranch(input, 10, {}, { patch });
+
+    // Both paydays after the fork pay salary and bonus
+    const day31 = (output: typeof branch) => output.snapshots.find((s) => s.day === 31)!;
+    expect(day31(branch).totalIncome).toBeCloseTo(day31(baseline).totalIncome + 500, 0);
+    expect(branch.finalBalance.expected).toBeGreaterThan(baseline.finalBalance.expected);
+  });
+
+  it('patched updates keep the evolved values of untouched items', () => {
+    const input: SimulationInput = {
+      ...LIQUIDATION_INPUT,
+      initialBalance: 20000,
+      horizonDays: 40,
+      monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+    };
+    const bond = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+    const unmodified = simulateBranch(input, 20, {}).branch.snapshots[0];
+    const patch = { assets: { update: [{ id: bond, yieldRate: 0.1 }] } };
+    const patched = simulateBranch(input, 20, {}, { patch }).branch.snapshots[0];
+
+    // Every asset keeps its day-20 value; only the bond's yield for the day changes
+    const extraYield = (checkpointAtDay(input, 20).state.assets[2].value * 0.06) / 365;
+    expect(patched.assetNAV - unmodified.assetNAV).toBeCloseTo(extraYield, 2);
+    expect(() =>
+      simulateBranch(input, 20, {}, { patch: { expenses: { remove: [BONUS_ID] } } }),
+    ).toThrow(BranchPatchError);
+  });
+});
+
+describe('simulateScenarios', () => {
+  // 60-day horizon so the day-30 rent falls after the forks
+  const input = { ...SIMPLE_INPUT, horizonDays: 60 };
+  const scenarios = [
+    { name: 'No expenses', branchAtDay: 5, modifiedInput: { expenses: [] } },
+    { name: 'Late fork', branchAtDay: 20, modifiedInput: {} },
+    { name: 'Unchanged', branchAtDay: 10, modifiedInput: {} },
+  ];
+
+  it('matches one simulateBranch per scenario', () => {
+    const { baseline, branches } = simulateScenarios(input, scenarios);
+
+    expect(branches).toHaveLength(3);
+    scenarios.forEach((scenario, i) => {
+      const single = simulateBranch(input, scenario.branchAtDay, scenario.modifiedInput);
+      expect({ ...branches[i], computedAt: '' }).toEqual({ ...single.branch, computedAt: '' });
+      expect(branches[i].snapshots[0].day).toBe(scenario.branchAtDay);
+    });
+    expect(baseline.snapshots).toHaveLength(60);
+  });
+
+  it('compares every scenario against the shared baseline', () => {
+    const { baseline, branches } = simulateScenarios(input, scenarios);
+    const comparison = compareScenarios(baseline, scenarios, branches);
+
+    expect(comparison.scenarios.map((s) => s.name)).toEqual([
+      'No expenses',
+      'Late fork',
+      'Unchanged',
+    ]);
+    expect(comparison.scenarios[0].deltas.finalBalanceDiff).toBeGreaterThan(0);
+    expect(comparison.scenarios[2].deltas.finalBalanceDiff).toBe(0);
+  });
+
+  it('throws when any scenario branches beyond the horizon', () => {
+    expect(() =>
+      simulateScenarios(input, [
+        ...scenarios,
+        { name: 'Late', branchAtDay: 60, modifiedInput: {} },
+      ]),
+    ).toThrow('outside the simulation horizon');
+  });
+});
+
+describe('simulateBranchTree', () => {
+  // Salary and rent fall due on days 0, 31 and 59
+  const input = { ...SIMPLE_INPUT, horizonDays: 60 };
+  const node = (
+    id: string,
+    parentId: string | null,
+    branchAtDay: number,
+    modifiedInput: Partial<SimulationInput> = {},
+  ): BranchNode => ({ id, parentId, name: id, branchAtDay, modifiedInput });
+  const NO_RENT = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+  const NO_SALARY = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+  const UNCHANGED = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+  const nodes = [
+    node(NO_RENT, null, 10, { expenses: [] }),
+    node(NO_SALARY, NO_RENT, 40, { incomeStreams: [] }),
+    node(UNCHANGED, NO_RENT, 30),
+  ];
+
+  it('runs a top-level node like simulateBranch', () => {
+    const { baseline, branches } = simulateBranchTree(input, nodes);
+    const single = simulateBranch(input, 10, { expenses: [] });
+
+    expect({ ...baseline, computedAt: '' }).toEqual({ ...single.baseline, computedAt: '' });
+    expect({ ...branches[0], computedAt: '' }).toEqual({ ...single.branch, computedAt: '' });
+  });
+
+  it('forks nested nodes from their parent and keeps its overrides', () => {
+    const { branches } = simulateBranchTree(input, nodes);
+    const [noRent, noSalary, unchanged] = branches;
+
+    // An unmodified child replays its parent from the fork day
+    expect(unchanged.snapshots).toEqual(noRent.snapshots.slice(20));
+    expect(unchanged.finalBalance).toEqual(noRent.finalBalance);
+    // The grandchild still skips rent, and now the last salary too
+    expect(noSalary.snapshots[0].day).toBe(40);
+    expect(noSalary.snapshots.at(-1)!.totalExpenses).toBe(0);
+    expect(noSalary.finalBalance.expected).toBeLessThan(noRent.finalBalance.expected);
+  });
+
+  it('compares every node with its parent and with the baseline', () => {
+    const { baseline, branches } = simulateBranchTree(input, nodes);
+    const evaluation = compareBranchTree(baseline, nodes, branches);
+
+    expect(evaluation.nodes.map((n) => n.depth)).toEqual([1, 2, 2]);
+    const [noRent, noSalary, unchanged] = evaluation.nodes;
+    expect(noRent.deltas).toEqual(noRent.baselineDeltas);
+    expect(unchanged.deltas.finalBalanceDiff).toBe(0);
+    expect(unchanged.baselineDeltas).toEqual(noRent.baselineDeltas);
+    expect(noSalary.baselineDeltas.finalBalanceDiff).toBeCloseTo(
+      noSalary.deltas.finalBalanceDiff + noRent.deltas.finalBalanceDiff,
+      8,
+    );
+  });
+
+  it('rejects children listed before or branching before their parent', () => {
+    expect(() => simulateBranchTree(input, [nodes[1], nodes[0]])).toThrow('must come before it');
+    expect(() => simulateBranchTree(input, [nodes[0], node(NO_SALARY, NO_RENT, 5)])).toThrow(
+      "before its parent's day",
+    );
+    expect(() => simulateBranchTree(input, [nodes[0], nodes[0]])).toThrow('appears twice');
+  });
 });
 
 // ─── Liability Processing Tests ─────────────────────────────────────────────────
@@ -911,7 +1460,7 @@ describe('Liability processing', () => {
   it('accrues daily interest on liabilities', () => {
     const input: SimulationInput = {
       seed: 42,
-      horizonDays: 30,
+      horizonDays: 32,
       baseCurrency: 'USD',
       initialBalance: 100000,
       incomeStreams: [],
@@ -932,10 +1481,11 @@ describe('Liability processing', () => {
     };
 
     const result = simulate(input);
-    // Balance should decrease over time due to debt payments
-    const day0 = result.snapshots[0].balance;
-    const day29 = result.snapshots[29].balance;
-    expect(day29).toBeLessThan(day0);
+    // Debt grows by accrued interest between due dates (Jan 1 and Feb 1)
+    expect(result.snapshots[30].totalDebt).toBeGreaterThan(result.snapshots[1].totalDebt);
+    expect(result.snapshots[30].balance).toBe(result.snapshots[1].balance);
+    // Balance should decrease on the next due date
+    expect(result.snapshots[31].balance).toBeLessThan(result.snapshots[30].balance);
   });
 
   it('deducts liability payments from balance', () => {
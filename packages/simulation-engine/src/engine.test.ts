@@ -3,7 +3,7 @@
  */
 import { describe, expect, it } from 'vitest';
 import { simulate } from './engine.js';
-import { topologicalSort } from './dag.js';
+import { DAGCycleError, topologicalSort } from './dag.js';
 import { DeterministicRNG } from './rng.js';
 import type { SimulationInput } from '@future-wallet/shared-types';
 
@@ -64,6 +64,17 @@ describe('DeterministicRNG', () => {
 
     expect(rng1.next()).not.toEqual(rng2.next());
   });
+
+  it('clone() continues the same sequence independently', () => {
+    const rng = new DeterministicRNG(42);
+    rng.next();
+    const copy = rng.clone();
+
+    const seq1 = Array.from({ length: 10 }, () => rng.next());
+    const seq2 = Array.from({ length: 10 }, () => copy.next());
+
+    expect(seq2).toEqual(seq1);
+  });
 });
 
 describe('DAG topological sort', () => {
@@ -85,6 +96,23 @@ describe('DAG topological sort', () => {
     ).toThrow('DAG cycle detected');
   });
 
+  it('reports the offending dependency chain on a cycle', () => {
+    try {
+      topologicalSort([
+        { id: 'root', dependsOn: [] },
+        { id: 'a', dependsOn: ['root', 'c'] },
+        { id: 'b', dependsOn: ['a'] },
+        { id: 'c', dependsOn: ['b'] },
+        { id: 'leaf', dependsOn: ['c'] },
+      ]);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(DAGCycleError);
+      expect((err as DAGCycleError).cycle).toEqual(['a', 'c', 'b', 'a']);
+      expect((err as DAGCycleError).message).toBe('DAG cycle detected: a -> c -> b -> a');
+    }
+  });
+
   it('throws on unknown dependency', () => {
     expect(() =>
       topologicalSort([{ id: 'a', dependsOn: ['nonexistent'] }]),
@@ -104,6 +132,24 @@ describe('simulate()', () => {
     expect(result1.finalCreditScore).toEqual(result2.finalCreditScore);
   });
 
+  it('reports progress after every Monte Carlo run', () => {
+    const progress: number[] = [];
+    simulate(
+      { ...BASE_INPUT, monteCarloConfig: { runs: 4, perturbationFactor: 0.05 } },
+      { onProgress: (p) => progress.push(p.completedRuns / p.totalRuns) },
+    );
+    expect(progress).toEqual([0.25, 0.5, 0.75, 1]);
+  });
+
+  it('hands out primary-run snapshots as they are computed', () => {
+    const streamed: number[] = [];
+    const result = simulate(
+      { ...BASE_INPUT, monteCarloConfig: { runs: 3, perturbationFactor: 0.05 } },
+      { onSnapshot: (snapshot) => streamed.push(snapshot.balance) },
+    );
+    expect(streamed).toEqual(result.snapshots.map((s) => s.balance));
+  });
+
   it('produces correct number of snapshots', () => {
     const result = simulate(BASE_INPUT);
     expect(result.snapshots).toHaveLength(30);
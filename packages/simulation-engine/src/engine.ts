@@ -7,56 +7,52 @@
  * Integrates:
  * - Multi-currency exchange (fx.ts)
  * - Progressive taxation (tax.ts)
- * - DAG-based component execution (dag.ts)
+ * - Pluggable DAG-ordered day components (components.ts, dag.ts)
+ * - Liability amortization on due-date schedules (amortization.ts)
+ * - Calendar-accurate recurrences and tax years from `startDate` (calendar.ts, recurrence.ts)
+ * - Scheduled life events and shocks (events.ts)
+ * - Stochastic shocks from hazard rates (shocks.ts)
  * - Type-aware asset liquidation
  * - Conditional component activation via startDay/endDay
  */
 import Decimal from 'decimal.js';
 import type {
+  AmortizationSchedule,
+  BranchNode,
+  BranchPatch,
+  ConversionAuditFilter,
   DailySnapshot,
-  Recurrence,
+  JobProgress,
+  MonteCarloConfig,
+  Scenario,
   SimulationInput,
   SimulationOutput,
 } from '@future-wallet/shared-types';
+import { SimulationInputReferencesSchema } from '@future-wallet/shared-types';
 import { DeterministicRNG } from './rng.js';
 import {
+  consumeLots,
   createInitialState,
   derivePetState,
   deriveVibeState,
+  forkState,
+  outstandingDebt,
+  snapshotState,
   stateToSnapshot,
   type SimulationState,
+  type StateOverrides,
 } from './state.js';
-import { topologicalSort, type DAGNode } from './dag.js';
-import { ExchangeRateEngine } from './fx.js';
-import { computeDailyTax } from './tax.js';
-
-// ─── Helpers ────────────────────────────────────────────────────────────────────
-
-function formatDate(startDate: Date, dayOffset: number): string {
-  const d = new Date(startDate);
-  d.setDate(d.getDate() + dayOffset);
-  return d.toISOString().split('T')[0];
-}
-
-function isRecurrenceDay(day: number, recurrence: Recurrence, startDay: number): boolean {
-  const elapsed = day - startDay;
-  if (elapsed < 0) return false;
-
-  switch (recurrence) {
-    case 'daily':
-      return true;
-    case 'weekly':
-      return elapsed % 7 === 0;
-    case 'biweekly':
-      return elapsed % 14 === 0;
-    case 'monthly':
-      return elapsed % 30 === 0;
-    case 'yearly':
-      return elapsed % 365 === 0;
-    case 'once':
-      return elapsed === 0;
-  }
-}
+import { ComponentRegistry, type DayContext, type SimulationComponent } from './components.js';
+import { ExchangeRateEngine, auditConversions } from './fx.js';
+import { computeDailyTax, rollLossCarryForward } from './tax.js';
+import { DEFAULT_PERTURBATION_FACTOR, perturbInput } from './perturbation.js';
+import { BandAccumulator, DEFAULT_MAX_BAND_POINTS, type BandSample } from './bands.js';
+import { isRecurrenceDay } from './recurrence.js';
+import { calendarDate, DEFAULT_START_DATE, formatDate, isYearStart } from './calendar.js';
+import { liabilityType, openLoan, stepLoan } from './amortization.js';
+import { isIncomeSuspended, processEvents } from './events.js';
+import { processShocks } from './shocks.js';
+import { applyBranchPatch, BranchPatchError, patchState } from './patch.js';
 
 // ─── Day Step Components ────────────────────────────────────────────────────────
 
@@ -70,7 +66,8 @@ function processIncome(
   for (const stream of state.incomeStreams) {
     if (stream.endDay !== undefined && day > stream.endDay) continue;
     if (stream.startDay > day) continue; // conditional activation
-    if (isRecurrenceDay(day, stream.recurrence, stream.startDay)) {
+    if (isIncomeSuspended(state, stream.id, day)) continue;
+    if (isRecurrenceDay(day, stream.recurrence, stream.startDay, state.startDate)) {
       let amount = new Decimal(stream.amount);
 
       // Convert to base currency if needed
@@ -102,7 +99,7 @@ function processExpenses(
   for (const expense of state.expenses) {
     if (expense.endDay !== undefined && day > expense.endDay) continue;
     if (expense.startDay > day) continue; // conditional activation
-    if (isRecurrenceDay(day, expense.recurrence, expense.startDay)) {
+    if (isRecurrenceDay(day, expense.recurrence, expense.startDay, state.startDate)) {
       let amount = new Decimal(expense.amount);
 
       // Convert to base currency if needed
@@ -130,14 +127,11 @@ function processLiabilities(
   rng: DeterministicRNG,
 ): void {
   for (const liability of state.liabilities) {
-    if (liability.principal <= 0) continue;
-    // Daily interest accrual
-    const dailyRate = liability.interestRate / 365;
-    liability.principal = new Decimal(liability.principal).times(1 + dailyRate).toNumber();
-    // Minimum payment deduction (prorated daily from monthly payment)
-    const dailyPayment = Math.min(liability.minimumPayment / 30, liability.principal);
-
-    let paymentInBase = new Decimal(dailyPayment);
+    const loan = (state.loans[liability.id] ??= openLoan(liability, state.day, state.startDate));
+    const row = stepLoan(liability, loan, state.day, state.startDate);
+    if (!row || row.payment === 0) continue;
+
+    let paymentInBase = new Decimal(row.payment);
     if (liability.currency !== state.baseCurrency) {
       paymentInBase = fxEngine.convert(
         paymentInBase,
@@ -150,7 +144,6 @@ function processLiabilities(
     }
 
     state.balance = state.balance.minus(paymentInBase);
-    liability.principal -= dailyPayment;
   }
 }
 
@@ -182,7 +175,10 @@ function processAssetValuation(state: SimulationState, rng: DeterministicRNG): v
  * 3. Yield-generating assets (lowest penalty first)
  * 4. Illiquid assets are NEVER auto-liquidated (per spec: locked/allocation-bound)
  *
- * All locked assets are skipped. Realized gains are tracked for capital gains tax.
+ * All locked assets are skipped. Only the portion of a position needed to
+ * cover the deficit is sold; its cost basis is taken from the asset's lots
+ * first-in-first-out, and the realized gain (net proceeds − cost basis, in
+ * base currency) is tracked for capital gains tax.
  */
 function processAutoLiquidation(
   state: SimulationState,
@@ -191,9 +187,6 @@ function processAutoLiquidation(
 ): void {
   if (state.balance.gte(0)) return;
 
-  // Reset daily realized gains
-  state.dailyRealizedGains = new Decimal(0);
-
   // Priority order: liquid -> volatile -> yield_generating (illiquid never liquidated)
   const liquidationOrder: Array<'liquid' | 'volatile' | 'yield_generating'> = [
     'liquid',
@@ -211,9 +204,15 @@ function processAutoLiquidation(
     for (const asset of liquidatable) {
       if (state.balance.gte(0)) break;
 
-      let proceeds = new Decimal(asset.value).times(1 - asset.liquidationPenalty);
+      const rate = fxEngine.getDailyRate(asset.currency, state.baseCurrency, state.day, rng);
+      const fullProceeds = new Decimal(asset.value).times(1 - asset.liquidationPenalty).times(rate);
+      const deficit = state.balance.negated();
 
-      // Convert asset proceeds to base currency if needed
+      // Sell the whole position, or just the fraction that covers the deficit
+      const fraction = fullProceeds.lte(deficit) ? new Decimal(1) : deficit.div(fullProceeds);
+      const saleValue = new Decimal(asset.value).times(fraction);
+
+      let proceeds = saleValue.times(1 - asset.liquidationPenalty);
       if (asset.currency !== state.baseCurrency) {
         proceeds = fxEngine.convert(
           proceeds,
@@ -224,11 +223,17 @@ function processAutoLiquidation(
           `liquidation:${asset.name}`,
         );
       }
+      // A partial sale covers the deficit exactly; avoid rounding residue
+      if (fraction.lt(1)) proceeds = deficit;
+
+      const lots = (state.positionLots[asset.id] ??= []);
+      const basisSold = new Decimal(consumeLots(lots, fraction.toNumber())).times(rate);
+      const realizedGain = proceeds.minus(basisSold);
 
       state.balance = state.balance.plus(proceeds);
-      state.totalRealizedGains = state.totalRealizedGains.plus(proceeds);
-      state.dailyRealizedGains = state.dailyRealizedGains.plus(proceeds);
-      asset.value = 0;
+      state.totalRealizedGains = state.totalRealizedGains.plus(realizedGain);
+      state.dailyRealizedGains = state.dailyRealizedGains.plus(realizedGain);
+      asset.value = fraction.lt(1) ? new Decimal(asset.value).minus(saleValue).toNumber() : 0;
     }
   }
 }
@@ -245,23 +250,31 @@ function processTaxation(
     return { incomeTax: new Decimal(0), capitalGainsTax: new Decimal(0) };
   }
 
+  // A new calendar year resets bracket placement; unused losses carry forward
+  if (state.day > 0 && isYearStart(calendarDate(state.startDate, state.day))) {
+    state.cumulativeAnnualIncome = new Decimal(0);
+    state.capitalLossCarryForward = rollLossCarryForward(
+      state.annualRealizedGains,
+      state.capitalLossCarryForward,
+    );
+    state.annualRealizedGains = new Decimal(0);
+  }
+
   const result = computeDailyTax(
     dailyIncome,
     state.dailyRealizedGains,
     state.cumulativeAnnualIncome,
     state.taxConfig,
+    state.annualRealizedGains,
+    state.capitalLossCarryForward,
   );
 
   // Deduct tax from balance
   state.balance = state.balance.minus(result.totalTax);
 
-  // Update cumulative income for bracket tracking
+  // Update cumulative income and realized gains for bracket tracking / loss offsetting
   state.cumulativeAnnualIncome = state.cumulativeAnnualIncome.plus(dailyIncome);
-
-  // Reset annual income tracking at year boundary (every 365 days)
-  if (state.day > 0 && state.day % 365 === 0) {
-    state.cumulativeAnnualIncome = new Decimal(0);
-  }
+  state.annualRealizedGains = state.annualRealizedGains.plus(state.dailyRealizedGains);
 
   return {
     incomeTax: result.incomeTax,
@@ -270,7 +283,7 @@ function processTaxation(
 }
 
 function updateCreditScore(state: SimulationState): void {
-  const totalDebt = state.liabilities.reduce((s, l) => s + l.principal, 0);
+  const totalDebt = outstandingDebt(state);
   const balance = state.balance.toNumber();
 
   // Simple credit score model per spec: f(Debt Ratio, Punctuality, Restructuring)
@@ -299,90 +312,172 @@ function updateBehavioralMetrics(state: SimulationState): void {
   }
 }
 
+// ─── Built-in Components ────────────────────────────────────────────────────────
+
+/**
+ * The engine's own day components. Custom components can depend on these
+ * ids to run before or after them (see createComponentRegistry).
+ */
+export const BUILT_IN_COMPONENTS: readonly SimulationComponent[] = [
+  {
+    id: 'events',
+    dependsOn: [],
+    step: processEvents,
+  },
+  {
+    id: 'shocks',
+    dependsOn: ['events'],
+    step: processShocks,
+  },
+  {
+    id: 'income',
+    dependsOn: ['shocks'],
+    step: (state, ctx) => {
+      ctx.totalIncome = processIncome(state, state.day, ctx.fxEngine, ctx.rng);
+    },
+  },
+  {
+    id: 'expenses',
+    dependsOn: ['income'],
+    step: (state, ctx) => {
+      ctx.totalExpenses = processExpenses(state, state.day, ctx.fxEngine, ctx.rng);
+    },
+  },
+  {
+    id: 'liabilities',
+    dependsOn: ['expenses'],
+    step: (state, ctx) => processLiabilities(state, ctx.fxEngine, ctx.rng),
+  },
+  {
+    id: 'asset_valuation',
+    dependsOn: ['shocks'],
+    step: (state, ctx) => processAssetValuation(state, ctx.rng),
+  },
+  {
+    id: 'auto_liquidation',
+    dependsOn: ['expenses', 'liabilities'],
+    step: (state, ctx) => processAutoLiquidation(state, ctx.fxEngine, ctx.rng),
+  },
+  {
+    id: 'taxation',
+    dependsOn: ['income', 'auto_liquidation'],
+    step: (state, ctx) => {
+      const { incomeTax, capitalGainsTax } = processTaxation(state, ctx.totalIncome);
+      ctx.incomeTax = incomeTax;
+      ctx.capitalGainsTax = capitalGainsTax;
+    },
+  },
+  {
+    id: 'credit_score',
+    dependsOn: ['liabilities', 'auto_liquidation'],
+    step: (state) => updateCreditScore(state),
+  },
+  {
+    id: 'behavioral',
+    dependsOn: ['credit_score'],
+    step: (state) => updateBehavioralMetrics(state),
+  },
+];
+
+/**
+ * A registry holding the built-in components plus `components`.
+ * Pass it as `SimulateOptions.components` to run them every day.
+ */
+export function createComponentRegistry(
+  components: readonly SimulationComponent[] = [],
+): ComponentRegistry {
+  return new ComponentRegistry([...BUILT_IN_COMPONENTS, ...components]);
+}
+
+/** Used when no registry is passed; never exposed, so never modified */
+const DEFAULT_REGISTRY = createComponentRegistry();
+
 // ─── Single Day Step ────────────────────────────────────────────────────────────
 
 /**
- * Resolves the component DAG and executes one day of simulation.
+ * Executes one day of simulation by running `pipeline` — components
+ * already in dependency order — against the state.
  */
 function runDay(
   state: SimulationState,
   rng: DeterministicRNG,
   fxEngine: ExchangeRateEngine,
-  dateStr: string,
+  pipeline: readonly SimulationComponent[],
 ): DailySnapshot {
+  const ctx: DayContext = {
+    date: formatDate(calendarDate(state.startDate, state.day)),
+    rng,
+    fxEngine,
+    totalIncome: new Decimal(0),
+    totalExpenses: new Decimal(0),
+    incomeTax: new Decimal(0),
+    capitalGainsTax: new Decimal(0),
+  };
+
   // Reset daily tracking
   state.dailyRealizedGains = new Decimal(0);
 
-  // Define component execution order via DAG
-  const components: DAGNode[] = [
-    { id: 'income', dependsOn: [] },
-    { id: 'expenses', dependsOn: ['income'] },
-    { id: 'liabilities', dependsOn: ['expenses'] },
-    { id: 'asset_valuation', dependsOn: [] },
-    { id: 'auto_liquidation', dependsOn: ['expenses', 'liabilities'] },
-    { id: 'taxation', dependsOn: ['income', 'auto_liquidation'] },
-    { id: 'credit_score', dependsOn: ['liabilities', 'auto_liquidation'] },
-    { id: 'behavioral', dependsOn: ['credit_score'] },
-  ];
-
-  const order = topologicalSort(components);
-
-  let totalIncome = new Decimal(0);
-  let totalExpenses = new Decimal(0);
-  let taxResult = { incomeTax: new Decimal(0), capitalGainsTax: new Decimal(0) };
-
-  for (const componentId of order) {
-    switch (componentId) {
-      case 'income':
-        totalIncome = processIncome(state, state.day, fxEngine, rng);
-        break;
-      case 'expenses':
-        totalExpenses = processExpenses(state, state.day, fxEngine, rng);
-        break;
-      case 'liabilities':
-        processLiabilities(state, fxEngine, rng);
-        break;
-      case 'asset_valuation':
-        processAssetValuation(state, rng);
-        break;
-      case 'auto_liquidation':
-        processAutoLiquidation(state, fxEngine, rng);
-        break;
-      case 'taxation':
-        taxResult = processTaxation(state, totalIncome);
-        break;
-      case 'credit_score':
-        updateCreditScore(state);
-        break;
-      case 'behavioral':
-        updateBehavioralMetrics(state);
-        break;
-    }
+  for (const component of pipeline) {
+    component.step(state, ctx);
   }
 
-  const snapshot = stateToSnapshot(state, dateStr);
-  snapshot.totalIncome = totalIncome.toNumber();
-  snapshot.totalExpenses = totalExpenses.toNumber();
-  snapshot.netCashFlow = totalIncome.minus(totalExpenses).toNumber();
-  snapshot.taxPaid = taxResult.incomeTax.toNumber();
-  snapshot.capitalGainsTax = taxResult.capitalGainsTax.toNumber();
+  const snapshot = stateToSnapshot(state, ctx.date);
+  snapshot.totalIncome = ctx.totalIncome.toNumber();
+  snapshot.totalExpenses = ctx.totalExpenses.toNumber();
+  snapshot.netCashFlow = ctx.totalIncome.minus(ctx.totalExpenses).toNumber();
+  snapshot.taxPaid = ctx.incomeTax.toNumber();
+  snapshot.capitalGainsTax = ctx.capitalGainsTax.toNumber();
 
   return snapshot;
 }
 
+/**
+ * Per-liability payment tables for the output.
+ */
+function amortizationSchedules(state: SimulationState): AmortizationSchedule[] {
+  return state.liabilities.map((liability) => ({
+    liabilityId: liability.id,
+    name: liability.name,
+    type: liabilityType(liability),
+    currency: liability.currency,
+    scheduledPayment: state.loans[liability.id]?.scheduledPayment ?? 0,
+    payments: state.loans[liability.id]?.payments ?? [],
+  }));
+}
+
 // ─── Core Single-Run Simulation ─────────────────────────────────────────────────
 
+/** Optional extras attached to a simulation's output */
+export interface SimulateOptions {
+  /** Attach the primary run's FX conversion audit, narrowed by this filter */
+  conversionAudit?: ConversionAuditFilter;
+  /** Day components to run instead of the built-ins (see createComponentRegistry) */
+  components?: ComponentRegistry;
+  /** Called after each Monte Carlo run completes */
+  onProgress?: (progress: JobProgress) => void;
+  /** Called with each day's snapshot of the primary run as soon as it is computed */
+  onSnapshot?: (snapshot: DailySnapshot) => void;
+}
+
 /**
- * Runs a single simulation with the given seed.
- * Used internally by both simulate() and Monte Carlo runs.
+ * A mid-run engine checkpoint: the state at the start of `state.day`
+ * together with the RNG positioned where that day's draws begin.
  */
-export function simulateSingleRun(input: SimulationInput, seedOverride?: number): SimulationOutput {
-  const seed = seedOverride ?? input.seed;
-  const rng = new DeterministicRNG(seed);
-  const startDate = new Date('2026-01-01');
-  const fxEngine = new ExchangeRateEngine(input.exchangeRates);
+export interface EngineCheckpoint {
+  state: SimulationState;
+  rng: DeterministicRNG;
+}
+
+function fxEngineFor(input: SimulationInput): ExchangeRateEngine {
+  return new ExchangeRateEngine(input.exchangeRates, {
+    startDate: input.startDate,
+    interpolation: input.fxInterpolation,
+    pivotCurrency: input.baseCurrency,
+  });
+}
 
-  const state = createInitialState({
+function initialStateFor(input: SimulationInput): SimulationState {
+  return createInitialState({
     baseCurrency: input.baseCurrency,
     initialBalance: input.initialBalance,
     assets: input.assets,
@@ -391,17 +486,82 @@ export function simulateSingleRun(input: SimulationInput, seedOverride?: number)
     expenses: input.expenses,
     exchangeRates: input.exchangeRates,
     taxConfig: input.taxConfig,
+    events: input.events,
+    shockConfig: input.shockConfig,
+    startDate: input.startDate ?? DEFAULT_START_DATE,
   });
+}
+
+/**
+ * Runs days [0, day) of a single run and returns the checkpoint at the
+ * start of `day`. Branches resume from this instead of restarting at day 0.
+ */
+export function checkpointAtDay(
+  input: SimulationInput,
+  day: number,
+  seedOverride?: number,
+  components: ComponentRegistry = DEFAULT_REGISTRY,
+): EngineCheckpoint {
+  const start = {
+    state: initialStateFor(input),
+    rng: new DeterministicRNG(seedOverride ?? input.seed),
+  };
+  return advanceCheckpoint(input, start, day, components);
+}
+
+/**
+ * Runs days [checkpoint.state.day, day) of `input` from a checkpoint and
+ * returns the checkpoint at the start of `day`; `checkpoint` is untouched.
+ */
+function advanceCheckpoint(
+  input: SimulationInput,
+  checkpoint: EngineCheckpoint,
+  day: number,
+  components: ComponentRegistry,
+): EngineCheckpoint {
+  const rng = checkpoint.rng.clone();
+  const fxEngine = fxEngineFor(input);
+  const state = snapshotState(checkpoint.state);
+  const pipeline = components.resolve();
+
+  for (let d = state.day; d < day; d++) {
+    state.day = d;
+    runDay(state, rng, fxEngine, pipeline);
+  }
+  state.day = day;
+
+  return { state, rng };
+}
+
+/**
+ * Runs a single simulation with the given seed.
+ * Used internally by both simulate() and Monte Carlo runs.
+ *
+ * When `checkpoint` is given the run resumes from that state instead of
+ * the input's initial values; snapshots keep absolute day numbers and dates.
+ */
+export function simulateSingleRun(
+  input: SimulationInput,
+  seedOverride?: number,
+  checkpoint?: EngineCheckpoint,
+  options: SimulateOptions = {},
+): SimulationOutput {
+  const seed = seedOverride ?? input.seed;
+  const rng = checkpoint ? checkpoint.rng.clone() : new DeterministicRNG(seed);
+  const fxEngine = fxEngineFor(input);
+
+  const state = checkpoint ? snapshotState(checkpoint.state) : initialStateFor(input);
+  const firstDay = state.day;
+  const pipeline = (options.components ?? DEFAULT_REGISTRY).resolve();
 
   const snapshots: DailySnapshot[] = [];
 
-  for (let day = 0; day < input.horizonDays; day++) {
+  for (let day = firstDay; day < input.horizonDays; day++) {
     state.day = day;
-    const dateStr = formatDate(startDate, day);
-    const snapshot = runDay(state, rng, fxEngine, dateStr);
+    const snapshot = runDay(state, rng, fxEngine, pipeline);
     snapshots.push(snapshot);
+    options.onSnapshot?.(snapshot);
   }
-
   // Compute single-run statistics
   const balances = snapshots.map((s) => s.balance);
   const finalBalance = balances[balances.length - 1] ?? 0;
@@ -433,40 +593,105 @@ export function simulateSingleRun(input: SimulationInput, seedOverride?: number)
     shockResilienceIndex: lastSnapshot?.shockResilienceIndex ?? 50,
     finalNAV: lastSnapshot?.assetNAV ?? 0,
     finalLiquidityRatio: lastSnapshot?.liquidityRatio ?? 0,
+    ...(state.liabilities.length > 0 && { amortization: amortizationSchedules(state) }),
+    ...((state.events.length > 0 || state.shockConfig || state.appliedEvents.length > 0) && {
+      appliedEvents: state.appliedEvents,
+    }),
+    ...(options.conversionAudit && {
+      conversionAudit: auditConversions(fxEngine.getConversionLog(), options.conversionAudit),
+    }),
   };
 }
 
 // ─── Monte Carlo Simulation ─────────────────────────────────────────────────────
 
+/** Monte Carlo runs when the input has no `monteCarloConfig` */
+export const DEFAULT_MONTE_CARLO_RUNS = 100;
+
 /**
- * Runs the full simulation with Monte Carlo distribution.
- *
- * The primary run (seed + 0) produces the full snapshots trajectory.
- * Additional runs (seed + 1, seed + 2, ...) produce final balances
- * for computing p5, p95, expected, and collapse probability.
- *
- * Guarantees: Given identical inputs and seed, produces bit-exact identical output.
+ * What the Monte Carlo statistics keep of one run: its final balance,
+ * whether it collapsed, and its band sample. Small enough to pass between
+ * threads (see the API's parallel.ts).
+ */
+export interface MonteCarloRunSummary {
+  finalBalance: number;
+  collapsed: boolean;
+  bandSample: BandSample;
+}
+
+/** The input's Monte Carlo settings, with defaults filled in */
+export function monteCarloConfigFor(input: SimulationInput): MonteCarloConfig {
+  return (
+    input.monteCarloConfig ?? {
+      runs: DEFAULT_MONTE_CARLO_RUNS,
+      perturbationFactor: DEFAULT_PERTURBATION_FACTOR,
+    }
+  );
+}
+
+/** Band accumulator for the input's `maxBandPoints` */
+export function bandAccumulatorFor(input: SimulationInput): BandAccumulator {
+  return new BandAccumulator(monteCarloConfigFor(input).maxBandPoints ?? DEFAULT_MAX_BAND_POINTS);
+}
+
+export function summarizeRun(run: SimulationOutput, bands: BandAccumulator): MonteCarloRunSummary {
+  return {
+    finalBalance: run.finalBalance.expected,
+    collapsed: run.collapseDay !== null,
+    bandSample: bands.sample(run.snapshots),
+  };
+}
+
+/**
+ * Aggregates Monte Carlo runs produced by `runOnce` into a single output.
+ * The primary run (index 0, seed + 0, unperturbed) supplies the snapshot trajectory.
  */
-export function simulate(input: SimulationInput): SimulationOutput {
-  const mcConfig = input.monteCarloConfig ?? { runs: 100, perturbationFactor: 0.05 };
-  const numRuns = mcConfig.runs;
+function aggregateMonteCarlo(
+  input: SimulationInput,
+  runOnce: (runIndex: number) => SimulationOutput,
+  onProgress?: (progress: JobProgress) => void,
+): SimulationOutput {
+  const numRuns = monteCarloConfigFor(input).runs;
 
   // Primary run: full trajectory with original seed
-  const primaryResult = simulateSingleRun(input, input.seed);
+  const primaryResult = runOnce(0);
+  onProgress?.({ completedRuns: 1, totalRuns: numRuns });
 
   if (numRuns <= 1) {
     return primaryResult;
   }
 
-  // Monte Carlo runs: vary seed for statistical distribution
+  // Monte Carlo runs: vary seed and perturb parameters for statistical distribution
+  const bands = bandAccumulatorFor(input);
+  bands.add(primaryResult.snapshots);
+  const summaries: MonteCarloRunSummary[] = [];
+
+  for (let i = 1; i < numRuns; i++) {
+    summaries.push(summarizeRun(runOnce(i), bands));
+    onProgress?.({ completedRuns: i + 1, totalRuns: numRuns });
+  }
+
+  return mergeMonteCarlo(primaryResult, summaries, bands);
+}
+
+/**
+ * Combines the primary run with the other runs' summaries, which must be in
+ * run order (seed + 1, seed + 2, …) for the statistics to be bit-exact.
+ * `bands` must already hold the primary trajectory.
+ */
+export function mergeMonteCarlo(
+  primaryResult: SimulationOutput,
+  summaries: readonly MonteCarloRunSummary[],
+  bands: BandAccumulator,
+): SimulationOutput {
+  const numRuns = summaries.length + 1;
   const finalBalances: number[] = [primaryResult.finalBalance.expected];
   let collapseCount = primaryResult.collapseDay !== null ? 1 : 0;
 
-  for (let i = 1; i < numRuns; i++) {
-    const mcSeed = input.seed + i;
-    const mcResult = simulateSingleRun(input, mcSeed);
-    finalBalances.push(mcResult.finalBalance.expected);
-    if (mcResult.collapseDay !== null) collapseCount++;
+  for (const summary of summaries) {
+    finalBalances.push(summary.finalBalance);
+    if (summary.collapsed) collapseCount++;
+    bands.addSample(summary.bandSample);
   }
 
   // Compute statistics from Monte Carlo distribution
@@ -483,32 +708,248 @@ export function simulate(input: SimulationInput): SimulationOutput {
       p5: sortedBalances[p5Index],
       p95: sortedBalances[p95Index],
     },
+    bands: bands.build(),
     collapseProbability: mcCollapseProbability,
   };
 }
 
+/**
+ * Runs the full simulation with Monte Carlo distribution.
+ *
+ * The primary run (seed + 0) produces the full snapshots trajectory.
+ * Additional runs (seed + 1, seed + 2, ...) use inputs jittered by
+ * `perturbationFactor` (see perturbation.ts) and produce final balances
+ * for computing p5, p95, expected, and collapse probability, plus the
+ * per-day percentile `bands` (see bands.ts).
+ *
+ * With `options.conversionAudit` the primary run's FX conversions are
+ * attached as `conversionAudit` (see fx.ts). `options.components` replaces
+ * the day pipeline; its order is resolved once, before the first run.
+ * `options.onProgress` is told after every completed run, and
+ * `options.onSnapshot` receives the primary run's snapshots day by day.
+ *
+ * Guarantees: Given identical inputs and seed, produces bit-exact identical output.
+ */
+export function simulate(input: SimulationInput, options: SimulateOptions = {}): SimulationOutput {
+  const { components = DEFAULT_REGISTRY, onProgress } = options;
+  components.resolve();
+
+  return aggregateMonteCarlo(
+    input,
+    (runIndex) =>
+      simulateSingleRun(
+        perturbInput(input, runIndex),
+        input.seed + runIndex,
+        undefined,
+        runIndex === 0 ? { ...options, components } : { components },
+      ),
+    onProgress,
+  );
+}
+
+/** Optional extras for simulateBranch */
+export interface SimulateBranchOptions {
+  /** Day components to run on both sides instead of the built-ins */
+  components?: ComponentRegistry;
+  /** Per-item edits applied after `modifiedInput` (see applyBranchPatch) */
+  patch?: BranchPatch;
+}
+
 /**
  * Runs a branching simulation: baseline from start, then a divergent branch
  * from a specific day with modified parameters.
+ *
+ * Each Monte Carlo run of the branch forks from the same-seed baseline run's
+ * full engine state at the start of `branchAtDay` (balance, asset values,
+ * liability principal, credit score, tax-year income, deficit counters and
+ * RNG position), so an unmodified branch reproduces the baseline exactly.
+ * Collections present in `modifiedInput` replace the forked ones; `patch`
+ * then edits individual items by id (see applyBranchPatch), leaving the
+ * rest as they evolved. The day-0 fields (seed, horizonDays, startDate,
+ * baseCurrency, initialBalance) always come from the baseline. Both sides
+ * run the `components` pipeline.
+ *
+ * @throws BranchPatchError if `patch` names ids the input does not have, or
+ *   the branch's input is invalid
  */
 export function simulateBranch(
   baseInput: SimulationInput,
   branchAtDay: number,
   modifiedInput: Partial<SimulationInput>,
+  { components = DEFAULT_REGISTRY, patch }: SimulateBranchOptions = {},
 ): { baseline: SimulationOutput; branch: SimulationOutput } {
-  const baseline = simulate(baseInput);
-
-  // Create branch input: merge modifications
-  const branchInput: SimulationInput = {
-    ...baseInput,
-    ...modifiedInput,
-    // Offset the branch: only simulate remaining days
-    horizonDays: baseInput.horizonDays - branchAtDay,
-    // Use initial balance from the baseline at branch point
-    initialBalance: baseline.snapshots[branchAtDay]?.balance ?? baseInput.initialBalance,
-  };
+  assertBranchDay(baseInput, branchAtDay);
+  const fork = { branchAtDay, modifiedInput, patch };
+  branchInputFor(baseInput, [fork]);
+  const baseline = simulate(baseInput, { components });
+  return { baseline, branch: runForks(baseInput, [fork], components) };
+}
 
-  const branch = simulate(branchInput);
+/**
+ * Runs several named branches of one baseline, each from its own day with
+ * its own overrides (see simulateBranch). The baseline is simulated once
+ * and shared; scenario outputs keep the request order.
+ *
+ * @throws Error if any scenario branches outside the horizon
+ * @throws BranchPatchError if a scenario's patch names ids the input does not
+ *   have, or its input is invalid
+ */
+export function simulateScenarios(
+  baseInput: SimulationInput,
+  scenarios: readonly Scenario[],
+  components: ComponentRegistry = DEFAULT_REGISTRY,
+): { baseline: SimulationOutput; branches: SimulationOutput[] } {
+  for (const scenario of scenarios) {
+    assertBranchDay(baseInput, scenario.branchAtDay);
+    branchInputFor(baseInput, [scenario]);
+  }
+  const baseline = simulate(baseInput, { components });
+  const branches = scenarios.map((scenario) => runForks(baseInput, [scenario], components));
+  return { baseline, branches };
+}
+
+function assertBranchDay(baseInput: SimulationInput, branchAtDay: number): void {
+  if (branchAtDay >= baseInput.horizonDays) {
+    throw new Error(
+      `Branch day ${branchAtDay} is outside the simulation horizon of ${baseInput.horizonDays} days`,
+    );
+  }
+}
+
+/**
+ * Runs every node of a branch tree. A node forks its parent's run (the
+ * baseline's for top-level nodes) at its branch day with its
+ * `modifiedInput` and `patch` layered over the parent's input, so an
+ * unmodified node reproduces its parent exactly. The baseline is simulated
+ * once; node outputs keep node order.
+ *
+ * @throws Error if node ids repeat, a parent is missing or listed after its
+ *   child, or a node branches before its parent or outside the horizon
+ * @throws BranchPatchError if a node's patch names ids its parent's input
+ *   does not have, or its input is invalid
+ */
+export function simulateBranchTree(
+  baseInput: SimulationInput,
+  nodes: readonly BranchNode[],
+  components: ComponentRegistry = DEFAULT_REGISTRY,
+): { baseline: SimulationOutput; branches: SimulationOutput[] } {
+  const byId = new Map<string, BranchNode>();
+  for (const node of nodes) {
+    if (byId.has(node.id)) throw new Error(`Branch node ${node.id} appears twice`);
+    assertBranchDay(baseInput, node.branchAtDay);
+    if (node.parentId !== null) {
+      const parent = byId.get(node.parentId);
+      if (!parent) {
+        throw new Error(`Parent ${node.parentId} of branch node ${node.id} must come before it`);
+      }
+      if (node.branchAtDay < parent.branchAtDay) {
+        throw new Error(
+          `Branch node ${node.id} branches at day ${node.branchAtDay}, before its parent's day ${parent.branchAtDay}`,
+        );
+      }
+    }
+    byId.set(node.id, node);
+  }
+
+  const chains = nodes.map((node) => {
+    const forks: BranchNode[] = [];
+    for (let at: BranchNode | undefined = node; at; at = byId.get(at.parentId ?? '')) {
+      forks.unshift(at);
+    }
+    return forks;
+  });
+  for (const forks of chains) branchInputFor(baseInput, forks);
+
+  const baseline = simulate(baseInput, { components });
+  const branches = chains.map((forks) => runForks(baseInput, forks, components));
+  return { baseline, branches };
+}
 
-  return { baseline, branch };
+/** One fork of a chain: where it branches and what it changes */
+export interface BranchFork {
+  branchAtDay: number;
+  /** Collections and fields replaced outright */
+  modifiedInput: Partial<SimulationInput>;
+  /** Item edits applied after `modifiedInput` */
+  patch?: BranchPatch;
+}
+
+/**
+ * The inputs along a chain of forks: the baseline's, then each fork's
+ * changes layered over the one before. The day-0 fields (seed,
+ * horizonDays, startDate, baseCurrency, initialBalance) always come from
+ * the baseline.
+ *
+ * @throws BranchPatchError if a fork's patch names ids its parent's input
+ *   does not have, or a fork's input has events or hazards naming items it
+ *   does not have (an income stream the fork removed, say)
+ */
+function forkInputs(baseInput: SimulationInput, forks: readonly BranchFork[]): SimulationInput[] {
+  const inputs = [baseInput];
+  for (const fork of forks) {
+    const replaced = { ...inputs[inputs.length - 1], ...fork.modifiedInput };
+    const input = {
+      ...(fork.patch ? applyBranchPatch(replaced, fork.patch) : replaced),
+      seed: baseInput.seed,
+      horizonDays: baseInput.horizonDays,
+      startDate: baseInput.startDate,
+      baseCurrency: baseInput.baseCurrency,
+      initialBalance: baseInput.initialBalance,
+    };
+    const references = SimulationInputReferencesSchema.safeParse(input);
+    if (!references.success) {
+      const [issue] = references.error.issues;
+      throw new BranchPatchError(`Branch from day ${fork.branchAtDay}: ${issue.message}`);
+    }
+    inputs.push(input);
+  }
+  return inputs;
+}
+
+/**
+ * The input the last of a chain of forks runs with from its branch day.
+ *
+ * @throws BranchPatchError if a fork's patch names ids its parent's input
+ *   does not have, or a fork's input is invalid
+ */
+export function branchInputFor(
+  baseInput: SimulationInput,
+  forks: readonly BranchFork[],
+): SimulationInput {
+  const inputs = forkInputs(baseInput, forks);
+  return inputs[inputs.length - 1];
+}
+
+/**
+ * The last of a chain of forks, each branching the one before it (the
+ * first branches the baseline). Each Monte Carlo run replays the chain from
+ * the same-seed baseline run.
+ */
+function runForks(
+  baseInput: SimulationInput,
+  forks: readonly BranchFork[],
+  components: ComponentRegistry,
+): SimulationOutput {
+  const inputs = forkInputs(baseInput, forks);
+
+  return aggregateMonteCarlo(inputs[forks.length], (runIndex) => {
+    const seed = baseInput.seed + runIndex;
+    let runInput = perturbInput(baseInput, runIndex);
+    let checkpoint: EngineCheckpoint = {
+      state: initialStateFor(runInput),
+      rng: new DeterministicRNG(seed),
+    };
+    forks.forEach((fork, i) => {
+      checkpoint = advanceCheckpoint(runInput, checkpoint, fork.branchAtDay, components);
+      runInput = perturbInput(inputs[i + 1], runIndex);
+      // Replaced collections come from the perturbed branch input
+      const overrides = Object.fromEntries(
+        Object.keys(fork.modifiedInput).map((key) => [key, runInput[key as keyof SimulationInput]]),
+      ) as StateOverrides;
+      let state = forkState(checkpoint.state, overrides);
+      if (fork.patch) state = patchState(state, fork.patch, runInput);
+      checkpoint = { state, rng: checkpoint.rng };
+    });
+    return simulateSingleRun(runInput, seed, checkpoint, { components });
+  });
 }
@@ -0,0 +1,218 @@
+/**
+ * Life event tests — each event kind, timeline output, and branching.
+ */
+import { describe, expect, it } from 'vitest';
+import { simulate, simulateBranch } from './engine.js';
+import type { LifeEvent, SimulationInput } from '@future-wallet/shared-types';
+
+const SALARY_ID = '11111111-1111-1111-1111-111111111111';
+const RENT_ID = '22222222-2222-2222-2222-222222222222';
+const STOCKS_ID = '33333333-3333-3333-3333-333333333333';
+const HOUSE_ID = '44444444-4444-4444-4444-444444444444';
+const LOAN_ID = '55555555-5555-5555-5555-555555555555';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 60,
+  baseCurrency: 'USD',
+  initialBalance: 10000,
+  incomeStreams: [
+    {
+      id: SALARY_ID,
+      name: 'Salary',
+      amount: 100,
+      currency: 'USD',
+      recurrence: 'daily',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: RENT_ID,
+      name: 'Rent',
+      amount: 1000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [
+    {
+      id: STOCKS_ID,
+      name: 'Stocks',
+      type: 'volatile',
+      value: 5000,
+      currency: 'USD',
+      volatility: 0,
+      yieldRate: 0,
+      liquidationPenalty: 0,
+      locked: false,
+    },
+    {
+      id: HOUSE_ID,
+      name: 'House',
+      type: 'illiquid',
+      value: 200000,
+      currency: 'USD',
+      volatility: 0,
+      yieldRate: 0,
+      liquidationPenalty: 0,
+      locked: false,
+    },
+  ],
+  liabilities: [],
+  exchangeRates: [{ from: 'EUR', to: 'USD', rate: 1.2, date: '2026-01-01', volatility: 0 }],
+  monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+};
+
+function withEvents(...events: LifeEvent[]): SimulationInput {
+  return { ...INPUT, events };
+}
+
+/** Event fields other than the generated id, name and day */
+type EventFields = LifeEvent extends infer E
+  ? E extends LifeEvent
+    ? Omit<E, 'id' | 'name' | 'day'>
+    : never
+  : never;
+
+function event(day: number, fields: EventFields): LifeEvent {
+  return {
+    id: `eeeeeeee-eeee-eeee-eeee-${String(day).padStart(12, '0')}`,
+    name: `${fields.type} on day ${day}`,
+    day,
+    ...fields,
+  };
+}
+
+describe('life events', () => {
+  it('applies a cash shock on its day and reports it', () => {
+    const baseline = simulate(INPUT);
+    const result = simulate(
+      withEvents(event(10, { type: 'cash_shock', amount: -8000, currency: 'USD' })),
+    );
+
+    expect(result.snapshots[9].balance).toBe(baseline.snapshots[9].balance);
+    expect(result.snapshots[10].balance).toBe(baseline.snapshots[10].balance - 8000);
+    expect(result.appliedEvents).toEqual([
+      {
+        eventId: 'eeeeeeee-eeee-eeee-eeee-000000000010',
+        name: 'cash_shock on day 10',
+        type: 'cash_shock',
+        source: 'scheduled',
+        day: 10,
+        date: '2026-01-11',
+        balanceImpact: -8000,
+        navImpact: 0,
+        targetIds: [],
+      },
+    ]);
+  });
+
+  it('converts foreign-currency cash shocks to the base currency', () => {
+    const result = simulate(
+      withEvents(event(0, { type: 'cash_shock', amount: 500, currency: 'EUR' })),
+    );
+    expect(result.appliedEvents![0].balanceImpact).toBeCloseTo(600, 10);
+  });
+
+  it('suspends an income stream for a number of days', () => {
+    const result = simulate(
+      withEvents(
+        event(20, { type: 'income_suspension', incomeStreamId: SALARY_ID, durationDays: 10 }),
+      ),
+    );
+
+    expect(result.snapshots[19].totalIncome).toBe(100);
+    expect(result.snapshots[20].totalIncome).toBe(0);
+    expect(result.snapshots[29].totalIncome).toBe(0);
+    expect(result.snapshots[30].totalIncome).toBe(100);
+    expect(result.appliedEvents![0].targetIds).toEqual([SALARY_ID]);
+  });
+
+  it('suspends income for good without a duration', () => {
+    const result = simulate(
+      withEvents(event(20, { type: 'income_suspension', incomeStreamId: SALARY_ID })),
+    );
+    expect(result.snapshots.slice(20).every((s) => s.totalIncome === 0)).toBe(true);
+  });
+
+  it('shocks only the assets of the targeted type', () => {
+    const result = simulate(
+      withEvents(event(5, { type: 'asset_shock', change: -0.3, assetType: 'volatile' })),
+    );
+
+    expect(result.snapshots[4].assetNAV).toBe(205000);
+    expect(result.snapshots[5].assetNAV).toBe(203500);
+    expect(result.appliedEvents![0]).toMatchObject({ navImpact: -1500, targetIds: [STOCKS_ID] });
+  });
+
+  it('re-sizes level loan payments after a rate change', () => {
+    const input: SimulationInput = {
+      ...INPUT,
+      horizonDays: 120,
+      liabilities: [
+        {
+          id: LOAN_ID,
+          name: 'Loan',
+          principal: 12000,
+          interestRate: 0.05,
+          currency: 'USD',
+          minimumPayment: 0,
+          remainingTermDays: 365,
+          type: 'amortizing',
+          firstPaymentDay: 31,
+        },
+      ],
+    };
+    const before = simulate(input).amortization![0];
+    const after = simulate({
+      ...input,
+      events: [event(45, { type: 'rate_change', interestRate: 0.15, liabilityId: LOAN_ID })],
+    }).amortization![0];
+
+    expect(after.payments[0].payment).toBe(before.payments[0].payment);
+    expect(after.payments[1].payment).toBeGreaterThan(before.payments[1].payment);
+    expect(after.scheduledPayment).toBe(after.payments[1].payment);
+  });
+
+  it('changes an expense amount from the event day on', () => {
+    const result = simulate(
+      withEvents(event(15, { type: 'expense_change', expenseId: RENT_ID, amount: 1500 })),
+    );
+
+    expect(result.snapshots[0].totalExpenses).toBe(1000);
+    expect(result.snapshots[31].totalExpenses).toBe(1500);
+  });
+
+  it('rejects events that target unknown items', () => {
+    expect(() =>
+      simulate(
+        withEvents(
+          event(3, {
+            type: 'expense_change',
+            expenseId: '99999999-9999-9999-9999-999999999999',
+            amount: 0,
+          }),
+        ),
+      ),
+    ).toThrow('targets unknown expense');
+  });
+
+  it('omits the timeline when the input has no events', () => {
+    expect(simulate(INPUT).appliedEvents).toBeUndefined();
+  });
+
+  it('applies branch events only from the branch day', () => {
+    const crash = event(40, { type: 'asset_shock', change: -0.5 });
+    const { baseline, branch } = simulateBranch(INPUT, 30, {
+      events: [event(10, { type: 'cash_shock', amount: -1000, currency: 'USD' }), crash],
+    });
+
+    expect(baseline.appliedEvents).toBeUndefined();
+    // The day-10 event lies before the fork and never fires in the branch
+    expect(branch.appliedEvents!.map((e) => e.day)).toEqual([40]);
+    expect(branch.snapshots[10].assetNAV).toBe(102500);
+  });
+});
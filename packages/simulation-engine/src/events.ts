@@ -0,0 +1,132 @@
+/**
+ * Scheduled life events — one-off changes applied at the start of their day.
+ *
+ * Run as the `events` day component, ahead of income, expenses and asset
+ * valuation, so an event on day N already shapes day N's cash flows. Each
+ * applied event is recorded in `state.appliedEvents` for the output timeline.
+ */
+import Decimal from 'decimal.js';
+import type { AppliedEvent, LifeEvent } from '@future-wallet/shared-types';
+import type { DayContext } from './components.js';
+import type { SimulationState } from './state.js';
+import { openLoan } from './amortization.js';
+
+/** Whether income from `streamId` is suspended on `day` */
+export function isIncomeSuspended(state: SimulationState, streamId: string, day: number): boolean {
+  if (!(streamId in state.incomeSuspensions)) return false;
+  const resumeDay = state.incomeSuspensions[streamId];
+  return resumeDay === null || day < resumeDay;
+}
+
+function unknownTarget(event: LifeEvent, kind: string, id: string): Error {
+  return new Error(`Event "${event.name}" targets unknown ${kind} "${id}"`);
+}
+
+/**
+ * Applies one event to the state. `source` tells scheduled input events
+ * apart from stochastic shocks (see shocks.ts) in the timeline.
+ *
+ * @throws Error if the event names an income stream, asset, liability or
+ *   expense that does not exist
+ */
+export function applyLifeEvent(
+  state: SimulationState,
+  event: LifeEvent,
+  ctx: DayContext,
+  source: AppliedEvent['source'] = 'scheduled',
+): AppliedEvent {
+  let balanceImpact = new Decimal(0);
+  let navImpact = new Decimal(0);
+  let targetIds: string[] = [];
+
+  switch (event.type) {
+    case 'cash_shock': {
+      balanceImpact = new Decimal(event.amount);
+      if (event.currency !== state.baseCurrency) {
+        balanceImpact = ctx.fxEngine.convert(
+          balanceImpact,
+          event.currency,
+          state.baseCurrency,
+          state.day,
+          ctx.rng,
+          `event:${event.name}`,
+        );
+      }
+      state.balance = state.balance.plus(balanceImpact);
+      break;
+    }
+    case 'income_suspension': {
+      if (event.incomeStreamId && !state.incomeStreams.some((s) => s.id === event.incomeStreamId)) {
+        throw unknownTarget(event, 'income stream', event.incomeStreamId);
+      }
+      const resumeDay = event.durationDays === undefined ? null : state.day + event.durationDays;
+      targetIds = state.incomeStreams
+        .filter((s) => event.incomeStreamId === undefined || s.id === event.incomeStreamId)
+        .map((s) => s.id);
+      for (const id of targetIds) state.incomeSuspensions[id] = resumeDay;
+      break;
+    }
+    case 'asset_shock': {
+      if (event.assetId && !state.assets.some((a) => a.id === event.assetId)) {
+        throw unknownTarget(event, 'asset', event.assetId);
+      }
+      const targets = state.assets.filter(
+        (a) =>
+          (event.assetId === undefined || a.id === event.assetId) &&
+          (event.assetType === undefined || a.type === event.assetType),
+      );
+      for (const asset of targets) {
+        const shocked = Decimal.max(0, new Decimal(asset.value).times(1 + event.change));
+        navImpact = navImpact.plus(shocked.minus(asset.value));
+        asset.value = shocked.toNumber();
+      }
+      targetIds = targets.map((a) => a.id);
+      break;
+    }
+    case 'rate_change': {
+      if (event.liabilityId && !state.liabilities.some((l) => l.id === event.liabilityId)) {
+        throw unknownTarget(event, 'liability', event.liabilityId);
+      }
+      const targets = state.liabilities.filter(
+        (l) => event.liabilityId === undefined || l.id === event.liabilityId,
+      );
+      for (const liability of targets) {
+        liability.interestRate = event.interestRate;
+        // Level payments are re-sized over the remaining due dates at the new rate
+        const loan = state.loans[liability.id];
+        if (loan) {
+          loan.scheduledPayment = openLoan(liability, state.day, state.startDate).scheduledPayment;
+        }
+      }
+      targetIds = targets.map((l) => l.id);
+      break;
+    }
+    case 'expense_change': {
+      const expense = state.expenses.find((e) => e.id === event.expenseId);
+      if (!expense) throw unknownTarget(event, 'expense', event.expenseId);
+      expense.amount = event.amount;
+      targetIds = [expense.id];
+      break;
+    }
+  }
+
+  return {
+    eventId: event.id,
+    name: event.name,
+    type: event.type,
+    source,
+    day: state.day,
+    date: ctx.date,
+    balanceImpact: balanceImpact.toNumber(),
+    navImpact: navImpact.toNumber(),
+    targetIds,
+  };
+}
+
+/** Applies the events scheduled for `state.day`, in input order. */
+export function processEvents(state: SimulationState, ctx: DayContext): void {
+  for (const event of state.events) {
+    if (event.day !== state.day) continue;
+    state.appliedEvents.push(applyLifeEvent(state, event, ctx));
+  }
+}
@@ -3,9 +3,9 @@
  */
 import { describe, expect, it } from 'vitest';
 import Decimal from 'decimal.js';
-import { ExchangeRateEngine } from './fx.js';
+import { ExchangeRateEngine, auditConversions, summarizeConversions } from './fx.js';
 import { DeterministicRNG } from './rng.js';
-import type { ExchangeRate } from '@future-wallet/shared-types';
+import type { CurrencyConversionLog, ExchangeRate } from '@future-wallet/shared-types';
 
 const BASE_RATES: ExchangeRate[] = [
   { from: 'USD', to: 'EUR', rate: 0.85, date: '2026-01-01', volatility: 0.1 },
@@ -210,6 +210,104 @@ describe('ExchangeRateEngine', () => {
     });
   });
 
+  describe('dated rate series', () => {
+    const SERIES: ExchangeRate[] = [
+      { from: 'USD', to: 'EUR', rate: 0.9, date: '2026-02-01', volatility: 0 },
+      { from: 'USD', to: 'EUR', rate: 0.8, date: '2026-01-01', volatility: 0 },
+    ];
+
+    it('step holds the latest rate on or before the day', () => {
+      const engine = new ExchangeRateEngine(SERIES);
+      const rng = new DeterministicRNG(42);
+
+      expect(engine.getDailyRate('USD', 'EUR', 0, rng).toNumber()).toBe(0.8);
+      expect(engine.getDailyRate('USD', 'EUR', 30, rng).toNumber()).toBe(0.8); // Jan 31
+      expect(engine.getDailyRate('USD', 'EUR', 31, rng).toNumber()).toBe(0.9); // Feb 1
+      expect(engine.getDailyRate('USD', 'EUR', 400, rng).toNumber()).toBe(0.9);
+    });
+
+    it('linear interpolates by calendar time between entries', () => {
+      const engine = new ExchangeRateEngine(SERIES, { interpolation: 'linear' });
+      const rng = new DeterministicRNG(42);
+
+      const rate = engine.getDailyRate('USD', 'EUR', 10, rng);
+      expect(rate.toNumber()).toBeCloseTo(0.8 + (0.1 * 10) / 31, 12);
+      expect(engine.getDailyRate('EUR', 'USD', 10, rng).toNumber()).toBeCloseTo(
+        1 / rate.toNumber(),
+        12,
+      );
+    });
+
+    it('uses the first entry before the series starts', () => {
+      const engine = new ExchangeRateEngine(SERIES, { startDate: '2025-12-01' });
+      const rng = new DeterministicRNG(42);
+
+      expect(engine.getDailyRate('USD', 'EUR', 0, rng).toNumber()).toBe(0.8);
+    });
+
+    it('places days on the calendar from startDate', () => {
+      const engine = new ExchangeRateEngine(SERIES, { startDate: '2026-02-01' });
+      const rng = new DeterministicRNG(42);
+
+      expect(engine.getDailyRate('USD', 'EUR', 0, rng).toNumber()).toBe(0.9);
+    });
+  });
+
+  describe('triangulation', () => {
+    const LEGS: ExchangeRate[] = [
+      { from: 'EUR', to: 'USD', rate: 1.1, date: '2026-01-01', volatility: 0 },
+      { from: 'USD', to: 'JPY', rate: 150, date: '2026-01-01', volatility: 0 },
+      { from: 'EUR', to: 'CHF', rate: 0.95, date: '2026-01-01', volatility: 0 },
+      { from: 'CHF', to: 'JPY', rate: 170, date: '2026-01-01', volatility: 0 },
+    ];
+
+    it('crosses through a pivot when no pair is quoted', () => {
+      const engine = new ExchangeRateEngine(LEGS, { pivotCurrency: 'USD' });
+      const rng = new DeterministicRNG(42);
+
+      expect(engine.getPath('EUR', 'JPY')).toEqual(['EUR', 'USD', 'JPY']);
+      expect(engine.getDailyRate('EUR', 'JPY', 0, rng).toNumber()).toBeCloseTo(165, 10);
+      expect(engine.getDailyRate('JPY', 'EUR', 0, rng).toNumber()).toBeCloseTo(1 / 165, 14);
+    });
+
+    it('falls back to the alphabetically first pivot', () => {
+      const engine = new ExchangeRateEngine(LEGS);
+      expect(engine.getPath('EUR', 'JPY')).toEqual(['EUR', 'CHF', 'JPY']);
+    });
+
+    it('prefers a quoted pair over triangulation', () => {
+      const engine = new ExchangeRateEngine(LEGS, { pivotCurrency: 'USD' });
+      expect(engine.getPath('JPY', 'USD')).toEqual(['JPY', 'USD']);
+    });
+
+    it('records the path used in the conversion log', () => {
+      const engine = new ExchangeRateEngine(LEGS, { pivotCurrency: 'USD' });
+      const rng = new DeterministicRNG(42);
+
+      engine.convert(new Decimal(100), 'EUR', 'JPY', 0, rng, 'expense:Hotel');
+      engine.convert(new Decimal(100), 'EUR', 'USD', 0, rng, 'income:Salary');
+
+      const log = engine.getConversionLog();
+      expect(log[0].path).toEqual(['EUR', 'USD', 'JPY']);
+      expect(log[0].convertedAmount).toBeCloseTo(16500, 8);
+      expect(log[1].path).toEqual(['EUR', 'USD']);
+    });
+
+    it('keeps cross rates consistent with their legs under volatility', () => {
+      const engine = new ExchangeRateEngine(
+        LEGS.map((rate) => ({ ...rate, volatility: 0.2 })),
+        { pivotCurrency: 'USD' },
+      );
+      const rng = new DeterministicRNG(7);
+
+      const cross = engine.getDailyRate('EUR', 'JPY', 3, rng);
+      const legs = engine
+        .getDailyRate('EUR', 'USD', 3, rng)
+        .times(engine.getDailyRate('USD', 'JPY', 3, rng));
+      expect(cross.eq(legs)).toBe(true);
+    });
+  });
+
   describe('empty exchange rates', () => {
     it('handles empty rate list gracefully (same currency works)', () => {
       const engine = new ExchangeRateEngine([]);
@@ -229,3 +327,53 @@ describe('ExchangeRateEngine', () => {
     });
   });
 });
+
+describe('conversion audit', () => {
+  const LOG: CurrencyConversionLog[] = [
+    {
+      day: 0,
+      from: 'EUR',
+      to: 'USD',
+      originalAmount: 100,
+      convertedAmount: 110,
+      rateUsed: 1.1,
+      context: 'income:Salary',
+      path: ['EUR', 'USD'],
+    },
+    {
+      day: 3,
+      from: 'USD',
+      to: 'GBP',
+      originalAmount: 0.1,
+      convertedAmount: 0.08,
+      rateUsed: 0.8,
+      context: 'expense:Fees',
+      path: ['USD', 'GBP'],
+    },
+    {
+      day: 3,
+      from: 'USD',
+      to: 'GBP',
+      originalAmount: 0.2,
+      convertedAmount: 0.16,
+      rateUsed: 0.8,
+      context: 'expense:Fees',
+      path: ['USD', 'GBP'],
+    },
+  ];
+
+  it('sums volume per currency without float drift', () => {
+    expect(summarizeConversions(LOG)).toEqual([
+      { currency: 'EUR', conversions: 1, sent: 100, received: 0 },
+      { currency: 'GBP', conversions: 2, sent: 0, received: 0.24 },
+      { currency: 'USD', conversions: 3, sent: 0.3, received: 110 },
+    ]);
+  });
+
+  it('filters by inclusive day range and context prefix', () => {
+    expect(auditConversions(LOG, { fromDay: 1 }).entries).toHaveLength(2);
+    expect(auditConversions(LOG, { toDay: 0 }).entries).toHaveLength(1);
+    expect(auditConversions(LOG, { contextPrefix: 'income:' }).entries).toEqual([LOG[0]]);
+    expect(auditConversions(LOG, { fromDay: 4 })).toEqual({ entries: [], totals: [] });
+  });
+});
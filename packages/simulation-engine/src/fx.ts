@@ -2,6 +2,8 @@
  * Multi-currency exchange rate engine.
  *
  * Implements:
+ * - Dated rate series per pair, read with step or linear interpolation
+ * - Cross-rate triangulation through a pivot currency when no pair is quoted
  * - RNG-based daily rate fluctuation from base rates
  * - Conversion at exact transaction time (per spec Section 2.1)
  * - Decimal.js precision for all conversions
@@ -13,11 +15,32 @@
  */
 import Decimal from 'decimal.js';
 import type {
+  ConversionAudit,
+  ConversionAuditFilter,
   CurrencyCode,
   CurrencyConversionLog,
+  CurrencyConversionTotal,
   ExchangeRate,
+  FxInterpolation,
 } from '@future-wallet/shared-types';
 import type { DeterministicRNG } from './rng.js';
+import { DEFAULT_START_DATE, calendarDate } from './calendar.js';
+
+export interface ExchangeRateEngineOptions {
+  /** Calendar date of day 0, used to place days within dated rate series */
+  startDate?: string;
+  /** Reading between dated entries (default 'step') */
+  interpolation?: FxInterpolation;
+  /** Pivot tried first when triangulating (typically the base currency) */
+  pivotCurrency?: CurrencyCode;
+}
+
+/** One dated entry of a pair's rate series */
+interface RatePoint {
+  time: number; // UTC ms of the entry's date
+  rate: Decimal;
+  volatility: number;
+}
 
 /**
  * Manages exchange rates with deterministic daily fluctuation.
@@ -26,25 +49,45 @@ import type { DeterministicRNG } from './rng.js';
  * Ensures identical seeds produce identical rate sequences.
  */
 export class ExchangeRateEngine {
-  private baseRates: Map<string, ExchangeRate>;
+  private series: Map<string, RatePoint[]>; // "FROM:TO" -> entries by date
   private dailyRateCache: Map<string, Decimal>; // "day:FROM:TO" -> rate
+  private pathCache: Map<string, CurrencyCode[] | null>; // "FROM:TO" -> path
   private conversionLog: CurrencyConversionLog[];
+  private readonly startDate: string;
+  private readonly interpolation: FxInterpolation;
+  private readonly pivotCurrency: CurrencyCode | undefined;
 
-  constructor(exchangeRates: ExchangeRate[]) {
-    this.baseRates = new Map();
+  constructor(exchangeRates: ExchangeRate[], options: ExchangeRateEngineOptions = {}) {
+    this.series = new Map();
     this.dailyRateCache = new Map();
+    this.pathCache = new Map();
     this.conversionLog = [];
+    this.startDate = options.startDate ?? DEFAULT_START_DATE;
+    this.interpolation = options.interpolation ?? 'step';
+    this.pivotCurrency = options.pivotCurrency;
 
     for (const rate of exchangeRates) {
       const key = `${rate.from}:${rate.to}`;
-      this.baseRates.set(key, rate);
+      const points = this.series.get(key) ?? [];
+      points.push({
+        time: Date.parse(`${rate.date}T00:00:00Z`),
+        rate: new Decimal(rate.rate),
+        volatility: rate.volatility,
+      });
+      this.series.set(key, points);
+    }
+    // Stable sort: for entries on the same date, the later one in the input wins
+    for (const points of this.series.values()) {
+      points.sort((a, b) => a.time - b.time);
     }
   }
 
   /**
    * Gets the exchange rate for a given day with RNG-based volatility.
    *
-   * Rate = baseRate * (1 + gaussian(0, volatility / sqrt(365)))
+   * Rate = seriesRate(day) * (1 + gaussian(0, volatility / sqrt(365)))
+   * Pairs without a quoted (or inverse) series are triangulated through a
+   * pivot currency from the two legs' daily rates.
    * Cached per day to ensure consistent rates within the same day.
    */
   getDailyRate(from: CurrencyCode, to: CurrencyCode, day: number, rng: DeterministicRNG): Decimal {
@@ -55,46 +98,57 @@ export class ExchangeRateEngine {
     const cached = this.dailyRateCache.get(cacheKey);
     if (cached) return cached;
 
-    // Try direct rate
-    const directKey = `${from}:${to}`;
-    const directRate = this.baseRates.get(directKey);
-    if (directRate) {
-      const rate = this.applyVolatility(directRate, rng);
-      this.dailyRateCache.set(cacheKey, rate);
-
-      // Cache inverse too
-      const inverseKey = `${day}:${to}:${from}`;
-      if (!this.dailyRateCache.has(inverseKey)) {
-        this.dailyRateCache.set(inverseKey, new Decimal(1).div(rate));
-      }
+    const path = this.getPath(from, to);
+    if (!path) {
+      // No rate available — cannot convert
+      throw new Error(`No exchange rate available for ${from} -> ${to}`);
+    }
+    if (path.length === 2) return this.getQuotedRate(from, to, day, rng);
 
-      return rate;
+    let rate = new Decimal(1);
+    for (let i = 0; i < path.length - 1; i++) {
+      rate = rate.times(this.getQuotedRate(path[i], path[i + 1], day, rng));
     }
+    this.dailyRateCache.set(cacheKey, rate);
+    const inverseKey = `${day}:${to}:${from}`;
+    if (!this.dailyRateCache.has(inverseKey)) {
+      this.dailyRateCache.set(inverseKey, new Decimal(1).div(rate));
+    }
+    return rate;
+  }
 
-    // Try inverse rate
-    const inverseRateKey = `${to}:${from}`;
-    const inverseRate = this.baseRates.get(inverseRateKey);
-    if (inverseRate) {
-      const fwdRate = this.applyVolatility(inverseRate, rng);
-      const rate = new Decimal(1).div(fwdRate);
-      this.dailyRateCache.set(cacheKey, rate);
+  /**
+   * Returns the currencies a conversion passes through: [from, to] for a
+   * quoted pair, [from, pivot, to] when triangulated, or null if neither
+   * exists. The configured pivot is tried first, then others alphabetically.
+   */
+  getPath(from: CurrencyCode, to: CurrencyCode): CurrencyCode[] | null {
+    if (from === to) return [from, to];
 
-      // Cache the forward direction too
-      const fwdCacheKey = `${day}:${to}:${from}`;
-      if (!this.dailyRateCache.has(fwdCacheKey)) {
-        this.dailyRateCache.set(fwdCacheKey, fwdRate);
-      }
+    const key = `${from}:${to}`;
+    const cached = this.pathCache.get(key);
+    if (cached !== undefined) return cached;
 
-      return rate;
+    let path: CurrencyCode[] | null = null;
+    if (this.isQuoted(from, to)) {
+      path = [from, to];
+    } else {
+      const candidates = [...this.currencies()].filter((c) => c !== from && c !== to).sort();
+      if (this.pivotCurrency && candidates.includes(this.pivotCurrency)) {
+        candidates.splice(candidates.indexOf(this.pivotCurrency), 1);
+        candidates.unshift(this.pivotCurrency);
+      }
+      const pivot = candidates.find((c) => this.isQuoted(from, c) && this.isQuoted(c, to));
+      if (pivot) path = [from, pivot, to];
     }
 
-    // No rate available — cannot convert
-    throw new Error(`No exchange rate available for ${from} -> ${to}`);
+    this.pathCache.set(key, path);
+    return path;
   }
 
   /**
    * Converts an amount from one currency to another using the day's rate.
-   * Logs the conversion for precision audit.
+   * Logs the conversion, including the path taken, for precision audit.
    */
   convert(
     amount: Decimal,
@@ -118,6 +172,7 @@ export class ExchangeRateEngine {
       convertedAmount: converted.toNumber(),
       rateUsed: rate.toNumber(),
       context,
+      path: this.getPath(from, to) ?? [from, to],
     });
 
     return converted;
@@ -140,22 +195,101 @@ export class ExchangeRateEngine {
   }
 
   /**
-   * Checks if a conversion is possible between two currencies.
+   * Checks if a conversion is possible between two currencies,
+   * directly or through a pivot.
    */
   hasRate(from: CurrencyCode, to: CurrencyCode): boolean {
-    if (from === to) return true;
-    return this.baseRates.has(`${from}:${to}`) || this.baseRates.has(`${to}:${from}`);
+    return this.getPath(from, to) !== null;
+  }
+
+  private isQuoted(from: CurrencyCode, to: CurrencyCode): boolean {
+    return this.series.has(`${from}:${to}`) || this.series.has(`${to}:${from}`);
   }
 
-  private applyVolatility(rate: ExchangeRate, rng: DeterministicRNG): Decimal {
-    const baseRate = new Decimal(rate.rate);
+  private currencies(): Set<CurrencyCode> {
+    const currencies = new Set<CurrencyCode>();
+    for (const key of this.series.keys()) {
+      const [from, to] = key.split(':');
+      currencies.add(from);
+      currencies.add(to);
+    }
+    return currencies;
+  }
+
+  /** Daily rate of a directly or inversely quoted pair */
+  private getQuotedRate(
+    from: CurrencyCode,
+    to: CurrencyCode,
+    day: number,
+    rng: DeterministicRNG,
+  ): Decimal {
+    const cacheKey = `${day}:${from}:${to}`;
+    const cached = this.dailyRateCache.get(cacheKey);
+    if (cached) return cached;
+
+    // Try direct rate
+    const direct = this.series.get(`${from}:${to}`);
+    if (direct) {
+      const rate = this.applyVolatility(this.seriesPoint(direct, day), rng);
+      this.dailyRateCache.set(cacheKey, rate);
 
-    if (rate.volatility <= 0) {
+      // Cache inverse too
+      const inverseKey = `${day}:${to}:${from}`;
+      if (!this.dailyRateCache.has(inverseKey)) {
+        this.dailyRateCache.set(inverseKey, new Decimal(1).div(rate));
+      }
+
+      return rate;
+    }
+
+    // Inverse rate
+    const inverse = this.series.get(`${to}:${from}`)!;
+    const fwdRate = this.applyVolatility(this.seriesPoint(inverse, day), rng);
+    const rate = new Decimal(1).div(fwdRate);
+    this.dailyRateCache.set(cacheKey, rate);
+
+    // Cache the forward direction too
+    const fwdCacheKey = `${day}:${to}:${from}`;
+    if (!this.dailyRateCache.has(fwdCacheKey)) {
+      this.dailyRateCache.set(fwdCacheKey, fwdRate);
+    }
+
+    return rate;
+  }
+
+  /**
+   * Reads a pair's series on a simulation day. Before the first entry and
+   * after the last, the nearest entry applies; in between, `step` holds the
+   * latest entry and `linear` interpolates by calendar time. Volatility
+   * comes from the latest entry on or before the day.
+   */
+  private seriesPoint(points: RatePoint[], day: number): RatePoint {
+    const time = calendarDate(this.startDate, day).getTime();
+    let i = points.length - 1;
+    while (i >= 0 && points[i].time > time) i--;
+
+    if (i < 0) return points[0];
+    if (this.interpolation === 'step' || i === points.length - 1) return points[i];
+
+    const a = points[i];
+    const b = points[i + 1];
+    const weight = (time - a.time) / (b.time - a.time);
+    return {
+      time,
+      rate: a.rate.plus(b.rate.minus(a.rate).times(weight)),
+      volatility: a.volatility,
+    };
+  }
+
+  private applyVolatility(point: RatePoint, rng: DeterministicRNG): Decimal {
+    const baseRate = point.rate;
+
+    if (point.volatility <= 0) {
       return baseRate;
     }
 
     // Daily fluctuation: gaussian noise scaled by annualized volatility
-    const dailyVol = rate.volatility / Math.sqrt(365);
+    const dailyVol = point.volatility / Math.sqrt(365);
     const shock = rng.gaussian(0, dailyVol);
     // Ensure rate stays positive
     const factor = new Decimal(1 + shock);
@@ -164,3 +298,66 @@ export class ExchangeRateEngine {
     return adjustedRate;
   }
 }
+
+// ─── Conversion Audit ───────────────────────────────────────────────────────────
+
+/**
+ * Keeps the log entries within [fromDay, toDay] whose context starts with
+ * `contextPrefix`; omitted bounds do not filter.
+ */
+export function filterConversionLog(
+  log: CurrencyConversionLog[],
+  filter: ConversionAuditFilter,
+): CurrencyConversionLog[] {
+  return log.filter(
+    (entry) =>
+      (filter.fromDay === undefined || entry.day >= filter.fromDay) &&
+      (filter.toDay === undefined || entry.day <= filter.toDay) &&
+      (filter.contextPrefix === undefined || entry.context.startsWith(filter.contextPrefix)),
+  );
+}
+
+/**
+ * Aggregates conversion volume per currency, summed in Decimal.js and
+ * sorted by currency code.
+ */
+export function summarizeConversions(log: CurrencyConversionLog[]): CurrencyConversionTotal[] {
+  const totals = new Map<CurrencyCode, { conversions: number; sent: Decimal; received: Decimal }>();
+  const totalFor = (currency: CurrencyCode) => {
+    let total = totals.get(currency);
+    if (!total) {
+      total = { conversions: 0, sent: new Decimal(0), received: new Decimal(0) };
+      totals.set(currency, total);
+    }
+    return total;
+  };
+
+  for (const entry of log) {
+    const from = totalFor(entry.from);
+    from.conversions++;
+    from.sent = from.sent.plus(entry.originalAmount);
+    const to = totalFor(entry.to);
+    to.conversions++;
+    to.received = to.received.plus(entry.convertedAmount);
+  }
+
+  return [...totals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([currency, total]) => ({
+      currency,
+      conversions: total.conversions,
+      sent: total.sent.toNumber(),
+      received: total.received.toNumber(),
+    }));
+}
+
+/**
+ * Builds the conversion audit for a run: the filtered entries and their totals.
+ */
+export function auditConversions(
+  log: CurrencyConversionLog[],
+  filter: ConversionAuditFilter = {},
+): ConversionAudit {
+  const entries = filterConversionLog(log, filter);
+  return { entries, totals: summarizeConversions(entries) };
+}
@@ -4,22 +4,112 @@
  * Deterministic financial simulation engine.
  * Pure-function architecture — no side effects, no Math.random().
  */
-export { simulate, simulateBranch, simulateSingleRun } from './engine.js';
+export {
+  simulate,
+  simulateBranch,
+  simulateScenarios,
+  simulateBranchTree,
+  simulateSingleRun,
+  checkpointAtDay,
+  branchInputFor,
+  createComponentRegistry,
+  BUILT_IN_COMPONENTS,
+  DEFAULT_MONTE_CARLO_RUNS,
+  mergeMonteCarlo,
+  monteCarloConfigFor,
+  bandAccumulatorFor,
+  summarizeRun,
+  type BranchFork,
+  type EngineCheckpoint,
+  type MonteCarloRunSummary,
+  type SimulateOptions,
+  type SimulateBranchOptions,
+} from './engine.js';
 export { DeterministicRNG } from './rng.js';
-export { topologicalSort, type DAGNode } from './dag.js';
+export { topologicalSort, DAGCycleError, type DAGNode } from './dag.js';
+export { ComponentRegistry, type DayContext, type SimulationComponent } from './components.js';
 export {
   createInitialState,
   stateToSnapshot,
   deriveVibeState,
   derivePetState,
   snapshotState,
+  forkState,
+  outstandingDebt,
+  initialPositionLots,
+  consumeLots,
   type SimulationState,
+  type StateOverrides,
+  type PositionLot,
 } from './state.js';
-export { ExchangeRateEngine } from './fx.js';
+export {
+  ExchangeRateEngine,
+  auditConversions,
+  filterConversionLog,
+  summarizeConversions,
+  type ExchangeRateEngineOptions,
+} from './fx.js';
+export { perturbInput, DEFAULT_PERTURBATION_FACTOR } from './perturbation.js';
+export {
+  BandAccumulator,
+  bandSampleIndices,
+  DEFAULT_MAX_BAND_POINTS,
+  type BandSample,
+} from './bands.js';
 export {
   computeProgressiveTax,
   computeCapitalGainsTax,
+  computeDailyCapitalGainsTax,
   computeDailyTax,
+  rollLossCarryForward,
   type TaxResult,
 } from './tax.js';
-export { computeBranchDeltas, compareBranches } from './branch.js';
+export {
+  levelPayment,
+  openLoan,
+  openLoans,
+  stepLoan,
+  liabilityType,
+  DEFAULT_BALLOON_AMORTIZATION_DAYS,
+  type LoanState,
+} from './amortization.js';
+export { isRecurrenceDay, countRecurrenceDays } from './recurrence.js';
+export { applyLifeEvent, processEvents, isIncomeSuspended } from './events.js';
+export { processShocks, dailyHazardProbability, drawSeverity, shockEvent } from './shocks.js';
+export {
+  calendarDate,
+  formatDate,
+  daysInMonth,
+  isDayOfMonth,
+  isLastBusinessDay,
+  isYearStart,
+  DEFAULT_START_DATE,
+} from './calendar.js';
+export { applyBranchPatch, patchState, BranchPatchError } from './patch.js';
+export { diffInputs } from './diff.js';
+export {
+  detectRecurring,
+  type DetectRecurringOptions,
+  type RecurringDetection,
+} from './recurring.js';
+export {
+  computeBranchDeltas,
+  computeBranchTimeline,
+  compareBranches,
+  compareScenarios,
+  compareBranchTree,
+} from './branch.js';
+export {
+  goalSeek,
+  readParameter,
+  withParameter,
+  solveMetric,
+  DEFAULT_RELATIVE_VALUE_TOLERANCE,
+  type GoalSeekOptions,
+} from './solver.js';
+export {
+  sensitivityReport,
+  sensitivityParameters,
+  type SensitivityOptions,
+  type SensitivityParameter,
+} from './sensitivity.js';
@@ -0,0 +1,191 @@
+/**
+ * Branch patch tests — id-keyed collection edits and field overrides.
+ */
+import { describe, expect, it } from 'vitest';
+import { applyBranchPatch, BranchPatchError, patchState } from './patch.js';
+import { createInitialState } from './state.js';
+import type { SimulationInput } from '@future-wallet/shared-types';
+
+const SALARY = '11111111-1111-4111-8111-111111111111';
+const RENT = '22222222-2222-4222-8222-222222222222';
+const BONUS = '33333333-3333-4333-8333-333333333333';
+const FUND = '44444444-4444-4444-8444-444444444444';
+const LOAN = '55555555-5555-4555-8555-555555555555';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 60,
+  baseCurrency: 'USD',
+  initialBalance: 10000,
+  incomeStreams: [
+    {
+      id: SALARY,
+      name: 'Salary',
+      amount: 3000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: RENT,
+      name: 'Rent',
+      amount: 1500,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [
+    {
+      id: FUND,
+      name: 'Index Fund',
+      type: 'volatile',
+      value: 10000,
+      currency: 'USD',
+      volatility: 0.2,
+      yieldRate: 0.05,
+      liquidationPenalty: 0,
+      locked: false,
+    },
+  ],
+  liabilities: [
+    {
+      id: LOAN,
+      name: 'Car Loan',
+      type: 'amortizing',
+      principal: 8000,
+      interestRate: 0.07,
+      currency: 'USD',
+      minimumPayment: 250,
+      remainingTermDays: 1825,
+    },
+  ],
+  exchangeRates: [],
+  taxConfig: {
+    brackets: [{ upperBound: 1_000_000, rate: 0.2 }],
+    capitalGainsRate: 0.15,
+    currency: 'USD',
+  },
+};
+
+const BONUS_STREAM = {
+  id: BONUS,
+  name: 'Bonus',
+  amount: 500,
+  currency: 'USD',
+  recurrence: 'monthly' as const,
+  startDay: 0,
+};
+
+describe('applyBranchPatch', () => {
+  it('adds items next to the existing ones', () => {
+    const patched = applyBranchPatch(INPUT, { incomeStreams: { add: [BONUS_STREAM] } });
+
+    expect(patched.incomeStreams.map((s) => s.name)).toEqual(['Salary', 'Bonus']);
+    expect(patched.expenses).toEqual(INPUT.expenses);
+    expect(INPUT.incomeStreams).toHaveLength(1);
+  });
+
+  it('updates only the named fields', () => {
+    const patched = applyBranchPatch(INPUT, {
+      expenses: { update: [{ id: RENT, amount: 1800 }] },
+    });
+
+    expect(patched.expenses).toEqual([{ ...INPUT.expenses[0], amount: 1800 }]);
+  });
+
+  it('removes items by id before adding replacements', () => {
+    const patched = applyBranchPatch(INPUT, {
+      incomeStreams: { remove: [SALARY], add: [{ ...BONUS_STREAM, id: SALARY }] },
+    });
+
+    expect(patched.incomeStreams).toEqual([{ ...BONUS_STREAM, id: SALARY }]);
+  });
+
+  it('overrides fields with set and clears configs with null', () => {
+    const patched = applyBranchPatch(INPUT, {
+      set: { taxConfig: null, fxInterpolation: 'linear' },
+    });
+
+    expect(patched.taxConfig).toBeUndefined();
+    expect(patched.fxInterpolation).toBe('linear');
+    expect(applyBranchPatch(INPUT, { set: {} }).taxConfig).toEqual(INPUT.taxConfig);
+  });
+
+  it('rejects unknown and duplicate ids', () => {
+    expect(() => applyBranchPatch(INPUT, { expenses: { remove: [BONUS] } })).toThrow(
+      BranchPatchError,
+    );
+    expect(() => applyBranchPatch(INPUT, { expenses: { update: [{ id: BONUS }] } })).toThrow(
+      `Cannot update expense ${BONUS}: not found`,
+    );
+    expect(() =>
+      applyBranchPatch(INPUT, { incomeStreams: { add: [{ ...BONUS_STREAM, id: SALARY }] } }),
+    ).toThrow(`Cannot add income stream ${SALARY}: id already in use`);
+  });
+});
+
+describe('patchState', () => {
+  const evolved = () => {
+    const state = createInitialState({ ...INPUT, startDate: '2026-01-01' });
+    state.day = 20;
+    state.assets[0].value = 11000;
+    state.liabilities[0].principal = 7500;
+    return state;
+  };
+
+  it('keeps evolved values of items and fields the patch leaves alone', () => {
+    const patch = {
+      assets: { update: [{ id: FUND, yieldRate: 0.08 }] },
+      incomeStreams: { add: [BONUS_STREAM] },
+    };
+    const fork = patchState(evolved(), patch, applyBranchPatch(INPUT, patch));
+
+    expect(fork.assets[0]).toMatchObject({ value: 11000, yieldRate: 0.08 });
+    expect(fork.liabilities[0].principal).toBe(7500);
+    expect(fork.incomeStreams.map((s) => s.id)).toEqual([SALARY, BONUS]);
+  });
+
+  it('re-sizes the payment of a re-priced loan and drops removed ones', () => {
+    const state = evolved();
+    const repriced = { liabilities: { update: [{ id: LOAN, interestRate: 0.03 }] } };
+    const fork = patchState(state, repriced, applyBranchPatch(INPUT, repriced));
+
+    expect(fork.liabilities[0]).toMatchObject({ principal: 7500, interestRate: 0.03 });
+    expect(fork.loans[LOAN].scheduledPayment).toBeLessThan(state.loans[LOAN].scheduledPayment);
+
+    const removed = { liabilities: { remove: [LOAN] }, assets: { remove: [FUND] } };
+    const paidOff = patchState(state, removed, applyBranchPatch(INPUT, removed));
+    expect(paidOff.loans).toEqual({});
+    expect(paidOff.positionLots).toEqual({});
+  });
+
+  it('copies the fields it sets instead of sharing them with the input', () => {
+    const patch = {
+      set: {
+        taxConfig: { ...INPUT.taxConfig!, capitalGainsRate: 0.2 },
+        shockConfig: {
+          hazards: [
+            {
+              kind: 'medical' as const,
+              annualRate: 1,
+              severity: { distribution: 'fixed' as const, value: 500 },
+            },
+          ],
+        },
+      },
+    };
+    const input = applyBranchPatch(INPUT, patch);
+    const fork = patchState(evolved(), patch, input);
+
+    expect(fork.taxConfig).toEqual(input.taxConfig);
+    expect(fork.shockConfig).toEqual(input.shockConfig);
+    fork.taxConfig!.brackets[0].rate = 0.5;
+    fork.shockConfig!.hazards[0].annualRate = 12;
+    expect(input.taxConfig!.brackets[0].rate).toBe(0.2);
+    expect(input.shockConfig!.hazards[0].annualRate).toBe(1);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Branch patches — edits a branch layers over its parent's input instead
+ * of replacing whole collections.
+ *
+ * Each id-keyed collection applies `remove`, then `update` (only the given
+ * fields change), then `add`; `set` overrides whole fields. applyBranchPatch()
+ * yields the branch's input. patchState() makes the same edits to a state
+ * forked mid-run, so items the patch leaves alone keep what they evolved to
+ * by the branch day: asset values, paid-down principal, changed expenses.
+ */
+import type { BranchPatch, SimulationInput } from '@future-wallet/shared-types';
+import { openLoan } from './amortization.js';
+import {
+  forkState,
+  initialPositionLots,
+  type SimulationState,
+  type StateOverrides,
+} from './state.js';
+
+/**
+ * Thrown when a patch names ids its input does not have, or adds ones it
+ * does, or when a branch's combined input is invalid
+ */
+export class BranchPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BranchPatchError';
+  }
+}
+
+type Identified = { id: string };
+
+interface CollectionPatch<T, U extends Identified> {
+  add?: T[];
+  update?: U[];
+  remove?: string[];
+}
+
+/** The fields an update names (zod leaves omitted ones undefined) */
+function namedFields<T>(update: Partial<T>): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(update).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+function patchCollection<T extends Identified, U extends Identified = Partial<T> & Identified>(
+  items: readonly T[],
+  patch: CollectionPatch<T, U> | undefined,
+  label: string,
+  merge: (item: T, update: U) => T,
+): T[] {
+  if (!patch) return [...items];
+  const has = (list: readonly Identified[], id: string) => list.some((item) => item.id === id);
+
+  for (const id of patch.remove ?? []) {
+    if (!has(items, id)) throw new BranchPatchError(`Cannot remove ${label} ${id}: not found`);
+  }
+  let result = items.filter((item) => !patch.remove?.includes(item.id));
+
+  for (const update of patch.update ?? []) {
+    const id = update.id;
+    if (!has(result, id)) throw new BranchPatchError(`Cannot update ${label} ${id}: not found`);
+    result = result.map((item) => (item.id === id ? merge(item, update) : item));
+  }
+
+  for (const item of patch.add ?? []) {
+    if (has(result, item.id)) {
+      throw new BranchPatchError(`Cannot add ${label} ${item.id}: id already in use`);
+    }
+    result = [...result, item];
+  }
+  return result;
+}
+
+function mergeFields<T>(item: T, update: Partial<T>): T {
+  return { ...item, ...namedFields(update) };
+}
+
+/**
+ * `input` with `patch` applied; `input` itself is left unchanged.
+ *
+ * @throws BranchPatchError if the patch removes or updates an id the input
+ *   does not have, or adds one it does
+ */
+export function applyBranchPatch(input: SimulationInput, patch: BranchPatch): SimulationInput {
+  const { taxConfig, shockConfig, ...fields } = patch.set ?? {};
+  return {
+    ...input,
+    ...namedFields(fields),
+    ...(taxConfig !== undefined && { taxConfig: taxConfig ?? undefined }),
+    ...(shockConfig !== undefined && { shockConfig: shockConfig ?? undefined }),
+    incomeStreams: patchCollection(
+      input.incomeStreams,
+      patch.incomeStreams,
+      'income stream',
+      mergeFields,
+    ),
+    expenses: patchCollection(input.expenses, patch.expenses, 'expense', mergeFields),
+    assets: patchCollection(input.assets, patch.assets, 'asset', mergeFields),
+    liabilities: patchCollection(input.liabilities, patch.liabilities, 'liability', mergeFields),
+    ...(patch.events && {
+      events: patchCollection(input.events ?? [], patch.events, 'event', (_, event) => event),
+    }),
+  };
+}
+
+/**
+ * Applies `patch` to a state forked at the branch day and returns the
+ * result; `state` is left unchanged. Updated fields and added items are
+ * read from `input`, the branch's (perturbed) patched input, so they carry
+ * the run's jitter. Other fields of updated items keep their evolved
+ * values. Assets whose value or cost basis changes restart their lots;
+ * liabilities whose terms change have their level payment re-sized over
+ * the remaining due dates.
+ */
+export function patchState(
+  state: SimulationState,
+  patch: BranchPatch,
+  input: SimulationInput,
+): SimulationState {
+  // forkState deep-copies the fields `set` replaces, so the fork never shares them with the input
+  const { exchangeRates, taxConfig, shockConfig } = patch.set ?? {};
+  const overrides: StateOverrides = {};
+  if (exchangeRates) overrides.exchangeRates = input.exchangeRates;
+  if (taxConfig !== undefined) overrides.taxConfig = input.taxConfig;
+  if (shockConfig !== undefined) overrides.shockConfig = input.shockConfig;
+  const fork = forkState(state, overrides);
+
+  const fromInput = <T extends Identified>(items: readonly T[]) => {
+    return (item: T, update: Partial<T>): T => {
+      const source = items.find((i) => i.id === item.id) ?? item;
+      const fields = Object.keys(namedFields(update)) as (keyof T)[];
+      return { ...item, ...Object.fromEntries(fields.map((key) => [key, source[key]])) };
+    };
+  };
+  const added = <T extends Identified>(items: readonly T[], add: Identified[] | undefined) => ({
+    add: (add ?? []).map((a) => ({ ...items.find((i) => i.id === a.id)! })),
+  });
+
+  if (patch.incomeStreams) {
+    fork.incomeStreams = patchCollection(
+      fork.incomeStreams,
+      { ...patch.incomeStreams, ...added(input.incomeStreams, patch.incomeStreams.add) },
+      'income stream',
+      fromInput(input.incomeStreams),
+    );
+  }
+  if (patch.expenses) {
+    fork.expenses = patchCollection(
+      fork.expenses,
+      { ...patch.expenses, ...added(input.expenses, patch.expenses.add) },
+      'expense',
+      fromInput(input.expenses),
+    );
+  }
+  if (patch.assets) {
+    fork.assets = patchCollection(
+      fork.assets,
+      { ...patch.assets, ...added(input.assets, patch.assets.add) },
+      'asset',
+      fromInput(input.assets),
+    );
+    for (const id of patch.assets.remove ?? []) delete fork.positionLots[id];
+    const restarted = [
+      ...(patch.assets.add ?? []),
+      ...(patch.assets.update ?? []).filter(
+        (u) => u.value !== undefined || u.costBasis !== undefined || u.lots !== undefined,
+      ),
+    ];
+    const assets = fork.assets.filter((a) => restarted.some((r) => r.id === a.id));
+    Object.assign(fork.positionLots, initialPositionLots(assets));
+  }
+  if (patch.liabilities) {
+    fork.liabilities = patchCollection(
+      fork.liabilities,
+      { ...patch.liabilities, ...added(input.liabilities, patch.liabilities.add) },
+      'liability',
+      fromInput(input.liabilities),
+    );
+    for (const id of patch.liabilities.remove ?? []) delete fork.loans[id];
+    for (const { id } of patch.liabilities.add ?? []) {
+      const liability = fork.liabilities.find((l) => l.id === id)!;
+      fork.loans[id] = openLoan(liability, fork.day, fork.startDate);
+    }
+    for (const { id } of patch.liabilities.update ?? []) {
+      const liability = fork.liabilities.find((l) => l.id === id)!;
+      const loan = fork.loans[id];
+      if (loan) {
+        loan.scheduledPayment = openLoan(liability, fork.day, fork.startDate).scheduledPayment;
+      }
+    }
+  }
+  if (patch.events) {
+    // Events already applied stay applied; patched events take effect from the fork day
+    fork.events = patchCollection(fork.events, patch.events, 'event', (_, event) => event);
+  }
+  return fork;
+}
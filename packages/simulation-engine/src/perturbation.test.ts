@@ -0,0 +1,114 @@
+/**
+ * Monte Carlo perturbation tests — bounded, deterministic, id-keyed jitter.
+ */
+import { describe, expect, it } from 'vitest';
+import { perturbInput } from './perturbation.js';
+import type { SimulationInput } from '@future-wallet/shared-types';
+
+const INPUT: SimulationInput = {
+  seed: 7,
+  horizonDays: 30,
+  baseCurrency: 'USD',
+  initialBalance: 1000,
+  incomeStreams: [
+    {
+      id: '11111111-1111-1111-1111-111111111111',
+      name: 'Salary',
+      amount: 3000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: '22222222-2222-2222-2222-222222222222',
+      name: 'Rent',
+      amount: 1500,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [
+    {
+      id: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+      name: 'Bonds',
+      type: 'yield_generating',
+      value: 5000,
+      currency: 'USD',
+      volatility: 0.05,
+      yieldRate: 0.04,
+      liquidationPenalty: 0,
+      locked: false,
+    },
+  ],
+  liabilities: [
+    {
+      id: 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+      name: 'Loan',
+      principal: 10000,
+      interestRate: 0.06,
+      currency: 'USD',
+      minimumPayment: 300,
+      remainingTermDays: 365,
+    },
+  ],
+  exchangeRates: [],
+  monteCarloConfig: { runs: 10, perturbationFactor: 0.1 },
+};
+
+describe('perturbInput', () => {
+  it('leaves the primary run (index 0) untouched', () => {
+    expect(perturbInput(INPUT, 0)).toBe(INPUT);
+  });
+
+  it('leaves inputs untouched when perturbationFactor is 0', () => {
+    const input = { ...INPUT, monteCarloConfig: { runs: 10, perturbationFactor: 0 } };
+    expect(perturbInput(input, 3)).toBe(input);
+  });
+
+  it('jitters amounts and rates within ±perturbationFactor', () => {
+    for (let run = 1; run < 20; run++) {
+      const p = perturbInput(INPUT, run);
+      expect(p.incomeStreams[0].amount).toBeGreaterThanOrEqual(3000 * 0.9);
+      expect(p.incomeStreams[0].amount).toBeLessThanOrEqual(3000 * 1.1);
+      expect(p.expenses[0].amount).toBeGreaterThanOrEqual(1500 * 0.9);
+      expect(p.expenses[0].amount).toBeLessThanOrEqual(1500 * 1.1);
+      expect(p.assets[0].yieldRate).toBeGreaterThanOrEqual(0.04 * 0.9);
+      expect(p.assets[0].yieldRate).toBeLessThanOrEqual(0.04 * 1.1);
+      expect(p.liabilities[0].interestRate).toBeGreaterThanOrEqual(0.06 * 0.9);
+      expect(p.liabilities[0].interestRate).toBeLessThanOrEqual(0.06 * 1.1);
+    }
+  });
+
+  it('does not touch non-perturbed fields or the original input', () => {
+    const p = perturbInput(INPUT, 1);
+    expect(p.incomeStreams[0].amount).not.toBe(3000);
+    expect(p.assets[0].value).toBe(5000);
+    expect(p.assets[0].volatility).toBe(0.05);
+    expect(p.liabilities[0].principal).toBe(10000);
+    expect(INPUT.incomeStreams[0].amount).toBe(3000);
+  });
+
+  it('is deterministic per run index and varies across runs', () => {
+    expect(perturbInput(INPUT, 4)).toEqual(perturbInput(INPUT, 4));
+    expect(perturbInput(INPUT, 4).expenses[0].amount).not.toBe(
+      perturbInput(INPUT, 5).expenses[0].amount,
+    );
+  });
+
+  it('keys jitter on item id, independent of collection contents', () => {
+    const extra = {
+      ...INPUT,
+      expenses: [
+        { ...INPUT.expenses[0], id: '33333333-3333-3333-3333-333333333333', name: 'Food' },
+        ...INPUT.expenses,
+      ],
+    };
+    expect(perturbInput(extra, 2).expenses[1].amount).toBe(
+      perturbInput(INPUT, 2).expenses[0].amount,
+    );
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Monte Carlo parameter perturbation.
+ *
+ * Each Monte Carlo run beyond the primary one jitters the uncertain numeric
+ * parameters of the input by up to ±perturbationFactor:
+ * - IncomeStream.amount
+ * - Expense.amount
+ * - Asset.yieldRate
+ * - Liability.interestRate
+ *
+ * Jitter is drawn from a DeterministicRNG keyed on (seed, run index, item id),
+ * so a given item receives the same jitter in every input that contains it —
+ * a branch and its baseline stay comparable run-for-run.
+ */
+import type { SimulationInput } from '@future-wallet/shared-types';
+import { DeterministicRNG } from './rng.js';
+
+/** Default perturbation when no Monte Carlo config is supplied */
+export const DEFAULT_PERTURBATION_FACTOR = 0.05;
+
+function jitterFactor(seed: number, runIndex: number, id: string, factor: number): number {
+  const rng = new DeterministicRNG(`perturb:${seed}:${runIndex}:${id}`);
+  return 1 + rng.range(-factor, factor);
+}
+
+/**
+ * Returns a copy of `input` with parameters jittered for Monte Carlo run
+ * `runIndex`. Run 0 (the primary trajectory) is always returned unchanged.
+ */
+export function perturbInput(input: SimulationInput, runIndex: number): SimulationInput {
+  const factor = input.monteCarloConfig?.perturbationFactor ?? DEFAULT_PERTURBATION_FACTOR;
+  if (runIndex === 0 || factor <= 0) return input;
+
+  const jitter = (id: string) => jitterFactor(input.seed, runIndex, id, factor);
+
+  return {
+    ...input,
+    incomeStreams: input.incomeStreams.map((s) => ({ ...s, amount: s.amount * jitter(s.id) })),
+    expenses: input.expenses.map((e) => ({ ...e, amount: e.amount * jitter(e.id) })),
+    assets: input.assets.map((a) => ({ ...a, yieldRate: a.yieldRate * jitter(a.id) })),
+    liabilities: input.liabilities.map((l) => ({
+      ...l,
+      interestRate: l.interestRate * jitter(l.id),
+    })),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Recurrence tests — calendar-accurate schedules from the simulation start date.
+ */
+import { describe, expect, it } from 'vitest';
+import { countRecurrenceDays, isRecurrenceDay } from './recurrence.js';
+import { calendarDate, formatDate, isLastBusinessDay, isYearStart } from './calendar.js';
+import type { Recurrence } from '@future-wallet/shared-types';
+
+/** Dates on which a schedule falls due within the first `days` days */
+function dueDates(recurrence: Recurrence, startDate: string, days: number, startDay = 0): string[] {
+  const dates: string[] = [];
+  for (let day = 0; day < days; day++) {
+    if (isRecurrenceDay(day, recurrence, startDay, startDate)) {
+      dates.push(formatDate(calendarDate(startDate, day)));
+    }
+  }
+  return dates;
+}
+
+describe('calendar', () => {
+  it('maps day offsets to UTC dates across month and year ends', () => {
+    expect(formatDate(calendarDate('2026-01-01', 0))).toBe('2026-01-01');
+    expect(formatDate(calendarDate('2026-01-01', 31))).toBe('2026-02-01');
+    expect(formatDate(calendarDate('2026-12-31', 1))).toBe('2027-01-01');
+    expect(formatDate(calendarDate('2028-02-28', 1))).toBe('2028-02-29');
+  });
+
+  it('finds the last weekday of a month', () => {
+    expect(isLastBusinessDay(new Date('2026-01-30T00:00:00Z'))).toBe(true); // Friday
+    expect(isLastBusinessDay(new Date('2026-01-31T00:00:00Z'))).toBe(false); // Saturday
+    expect(isLastBusinessDay(new Date('2026-03-31T00:00:00Z'))).toBe(true); // Tuesday
+  });
+
+  it('detects tax-year starts', () => {
+    expect(isYearStart(new Date('2027-01-01T00:00:00Z'))).toBe(true);
+    expect(isYearStart(new Date('2027-01-02T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('isRecurrenceDay', () => {
+  it('monthly keeps the start day of month, clamped to shorter months', () => {
+    expect(dueDates('monthly', '2026-01-31', 120)).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+    ]);
+  });
+
+  it('monthly lands on Feb 29 in leap years', () => {
+    expect(dueDates('monthly', '2028-01-30', 60)).toEqual(['2028-01-30', '2028-02-29']);
+  });
+
+  it('monthly anchors on the stream start day, not the simulation start', () => {
+    expect(dueDates('monthly', '2026-01-01', 75, 14)).toEqual([
+      '2026-01-15',
+      '2026-02-15',
+      '2026-03-15',
+    ]);
+  });
+
+  it('yearly falls on Feb 28 when a Feb 29 anniversary has no leap day', () => {
+    expect(dueDates('yearly', '2028-02-29', 3 * 365)).toEqual([
+      '2028-02-29',
+      '2029-02-28',
+      '2030-02-28',
+    ]);
+  });
+
+  it('semimonthly pays on the 1st and 15th', () => {
+    expect(dueDates('semimonthly', '2026-01-10', 40)).toEqual([
+      '2026-01-15',
+      '2026-02-01',
+      '2026-02-15',
+    ]);
+  });
+
+  it('last_business_day skips weekend month ends', () => {
+    expect(dueDates('last_business_day', '2026-01-01', 90)).toEqual([
+      '2026-01-30',
+      '2026-02-27',
+      '2026-03-31',
+    ]);
+  });
+
+  it('day-counted schedules are unaffected by the calendar', () => {
+    expect(dueDates('biweekly', '2026-02-20', 30)).toEqual([
+      '2026-02-20',
+      '2026-03-06',
+      '2026-03-20',
+    ]);
+    expect(dueDates('once', '2026-02-20', 30, 3)).toEqual(['2026-02-23']);
+  });
+});
+
+describe('countRecurrenceDays', () => {
+  it('counts calendar months within an inclusive day range', () => {
+    // 2026-01-01 … 2027-01-01 holds 13 firsts of the month
+    expect(countRecurrenceDays('monthly', 0, 0, 365, '2026-01-01')).toBe(13);
+    expect(countRecurrenceDays('monthly', 0, 1, 365, '2026-01-01')).toBe(12);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Recurrence schedules shared by income, expenses and liability due dates.
+ *
+ * Daily, weekly and biweekly schedules count days from `startDay`; the
+ * calendar schedules follow real dates from the simulation `startDate`:
+ * - monthly: the start day's day of month, clamped to shorter months
+ * - yearly: the start day's month and day (Feb 29 falls on Feb 28 in common years)
+ * - semimonthly: the 1st and 15th of each month
+ * - last_business_day: the last Monday–Friday of each month
+ */
+import type { Recurrence } from '@future-wallet/shared-types';
+import { DEFAULT_START_DATE, calendarDate, isDayOfMonth, isLastBusinessDay } from './calendar.js';
+
+/**
+ * Whether a schedule starting on `startDay` falls due on `day`.
+ */
+export function isRecurrenceDay(
+  day: number,
+  recurrence: Recurrence,
+  startDay: number,
+  startDate: string = DEFAULT_START_DATE,
+): boolean {
+  const elapsed = day - startDay;
+  if (elapsed < 0) return false;
+
+  switch (recurrence) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return elapsed % 7 === 0;
+    case 'biweekly':
+      return elapsed % 14 === 0;
+    case 'monthly': {
+      const anchor = calendarDate(startDate, startDay);
+      return isDayOfMonth(calendarDate(startDate, day), anchor.getUTCDate());
+    }
+    case 'yearly': {
+      const anchor = calendarDate(startDate, startDay);
+      const date = calendarDate(startDate, day);
+      return date.getUTCMonth() === anchor.getUTCMonth() && isDayOfMonth(date, anchor.getUTCDate());
+    }
+    case 'semimonthly': {
+      const dayOfMonth = calendarDate(startDate, day).getUTCDate();
+      return dayOfMonth === 1 || dayOfMonth === 15;
+    }
+    case 'last_business_day':
+      return isLastBusinessDay(calendarDate(startDate, day));
+    case 'once':
+      return elapsed === 0;
+  }
+}
+
+/**
+ * Counts the due days of a schedule within [fromDay, toDay] (inclusive).
+ */
+export function countRecurrenceDays(
+  recurrence: Recurrence,
+  startDay: number,
+  fromDay: number,
+  toDay: number,
+  startDate: string = DEFAULT_START_DATE,
+): number {
+  let count = 0;
+  for (let day = Math.max(fromDay, startDay); day <= toDay; day++) {
+    if (isRecurrenceDay(day, recurrence, startDay, startDate)) count++;
+  }
+  return count;
+}
@@ -0,0 +1,130 @@
+/**
+ * Recurring transaction detection tests — cadences, amounts, start days
+ * and confidence scores.
+ */
+import { describe, expect, it } from 'vitest';
+import { detectRecurring } from './recurring.js';
+import { calendarDate, formatDate, isLastBusinessDay } from './calendar.js';
+import type { Transaction } from '@future-wallet/shared-types';
+
+/** Transactions on every day of the first half of 2026 that `onDay` picks */
+function series(
+  description: string,
+  amount: (i: number) => number,
+  onDay: (date: Date, day: number) => boolean,
+): Transaction[] {
+  const transactions: Transaction[] = [];
+  for (let day = 0; day < 181; day++) {
+    const date = calendarDate('2026-01-01', day);
+    if (onDay(date, day)) {
+      transactions.push({
+        date: formatDate(date),
+        amount: amount(transactions.length),
+        description,
+      });
+    }
+  }
+  return transactions;
+}
+
+const SALARY = series('ACME PAYROLL 0425', () => 3000, isLastBusinessDay);
+const RENT = series(
+  'RENT PAYMENT #1182',
+  () => -1500,
+  (d) => d.getUTCDate() === 1,
+);
+const GYM = series(
+  'GYM CLUB 7731',
+  () => -20,
+  (d) => d.getUTCDay() === 1,
+);
+const SIDE_GIG = series(
+  'SIDE GIG',
+  (i) => 400 + (i % 3) * 25,
+  (_, day) => day % 14 === 4,
+);
+const COFFEE = [
+  { date: '2026-01-03', amount: -4.5, description: 'Corner Coffee' },
+  { date: '2026-02-19', amount: -6.25, description: 'Corner Coffee' },
+  { date: '2026-03-01', amount: -12, description: 'Corner Coffee' },
+];
+
+let next = 0;
+const newId = () => `00000000-0000-4000-8000-${String(++next).padStart(12, '0')}`;
+
+describe('detectRecurring', () => {
+  const statement = [...SALARY, ...RENT, ...GYM, ...SIDE_GIG, ...COFFEE];
+
+  it('detects each series and its recurrence', () => {
+    const { proposals, unmatched, startDate } = detectRecurring(statement, {
+      currency: 'USD',
+      newId,
+    });
+
+    const found = Object.fromEntries(
+      proposals.map((p) => [p.entry.name, [p.kind, p.entry.recurrence, p.entry.amount]]),
+    );
+    expect(found).toEqual({
+      'Acme Payroll': ['income', 'last_business_day', 3000],
+      'Rent Payment': ['expense', 'monthly', 1500],
+      'Gym Club': ['expense', 'weekly', 20],
+      'Side Gig': ['income', 'biweekly', 425],
+    });
+    expect(unmatched).toBe(COFFEE.length);
+    expect(startDate).toBe('2026-07-01');
+    for (const p of proposals) {
+      if (p.kind === 'expense') expect(p.entry.essential).toBe(false);
+    }
+  });
+
+  it('scores steady series above ones whose amounts vary', () => {
+    const { proposals } = detectRecurring(statement, { currency: 'USD', newId });
+    const confidence = (name: string) => proposals.find((p) => p.entry.name === name)!.confidence;
+
+    expect(confidence('Rent Payment')).toBeGreaterThan(0.95);
+    expect(confidence('Side Gig')).toBeLessThan(confidence('Rent Payment'));
+    expect(proposals.map((p) => p.confidence)).toEqual(
+      [...proposals.map((p) => p.confidence)].sort((a, b) => b - a),
+    );
+  });
+
+  it('starts entries on the day their series falls due next', () => {
+    const { proposals } = detectRecurring(statement, {
+      currency: 'EUR',
+      startDate: '2026-07-02',
+      newId,
+    });
+    const entry = (name: string) => proposals.find((p) => p.entry.name === name)!.entry;
+
+    expect(entry('Rent Payment')).toMatchObject({ startDay: 30, currency: 'EUR' });
+    // 2026-07-02 is a Thursday; the gym charges on Mondays
+    expect(entry('Gym Club').startDay).toBe(4);
+  });
+
+  it('needs enough occurrences, except for yearly series', () => {
+    const insurance = [
+      { date: '2024-03-10', amount: -600, description: 'Car Insurance' },
+      { date: '2025-03-11', amount: -620, description: 'Car Insurance' },
+    ];
+    const { proposals } = detectRecurring([...RENT.slice(0, 2), ...insurance], {
+      currency: 'USD',
+      newId,
+    });
+
+    expect(proposals.map((p) => [p.entry.name, p.recurrence, p.confidence])).toEqual([
+      ['Car Insurance', 'yearly', 0.49],
+    ]);
+    expect(
+      detectRecurring(RENT.slice(0, 2), { currency: 'USD', minOccurrences: 2, newId }).proposals,
+    ).toHaveLength(1);
+  });
+
+  it('halves the confidence of a series that stopped', () => {
+    const cancelled = GYM.filter((t) => t.date < '2026-03-01');
+    const current = detectRecurring([...GYM, ...RENT], { currency: 'USD', newId }).proposals;
+    const stopped = detectRecurring([...cancelled, ...RENT], { currency: 'USD', newId }).proposals;
+    const gym = (proposals: typeof current) => proposals.find((p) => p.entry.name === 'Gym Club')!;
+
+    expect(gym(stopped).confidence).toBeCloseTo(gym(current).confidence / 2, 2);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Recurring transaction detection — turns a bank statement into proposed
+ * income streams and expenses.
+ *
+ * Transactions are grouped by direction (deposit or payment) and by their
+ * description with digits and punctuation dropped, then split into clusters
+ * of similar amounts. A cluster whose typical gap between dates matches a
+ * schedule becomes a proposal: daily, weekly, biweekly or yearly by gap
+ * length; monthly, unless its dates sit on the 1st and 15th (semimonthly)
+ * or on the last weekday of the month (last_business_day).
+ */
+import type { Recurrence, RecurringProposal, Transaction } from '@future-wallet/shared-types';
+import {
+  DEFAULT_START_DATE,
+  calendarDate,
+  daysInMonth,
+  formatDate,
+  isDayOfMonth,
+  isLastBusinessDay,
+} from './calendar.js';
+
+export interface DetectRecurringOptions {
+  /** Currency of the proposed entries */
+  currency: string;
+  /** Day 0 of the input the entries are for (default: the day after the last transaction) */
+  startDate?: string;
+  /** Occurrences a series needs to be proposed (default: 3; yearly series need only 2) */
+  minOccurrences?: number;
+  /** Makes the id of each proposed entry */
+  newId: () => string;
+}
+
+export interface RecurringDetection {
+  startDate: string;
+  /** Most confident first */
+  proposals: RecurringProposal[];
+  /** Transactions in no proposal */
+  unmatched: number;
+}
+
+interface Cadence {
+  recurrence: Recurrence;
+  /** Typical days between occurrences */
+  days: number;
+  /** Days a gap may differ from `days` and still count as on schedule */
+  slack: number;
+}
+
+const CADENCES: Cadence[] = [
+  { recurrence: 'daily', days: 1, slack: 0 },
+  { recurrence: 'weekly', days: 7, slack: 1 },
+  { recurrence: 'biweekly', days: 14, slack: 2 },
+  { recurrence: 'monthly', days: 30.44, slack: 3 },
+  { recurrence: 'yearly', days: 365.25, slack: 7 },
+];
+const SEMIMONTHLY: Cadence = { recurrence: 'semimonthly', days: 15.22, slack: 3 };
+const LAST_BUSINESS_DAY: Cadence = { recurrence: 'last_business_day', days: 30.44, slack: 3 };
+
+/** Amounts up to this fraction above a cluster's smallest join the cluster */
+const AMOUNT_TOLERANCE = 0.15;
+/** Share of a series' dates that must fall on a calendar schedule's days */
+const CALENDAR_SHARE = 0.75;
+const MS_PER_DAY = 86_400_000;
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / MS_PER_DAY);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Lower-case words of a description, without digits, punctuation or single letters */
+function descriptionKey(description: string): string {
+  return description
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((word) => word.length > 1)
+    .join(' ');
+}
+
+/** Within two days of the 1st or the 15th, allowing for weekend shifts */
+function isSemimonthlyDay(date: Date): boolean {
+  const day = date.getUTCDate();
+  const lastDay = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return day <= 3 || day >= lastDay - 1 || Math.abs(day - 15) <= 2;
+}
+
+/** Splits transactions into clusters of amounts close to each cluster's smallest */
+function amountClusters(transactions: Transaction[]): Transaction[][] {
+  const sorted = [...transactions].sort((a, b) => Math.abs(a.amount) - Math.abs(b.amount));
+  const clusters: Transaction[][] = [];
+  for (const transaction of sorted) {
+    const cluster = clusters.at(-1);
+    if (
+      cluster &&
+      Math.abs(transaction.amount) <= Math.abs(cluster[0].amount) * (1 + AMOUNT_TOLERANCE)
+    ) {
+      cluster.push(transaction);
+    } else {
+      clusters.push([transaction]);
+    }
+  }
+  return clusters;
+}
+
+/** The schedule a series of sorted dates follows, if any */
+function detectCadence(dates: string[], gaps: number[]): Cadence | undefined {
+  const typical = median(gaps);
+  const share = (onSchedule: (date: Date) => boolean) =>
+    dates.filter((date) => onSchedule(toDate(date))).length / dates.length;
+
+  if (
+    Math.abs(typical - SEMIMONTHLY.days) <= SEMIMONTHLY.slack &&
+    share(isSemimonthlyDay) >= CALENDAR_SHARE
+  ) {
+    return SEMIMONTHLY;
+  }
+  const cadence = CADENCES.find((c) => Math.abs(typical - c.days) <= c.slack);
+  if (cadence?.recurrence === 'monthly' && share(isLastBusinessDay) >= CALENDAR_SHARE) {
+    return LAST_BUSINESS_DAY;
+  }
+  return cadence;
+}
+
+/**
+ * Confidence in a series: the share of gaps on schedule, times how little
+ * the amounts vary, times a factor growing with the number of occurrences
+ * (2 → 0.5, 3 → 0.75, 4 → 0.875), halved if the series stopped more than
+ * two periods before the statement ends.
+ */
+function seriesConfidence(
+  cadence: Cadence,
+  gaps: number[],
+  amounts: number[],
+  stopped: boolean,
+): number {
+  const regularity =
+    gaps.filter((gap) => Math.abs(gap - cadence.days) <= cadence.slack).length / gaps.length;
+  const mean = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+  const spread = Math.sqrt(amounts.reduce((sum, a) => sum + (a - mean) ** 2, 0) / amounts.length);
+  const consistency = Math.max(0, 1 - spread / mean);
+  const support = 1 - 0.5 ** (amounts.length - 1);
+  return round2(regularity * consistency * support * (stopped ? 0.5 : 1));
+}
+
+/** First day from `startDate` on which a series seen on `dates` falls due next */
+function firstDueDay(recurrence: Recurrence, dates: string[], startDate: string): number {
+  const last = dates[dates.length - 1];
+  const firstDay = (isDue: (date: Date) => boolean) => {
+    for (let day = 0; day <= 366; day++) {
+      if (isDue(calendarDate(startDate, day))) return day;
+    }
+    return 0;
+  };
+
+  switch (recurrence) {
+    case 'weekly':
+    case 'biweekly': {
+      const period = recurrence === 'weekly' ? 7 : 14;
+      return ((-daysBetween(last, startDate) % period) + period) % period;
+    }
+    case 'monthly': {
+      const counts = new Map<number, number>();
+      for (const date of dates) {
+        const day = toDate(date).getUTCDate();
+        counts.set(day, (counts.get(day) ?? 0) + 1);
+      }
+      const [anchor] = [...counts].sort(([a, m], [b, n]) => n - m || b - a)[0];
+      return firstDay((date) => isDayOfMonth(date, anchor));
+    }
+    case 'yearly': {
+      const anchor = toDate(last);
+      return firstDay(
+        (date) =>
+          date.getUTCMonth() === anchor.getUTCMonth() && isDayOfMonth(date, anchor.getUTCDate()),
+      );
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Proposes income streams (from recurring deposits) and expenses (from
+ * recurring payments) found in `transactions`. Amounts are each series'
+ * median; entries start on the first day from `startDate` their series
+ * would next fall due.
+ */
+export function detectRecurring(
+  transactions: Transaction[],
+  options: DetectRecurringOptions,
+): RecurringDetection {
+  const { currency, minOccurrences = 3, newId } = options;
+  const lastDate = transactions.reduce<string | undefined>(
+    (latest, t) => (latest === undefined || t.date > latest ? t.date : latest),
+    undefined,
+  );
+  const startDate =
+    options.startDate ?? (lastDate ? formatDate(calendarDate(lastDate, 1)) : DEFAULT_START_DATE);
+
+  const groups = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    if (transaction.amount === 0) continue;
+    const direction = transaction.amount > 0 ? 'income' : 'expense';
+    const key = `${direction}:${descriptionKey(transaction.description)}`;
+    groups.set(key, [...(groups.get(key) ?? []), transaction]);
+  }
+
+  const proposals: RecurringProposal[] = [];
+  let matched = 0;
+  for (const [key, group] of groups) {
+    const [direction, words] = key.split(':');
+    for (const cluster of amountClusters(group)) {
+      const series = cluster.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+      const dates = series.map((t) => t.date);
+      const gaps = dates.slice(1).map((date, i) => daysBetween(dates[i], date));
+      const cadence = gaps.length > 0 ? detectCadence(dates, gaps) : undefined;
+      if (!cadence) continue;
+      if (series.length < (cadence.recurrence === 'yearly' ? 2 : minOccurrences)) continue;
+
+      const amounts = series.map((t) => Math.abs(t.amount));
+      const seriesEnd = dates[dates.length - 1];
+      const stopped = lastDate !== undefined && daysBetween(seriesEnd, lastDate) > 2 * cadence.days;
+      const entry = {
+        id: newId(),
+        name: words
+          ? words.replace(/\b[a-z]/g, (c) => c.toUpperCase())
+          : direction === 'income'
+            ? 'Deposit'
+            : 'Payment',
+        amount: round2(median(amounts)),
+        currency,
+        recurrence: cadence.recurrence,
+        startDay: firstDueDay(cadence.recurrence, dates, startDate),
+      };
+      const summary = {
+        recurrence: cadence.recurrence,
+        occurrences: series.length,
+        firstDate: dates[0],
+        lastDate: seriesEnd,
+        confidence: seriesConfidence(cadence, gaps, amounts, stopped),
+      };
+      proposals.push(
+        direction === 'income'
+          ? { kind: 'income', entry, ...summary }
+          : { kind: 'expense', entry: { ...entry, essential: false }, ...summary },
+      );
+      matched += series.length;
+    }
+  }
+
+  proposals.sort((a, b) => b.confidence - a.confidence || b.entry.amount - a.entry.amount);
+  return { startDate, proposals, unmatched: transactions.length - matched };
+}
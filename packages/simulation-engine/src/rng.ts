@@ -7,10 +7,11 @@
 import seedrandom from 'seedrandom';
 
 export class DeterministicRNG {
-  private rng: seedrandom.PRNG;
+  private rng: seedrandom.StatefulPRNG<seedrandom.State.Arc4>;
 
-  constructor(seed: number) {
-    this.rng = seedrandom(seed.toString());
+  /** Numeric seeds drive runs; string seeds derive independent side streams. */
+  constructor(seed: number | string) {
+    this.rng = seedrandom(seed.toString(), { state: true });
   }
 
   /** Returns a deterministic float in [0, 1) */
@@ -30,4 +31,14 @@ export class DeterministicRNG {
     const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
     return mean + z * stddev;
   }
+
+  /**
+   * Returns an independent generator positioned at the same point in the
+   * stream. Used to resume a run from a mid-simulation checkpoint.
+   */
+  clone(): DeterministicRNG {
+    const copy = Object.create(DeterministicRNG.prototype) as DeterministicRNG;
+    copy.rng = seedrandom('', { state: this.rng.state() });
+    return copy;
+  }
 }
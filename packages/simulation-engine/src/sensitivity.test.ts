@@ -0,0 +1,103 @@
+/**
+ * Sensitivity tests — parameter discovery, clamping, baseline deltas and ranking.
+ */
+import { describe, expect, it } from 'vitest';
+import { sensitivityParameters, sensitivityReport } from './sensitivity.js';
+import type { SimulationInput } from '@future-wallet/shared-types';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 60,
+  baseCurrency: 'USD',
+  initialBalance: 5000,
+  incomeStreams: [
+    {
+      id: '11111111-1111-1111-1111-111111111111',
+      name: 'Salary',
+      amount: 3000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: '22222222-2222-2222-2222-222222222222',
+      name: 'Rent',
+      amount: 1500,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+    {
+      id: '33333333-3333-3333-3333-333333333333',
+      name: 'Coffee',
+      amount: 3,
+      currency: 'USD',
+      recurrence: 'daily',
+      startDay: 0,
+      essential: false,
+    },
+  ],
+  assets: [
+    {
+      id: '44444444-4444-4444-4444-444444444444',
+      name: 'Index Fund',
+      type: 'volatile',
+      value: 10000,
+      currency: 'USD',
+      volatility: 0.95,
+      yieldRate: 0.05,
+      liquidationPenalty: 0.01,
+      locked: false,
+    },
+  ],
+  liabilities: [],
+  exchangeRates: [],
+  monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+};
+
+describe('sensitivityParameters', () => {
+  it('lists amounts, yields, volatilities and rates by path', () => {
+    expect(sensitivityParameters(INPUT).map((p) => [p.parameter, p.label])).toEqual([
+      ['incomeStreams.11111111-1111-1111-1111-111111111111.amount', 'Salary amount'],
+      ['expenses.22222222-2222-2222-2222-222222222222.amount', 'Rent amount'],
+      ['expenses.33333333-3333-3333-3333-333333333333.amount', 'Coffee amount'],
+      ['assets.44444444-4444-4444-4444-444444444444.yieldRate', 'Index Fund yield rate'],
+      ['assets.44444444-4444-4444-4444-444444444444.volatility', 'Index Fund volatility'],
+    ]);
+  });
+});
+
+describe('sensitivityReport', () => {
+  const report = sensitivityReport({ input: INPUT, variation: 0.1, rankBy: 'finalBalance' });
+
+  it('reports changes against the baseline', () => {
+    const rent = report.entries.find((e) => e.label === 'Rent amount')!;
+    expect(rent.lowValue).toBe(1350);
+    expect(rent.highValue).toBeCloseTo(1650, 10);
+    // Rent falls due on Jan 1, Feb 1 and Mar 1
+    expect(rent.low.finalBalance).toBeCloseTo(450, 6);
+    expect(rent.high.finalBalance).toBeCloseTo(-450, 6);
+    expect(rent.impact).toBeCloseTo(900, 6);
+  });
+
+  it('ranks entries by impact, largest first', () => {
+    const impacts = report.entries.map((e) => e.impact);
+    expect(impacts).toEqual([...impacts].sort((a, b) => b - a));
+    expect(report.entries[0].label).toBe('Salary amount');
+  });
+
+  it('clamps varied values to their schema limits', () => {
+    const volatility = report.entries.find((e) => e.field === 'volatility')!;
+    expect(volatility.lowValue).toBeCloseTo(0.855, 10);
+    expect(volatility.highValue).toBe(1);
+  });
+
+  it('is deterministic', () => {
+    expect(sensitivityReport({ input: INPUT, variation: 0.1, rankBy: 'finalBalance' })).toEqual(
+      report,
+    );
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Sensitivity analysis — how far each input parameter moves the outcome.
+ *
+ * Each income and expense amount, asset yield rate and volatility, and
+ * liability interest rate is moved down and up by `variation`, one at a
+ * time, and simulated with the input's seed. The resulting changes in final
+ * balance, collapse probability and credit score against the unmodified
+ * baseline are reported per parameter, widest swing first: the rows of a
+ * tornado chart.
+ */
+import type {
+  SensitivityEntry,
+  SensitivityOutcome,
+  SensitivityReport,
+  SensitivityRequest,
+  SimulationInput,
+  SimulationOutput,
+} from '@future-wallet/shared-types';
+import type { ComponentRegistry } from './components.js';
+import { simulate } from './engine.js';
+import { withParameter } from './solver.js';
+
+/** A parameter varied by the sensitivity report */
+export interface SensitivityParameter {
+  /** Dot path, as accepted by withParameter() */
+  parameter: string;
+  label: string;
+  field: SensitivityEntry['field'];
+  baseValue: number;
+  /** Schema limits the varied value is clamped to */
+  min: number;
+  max: number;
+}
+
+const FIELD_LABELS: Record<SensitivityEntry['field'], string> = {
+  amount: 'amount',
+  yieldRate: 'yield rate',
+  volatility: 'volatility',
+  interestRate: 'interest rate',
+};
+
+function parameterOf(
+  collection: string,
+  item: { id: string; name: string },
+  field: SensitivityEntry['field'],
+  baseValue: number,
+  limits: { min?: number; max?: number } = {},
+): SensitivityParameter {
+  return {
+    parameter: `${collection}.${item.id}.${field}`,
+    label: `${item.name} ${FIELD_LABELS[field]}`,
+    field,
+    baseValue,
+    min: limits.min ?? -Infinity,
+    max: limits.max ?? Infinity,
+  };
+}
+
+/** The parameters a sensitivity report varies, in input order */
+export function sensitivityParameters(input: SimulationInput): SensitivityParameter[] {
+  return [
+    ...input.incomeStreams.map((s) => parameterOf('incomeStreams', s, 'amount', s.amount)),
+    ...input.expenses.map((e) => parameterOf('expenses', e, 'amount', e.amount)),
+    ...input.assets.flatMap((a) => [
+      parameterOf('assets', a, 'yieldRate', a.yieldRate),
+      parameterOf('assets', a, 'volatility', a.volatility, { min: 0, max: 1 }),
+    ]),
+    ...input.liabilities.map((l) =>
+      parameterOf('liabilities', l, 'interestRate', l.interestRate, { min: 0 }),
+    ),
+  ];
+}
+
+function outcomeOf(output: SimulationOutput): SensitivityOutcome {
+  return {
+    finalBalance: output.finalBalance.expected,
+    collapseProbability: output.collapseProbability,
+    creditScore: output.finalCreditScore,
+  };
+}
+
+function outcomeChange(
+  outcome: SensitivityOutcome,
+  baseline: SensitivityOutcome,
+): SensitivityOutcome {
+  return {
+    finalBalance: outcome.finalBalance - baseline.finalBalance,
+    collapseProbability: outcome.collapseProbability - baseline.collapseProbability,
+    creditScore: outcome.creditScore - baseline.creditScore,
+  };
+}
+
+export interface SensitivityOptions {
+  /** Day components to run instead of the built-ins */
+  components?: ComponentRegistry;
+}
+
+/**
+ * Simulates the baseline and, for every parameter, the input with that
+ * parameter scaled by 1 − variation and 1 + variation (clamped to its
+ * schema limits). Entries are ordered by their `rankBy` swing, largest
+ * first; equal swings keep input order.
+ */
+export function sensitivityReport(
+  request: SensitivityRequest,
+  options: SensitivityOptions = {},
+): SensitivityReport {
+  const { input, variation, rankBy } = request;
+  const run = (runInput: SimulationInput) => outcomeOf(simulate(runInput, options));
+  const baseline = run(input);
+
+  const entries = sensitivityParameters(input).map((param): SensitivityEntry => {
+    const clamp = (value: number) => Math.min(param.max, Math.max(param.min, value));
+    const lowValue = clamp(param.baseValue * (1 - variation));
+    const highValue = clamp(param.baseValue * (1 + variation));
+    const low = outcomeChange(run(withParameter(input, param.parameter, lowValue)), baseline);
+    const high = outcomeChange(run(withParameter(input, param.parameter, highValue)), baseline);
+
+    return {
+      parameter: param.parameter,
+      label: param.label,
+      field: param.field,
+      baseValue: param.baseValue,
+      lowValue,
+      highValue,
+      low,
+      high,
+      impact: Math.abs(high[rankBy] - low[rankBy]),
+    };
+  });
+
+  entries.sort((a, b) => b.impact - a.impact);
+  return { variation, rankBy, baseline, entries };
+}
@@ -0,0 +1,230 @@
+/**
+ * Stochastic shock tests — hazard probabilities, severity draws, and determinism.
+ */
+import { describe, expect, it } from 'vitest';
+import { dailyHazardProbability, drawSeverity, shockEvent } from './shocks.js';
+import { DeterministicRNG } from './rng.js';
+import { simulate } from './engine.js';
+import type { ShockConfig, SimulationInput } from '@future-wallet/shared-types';
+
+const SALARY_ID = '11111111-1111-1111-1111-111111111111';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 365,
+  baseCurrency: 'USD',
+  initialBalance: 5000,
+  incomeStreams: [
+    {
+      id: SALARY_ID,
+      name: 'Salary',
+      amount: 100,
+      currency: 'USD',
+      recurrence: 'daily',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: '22222222-2222-2222-2222-222222222222',
+      name: 'Living',
+      amount: 80,
+      currency: 'USD',
+      recurrence: 'daily',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [
+    {
+      id: '33333333-3333-3333-3333-333333333333',
+      name: 'Index Fund',
+      type: 'volatile',
+      value: 10000,
+      currency: 'USD',
+      volatility: 0,
+      yieldRate: 0,
+      liquidationPenalty: 0,
+      locked: false,
+    },
+  ],
+  liabilities: [],
+  exchangeRates: [],
+  monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+};
+
+const SHOCKS: ShockConfig = {
+  hazards: [
+    { kind: 'job_loss', annualRate: 2, severity: { distribution: 'uniform', min: 30, max: 90 } },
+    {
+      kind: 'medical',
+      annualRate: 4,
+      severity: { distribution: 'lognormal', median: 2000, sigma: 1 },
+    },
+    { kind: 'car_repair', annualRate: 3, severity: { distribution: 'fixed', value: 800 } },
+    { kind: 'market_drawdown', annualRate: 1, severity: { distribution: 'fixed', value: 0.3 } },
+  ],
+};
+
+describe('dailyHazardProbability', () => {
+  it('is zero for a zero rate and approaches rate / 365 for small rates', () => {
+    expect(dailyHazardProbability(0)).toBe(0);
+    expect(dailyHazardProbability(0.365)).toBeCloseTo(0.001, 6);
+  });
+
+  it('compounds to the Poisson probability of at least one event per year', () => {
+    const p = dailyHazardProbability(2);
+    expect(1 - (1 - p) ** 365).toBeCloseTo(1 - Math.exp(-2), 10);
+  });
+});
+
+describe('drawSeverity', () => {
+  it('draws uniform severities within bounds', () => {
+    const rng = new DeterministicRNG(1);
+    for (let i = 0; i < 100; i++) {
+      const value = drawSeverity({ distribution: 'uniform', min: 10, max: 20 }, rng);
+      expect(value).toBeGreaterThanOrEqual(10);
+      expect(value).toBeLessThan(20);
+    }
+  });
+
+  it('centres lognormal severities on the median', () => {
+    const rng = new DeterministicRNG(2);
+    const draws = Array.from({ length: 2001 }, () =>
+      drawSeverity({ distribution: 'lognormal', median: 1000, sigma: 0.5 }, rng),
+    ).sort((a, b) => a - b);
+    expect(draws[1000]).toBeGreaterThan(900);
+    expect(draws[1000]).toBeLessThan(1100);
+  });
+
+  it('returns fixed severities without drawing', () => {
+    const rng = new DeterministicRNG(3);
+    const next = rng.clone().next();
+    expect(drawSeverity({ distribution: 'fixed', value: 5 }, rng)).toBe(5);
+    expect(rng.next()).toBe(next);
+  });
+});
+
+describe('shockEvent', () => {
+  it('maps each hazard kind to its life event', () => {
+    const fixed = { distribution: 'fixed' as const, value: 1 };
+    expect(
+      shockEvent({ kind: 'job_loss', annualRate: 1, severity: fixed }, 0, 44.6, 7, 'USD'),
+    ).toMatchObject({
+      type: 'income_suspension',
+      durationDays: 45,
+      day: 7,
+    });
+    expect(
+      shockEvent({ kind: 'medical', annualRate: 1, severity: fixed }, 0, 2500, 7, 'USD'),
+    ).toMatchObject({
+      type: 'cash_shock',
+      amount: -2500,
+      currency: 'USD',
+    });
+    expect(
+      shockEvent({ kind: 'market_drawdown', annualRate: 1, severity: fixed }, 0, 1.4, 7, 'USD'),
+    ).toMatchObject({ type: 'asset_shock', change: -1, assetType: 'volatile' });
+  });
+
+  it('keeps same-day shocks of one kind apart by hazard index', () => {
+    const hazard = {
+      kind: 'medical' as const,
+      annualRate: 1,
+      severity: { distribution: 'fixed' as const, value: 1 },
+    };
+    expect(shockEvent(hazard, 0, 100, 7, 'USD').id).toBe('shock:0:medical:7');
+    expect(shockEvent(hazard, 1, 100, 7, 'USD').id).toBe('shock:1:medical:7');
+  });
+});
+
+describe('simulate() with shockConfig', () => {
+  it('injects shocks reproducibly per seed', () => {
+    const input = { ...INPUT, shockConfig: SHOCKS };
+    const first = simulate(input);
+    const second = simulate(input);
+
+    expect(first.appliedEvents!.length).toBeGreaterThan(0);
+    expect(first.appliedEvents!.every((e) => e.source === 'stochastic')).toBe(true);
+    expect(second.appliedEvents).toEqual(first.appliedEvents);
+    expect(second.snapshots).toEqual(first.snapshots);
+
+    const other = simulate({ ...input, seed: 43 });
+    expect(other.appliedEvents).not.toEqual(first.appliedEvents);
+  });
+
+  it('applies each shock to the state', () => {
+    const result = simulate({ ...INPUT, shockConfig: SHOCKS });
+    for (const event of result.appliedEvents!) {
+      const today = result.snapshots[event.day];
+      if (event.type === 'income_suspension') {
+        expect(event.targetIds).toEqual([SALARY_ID]);
+        expect(today.totalIncome).toBe(0);
+      }
+      if (event.type === 'cash_shock') expect(event.balanceImpact).toBeLessThan(0);
+    }
+  });
+
+  it('counts every applied shock against the resilience index', () => {
+    // Small bills that never cause a deficit still count
+    const result = simulate({
+      ...INPUT,
+      shockConfig: {
+        hazards: [
+          { kind: 'medical', annualRate: 3, severity: { distribution: 'fixed', value: 1 } },
+        ],
+      },
+    });
+    const shocks = result.appliedEvents!.length;
+    expect(shocks).toBeGreaterThan(0);
+    expect(result.snapshots.every((s) => s.balance >= 0)).toBe(true);
+    expect(result.snapshots.at(-1)!.shockResilienceIndex).toBe(Math.max(0, 100 - 10 * shocks));
+  });
+
+  it('never fires a zero-rate hazard', () => {
+    const { computedAt: _a, ...plain } = simulate(INPUT);
+    const {
+      computedAt: _b,
+      appliedEvents,
+      ...zeroRate
+    } = simulate({
+      ...INPUT,
+      shockConfig: {
+        hazards: [
+          { kind: 'medical', annualRate: 0, severity: { distribution: 'fixed', value: 1 } },
+        ],
+      },
+    });
+
+    expect(plain.appliedEvents).toBeUndefined();
+    expect(appliedEvents).toEqual([]);
+    expect(zeroRate.snapshots.map((s) => s.balance)).toEqual(plain.snapshots.map((s) => s.balance));
+  });
+
+  it('raises Monte Carlo collapse probability with tail risk', () => {
+    const input: SimulationInput = {
+      ...INPUT,
+      assets: [],
+      monteCarloConfig: { runs: 40, perturbationFactor: 0 },
+    };
+    const calm = simulate(input);
+    const shocked = simulate({
+      ...input,
+      shockConfig: {
+        hazards: [
+          {
+            kind: 'medical',
+            annualRate: 2,
+            severity: { distribution: 'lognormal', median: 6000, sigma: 0.8 },
+          },
+        ],
+      },
+    });
+
+    expect(calm.collapseProbability).toBe(0);
+    expect(shocked.collapseProbability).toBeGreaterThan(0);
+    expect(shocked.snapshots.at(-1)!.shockResilienceIndex).toBeLessThanOrEqual(
+      calm.snapshots.at(-1)!.shockResilienceIndex,
+    );
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Stochastic shock generator.
+ *
+ * Each day, every hazard in `shockConfig` fires with probability
+ * 1 − e^(−annualRate / 365) (a Poisson process at `annualRate` events per
+ * year). A fired hazard draws its severity and becomes a life event
+ * (see ShockKindSchema) applied like a scheduled one, and counts as a
+ * shock against the Shock Resilience Index. All draws come from
+ * the run's DeterministicRNG, so shocks are bit-exact per seed and differ
+ * between Monte Carlo runs.
+ */
+import type { LifeEvent, ShockHazard, ShockSeverity } from '@future-wallet/shared-types';
+import type { DayContext } from './components.js';
+import type { DeterministicRNG } from './rng.js';
+import type { SimulationState } from './state.js';
+import { applyLifeEvent } from './events.js';
+
+const SHOCK_NAMES: Record<ShockHazard['kind'], string> = {
+  job_loss: 'Job loss',
+  car_repair: 'Car repair',
+  medical: 'Medical event',
+  market_drawdown: 'Market drawdown',
+};
+
+/** Probability that a hazard with `annualRate` expected events per year fires on a given day */
+export function dailyHazardProbability(annualRate: number): number {
+  return 1 - Math.exp(-annualRate / 365);
+}
+
+export function drawSeverity(severity: ShockSeverity, rng: DeterministicRNG): number {
+  switch (severity.distribution) {
+    case 'fixed':
+      return severity.value;
+    case 'uniform':
+      return rng.range(severity.min, severity.max);
+    case 'lognormal':
+      return severity.median * Math.exp(severity.sigma * rng.gaussian());
+  }
+}
+
+/**
+ * The life event a fired hazard turns into on `day`. Its id names the
+ * hazard's index in `shockConfig.hazards`, so hazards of the same kind
+ * firing on the same day stay apart.
+ */
+export function shockEvent(
+  hazard: ShockHazard,
+  hazardIndex: number,
+  severity: number,
+  day: number,
+  baseCurrency: string,
+): LifeEvent {
+  const base = {
+    id: `shock:${hazardIndex}:${hazard.kind}:${day}`,
+    name: SHOCK_NAMES[hazard.kind],
+    day,
+  };
+  switch (hazard.kind) {
+    case 'job_loss':
+      return {
+        ...base,
+        type: 'income_suspension',
+        incomeStreamId: hazard.incomeStreamId,
+        durationDays: Math.max(1, Math.round(severity)),
+      };
+    case 'car_repair':
+    case 'medical':
+      return {
+        ...base,
+        type: 'cash_shock',
+        amount: -severity,
+        currency: hazard.currency ?? baseCurrency,
+      };
+    case 'market_drawdown':
+      return {
+        ...base,
+        type: 'asset_shock',
+        change: -Math.min(1, severity),
+        assetType: hazard.assetType ?? 'volatile',
+      };
+  }
+}
+
+/**
+ * Draws today's shocks, applies them and counts each in `shockCount`.
+ * Draws nothing without a `shockConfig`, so inputs without one keep their
+ * random sequence.
+ */
+export function processShocks(state: SimulationState, ctx: DayContext): void {
+  state.shockConfig?.hazards.forEach((hazard, i) => {
+    if (ctx.rng.next() >= dailyHazardProbability(hazard.annualRate)) return;
+
+    const severity = drawSeverity(hazard.severity, ctx.rng);
+    const event = shockEvent(hazard, i, severity, state.day, state.baseCurrency);
+    state.appliedEvents.push(applyLifeEvent(state, event, ctx, 'stochastic'));
+    state.shockCount++;
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Goal-seek tests — parameter paths, bracketing, and convergence on smooth and step metrics.
+ */
+import { describe, expect, it } from 'vitest';
+import { goalSeek, readParameter, withParameter } from './solver.js';
+import type { SimulationInput, SolveRequest } from '@future-wallet/shared-types';
+
+const RENT_ID = '22222222-2222-2222-2222-222222222222';
+
+const INPUT: SimulationInput = {
+  seed: 42,
+  horizonDays: 60,
+  baseCurrency: 'USD',
+  initialBalance: 1000,
+  incomeStreams: [
+    {
+      id: '11111111-1111-1111-1111-111111111111',
+      name: 'Salary',
+      amount: 3000,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+    },
+  ],
+  expenses: [
+    {
+      id: RENT_ID,
+      name: 'Rent',
+      amount: 1500,
+      currency: 'USD',
+      recurrence: 'monthly',
+      startDay: 0,
+      essential: true,
+    },
+  ],
+  assets: [],
+  liabilities: [],
+  exchangeRates: [],
+  monteCarloConfig: { runs: 1, perturbationFactor: 0 },
+};
+
+function request(overrides: Partial<SolveRequest>): SolveRequest {
+  return {
+    input: INPUT,
+    parameter: 'initialBalance',
+    metric: 'expectedFinalBalance',
+    target: 0,
+    bounds: { min: 0, max: 10000 },
+    maxIterations: 40,
+    ...overrides,
+  };
+}
+
+describe('parameter paths', () => {
+  it('reads fields by name, item id and item index', () => {
+    expect(readParameter(INPUT, 'initialBalance')).toBe(1000);
+    expect(readParameter(INPUT, `expenses.${RENT_ID}.amount`)).toBe(1500);
+    expect(readParameter(INPUT, 'incomeStreams.0.amount')).toBe(3000);
+    expect(readParameter(INPUT, 'monteCarloConfig.runs')).toBe(1);
+  });
+
+  it('writes a copy and leaves the input unchanged', () => {
+    const updated = withParameter(INPUT, `expenses.${RENT_ID}.amount`, 2000);
+    expect(updated.expenses[0].amount).toBe(2000);
+    expect(updated.incomeStreams).toBe(INPUT.incomeStreams);
+    expect(INPUT.expenses[0].amount).toBe(1500);
+  });
+
+  it('rejects unknown and non-numeric paths', () => {
+    expect(() => readParameter(INPUT, 'expenses.nope.amount')).toThrow(/Unknown parameter/);
+    expect(() => readParameter(INPUT, 'incomeStreams.3.amount')).toThrow(/Unknown parameter/);
+    expect(() => withParameter(INPUT, 'baseCurrency', 1)).toThrow(/not a numeric field/);
+  });
+});
+
+describe('goalSeek', () => {
+  it('solves a smooth metric', () => {
+    // Salary and rent fall due on Jan 1, Feb 1 and Mar 1: final balance = initialBalance + 4500
+    const solved = goalSeek(request({ target: 12000 }));
+
+    expect(solved.converged).toBe(true);
+    expect(solved.value).toBeCloseTo(7500, 6);
+    expect(solved.achieved).toBeCloseTo(12000, 6);
+    expect(solved.result.finalBalance.expected).toBe(solved.achieved);
+    // The metric is linear, so the first secant step lands on the answer
+    expect(solved.iterations[2].value).toBeCloseTo(7500, 6);
+  });
+
+  it('finds the edge of a step-shaped metric', () => {
+    // Rent above 10000 / 3 overdraws the account on Mar 1 (1000 + 3 × 3000 − 3 × rent)
+    const solved = goalSeek(
+      request({
+        parameter: `expenses.${RENT_ID}.amount`,
+        metric: 'collapseProbability',
+        target: 0,
+        bounds: { min: 1000, max: 6000 },
+        valueTolerance: 0.01,
+      }),
+    );
+
+    expect(solved.converged).toBe(true);
+    expect(solved.achieved).toBe(0);
+    expect(solved.value).toBeLessThanOrEqual(10000 / 3);
+    expect(solved.value).toBeGreaterThan(10000 / 3 - 0.02);
+  });
+
+  it('reports the nearer bound when the target is out of reach', () => {
+    const solved = goalSeek(request({ target: 50000 }));
+
+    expect(solved.converged).toBe(false);
+    expect(solved.value).toBe(10000);
+    expect(solved.iterations).toHaveLength(2);
+  });
+
+  it('is deterministic', () => {
+    const req = request({ target: 12345, maxIterations: 5 });
+    expect(goalSeek(req).iterations).toEqual(goalSeek(req).iterations);
+  });
+
+  it('throws for a parameter that is not a numeric field', () => {
+    expect(() => goalSeek(request({ parameter: 'expenses' }))).toThrow(/not a numeric field/);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Goal-seek solver — finds the value of one input parameter at which an
+ * output metric crosses a target ("how much rent before collapse?").
+ *
+ * Every evaluation runs simulate() with the input's own seed, so a solve is
+ * deterministic. The search keeps a bracket whose ends lie on opposite sides
+ * of the target and narrows it with false-position (secant) steps. When the
+ * same end survives twice its residual is halved (the Illinois method) so
+ * both ends keep moving; a step that would leave the bracket bisects
+ * instead. Step-shaped metrics such as collapseProbability converge to the
+ * edge of the step.
+ */
+import type {
+  SimulationInput,
+  SimulationOutput,
+  SolveIteration,
+  SolveMetric,
+  SolveRequest,
+  SolveResult,
+} from '@future-wallet/shared-types';
+import type { ComponentRegistry } from './components.js';
+import { simulate } from './engine.js';
+
+/** Default bracket width at which a solve stops, relative to the bounds' width */
+export const DEFAULT_RELATIVE_VALUE_TOLERANCE = 1e-6;
+
+/**
+ * Resolves one path segment against an object or array. Array items match
+ * by `id` first, then by index.
+ */
+function locate(node: unknown, segment: string, path: string): string | number {
+  if (Array.isArray(node)) {
+    const byId = node.findIndex(
+      (item) => typeof item === 'object' && item !== null && item.id === segment,
+    );
+    if (byId !== -1) return byId;
+    if (/^\d+$/.test(segment) && Number(segment) < node.length) return Number(segment);
+  } else if (typeof node === 'object' && node !== null && segment in node) {
+    return segment;
+  }
+  throw new Error(`Unknown parameter "${path}": no "${segment}"`);
+}
+
+function child(node: unknown, key: string | number): unknown {
+  return (node as Record<string | number, unknown>)[key];
+}
+
+/**
+ * Reads the numeric input field at `path` (see SolveRequestSchema).
+ *
+ * @throws Error if the path does not exist or does not end at a number
+ */
+export function readParameter(input: SimulationInput, path: string): number {
+  let node: unknown = input;
+  for (const segment of path.split('.')) {
+    node = child(node, locate(node, segment, path));
+  }
+  if (typeof node !== 'number') {
+    throw new Error(`Parameter "${path}" is not a numeric field`);
+  }
+  return node;
+}
+
+function setIn(node: unknown, segments: string[], value: number, path: string): unknown {
+  const [segment, ...rest] = segments;
+  const key = locate(node, segment, path);
+  const next = rest.length === 0 ? value : setIn(child(node, key), rest, value, path);
+  if (Array.isArray(node)) {
+    return node.map((item, i) => (i === key ? next : item));
+  }
+  return { ...(node as object), [key]: next };
+}
+
+/**
+ * Copy of `input` with the numeric field at `path` set to `value`; the
+ * input itself is left unchanged.
+ *
+ * @throws Error if the path does not exist or does not end at a number
+ */
+export function withParameter(
+  input: SimulationInput,
+  path: string,
+  value: number,
+): SimulationInput {
+  readParameter(input, path);
+  return setIn(input, path.split('.'), value, path) as SimulationInput;
+}
+
+/** The value of `metric` in a simulation output */
+export function solveMetric(output: SimulationOutput, metric: SolveMetric): number {
+  switch (metric) {
+    case 'expectedFinalBalance':
+      return output.finalBalance.expected;
+    case 'p5FinalBalance':
+      return output.finalBalance.p5;
+    case 'collapseProbability':
+      return output.collapseProbability;
+    case 'finalCreditScore':
+      return output.finalCreditScore;
+  }
+}
+
+interface Evaluation {
+  value: number;
+  metric: number;
+  /** metric − target */
+  residual: number;
+  result: SimulationOutput;
+}
+
+function isAbove(point: Evaluation): boolean {
+  return point.residual > 0;
+}
+
+/** The evaluation nearer the target; ties go to the one not above it */
+function closest(a: Evaluation, b: Evaluation): Evaluation {
+  const da = Math.abs(a.residual);
+  const db = Math.abs(b.residual);
+  if (da !== db) return da < db ? a : b;
+  return isAbove(a) ? b : a;
+}
+
+export interface GoalSeekOptions {
+  /** Day components to run instead of the built-ins */
+  components?: ComponentRegistry;
+}
+
+/**
+ * Searches `request.bounds` for the parameter value at which the metric
+ * crosses `request.target`. Returns the evaluated value nearest the target.
+ * `converged` is false when the metric lies on the same side of the target
+ * at both bounds, or the iteration budget ran out first.
+ *
+ * @throws Error if `request.parameter` is not a numeric input field
+ */
+export function goalSeek(request: SolveRequest, options: GoalSeekOptions = {}): SolveResult {
+  const { input, parameter, metric, target, bounds, maxIterations } = request;
+  const valueTolerance =
+    request.valueTolerance ?? (bounds.max - bounds.min) * DEFAULT_RELATIVE_VALUE_TOLERANCE;
+  readParameter(input, parameter);
+
+  const iterations: SolveIteration[] = [];
+  const evaluate = (value: number): Evaluation => {
+    const result = simulate(withParameter(input, parameter, value), options);
+    const achieved = solveMetric(result, metric);
+    iterations.push({ value, metric: achieved });
+    return { value, metric: achieved, residual: achieved - target, result };
+  };
+
+  let low = evaluate(bounds.min);
+  let high = evaluate(bounds.max);
+  let converged = false;
+
+  if (isAbove(low) !== isAbove(high)) {
+    // Residuals used for the secant step; halved while their end goes stale
+    let lowWeight = low.residual;
+    let highWeight = high.residual;
+    let lastKept: 'low' | 'high' | null = null;
+
+    for (let i = 0; i < maxIterations && high.value - low.value > valueTolerance; i++) {
+      let value = high.value - (highWeight * (high.value - low.value)) / (highWeight - lowWeight);
+      if (!(value > low.value && value < high.value)) value = (low.value + high.value) / 2;
+
+      const point = evaluate(value);
+      if (isAbove(point) === isAbove(low)) {
+        low = point;
+        lowWeight = point.residual;
+        if (lastKept === 'high') highWeight /= 2;
+        lastKept = 'high';
+      } else {
+        high = point;
+        highWeight = point.residual;
+        if (lastKept === 'low') lowWeight /= 2;
+        lastKept = 'low';
+      }
+    }
+    converged = high.value - low.value <= valueTolerance;
+  }
+
+  const best = closest(low, high);
+  return {
+    parameter,
+    metric,
+    target,
+    value: best.value,
+    achieved: best.metric,
+    converged,
+    iterations,
+    result: best.result,
+  };
+}
@@ -4,6 +4,7 @@
  */
 import Decimal from 'decimal.js';
 import type {
+  AppliedEvent,
   Asset,
   CurrencyCode,
   DailySnapshot,
@@ -11,10 +12,15 @@ import type {
   ExchangeRate,
   IncomeStream,
   Liability,
+  LifeEvent,
   PetState,
+  ShockConfig,
+  SimulationInput,
   TaxConfig,
   VibeState,
 } from '@future-wallet/shared-types';
+import { openLoans, type LoanState } from './amortization.js';
+import { DEFAULT_START_DATE } from './calendar.js';
 
 // Configure Decimal.js for financial precision
 Decimal.set({ precision: 20, rounding: Decimal.ROUND_HALF_EVEN });
@@ -24,20 +30,49 @@ function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj)) as T;
 }
 
+/**
+ * One open purchase lot of an asset position. `fraction` is the lot's share
+ * of the current position value; fractions of an asset's lots sum to 1.
+ */
+export interface PositionLot {
+  fraction: number;
+  /** Remaining cost basis of the lot, in the asset's currency */
+  costBasis: number;
+}
+
 export interface SimulationState {
   day: number;
+  /** Calendar date of day 0 (YYYY-MM-DD) */
+  startDate: string;
   balance: Decimal;
   baseCurrency: CurrencyCode;
   assets: Asset[];
   liabilities: Liability[];
+  /** Repayment state per liability id (accrued interest, payments applied) */
+  loans: Record<string, LoanState>;
   incomeStreams: IncomeStream[];
   expenses: Expense[];
   exchangeRates: ExchangeRate[];
   taxConfig: TaxConfig | undefined;
+  /** Scheduled life events, applied on their day */
+  events: LifeEvent[];
+  /** Hazards for randomly drawn shocks, if any */
+  shockConfig: ShockConfig | undefined;
+  /** Suspended income stream ids → day income resumes (null: never) */
+  incomeSuspensions: Record<string, number | null>;
+  /** Events applied so far, in order */
+  appliedEvents: AppliedEvent[];
   creditScore: number;
+  /** Lifetime net realized gain (proceeds − cost basis) from asset sales */
   totalRealizedGains: Decimal;
-  /** Running total of realized gains for the current day (reset each day) */
+  /** Net realized gain/loss for the current day (reset each day) */
   dailyRealizedGains: Decimal;
+  /** Year-to-date net realized gain/loss for capital gains offsetting */
+  annualRealizedGains: Decimal;
+  /** Unused capital losses carried forward from prior tax years */
+  capitalLossCarryForward: Decimal;
+  /** Open purchase lots per asset id, oldest first */
+  positionLots: Record<string, PositionLot[]>;
   /** Cumulative annual income for progressive tax bracket placement */
   cumulativeAnnualIncome: Decimal;
   shockCount: number;
@@ -46,6 +81,55 @@ export interface SimulationState {
   collapseDay: number | null;
 }
 
+/**
+ * Builds the opening lots for each asset: explicit `lots` weighted by their
+ * start values, otherwise a single lot at `costBasis` (default: `value`).
+ */
+export function initialPositionLots(assets: Asset[]): Record<string, PositionLot[]> {
+  const lots: Record<string, PositionLot[]> = {};
+  for (const asset of assets) {
+    const totalWeight = asset.lots?.reduce((sum, lot) => sum + lot.value, 0) ?? 0;
+    if (asset.lots && totalWeight > 0) {
+      lots[asset.id] = asset.lots.map((lot) => ({
+        fraction: lot.value / totalWeight,
+        costBasis: lot.costBasis,
+      }));
+    } else {
+      lots[asset.id] = [{ fraction: 1, costBasis: asset.costBasis ?? asset.value }];
+    }
+  }
+  return lots;
+}
+
+/**
+ * Sells `fraction` of an asset position, consuming lots first-in-first-out.
+ * Remaining lots are re-weighted so their fractions again sum to 1.
+ *
+ * @returns The cost basis (asset currency) of the portion sold
+ */
+export function consumeLots(lots: PositionLot[], fraction: number): number {
+  let remaining = Math.min(1, Math.max(0, fraction));
+  let basisSold = 0;
+
+  while (remaining > 0 && lots.length > 0) {
+    const lot = lots[0];
+    const take = Math.min(lot.fraction, remaining);
+    const basisTaken = lot.fraction > 0 ? lot.costBasis * (take / lot.fraction) : 0;
+    basisSold += basisTaken;
+    lot.costBasis -= basisTaken;
+    lot.fraction -= take;
+    remaining -= take;
+    if (lot.fraction <= 1e-12) lots.shift();
+  }
+
+  const left = lots.reduce((sum, lot) => sum + lot.fraction, 0);
+  if (left > 0) {
+    for (const lot of lots) lot.fraction /= left;
+  }
+
+  return basisSold;
+}
+
 /**
  * Creates the initial simulation state from inputs.
  */
@@ -58,20 +142,33 @@ export function createInitialState(params: {
   expenses: Expense[];
   exchangeRates: ExchangeRate[];
   taxConfig?: TaxConfig;
+  events?: LifeEvent[];
+  shockConfig?: ShockConfig;
+  startDate?: string;
 }): SimulationState {
+  const startDate = params.startDate ?? DEFAULT_START_DATE;
   return {
     day: 0,
+    startDate,
     balance: new Decimal(params.initialBalance),
     baseCurrency: params.baseCurrency,
     assets: deepClone(params.assets),
     liabilities: deepClone(params.liabilities),
+    loans: openLoans(params.liabilities, 0, startDate),
     incomeStreams: deepClone(params.incomeStreams),
     expenses: deepClone(params.expenses),
     exchangeRates: deepClone(params.exchangeRates),
     taxConfig: params.taxConfig ? deepClone(params.taxConfig) : undefined,
+    events: deepClone(params.events ?? []),
+    shockConfig: params.shockConfig ? deepClone(params.shockConfig) : undefined,
+    incomeSuspensions: {},
+    appliedEvents: [],
     creditScore: 650, // starting credit score
     totalRealizedGains: new Decimal(0),
     dailyRealizedGains: new Decimal(0),
+    annualRealizedGains: new Decimal(0),
+    capitalLossCarryForward: new Decimal(0),
+    positionLots: initialPositionLots(params.assets),
     cumulativeAnnualIncome: new Decimal(0),
     shockCount: 0,
     recoveryDays: 0,
@@ -80,11 +177,22 @@ export function createInitialState(params: {
   };
 }
 
+/**
+ * Outstanding debt across all liabilities: principal plus interest accrued
+ * since each liability's last payment.
+ */
+export function outstandingDebt(state: SimulationState): number {
+  return state.liabilities.reduce(
+    (sum, l) => sum + l.principal + (state.loans[l.id]?.accruedInterest ?? 0),
+    0,
+  );
+}
+
 /**
  * Converts the mutable internal state to an immutable DailySnapshot for output.
  */
 export function stateToSnapshot(state: SimulationState, dateStr: string): DailySnapshot {
-  const totalDebt = state.liabilities.reduce((sum, l) => sum + l.principal, 0);
+  const totalDebt = outstandingDebt(state);
   const assetNAV = state.assets.reduce((sum, a) => sum + a.value, 0);
   const liquidAssets = state.assets
     .filter((a) => a.type === 'liquid' && !a.locked)
@@ -108,6 +216,7 @@ export function stateToSnapshot(state: SimulationState, dateStr: string): DailyS
     shockResilienceIndex: sri,
     taxPaid: 0, // filled per-day during step
     capitalGainsTax: 0, // filled per-day during step
+    realizedGain: state.dailyRealizedGains.toNumber(),
   };
 }
 
@@ -147,11 +256,68 @@ export function snapshotState(state: SimulationState): SimulationState {
       balance: undefined,
       totalRealizedGains: undefined,
       dailyRealizedGains: undefined,
+      annualRealizedGains: undefined,
+      capitalLossCarryForward: undefined,
       cumulativeAnnualIncome: undefined,
     } as unknown as SimulationState),
     balance: new Decimal(state.balance.toString()),
     totalRealizedGains: new Decimal(state.totalRealizedGains.toString()),
     dailyRealizedGains: new Decimal(state.dailyRealizedGains.toString()),
+    annualRealizedGains: new Decimal(state.annualRealizedGains.toString()),
+    capitalLossCarryForward: new Decimal(state.capitalLossCarryForward.toString()),
     cumulativeAnnualIncome: new Decimal(state.cumulativeAnnualIncome.toString()),
   };
 }
+
+/**
+ * Component collections a branch may replace when forking a mid-run state.
+ */
+export type StateOverrides = Partial<
+  Pick<
+    SimulationInput,
+    | 'incomeStreams'
+    | 'expenses'
+    | 'assets'
+    | 'liabilities'
+    | 'exchangeRates'
+    | 'taxConfig'
+    | 'events'
+    | 'shockConfig'
+  >
+>;
+
+/**
+ * Forks a mid-run state for branching.
+ *
+ * Everything that evolved up to the fork point (balance, asset values,
+ * liability principal, credit score, tax-year income, deficit counters)
+ * is carried over; any collection present in `overrides` replaces the
+ * corresponding one in the fork.
+ */
+export function forkState(state: SimulationState, overrides: StateOverrides = {}): SimulationState {
+  const fork = snapshotState(state);
+  if (overrides.incomeStreams) fork.incomeStreams = deepClone(overrides.incomeStreams);
+  if (overrides.expenses) fork.expenses = deepClone(overrides.expenses);
+  if (overrides.assets) {
+    fork.assets = deepClone(overrides.assets);
+    fork.positionLots = initialPositionLots(overrides.assets);
+  }
+  if (overrides.liabilities) {
+    fork.liabilities = deepClone(overrides.liabilities);
+    // Replaced liabilities are re-amortized from the fork day; payment history is kept
+    fork.loans = openLoans(overrides.liabilities, fork.day, fork.startDate);
+    for (const [id, loan] of Object.entries(fork.loans)) {
+      loan.payments = state.loans[id]?.payments.map((row) => ({ ...row })) ?? [];
+    }
+  }
+  if (overrides.exchangeRates) fork.exchangeRates = deepClone(overrides.exchangeRates);
+  if ('taxConfig' in overrides) {
+    fork.taxConfig = overrides.taxConfig ? deepClone(overrides.taxConfig) : undefined;
+  }
+  // Events already applied stay applied; replaced events only take effect from the fork day
+  if (overrides.events) fork.events = deepClone(overrides.events);
+  if ('shockConfig' in overrides) {
+    fork.shockConfig = overrides.shockConfig ? deepClone(overrides.shockConfig) : undefined;
+  }
+  return fork;
+}
@@ -3,7 +3,13 @@
  */
 import { describe, expect, it } from 'vitest';
 import Decimal from 'decimal.js';
-import { computeProgressiveTax, computeCapitalGainsTax, computeDailyTax } from './tax.js';
+import {
+  computeProgressiveTax,
+  computeCapitalGainsTax,
+  computeDailyCapitalGainsTax,
+  computeDailyTax,
+  rollLossCarryForward,
+} from './tax.js';
 import type { TaxConfig } from '@future-wallet/shared-types';
 
 const STANDARD_TAX_CONFIG: TaxConfig = {
@@ -129,6 +135,59 @@ describe('computeCapitalGainsTax', () => {
   });
 });
 
+describe('computeDailyCapitalGainsTax', () => {
+  it('taxes a gain with no prior activity at the flat rate', () => {
+    const tax = computeDailyCapitalGainsTax(
+      new Decimal(1000),
+      new Decimal(0),
+      new Decimal(0),
+      STANDARD_TAX_CONFIG,
+    );
+    expect(tax.toNumber()).toBe(150);
+  });
+
+  it('lets a year-to-date loss absorb a later gain', () => {
+    const tax = computeDailyCapitalGainsTax(
+      new Decimal(1000),
+      new Decimal(-600),
+      new Decimal(0),
+      STANDARD_TAX_CONFIG,
+    );
+    expect(tax.toNumber()).toBe(60); // (1000 - 600) * 0.15
+  });
+
+  it('trues up previously taxed gains when a loss follows', () => {
+    const tax = computeDailyCapitalGainsTax(
+      new Decimal(-400),
+      new Decimal(1000),
+      new Decimal(0),
+      STANDARD_TAX_CONFIG,
+    );
+    expect(tax.toNumber()).toBe(-60);
+  });
+
+  it('applies carried-forward losses before taxing', () => {
+    const tax = computeDailyCapitalGainsTax(
+      new Decimal(1000),
+      new Decimal(0),
+      new Decimal(1500),
+      STANDARD_TAX_CONFIG,
+    );
+    expect(tax.toNumber()).toBe(0);
+  });
+});
+
+describe('rollLossCarryForward', () => {
+  it('carries a net annual loss into the next year', () => {
+    expect(rollLossCarryForward(new Decimal(-500), new Decimal(0)).toNumber()).toBe(500);
+  });
+
+  it('uses up carry-forward against net gains', () => {
+    expect(rollLossCarryForward(new Decimal(300), new Decimal(1000)).toNumber()).toBe(700);
+    expect(rollLossCarryForward(new Decimal(3000), new Decimal(1000)).toNumber()).toBe(0);
+  });
+});
+
 describe('computeDailyTax', () => {
   it('returns zero for zero daily income and no gains', () => {
     const result = computeDailyTax(
@@ -3,7 +3,8 @@
  *
  * Implements:
  * - Progressive income tax brackets (marginal rate per bracket)
- * - Capital gains tax on realized asset sales
+ * - Capital gains tax on realized asset sales (proceeds − cost basis)
+ * - Realized losses offsetting gains within a tax year, with carry-forward
  * - All calculations use Decimal.js for financial precision
  *
  * Per spec Section 2.3: "Support for progressive brackets and the
@@ -79,6 +80,43 @@ export function computeCapitalGainsTax(realizedGains: Decimal, config: TaxConfig
   return realizedGains.times(new Decimal(config.capitalGainsRate));
 }
 
+/**
+ * Computes the marginal capital gains tax for one day's net realized gain/loss.
+ *
+ * Losses offset gains within the tax year: the taxable amount is the
+ * year-to-date net realized gain less any loss carried forward from prior
+ * years, floored at zero. Today's tax is the change in tax on that amount,
+ * so a loss after taxed gains in the same year yields a negative true-up.
+ *
+ * @param dailyNetGain - Net realized gain (negative for a loss) this day
+ * @param annualNetGain - Year-to-date net realized gain before today
+ * @param lossCarryForward - Unused losses carried in from prior years
+ * @param config - Tax configuration with capitalGainsRate
+ */
+export function computeDailyCapitalGainsTax(
+  dailyNetGain: Decimal,
+  annualNetGain: Decimal,
+  lossCarryForward: Decimal,
+  config: TaxConfig,
+): Decimal {
+  const taxableBefore = annualNetGain.minus(lossCarryForward);
+  const taxableAfter = annualNetGain.plus(dailyNetGain).minus(lossCarryForward);
+  return computeCapitalGainsTax(taxableAfter, config).minus(
+    computeCapitalGainsTax(taxableBefore, config),
+  );
+}
+
+/**
+ * Rolls the capital loss carry-forward into the next tax year.
+ *
+ * @param annualNetGain - Net realized gain for the year that just ended
+ * @param lossCarryForward - Losses that were carried into that year
+ * @returns Unused losses to carry into the next year
+ */
+export function rollLossCarryForward(annualNetGain: Decimal, lossCarryForward: Decimal): Decimal {
+  return Decimal.max(0, lossCarryForward.minus(annualNetGain));
+}
+
 /**
  * Computes daily tax obligations.
  *
@@ -86,9 +124,11 @@ export function computeCapitalGainsTax(realizedGains: Decimal, config: TaxConfig
  * Capital gains tax is applied immediately on the day of realization.
  *
  * @param dailyIncome - Income earned this day (already in base currency)
- * @param dailyRealizedGains - Gains realized from asset sales this day
+ * @param dailyRealizedGains - Net gain (negative for a loss) realized from asset sales this day
  * @param cumulativeAnnualIncome - Running total of income this year (for bracket placement)
  * @param config - Tax configuration
+ * @param annualRealizedGains - Year-to-date net realized gain before today
+ * @param lossCarryForward - Unused capital losses carried in from prior years
  * @returns TaxResult with income tax, capital gains tax, and total
  */
 export function computeDailyTax(
@@ -96,6 +136,8 @@ export function computeDailyTax(
   dailyRealizedGains: Decimal,
   cumulativeAnnualIncome: Decimal,
   config: TaxConfig,
+  annualRealizedGains: Decimal = new Decimal(0),
+  lossCarryForward: Decimal = new Decimal(0),
 ): TaxResult {
   // Marginal income tax for today's income:
   // Tax on (cumulative + today) - Tax on (cumulative) = marginal tax for today
@@ -103,7 +145,12 @@ export function computeDailyTax(
   const taxWithoutToday = computeProgressiveTax(cumulativeAnnualIncome, config);
   const incomeTax = taxWithToday.minus(taxWithoutToday);
 
-  const capitalGainsTax = computeCapitalGainsTax(dailyRealizedGains, config);
+  const capitalGainsTax = computeDailyCapitalGainsTax(
+    dailyRealizedGains,
+    annualRealizedGains,
+    lossCarryForward,
+    config,
+  );
 
   return {
     incomeTax,